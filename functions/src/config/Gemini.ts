@@ -2,22 +2,27 @@
  * Deck - Gemini Configuration
  * @file GeminiConfig.ts
  * @description This module initializes the Google Generative AI SDK using an API key
+ * and exposes it as an `EmbeddingProvider`.
  *
  * Methods:
- * - embedDeck: Embeds a deck's title and description using the Google Generative AI service.
+ * - embedDocument: Embeds a deck's title and description using the Google Generative AI service.
  * - embedQuery: Embeds a query using the Google Generative AI service.
  *
+ * Every deck embedding is tagged with `Gemini.EMBEDDING_MODEL`, so decks embedded by
+ * an older model or dimensionality can be found and re-embedded.
+ *
  * External Dependencies:
  * - @google/genai: Google Generative AI SDK for server-side operations.
  *
  * @author Arthur M. Artugue
  * @created 2025-05-11
- * @updated 2025-05-22
+ * @updated 2026-10-19
  */
 
 import {GoogleGenAI} from "@google/genai";
 import * as dotenv from "dotenv";
 import {ApiError} from "../helpers/apiError";
+import {EmbeddingProvider} from "../interface/EmbeddingProvider";
 
 dotenv.config();
 
@@ -25,7 +30,27 @@ dotenv.config();
  * Class responsible for initializing and managing the Google Generative AI SDK
  * for server-side operations, such as authentication and Firestore database access.
  */
-export class Gemini {
+export class Gemini implements EmbeddingProvider {
+  /**
+   * The embedding model used for decks and queries.
+   */
+  static readonly MODEL = "gemini-embedding-exp-03-07";
+
+  /**
+   * The number of dimensions of every embedding.
+   */
+  static readonly DIMENSIONS = 768;
+
+  /**
+   * The model/version tag stored next to every deck embedding.
+   * Changing the model or the dimensions changes the tag, marking existing embeddings as outdated.
+   */
+  static readonly EMBEDDING_MODEL = `${Gemini.MODEL}@${Gemini.DIMENSIONS}`;
+
+  readonly modelId = Gemini.EMBEDDING_MODEL;
+
+  readonly dimensions = Gemini.DIMENSIONS;
+
   /**
    * API key for authenticating requests to Google Generative AI services.
    * Fetched from the environment variables for security.
@@ -54,19 +79,20 @@ export class Gemini {
   /**
    * Embeds a decks' title and description using the Google Generative AI service.
    * @param {string} titleAndDescription - The text to be embedded.
-   * @return {Promise<any>} A promise that resolves with the embedding response.
+   * @return {Promise<number[]>} A promise that resolves with the embedding vector.
    */
-  protected embedDeck = async (titleAndDescription: string): Promise<any> => {
+  public async embedDocument(titleAndDescription: string): Promise<number[]> {
+    let values: number[] | undefined;
     try {
       const response = await this.genAi.models.embedContent({
-        model: "gemini-embedding-exp-03-07",
+        model: Gemini.MODEL,
         contents: [titleAndDescription],
         config: {
           taskType: "RETRIEVAL_DOCUMENT",
-          outputDimensionality: 768,
+          outputDimensionality: Gemini.DIMENSIONS,
         },
       });
-      return response;
+      values = response.embeddings?.[0]?.values;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error:any) {
       throw new ApiError(
@@ -75,24 +101,30 @@ export class Gemini {
         {errorCode: "DECK_EMBEDDING_ERROR", message: error.message}
       );
     }
-  };
+
+    if (!values) {
+      throw new ApiError("The embedding service returned no embedding for the deck.", 500, {errorCode: "DECK_EMBEDDING_ERROR"});
+    }
+    return values;
+  }
 
   /**
    * Embeds a query using the Google Generative AI service.
    * @param {string} query - The query to be embedded.
-   * @return {Promise<any>} A promise that resolves with the embedding response.
+   * @return {Promise<number[]>} A promise that resolves with the embedding vector.
    */
-  protected embedQuery = async (query: string): Promise<any> => {
+  public async embedQuery(query: string): Promise<number[]> {
+    let values: number[] | undefined;
     try {
       const response = await this.genAi.models.embedContent({
-        model: "gemini-embedding-exp-03-07",
+        model: Gemini.MODEL,
         contents: [query],
         config: {
           taskType: "RETRIEVAL_QUERY",
-          outputDimensionality: 768,
+          outputDimensionality: Gemini.DIMENSIONS,
         },
       });
-      return response;
+      values = response.embeddings?.[0]?.values;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error:any) {
       throw new ApiError(
@@ -101,5 +133,10 @@ export class Gemini {
         {errorCode: "QUERY_EMBEDDING_ERROR", message: error.message}
       );
     }
-  };
+
+    if (!values) {
+      throw new ApiError("The embedding service returned no embedding for the query.", 500, {errorCode: "QUERY_EMBEDDING_ERROR"});
+    }
+    return values;
+  }
 }
@@ -0,0 +1,70 @@
+/**
+ * Deck Manager API - Deck Taxonomy Configuration
+ *
+ * @file deckTaxonomy.ts
+ * This module defines the subject taxonomy of decks. Every deck belongs to at most one category
+ * from the controlled list below, and carries up to `MAX_DECK_TAGS` free-form tags. Tags are
+ * normalized before they are stored (see `Utils.normalizeTag`), so `Cell Biology` and `cell-biology`
+ * are the same tag.
+ *
+ * Adding a category only requires adding it here with its label; removing one leaves the decks
+ * already filed under it unreachable from the category filter.
+ *
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+export const DECK_CATEGORIES = [
+  "mathematics",
+  "science",
+  "computer_science",
+  "engineering",
+  "medicine",
+  "languages",
+  "literature",
+  "history",
+  "geography",
+  "social_sciences",
+  "philosophy",
+  "law",
+  "business",
+  "arts",
+  "music",
+  "test_prep",
+  "general_knowledge",
+  "other",
+] as const;
+
+export type DeckCategory = typeof DECK_CATEGORIES[number];
+
+export const DECK_CATEGORY_LABELS: Record<DeckCategory, string> = {
+  mathematics: "Mathematics",
+  science: "Science",
+  computer_science: "Computer Science",
+  engineering: "Engineering",
+  medicine: "Medicine & Health",
+  languages: "Languages",
+  literature: "Literature",
+  history: "History",
+  geography: "Geography",
+  social_sciences: "Social Sciences",
+  philosophy: "Philosophy & Religion",
+  law: "Law",
+  business: "Business & Economics",
+  arts: "Arts & Design",
+  music: "Music",
+  test_prep: "Test Preparation",
+  general_knowledge: "General Knowledge",
+  other: "Other",
+};
+
+/**
+ * The maximum number of tags of a deck.
+ */
+export const MAX_DECK_TAGS = 10;
+
+/**
+ * The maximum length of a normalized tag.
+ */
+export const MAX_TAG_LENGTH = 30;
@@ -0,0 +1,55 @@
+/**
+ * Deck Manager API - Embedding Provider Configuration
+ *
+ * @file embeddingProvider.ts
+ * This module selects the embedding provider used by the API from the environment.
+ *
+ * - EMBEDDING_PROVIDER=gemini: Uses Gemini (requires GEMINI_API_KEY).
+ * - EMBEDDING_PROVIDER=local: Uses the offline, deterministic hashed bag-of-words provider.
+ * - Unset: Uses Gemini when GEMINI_API_KEY is set. Under the Firebase emulator without a key,
+ *   falls back to the local provider so the API works with no network.
+ *
+ * Embeddings of different providers are not comparable; every deck records the provider
+ * model that embedded it, and the re-embedding backfill converts decks after a switch.
+ *
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import * as dotenv from "dotenv";
+import {logger} from "firebase-functions";
+import {Gemini} from "./Gemini";
+import {EmbeddingProvider} from "../interface/EmbeddingProvider";
+import {LocalEmbeddingProvider} from "../services/embedding/LocalEmbeddingProvider";
+
+dotenv.config();
+
+/**
+ * Creates the embedding provider configured in the environment.
+ *
+ * @return {EmbeddingProvider} The embedding provider.
+ * @throws {Error} Throws when EMBEDDING_PROVIDER is unknown, or when Gemini is selected without an API key.
+ */
+export const createEmbeddingProvider = (): EmbeddingProvider => {
+  const provider = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+
+  if (provider === "local") {
+    return new LocalEmbeddingProvider();
+  }
+
+  if (provider === "gemini") {
+    return new Gemini();
+  }
+
+  if (provider) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}". Expected "gemini" or "local".`);
+  }
+
+  if (!process.env.GEMINI_API_KEY && process.env.FUNCTIONS_EMULATOR === "true") {
+    logger.warn("GEMINI_API_KEY is not set, using the local embedding provider.");
+    return new LocalEmbeddingProvider();
+  }
+
+  return new Gemini();
+};
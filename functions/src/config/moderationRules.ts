@@ -0,0 +1,104 @@
+/**
+ * Deck Manager API - Moderation Rules Configuration
+ *
+ * @file moderationRules.ts
+ * This module loads the rules of the local moderation engine from the environment, on top of
+ * the defaults below.
+ *
+ * - MODERATION_BLOCKLIST: Comma-separated words or phrases, added to the default blocklist.
+ * - MODERATION_PATTERNS: JSON object of rule names to regular expressions, e.g. {"promo_code": "\\bPROMO\\d+\\b"}.
+ * - MODERATION_DETECT_URLS=false: Allows links in decks.
+ * - MODERATION_DETECT_PII=false: Allows email addresses and phone numbers in decks.
+ * - MODERATION_MAX_TITLE_LENGTH, MODERATION_MAX_DESCRIPTION_LENGTH, MODERATION_MAX_TERM_LENGTH,
+ *   MODERATION_MAX_DEFINITION_LENGTH: Maximum length of each field.
+ * - MODERATION_AUTO_APPROVE=true: Approves decks passing the local rules when the external
+ *   moderation service is not configured or unreachable.
+ * - MODERATION_DUPLICATE_WARN_THRESHOLD: Similarity (0 to 1) from which a public deck is reported as
+ *   a likely duplicate and publishing waits for a moderator.
+ * - MODERATION_DUPLICATE_BLOCK_THRESHOLD: Similarity from which publishing a duplicate is rejected;
+ *   a value above 1 never rejects.
+ *
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import * as dotenv from "dotenv";
+import {ModerationRules} from "../interface/Moderation";
+
+dotenv.config();
+
+export const DEFAULT_MODERATION_RULES: ModerationRules = {
+  blocklist: ["fuck", "shit", "bitch", "cunt", "porn", "xxx"],
+  patterns: [],
+  detectUrls: true,
+  detectPII: true,
+  maxLength: {title: 100, description: 1000, term: 500, definition: 2000},
+  autoApprove: false,
+  duplicateWarnThreshold: 0.85,
+  duplicateBlockThreshold: 0.95,
+};
+
+/**
+ * Reads a positive integer from the environment.
+ *
+ * @param {string} name - The name of the environment variable.
+ * @param {number} fallback - The value used when the variable is unset or invalid.
+ * @return {number} The value of the variable.
+ */
+const readLength = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Reads a positive number from the environment.
+ *
+ * @param {string} name - The name of the environment variable.
+ * @param {number} fallback - The value used when the variable is unset or invalid.
+ * @return {number} The value of the variable.
+ */
+const readThreshold = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Loads the moderation rules configured in the environment.
+ *
+ * @return {ModerationRules} The moderation rules.
+ * @throws {Error} Throws when MODERATION_PATTERNS is not a JSON object of valid regular expressions.
+ */
+export const loadModerationRules = (): ModerationRules => {
+  const defaults = DEFAULT_MODERATION_RULES;
+  const blocklist = (process.env.MODERATION_BLOCKLIST ?? "")
+    .split(",")
+    .map((word) => word.trim().toLowerCase())
+    .filter((word) => word.length > 0);
+
+  let patterns = defaults.patterns;
+  if (process.env.MODERATION_PATTERNS) {
+    try {
+      const parsed = JSON.parse(process.env.MODERATION_PATTERNS) as Record<string, string>;
+      patterns = Object.entries(parsed).map(([name, source]) => ({name, pattern: new RegExp(source, "i")}));
+    } catch (error) {
+      throw new Error(`Invalid MODERATION_PATTERNS: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    blocklist: [...new Set([...defaults.blocklist, ...blocklist])],
+    patterns,
+    detectUrls: process.env.MODERATION_DETECT_URLS !== "false",
+    detectPII: process.env.MODERATION_DETECT_PII !== "false",
+    maxLength: {
+      title: readLength("MODERATION_MAX_TITLE_LENGTH", defaults.maxLength.title),
+      description: readLength("MODERATION_MAX_DESCRIPTION_LENGTH", defaults.maxLength.description),
+      term: readLength("MODERATION_MAX_TERM_LENGTH", defaults.maxLength.term),
+      definition: readLength("MODERATION_MAX_DEFINITION_LENGTH", defaults.maxLength.definition),
+    },
+    autoApprove: process.env.MODERATION_AUTO_APPROVE === "true",
+    duplicateWarnThreshold: readThreshold("MODERATION_DUPLICATE_WARN_THRESHOLD", defaults.duplicateWarnThreshold),
+    duplicateBlockThreshold: readThreshold("MODERATION_DUPLICATE_BLOCK_THRESHOLD", defaults.duplicateBlockThreshold),
+  };
+};
@@ -0,0 +1,29 @@
+/**
+ * Deck Manager API - Trash Retention Configuration
+ *
+ * @file trashRetention.ts
+ * This module loads the number of days a soft-deleted deck stays in the trash before the
+ * `purge_deleted_decks` job deletes it permanently.
+ *
+ * - TRASH_RETENTION_DAYS: A positive number of days (defaults to 30).
+ *
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Loads the trash retention period configured in the environment.
+ *
+ * @return {number} The number of days a deleted deck is kept.
+ */
+export const loadTrashRetentionDays = (): number => {
+  const value = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_TRASH_RETENTION_DAYS;
+};
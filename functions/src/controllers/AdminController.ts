@@ -0,0 +1,223 @@
+/**
+ * Deck Manager API - Admin Controller
+ *
+ * @file AdminController.ts
+ * This module defines the controller for the moderation overrides of admins and moderators.
+ * The routes are guarded by the `requireRole` middleware, so every request reaching this
+ * controller comes from a user holding the required platform role.
+ *
+ * Methods:
+ * - unpublishDeck: Makes any public deck private.
+ * - restoreDeck: Restores any soft-deleted deck.
+ * - hardDeleteDeck: Permanently deletes any deck.
+ * - setUserRole: Assigns the platform role of a user.
+ * - getAuditLogs: Retrieves the admin audit log.
+ *
+ * @module controller
+ * @file AdminController.ts
+ * @class AdminController
+ * @classdesc Handles admin-related HTTP requests and delegates to AdminService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ZodError} from "zod";
+import {AdminService} from "../services/AdminService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {AdminActor} from "../interface/UserRole";
+import {ApiError} from "../helpers/apiError";
+import {getUserRole} from "../middleware/requireRole";
+import {adminOverrideSchema, auditLogQuerySchema, setUserRoleSchema} from "../schema/adminSchema";
+
+/**
+ * Class responsible for handling the moderation overrides of admins and moderators.
+ */
+export class AdminController {
+  /**
+   * Service instance responsible for handling admin-related operations.
+   */
+  private adminService: AdminService;
+
+  /**
+   * Initializes the AdminController with an AdminService instance.
+   *
+   * @param {AdminService} adminService - The service handling admin operations.
+   */
+  constructor(adminService: AdminService) {
+    this.adminService = adminService;
+  }
+
+  /**
+   * Handles the request to make a public deck private.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and an optional reason.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async unpublishDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const actor = this.getActor(req);
+    const {deckID} = req.params;
+
+    const validation = adminOverrideSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const deck = await this.adminService.unpublishDeck(actor, deckID, validation.data.reason ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck was successfully unpublished");
+    baseResponse.setData(deck);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to restore a soft-deleted deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and an optional reason.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async restoreDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const actor = this.getActor(req);
+    const {deckID} = req.params;
+
+    const validation = adminOverrideSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const deck = await this.adminService.restoreDeck(actor, deckID, validation.data.reason ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck was successfully restored");
+    baseResponse.setData(deck);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to permanently delete a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and an optional reason.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async hardDeleteDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const actor = this.getActor(req);
+    const {deckID} = req.params;
+
+    const validation = adminOverrideSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    await this.adminService.hardDeleteDeck(actor, deckID, validation.data.reason ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck was permanently deleted");
+    baseResponse.setData(null);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to assign the platform role of a user.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the user ID, the role and an optional reason.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async setUserRole(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const actor = this.getActor(req);
+    const {userID} = req.params;
+
+    const validation = setUserRoleSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {role, reason} = validation.data;
+    const result = await this.adminService.setUserRole(actor, userID, role, reason ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("User role was successfully updated");
+    baseResponse.setData(result);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve the admin audit log.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the pagination and target filter in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getAuditLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    this.getActor(req);
+
+    const validation = auditLogQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {limit, nextPageToken, targetID} = validation.data;
+    const logs = await this.adminService.getAuditLogs(limit, nextPageToken ?? null, targetID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Audit logs were successfully retrieved");
+    baseResponse.setData(logs);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Resolves the user performing the request and their platform role.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @return {AdminActor} The user ID and the role of the user.
+   * @throws {ApiError} Throws 401 when the user ID is missing.
+   */
+  private getActor(req: AuthenticatedRequest): AdminActor {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    return {user_id: userID, role: getUserRole(req.user)};
+  }
+
+  /**
+   * Maps the validation errors of an admin request to an API error.
+   *
+   * @param {ZodError} error - The validation error.
+   * @return {ApiError} A 400 error listing the invalid fields.
+   */
+  private toValidationError(error: ZodError): ApiError {
+    const errorList = error.errors.map(({path, message}) => {
+      const field = path[0] as string;
+      const code = field === "role" ? "INVALID_USER_ROLE" :
+        field === "reason" ? "INVALID_REASON" :
+          field === "limit" ? "INVALID_LIMIT" :
+            "VALIDATION_ERROR";
+      return {field, code, message};
+    });
+    return new ApiError("Admin request validation failed", 400, {errorList});
+  }
+}
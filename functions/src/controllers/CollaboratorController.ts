@@ -0,0 +1,189 @@
+/**
+ * Deck Manager API - Collaborator Controller
+ *
+ * @file CollaboratorController.ts
+ * This module defines the controller for managing the collaborators of a deck.
+ * It validates the incoming requests and delegates the invitations, role changes
+ * and removals to the CollaboratorService.
+ *
+ * Methods:
+ * - getCollaborators: Lists the owner and the collaborators of a deck.
+ * - addCollaborator: Invites a user to a deck with a role.
+ * - updateCollaboratorRole: Changes the role of a collaborator.
+ * - removeCollaborators: Removes one or more collaborators from a deck.
+ *
+ * @module controller
+ * @file CollaboratorController.ts
+ * @class CollaboratorController
+ * @classdesc Handles collaborator-related HTTP requests and delegates to CollaboratorService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ZodError} from "zod";
+import {CollaboratorService} from "../services/CollaboratorService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {addCollaboratorSchema, removeCollaboratorsSchema, updateCollaboratorSchema} from "../schema/collaboratorSchema";
+
+/**
+ * Class responsible for handling the collaborators of decks.
+ */
+export class CollaboratorController {
+  /**
+   * Service instance responsible for handling collaborator-related operations.
+   */
+  private collaboratorService: CollaboratorService;
+
+  /**
+   * Initializes the CollaboratorController with a CollaboratorService instance.
+   *
+   * @param {CollaboratorService} collaboratorService - The service handling collaborator operations.
+   */
+  constructor(collaboratorService: CollaboratorService) {
+    this.collaboratorService = collaboratorService;
+  }
+
+  /**
+   * Handles the request to list the collaborators of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getCollaborators(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const collaborators = await this.collaboratorService.getCollaborators(userID, deckID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Collaborators were successfully retrieved");
+    baseResponse.setData(collaborators);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to invite a user to a deck.
+   * Validates the user ID or email and the role from the request body.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the invitation.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async addCollaborator(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = addCollaboratorSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {role, ...invitee} = validation.data;
+    const collaborator = await this.collaboratorService.addCollaborator(userID, deckID, invitee, role);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Collaborator was successfully added");
+    baseResponse.setData(collaborator);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to change the role of a collaborator.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID, the collaborator ID and the role.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async updateCollaboratorRole(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID, userID: collaboratorID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = updateCollaboratorSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const collaborator = await this.collaboratorService.updateCollaboratorRole(userID, deckID, collaboratorID, validation.data.role);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Collaborator was successfully updated");
+    baseResponse.setData(collaborator);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to remove one or more collaborators from a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the user IDs in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async removeCollaborators(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = removeCollaboratorsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const result = await this.collaboratorService.removeCollaborators(userID, deckID, validation.data.userIDs);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Collaborators were successfully removed");
+    baseResponse.setData(result);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Maps the validation errors of a collaborator request to an API error.
+   *
+   * @param {ZodError} error - The validation error.
+   * @return {ApiError} A 400 error listing the invalid fields.
+   */
+  private toValidationError(error: ZodError): ApiError {
+    const errorList = error.errors.map(({path, message}) => {
+      const field = path[0] as string;
+      const code = field === "role" ? "INVALID_COLLABORATOR_ROLE" :
+        field === "userID" ? "INVALID_COLLABORATOR_USER" :
+          field === "email" ? "INVALID_COLLABORATOR_EMAIL" :
+            field === "userIDs" ? "INVALID_COLLABORATOR_IDS" :
+              "VALIDATION_ERROR";
+      return {field, code, message};
+    });
+    return new ApiError("Collaborator validation failed", 400, {errorList});
+  }
+}
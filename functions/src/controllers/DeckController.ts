@@ -10,12 +10,23 @@
  * for request parameters and body is also handled here.
  *
  * Methods:
- * - getOwnerDecks: Retrieves decks owned by the authenticated user, with pagination.
- * - getPublicDecks: Retrieves all public (non-private) decks, with pagination.
+ * - getOwnerDecks: Retrieves decks owned by the authenticated user, with pagination and tag/category filters.
+ * - getPublicDecks: Retrieves all public (non-private) decks, with pagination and tag/category filters.
+ * - searchDeck: Searches decks by keyword, by embedding similarity or both, with pagination and tag/category filters.
+ * - suggestDecks: Suggests past queries and deck titles starting with a prefix.
+ * - getCategories: Lists the deck categories with their labels.
+ * - getTagCloud: Counts the tags and categories of the public decks or of the user's decks.
  * - getSpecifiDeck: Retrieves a specific deck by its ID.
+ * - getRelatedDecks: Retrieves the public decks most similar to a deck.
  * - createDeck: Creates a new deck with validated title, description, and cover photo URL.
+ * - forkDeck: Copies a public or owned deck and its flashcards into a new private deck of the user.
  * - updateDeck: Updates an existing deck's details (title, description, privacy, cover photo, deletion status) by its ID.
+ *   Making a deck public creates a publish request instead (see PublishRequestService).
+ * - updateDeckTags: Replaces the tags of a deck.
+ * - updateDeckCategory: Replaces or clears the category of a deck.
  * - deleteDeck: Deletes one or more decks specified by their IDs for the authenticated user.
+ * - restoreDeletedDeck: Takes a soft-deleted deck out of the trash.
+ * - emptyTrash: Permanently deletes every soft-deleted deck of the authenticated user.
  *
  * @module controller
  * @file DeckController.ts
@@ -23,7 +34,7 @@
  * @classdesc Handles HTTP request routing and processing for deck-related operations, coordinating with the DeckService.
  * @author Arthur M. Artugue
  * @created 2024-03-30
- * @updated 2025-05-22
+ * @updated 2026-10-19
  */
 import {Request, Response} from "express";
 import {DeckService} from "../services/DeckService";
@@ -31,10 +42,15 @@ import {BaseResponse} from "../models/BaseResponse";
 import {ErrorResponse} from "../models/ErrorResponse";
 import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
 import {createDeckSchema} from "../schema/createDeckSchema";
+import {forkDeckSchema} from "../schema/forkDeckSchema";
 import {ApiError} from "../helpers/apiError";
 import {FirebaseAdmin} from "../config/FirebaseAdmin";
-import {callFirebaseAIAPI} from "../helpers/callDeckAiAPI";
-import {DeckRepository} from "../repositories/DeckRepository";
+import {PublishRequestService} from "../services/PublishRequestService";
+import {SEARCH_FILTERS, SEARCH_MODES, SearchFilter, SearchMode} from "../interface/Search";
+import {DeckTaxonomyFilter} from "../interface/Deck";
+import {DECK_CATEGORIES, DeckCategory} from "../config/deckTaxonomy";
+import {tagCloudSchema, updateDeckCategorySchema, updateDeckTagsSchema} from "../schema/deckTaxonomySchema";
+import {Utils} from "../utils/utils";
 
 /**
  * Class responsible for initializing and managing the services related to deck
@@ -47,19 +63,26 @@ export class DeckController {
    */
   private deckService: DeckService;
 
+  /**
+   * Service instance responsible for the requests to publish decks.
+   */
+  private publishRequestService: PublishRequestService;
+
   /**
    * Initializes the DeckController with a DeckService instance.
    * Also initializes the regex pattern for Firebase Storage URL validation.
    *
    * @param {DeckService} deckService - The service handling deck data operations.
+   * @param {PublishRequestService} publishRequestService - The service handling publish requests.
    */
-  constructor(deckService: DeckService) {
+  constructor(deckService: DeckService, publishRequestService: PublishRequestService) {
     this.deckService = deckService;
+    this.publishRequestService = publishRequestService;
   }
 
   /**
    * Handles the request to fetch all decks that an owner owns.
-   * Validates query parameters (limit) and uses DeckService for retrieval.
+   * Validates query parameters (limit, tag, category) and uses DeckService for retrieval.
    * Responds with paginated deck data or an error.
    *
    * @param {AuthenticatedRequest} req - The HTTP request object, potentially including authenticated user info.
@@ -102,8 +125,11 @@ export class DeckController {
       );
     }
 
+    // Get the tag and category filters if provided
+    const taxonomy = this.parseTaxonomyFilter(req);
+
     // Call service method
-    const decks = await this.deckService.getOwnerDeck(userID, limit, nextPageToken, orderBy);
+    const decks = await this.deckService.getOwnerDeck(userID, limit, nextPageToken, orderBy, taxonomy);
 
     // Send success response
     baseResponse.setStatus(200);
@@ -116,7 +142,7 @@ export class DeckController {
 
   /**
    * Handles the request to fetch all decks that are not private (are published).
-   * Validates query parameters (limit) and uses DeckService for retrieval.
+   * Validates query parameters (limit, tag, category) and uses DeckService for retrieval.
    * Responds with paginated public deck data or an error.
    *
    * @param {AuthenticatedRequest} req - The HTTP request object.
@@ -140,8 +166,11 @@ export class DeckController {
     // Get pagination token if provided
     const nextPageToken = req.query.nextPageToken ? (req.query.nextPageToken as string) : null;
 
+    // Get the tag and category filters if provided
+    const taxonomy = this.parseTaxonomyFilter(req);
+
     // Call service method
-    const decks = await this.deckService.getPublicDecks(limit, nextPageToken);
+    const decks = await this.deckService.getPublicDecks(limit, nextPageToken, taxonomy);
 
     // Send success response
     baseResponse.setStatus(200);
@@ -252,8 +281,8 @@ export class DeckController {
 
   /**
    * Handles the request to search for decks based on a search query.
-   * Validates query parameters (searchQuery, limit) and uses DeckService for retrieval.
-   * Responds with paginated deck data or an error.
+   * Validates query parameters (searchQuery, filter, mode, limit, tag, category) and uses DeckService for retrieval.
+   * Responds with a page of the matching decks and their relevance scores or an error.
    *
    * @param {Request} req - The HTTP request object containing search parameters.
    * @param {Response} res - The HTTP response object.
@@ -261,21 +290,41 @@ export class DeckController {
    */
   public async searchDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
     const baseResponse = new BaseResponse();
-    const limit = 10;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
     const userID = req.user?.user_id;
 
+    // Validate limit parameter
+    if (isNaN(limit) || (limit < 1 || limit > 50)) {
+      throw new ApiError(
+        "Invalid limit value. It must be a positive number between 1 and 50.",
+        400,
+        {limit, errorCode: "INVALID_LIMIT_VALUE"}
+      );
+    }
+
+    // Get pagination token if provided
+    const nextPageToken = req.query.nextPageToken ? (req.query.nextPageToken as string) : null;
+
     // Determine filter
-    const filters = ["MY_DECKS", "SAVED_DECKS", "PUBLIC_DECKS", "DELETED_DECKS"];
-    const filter = req.query.filter as string;
-    const searchFilter = filters.includes(filter) ? filter : "PUBLIC_DECKS";
-    if (!filters.includes(filter)) {
+    const filter = req.query.filter as SearchFilter;
+    if (!SEARCH_FILTERS.includes(filter)) {
       throw new ApiError(
-        `Invalid filter value. Allowed filters: ${filters.join(", ")}`,
+        `Invalid filter value. Allowed filters: ${SEARCH_FILTERS.join(", ")}`,
         400,
         {filter, errorCode: "INVALID_FILTER_VALUE"}
       );
     }
 
+    // Determine mode, hybrid by default
+    const mode = (req.query.mode ?? "hybrid") as SearchMode;
+    if (!SEARCH_MODES.includes(mode)) {
+      throw new ApiError(
+        `Invalid search mode. Allowed modes: ${SEARCH_MODES.join(", ")}`,
+        400,
+        {mode, errorCode: "INVALID_SEARCH_MODE"}
+      );
+    }
+
     // Validate search query
     const searchQuery = req.query.searchQuery as string;
     const searchQueryRegex = /^[a-zA-Z0-9\s]+$/;
@@ -287,8 +336,11 @@ export class DeckController {
       );
     }
 
+    // Get the tag and category filters if provided
+    const taxonomy = this.parseTaxonomyFilter(req);
+
     // Call service method
-    const decks = await this.deckService.searchDeck(userID, searchQuery, limit, searchFilter);
+    const decks = await this.deckService.searchDeck(userID, searchQuery, limit, filter, mode, nextPageToken, taxonomy);
 
     // Send success response
     baseResponse.setStatus(200);
@@ -299,6 +351,147 @@ export class DeckController {
     return;
   }
 
+  /**
+   * Handles the request to suggest completions while the user types a search query.
+   * Validates query parameters (prefix, limit) and uses DeckService for retrieval.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the prefix.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async suggestDecks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const baseResponse = new BaseResponse();
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 8;
+    const userID = req.user?.user_id;
+
+    // Validate limit parameter
+    if (isNaN(limit) || (limit < 1 || limit > 20)) {
+      throw new ApiError(
+        "Invalid limit value. It must be a positive number between 1 and 20.",
+        400,
+        {limit, errorCode: "INVALID_LIMIT_VALUE"}
+      );
+    }
+
+    // Validate prefix
+    const prefix = req.query.prefix;
+    if (typeof prefix !== "string" || prefix.trim() === "" || prefix.length > 100) {
+      throw new ApiError(
+        "The prefix should be a non-empty string of at most 100 characters.",
+        400,
+        {prefix, errorCode: "INVALID_PREFIX"}
+      );
+    }
+
+    // Call service method
+    const suggestions = await this.deckService.suggestDecks(userID, prefix, limit);
+
+    // Send success response
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Successfuly retrieved suggestions");
+    baseResponse.setData(suggestions);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to list the deck categories of the taxonomy.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getCategories(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Successfuly retrieved categories");
+    baseResponse.setData(this.deckService.getCategories());
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to count the tags and categories of the public decks or of the user's decks.
+   * Validates query parameters (scope, limit) and uses DeckService for retrieval.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the scope and limit in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getTagCloud(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+
+    const validation = tagCloudSchema.safeParse(req.query);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => {
+        const field = path[0] as string;
+        const code = field === "scope" ? "INVALID_SCOPE_VALUE" :
+          field === "limit" ? "INVALID_LIMIT_VALUE" :
+            "VALIDATION_ERROR";
+        return {field, code, message};
+      });
+      throw new ApiError("Tag cloud validation failed", 400, {errorList});
+    }
+
+    const {scope, limit} = validation.data;
+    const cloud = await this.deckService.getTagCloud(userID, scope, limit);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Successfuly retrieved tags");
+    baseResponse.setData(cloud);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to fetch the public decks most similar to a deck.
+   * Validates query parameters (limit, excludeSameOwner) and uses DeckService for retrieval.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deckID parameter.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getRelatedDecks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const baseResponse = new BaseResponse();
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 6;
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    // Validate limit parameter
+    if (isNaN(limit) || (limit < 1 || limit > 20)) {
+      throw new ApiError(
+        "Invalid limit value. It must be a positive number between 1 and 20.",
+        400,
+        {limit, errorCode: "INVALID_LIMIT_VALUE"}
+      );
+    }
+
+    // Validate excludeSameOwner
+    const excludeSameOwner = req.query.excludeSameOwner ?? "false";
+    if (excludeSameOwner !== "true" && excludeSameOwner !== "false") {
+      throw new ApiError(
+        "Invalid excludeSameOwner value. It must be either true or false.",
+        400,
+        {excludeSameOwner, errorCode: "INVALID_EXCLUDE_SAME_OWNER"}
+      );
+    }
+
+    // Call service method
+    const decks = await this.deckService.getRelatedDecks(userID, deckID, limit, excludeSameOwner === "true");
+
+    // Send success response
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Successfuly retrieved related decks");
+    baseResponse.setData(decks);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
   /**
    * Handles the request to fetch a specific deck by its ID.
    * Uses DeckService for retrieval based on the deck ID from URL parameters.
@@ -351,7 +544,7 @@ export class DeckController {
 
   /**
    * Handles the request to create a new deck.
-   * Validates required fields (deckTitle, deckDescription, coverPhoto) from the request body.
+   * Validates required fields (deckTitle, deckDescription, coverPhoto) and the optional tags and category from the request body.
    * Uses DeckService to create the deck for the authenticated user.
    * Responds with the created deck data or an error.
    *
@@ -382,6 +575,12 @@ export class DeckController {
             "INVALID_DECK_COVERPHOTO_TYPE" :
             "INVALID_DECK_COVERPHOTO_URL";
           break;
+        case "tags":
+          code = "INVALID_DECK_TAGS";
+          break;
+        case "category":
+          code = "INVALID_DECK_CATEGORY";
+          break;
         default:
           code = "VALIDATION_ERROR";
         }
@@ -396,11 +595,11 @@ export class DeckController {
     }
 
     // Extract validated data
-    const {title, description, coverPhoto, flashcards} = validation.data;
+    const {title, description, coverPhoto, flashcards, tags, category} = validation.data;
     const userID = req.user?.user_id;
 
     // Call service method
-    const deck = await this.deckService.createDeck(title, userID, coverPhoto, description, flashcards);
+    const deck = await this.deckService.createDeck(title, userID, coverPhoto, description, flashcards, {tags, category});
 
     const baseResponse = new BaseResponse();
     baseResponse.setStatus(201);
@@ -411,6 +610,47 @@ export class DeckController {
     return;
   }
 
+  /**
+   * Handles the request to fork a deck.
+   * Validates the optional title, description and cover photo overrides from the request body
+   * and responds with the new private deck owned by the authenticated user.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the optional overrides.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async forkDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = forkDeckSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => {
+        const field = path[0] as string;
+        const code = field === "title" ? "INVALID_DECK_TITLE" :
+          field === "description" ? "INVALID_DECK_DESCRIPTION" :
+            field === "coverPhoto" ? "INVALID_DECK_COVERPHOTO_URL" :
+              "VALIDATION_ERROR";
+        return {field, code, message};
+      });
+      throw new ApiError("Deck fork validation failed", 400, {errorList});
+    }
+
+    const deck = await this.deckService.forkDeck(userID, deckID, validation.data);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Deck was successfully forked");
+    baseResponse.setData(deck);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
   /**
    * Handles the request to save a deck.
    * Validates required fields (deckID) from the request body.
@@ -622,29 +862,14 @@ export class DeckController {
         if (isPrivate === true) {
           updateData.is_private = isPrivate;
         } else if (isPrivate === false) {
-          // If the deck is being set to private, check if there is a pending publish request
-          const deckRepo = new DeckRepository();
-          const hasPending = await deckRepo.hasPendingPublishRequest(deckID);
-          if (hasPending) {
-            throw new ApiError(
-              "A publish request for this deck is already pending.",
-              400,
-              {errorCode: "PUBLISH_REQUEST_ALREADY_PENDING", message: "A pending publish request already exists for this deck."}
-            );
-          }
-
-          // If deck is being published call the moderation endpoint
-          const accessToken = (req.headers as { authorization: string }).authorization;
-
-          const url = "https://deck-ai-api-taglvgaoma-uc.a.run.app/v2/deck/moderate/";
-          const reqBody = {
-            deckId: deckID,
-          };
-          callFirebaseAIAPI(userID, accessToken, url, reqBody);
+          // Publishing goes through a publish request; the deck stays private until a moderator approves it
+          const request = await this.publishRequestService.createPublishRequest(userID, deckID, req.headers.authorization);
 
           baseResponse.setStatus(200);
-          baseResponse.setMessage("Publish Request is Now Pending");
-          baseResponse.setData(null);
+          baseResponse.setMessage(request.mod_verdict === "PENDING" ?
+            "Publish Request is Now Pending" :
+            `Publish request was ${request.mod_verdict.toLowerCase()} by the automated moderation`);
+          baseResponse.setData(request);
 
           res.status(200).json(baseResponse);
           return;
@@ -702,6 +927,9 @@ export class DeckController {
       res.status(200).json(baseResponse);
       return;
     } catch (error) {
+      // Errors raised with their status, such as those of the publish request, are left to the error handler
+      if (error instanceof ApiError) throw error;
+
       console.log(error);
       if (error instanceof Error) {
         errorResponse.setError(error.name);
@@ -727,6 +955,72 @@ export class DeckController {
     }
   }
 
+  /**
+   * Handles the request to replace the tags of a deck.
+   * Validates the tags from the request body; they are normalized and deduplicated before they are stored.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the tags.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async updateDeckTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = updateDeckTagsSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({message}) => ({field: "tags", code: "INVALID_DECK_TAGS", message}));
+      throw new ApiError("Deck tags validation failed", 400, {errorList});
+    }
+
+    const deck = await this.deckService.updateDeckTaxonomy(userID, deckID, {tags: validation.data.tags});
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck tags were successfully updated");
+    baseResponse.setData(deck);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to replace or clear the category of a deck.
+   * Validates the category from the request body against the taxonomy; null clears it.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the category.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async updateDeckCategory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = updateDeckCategorySchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({message}) => ({field: "category", code: "INVALID_DECK_CATEGORY", message}));
+      throw new ApiError("Deck category validation failed", 400, {errorList});
+    }
+
+    const deck = await this.deckService.updateDeckTaxonomy(userID, deckID, {category: validation.data.category});
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck category was successfully updated");
+    baseResponse.setData(deck);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
   /**
    * Handles the request to delete one or more decks.
    * Expects an array of deck IDs in the request body.
@@ -775,6 +1069,57 @@ export class DeckController {
     }
   }
 
+  /**
+   * Handles the request to take a soft-deleted deck out of the trash.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and user info.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async restoreDeletedDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const deck = await this.deckService.restoreDeletedDeck(userID, deckID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck was successfully restored");
+    baseResponse.setData(deck);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to permanently delete every soft-deleted deck of the authenticated user.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing user info.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async emptyTrash(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const result = await this.deckService.emptyTrash(userID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Trash was successfully emptied");
+    baseResponse.setData(result);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
   /**
    * Handles the request to recommend public decks to a user.
    * Validates query parameters (limit) and uses DeckService for retrieval.
@@ -1050,4 +1395,42 @@ export class DeckController {
     res.status(200).json(baseResponse);
     return;
   }
+
+  /**
+   * Reads the optional tag and category filters of a deck listing or search from the query.
+   * The tag is normalized the way tags are stored.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the tag and category in the query.
+   * @return {DeckTaxonomyFilter} The filters present in the query.
+   * @throws {ApiError} Throws INVALID_TAG or INVALID_CATEGORY (400).
+   */
+  private parseTaxonomyFilter(req: AuthenticatedRequest): DeckTaxonomyFilter {
+    const taxonomy: DeckTaxonomyFilter = {};
+    const {tag, category} = req.query;
+
+    if (tag !== undefined) {
+      const normalizedTag = typeof tag === "string" ? Utils.normalizeTag(tag) : "";
+      if (!normalizedTag) {
+        throw new ApiError(
+          "Invalid tag value. It must contain a letter or a digit.",
+          400,
+          {tag, errorCode: "INVALID_TAG"}
+        );
+      }
+      taxonomy.tag = normalizedTag;
+    }
+
+    if (category !== undefined) {
+      if (!DECK_CATEGORIES.includes(category as DeckCategory)) {
+        throw new ApiError(
+          `Invalid category value. Allowed categories: ${DECK_CATEGORIES.join(", ")}`,
+          400,
+          {category, errorCode: "INVALID_CATEGORY"}
+        );
+      }
+      taxonomy.category = category as DeckCategory;
+    }
+
+    return taxonomy;
+  }
 }
@@ -0,0 +1,151 @@
+/**
+ * Deck Manager API - Deck Export Controller
+ *
+ * @file DeckExportController.ts
+ * This module defines the controller for exporting decks to external formats.
+ * It delegates the serialization to the DeckExportService and sends the result
+ * as a file download.
+ *
+ * Methods:
+ * - exportDeck: Streams a deck and its flashcards as JSON, CSV or Markdown.
+ * - exportApkg: Sends a deck and its flashcards as an Anki package (.apkg).
+ *
+ * @module controller
+ * @file DeckExportController.ts
+ * @class DeckExportController
+ * @classdesc Handles deck export HTTP requests and delegates to DeckExportService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {once} from "events";
+import {DeckExportService, ExportedFile} from "../services/DeckExportService";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {exportDeckSchema} from "../schema/exportDeckSchema";
+
+/**
+ * Class responsible for handling the export of decks.
+ */
+export class DeckExportController {
+  /**
+   * Service instance responsible for handling deck exports.
+   */
+  private deckExportService: DeckExportService;
+
+  /**
+   * Initializes the DeckExportController with a DeckExportService instance.
+   *
+   * @param {DeckExportService} deckExportService - The service handling deck exports.
+   */
+  constructor(deckExportService: DeckExportService) {
+    this.deckExportService = deckExportService;
+  }
+
+  /**
+   * Handles the request to export a deck as JSON, CSV or Markdown.
+   * The `format` query parameter selects the format (defaults to `json`); the file is
+   * written to the response chunk by chunk as its flashcards are read, waiting for the
+   * client to drain the response. A failure once the download has started aborts it, and the
+   * export stops as soon as the client disconnects.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the format.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Streams the exported file.
+   */
+  public async exportDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = exportDeckSchema.safeParse(req.query);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => ({
+        field: path[0] as string,
+        code: "INVALID_EXPORT_FORMAT",
+        message,
+      }));
+      throw new ApiError("Deck export validation failed", 400, {errorList});
+    }
+
+    const file = await this.deckExportService.exportDeck(userID, deckID, validation.data.format);
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+    res.status(200);
+    try {
+      for await (const chunk of file.chunks) {
+        // Leaving the loop closes the generator, so no more flashcard pages are read for a gone client
+        if (res.destroyed) return;
+        if (!res.write(chunk) && !(await this.waitForDrain(res))) return;
+      }
+    } catch (error) {
+      // The status line is already sent, the client can only tell from the aborted download
+      if (!res.headersSent) throw error;
+      res.destroy(error as Error);
+      return;
+    }
+    res.end();
+    return;
+  }
+
+  /**
+   * Handles the request to export a deck as an Anki package.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends the .apkg file.
+   */
+  public async exportApkg(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const file = await this.deckExportService.exportApkg(userID, deckID);
+    this.sendFile(res, file);
+    return;
+  }
+
+  /**
+   * Waits for the response to drain, or for the connection to close or fail, whichever comes first.
+   *
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<boolean>} Whether the response drained and can be written to.
+   */
+  private async waitForDrain(res: Response): Promise<boolean> {
+    const abort = new AbortController();
+    try {
+      return await Promise.race([
+        once(res, "drain", {signal: abort.signal}).then(() => true),
+        once(res, "close", {signal: abort.signal}).then(() => false),
+      ]);
+    } catch {
+      // An "error" event rejects the race; the socket is gone either way
+      return false;
+    } finally {
+      // Removes the listener left by the event that did not fire
+      abort.abort();
+    }
+  }
+
+  /**
+   * Sends an exported file as an attachment.
+   *
+   * @param {Response} res - The HTTP response object.
+   * @param {ExportedFile} file - The exported file.
+   * @return {void}
+   */
+  private sendFile(res: Response, file: ExportedFile): void {
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+    res.status(200).send(file.content);
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Deck Manager API - Deck Import Controller
+ *
+ * @file DeckImportController.ts
+ * This module defines the controller for importing decks from external formats.
+ * It validates the incoming requests and delegates the parsing and the creation
+ * of the deck to the DeckImportService.
+ *
+ * Methods:
+ * - importDelimited: Creates a deck and its flashcards from CSV/TSV content.
+ * - importApkg: Creates a deck and its flashcards from an Anki package (.apkg).
+ * - importJson: Creates a deck and its flashcards from a JSON deck export.
+ *
+ * @module controller
+ * @file DeckImportController.ts
+ * @class DeckImportController
+ * @classdesc Handles deck import HTTP requests and delegates to DeckImportService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {DeckImportService} from "../services/DeckImportService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {importApkgSchema, importDeckSchema, importJsonSchema} from "../schema/importDeckSchema";
+
+/**
+ * Class responsible for handling the import of decks.
+ */
+export class DeckImportController {
+  /**
+   * Service instance responsible for handling deck imports.
+   */
+  private deckImportService: DeckImportService;
+
+  /**
+   * Initializes the DeckImportController with a DeckImportService instance.
+   *
+   * @param {DeckImportService} deckImportService - The service handling deck imports.
+   */
+  constructor(deckImportService: DeckImportService) {
+    this.deckImportService = deckImportService;
+  }
+
+  /**
+   * Handles the request to import a deck from CSV/TSV content.
+   * Validates the deck details and the parsing options from the request body and
+   * responds with the created deck and a per-row report.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the content and options in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async importDelimited(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = importDeckSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => {
+        const field = path[0] as string;
+        let code: string;
+
+        switch (field) {
+        case "title":
+          code = message.includes("type") ? "INVALID_DECK_TITLE_TYPE" : "DECK_TITLE_REQUIRED";
+          break;
+        case "description":
+          code = message.includes("type") ? "INVALID_DECK_DESCRIPTION_TYPE" : "DECK_DESCRIPTION_REQUIRED";
+          break;
+        case "coverPhoto":
+          code = message.includes("type") ? "INVALID_DECK_COVERPHOTO_TYPE" : "INVALID_DECK_COVERPHOTO_URL";
+          break;
+        case "content":
+          code = "INVALID_IMPORT_CONTENT";
+          break;
+        case "delimiter":
+          code = "INVALID_IMPORT_DELIMITER";
+          break;
+        case "hasHeader":
+          code = "INVALID_IMPORT_HEADER_FLAG";
+          break;
+        case "termColumn":
+        case "definitionColumn":
+          code = "INVALID_IMPORT_COLUMN";
+          break;
+        default:
+          code = "VALIDATION_ERROR";
+        }
+
+        return {field, code, message};
+      });
+      throw new ApiError("Deck import validation failed", 400, {errorList});
+    }
+
+    const result = await this.deckImportService.importDelimited(userID, validation.data);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Deck was successfully imported");
+    baseResponse.setData(result);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to import a deck from an Anki package.
+   * The package is sent as the raw request body (application/octet-stream); the optional
+   * deck title, description and cover photo are read from the query parameters.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the package in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async importApkg(req: AuthenticatedRequest & {rawBody?: Buffer}, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const content = Buffer.isBuffer(req.body) && req.body.length > 0 ? req.body : req.rawBody;
+    if (!content || content.length === 0) {
+      throw new ApiError("The Anki package is missing. Send the .apkg file as an application/octet-stream body.", 400, {
+        errorCode: "APKG_FILE_REQUIRED",
+      });
+    }
+
+    const validation = importApkgSchema.safeParse(req.query);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => {
+        const field = path[0] as string;
+        const code = field === "title" ? "INVALID_DECK_TITLE" :
+          field === "description" ? "INVALID_DECK_DESCRIPTION" :
+            field === "coverPhoto" ? "INVALID_DECK_COVERPHOTO_URL" :
+              "VALIDATION_ERROR";
+        return {field, code, message};
+      });
+      throw new ApiError("Deck import validation failed", 400, {errorList});
+    }
+
+    const result = await this.deckImportService.importApkg(userID, content, validation.data);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Deck was successfully imported");
+    baseResponse.setData(result);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to import a deck from a JSON deck export.
+   * The request body is the document produced by `GET /v1/decks/:deckID/export?format=json`.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the export document in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async importJson(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = importJsonSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => {
+        const field = path.join(".");
+        const code = path[0] === "schema" ? "INVALID_EXPORT_SCHEMA" :
+          path[0] === "version" ? "UNSUPPORTED_EXPORT_VERSION" :
+            path[0] === "deck" ? "INVALID_EXPORT_DECK" :
+              path[0] === "flashcards" ? "INVALID_EXPORT_FLASHCARDS" :
+                "VALIDATION_ERROR";
+        return {field, code, message};
+      });
+      throw new ApiError("Deck import validation failed", 400, {errorList});
+    }
+
+    const result = await this.deckImportService.importJson(userID, validation.data);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Deck was successfully imported");
+    baseResponse.setData(result);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Deck Manager API - Deck Version Controller
+ *
+ * @file DeckVersionController.ts
+ * This module defines the controller for the version history of decks. It validates the incoming
+ * requests and delegates the listing, comparison and restoration of versions to the DeckVersionService.
+ *
+ * Methods:
+ * - getVersions: Lists the versions of a deck.
+ * - getVersion: Retrieves a version of a deck with its flashcard changes.
+ * - diffVersions: Compares a deck and its flashcards between two versions.
+ * - restoreVersion: Restores a deck and its flashcards to a previous version.
+ *
+ * @module controller
+ * @file DeckVersionController.ts
+ * @class DeckVersionController
+ * @classdesc Handles deck version HTTP requests and delegates to DeckVersionService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ZodError} from "zod";
+import {DeckVersionService} from "../services/DeckVersionService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {deckVersionDiffQuerySchema, deckVersionsQuerySchema, versionNumberSchema} from "../schema/deckVersionSchema";
+
+/**
+ * Class responsible for handling the requests on deck versions.
+ */
+export class DeckVersionController {
+  /**
+   * Service instance responsible for handling deck version operations.
+   */
+  private deckVersionService: DeckVersionService;
+
+  /**
+   * Initializes the DeckVersionController with a DeckVersionService instance.
+   *
+   * @param {DeckVersionService} deckVersionService - The service handling deck version operations.
+   */
+  constructor(deckVersionService: DeckVersionService) {
+    this.deckVersionService = deckVersionService;
+  }
+
+  /**
+   * Handles the request to list the versions of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the pagination in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {deckID} = req.params;
+
+    const validation = deckVersionsQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {limit, nextPageToken} = validation.data;
+    const versions = await this.deckVersionService.getVersions(userID, deckID, limit, nextPageToken ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck versions were successfully retrieved");
+    baseResponse.setData(versions);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve a version of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the version number.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {deckID} = req.params;
+    const version = this.parseVersion(req);
+
+    const record = await this.deckVersionService.getVersion(userID, deckID, version);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck version was successfully retrieved");
+    baseResponse.setData(record);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to compare two versions of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the versions in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async diffVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {deckID} = req.params;
+
+    const validation = deckVersionDiffQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {from, to} = validation.data;
+    const diff = await this.deckVersionService.diffVersions(userID, deckID, from, to ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck versions were successfully compared");
+    baseResponse.setData(diff);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to restore a deck to a previous version.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the version number.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async restoreVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {deckID} = req.params;
+    const version = this.parseVersion(req);
+
+    const result = await this.deckVersionService.restoreVersion(userID, deckID, version);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Deck was successfully restored");
+    baseResponse.setData(result);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Parses the version number of the URL.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @return {number} The version number.
+   * @throws {ApiError} Throws 400 when the version number is not a non-negative integer.
+   */
+  private parseVersion(req: AuthenticatedRequest): number {
+    const validation = versionNumberSchema.safeParse(req.params.version);
+    if (!validation.success) {
+      throw new ApiError("Deck version validation failed", 400, {
+        errorList: validation.error.errors.map(({message}) => ({field: "version", code: "INVALID_VERSION", message})),
+      });
+    }
+    return validation.data;
+  }
+
+  /**
+   * Resolves the user performing the request.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @return {string} The ID of the user.
+   * @throws {ApiError} Throws 401 when the user ID is missing.
+   */
+  private getUserID(req: AuthenticatedRequest): string {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    return userID;
+  }
+
+  /**
+   * Maps the validation errors of a deck version request to an API error.
+   *
+   * @param {ZodError} error - The validation error.
+   * @return {ApiError} A 400 error listing the invalid fields.
+   */
+  private toValidationError(error: ZodError): ApiError {
+    const errorList = error.errors.map(({path, message}) => {
+      const field = path[0] as string;
+      const code = field === "from" || field === "to" ? "INVALID_VERSION" :
+        field === "limit" ? "INVALID_LIMIT_VALUE" :
+          field === "nextPageToken" ? "INVALID_PAGE_TOKEN" :
+            "VALIDATION_ERROR";
+      return {field, code, message};
+    });
+    return new ApiError("Deck version validation failed", 400, {errorList});
+  }
+}
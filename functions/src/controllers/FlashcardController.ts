@@ -15,6 +15,7 @@
  * - createFlashcard: Adds a new flashcard to a specific deck.
  * - updateFlashcard: Updates a specific flashcard by its ID.
  * - deleteFlashcard: Deletes one or more flashcards from a specific deck.
+ * - searchFlashcards: Searches the flashcards of the user's decks, saved decks or public decks.
  *
  * @module FlashcardController
  * @file FlashcardController.ts
@@ -31,6 +32,8 @@ import {BaseResponse} from "../models/BaseResponse";
 import {ErrorResponse} from "../models/ErrorResponse";
 import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
 import {createFlashcardSchema} from "../schema/createFlashcardSchema";
+import {searchFlashcardsSchema} from "../schema/searchFlashcardsSchema";
+import {ApiError} from "../helpers/apiError";
 /**
  * Class responsible for initializing and managing the services related to flashcards
  * management.
@@ -453,4 +456,44 @@ export class FlashcardController {
       }
     }
   }
+
+  /**
+   * Handles the request to search the flashcards of the user's decks, saved decks or public decks.
+   * Validates the query parameters (searchQuery, filter, limit) and uses FlashcardService for retrieval.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the search parameters.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async searchFlashcards(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = searchFlashcardsSchema.safeParse(req.query);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => {
+        const field = path[0] as string;
+        const code = field === "searchQuery" ? "INVALID_SEARCH_QUERY" :
+          field === "filter" ? "INVALID_FILTER_VALUE" :
+            field === "limit" ? "INVALID_LIMIT_VALUE" :
+              "VALIDATION_ERROR";
+        return {field, code, message};
+      });
+      throw new ApiError("Flashcard search validation failed", 400, {errorList});
+    }
+
+    const {searchQuery, filter, limit} = validation.data;
+    const flashcards = await this.flashcardService.searchFlashcards(userID, searchQuery, filter, limit);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Flashcards were successfully retrieved");
+    baseResponse.setData(flashcards);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
 }
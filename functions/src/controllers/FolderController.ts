@@ -0,0 +1,354 @@
+/**
+ * Deck Manager API - Folder Controller
+ *
+ * @file FolderController.ts
+ * This module defines the controller for the folders users organize their decks in. It validates
+ * the incoming requests and delegates the management of folders and of the decks they hold to the
+ * FolderService.
+ *
+ * Methods:
+ * - getFolders: Lists every folder of the user.
+ * - getFolder: Retrieves a folder with its path, its subfolders and its deck count.
+ * - createFolder: Creates a folder.
+ * - updateFolder: Renames and/or moves a folder.
+ * - reorderFolders: Orders the subfolders of a folder, or the root folders.
+ * - deleteFolder: Deletes a folder and its subfolders.
+ * - getFolderDecks: Retrieves a page of the decks of a folder.
+ * - addDecksToFolder: Files decks in a folder, moving them out of their previous folder.
+ * - removeDecksFromFolder: Removes decks from a folder.
+ * - reorderFolderDecks: Orders the decks of a folder.
+ *
+ * @module controller
+ * @file FolderController.ts
+ * @class FolderController
+ * @classdesc Handles folder HTTP requests and delegates to FolderService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ZodError} from "zod";
+import {FolderService} from "../services/FolderService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {
+  createFolderSchema,
+  folderDecksQuerySchema,
+  folderDecksSchema,
+  reorderFolderDecksSchema,
+  reorderFoldersSchema,
+  updateFolderSchema,
+} from "../schema/folderSchema";
+
+/**
+ * Class responsible for handling the requests on folders.
+ */
+export class FolderController {
+  /**
+   * Service instance responsible for handling folder operations.
+   */
+  private folderService: FolderService;
+
+  /**
+   * Initializes the FolderController with a FolderService instance.
+   *
+   * @param {FolderService} folderService - The service handling folder operations.
+   */
+  constructor(folderService: FolderService) {
+    this.folderService = folderService;
+  }
+
+  /**
+   * Handles the request to list the folders of the user.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getFolders(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+
+    const folders = await this.folderService.getFolders(userID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Folders were successfully retrieved");
+    baseResponse.setData(folders);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve a folder.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the folder ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getFolder(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {folderID} = req.params;
+
+    const folder = await this.folderService.getFolder(userID, folderID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Folder was successfully retrieved");
+    baseResponse.setData(folder);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to create a folder.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the name and the optional parent folder in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async createFolder(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+
+    const validation = createFolderSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {name, parentID} = validation.data;
+    const folder = await this.folderService.createFolder(userID, name, parentID ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Folder was successfully created");
+    baseResponse.setData(folder);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to rename and/or move a folder.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the folder ID and the new name or parent folder.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async updateFolder(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {folderID} = req.params;
+
+    const validation = updateFolderSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const folder = await this.folderService.updateFolder(userID, folderID, validation.data);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Folder was successfully updated");
+    baseResponse.setData(folder);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to reorder the subfolders of a folder, or the root folders.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the parent folder and the folder IDs in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async reorderFolders(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+
+    const validation = reorderFoldersSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {parentID, folderIDs} = validation.data;
+    const folders = await this.folderService.reorderFolders(userID, parentID ?? null, folderIDs);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Folders were successfully reordered");
+    baseResponse.setData(folders);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to delete a folder and its subfolders.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the folder ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async deleteFolder(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {folderID} = req.params;
+
+    const summary = await this.folderService.deleteFolder(userID, folderID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Folder was successfully deleted");
+    baseResponse.setData(summary);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve a page of the decks of a folder.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the folder ID and the pagination in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getFolderDecks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {folderID} = req.params;
+
+    const validation = folderDecksQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {limit, nextPageToken} = validation.data;
+    const decks = await this.folderService.getFolderDecks(userID, folderID, limit, nextPageToken ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Successfuly retrieved decks");
+    baseResponse.setData(decks);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to file decks in a folder.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the folder ID and the deck IDs in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async addDecksToFolder(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {folderID} = req.params;
+
+    const validation = folderDecksSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const result = await this.folderService.addDecksToFolder(userID, folderID, validation.data.deckIDs);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Decks were successfully added to the folder");
+    baseResponse.setData(result);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to remove decks from a folder.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the folder ID and the deck IDs in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async removeDecksFromFolder(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {folderID} = req.params;
+
+    const validation = folderDecksSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const result = await this.folderService.removeDecksFromFolder(userID, folderID, validation.data.deckIDs);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Decks were successfully removed from the folder");
+    baseResponse.setData(result);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to reorder the decks of a folder.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the folder ID and the deck IDs in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async reorderFolderDecks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {folderID} = req.params;
+
+    const validation = reorderFolderDecksSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const result = await this.folderService.reorderFolderDecks(userID, folderID, validation.data.deckIDs);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Decks of the folder were successfully reordered");
+    baseResponse.setData(result);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Resolves the user performing the request.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @return {string} The ID of the user.
+   * @throws {ApiError} Throws 401 when the user ID is missing.
+   */
+  private getUserID(req: AuthenticatedRequest): string {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    return userID;
+  }
+
+  /**
+   * Maps the validation errors of a folder request to an API error.
+   *
+   * @param {ZodError} error - The validation error.
+   * @return {ApiError} A 400 error listing the invalid fields.
+   */
+  private toValidationError(error: ZodError): ApiError {
+    const errorList = error.errors.map(({path, message}) => {
+      const field = path[0] as string;
+      const code = field === "name" ? "INVALID_FOLDER_NAME" :
+        field === "parentID" ? "INVALID_PARENT_FOLDER_ID" :
+          field === "folderIDs" ? "INVALID_FOLDER_IDS" :
+            field === "deckIDs" ? "INVALID_DECK_IDS" :
+              field === "limit" ? "INVALID_LIMIT_VALUE" :
+                "VALIDATION_ERROR";
+      return {field, code, message};
+    });
+    return new ApiError("Folder validation failed", 400, {errorList});
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Deck Manager API - Publish Request Controller
+ *
+ * @file PublishRequestController.ts
+ * This module defines the controller for the requests to publish decks. It validates the
+ * incoming requests and delegates their creation, listing, cancellation and review to the
+ * PublishRequestService.
+ *
+ * Methods:
+ * - createPublishRequest: Requests to publish a private deck.
+ * - getPublishRequests: Lists the publish requests of the user.
+ * - getModerationQueue: Lists the pending publish requests for moderators.
+ * - getPublishRequest: Retrieves a publish request.
+ * - cancelPublishRequest: Cancels a pending publish request.
+ * - approvePublishRequest: Approves a pending publish request and publishes the deck.
+ * - rejectPublishRequest: Rejects a pending publish request.
+ *
+ * @module controller
+ * @file PublishRequestController.ts
+ * @class PublishRequestController
+ * @classdesc Handles publish request HTTP requests and delegates to PublishRequestService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ZodError} from "zod";
+import {PublishRequestService} from "../services/PublishRequestService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {AdminActor} from "../interface/UserRole";
+import {ApiError} from "../helpers/apiError";
+import {getUserRole} from "../middleware/requireRole";
+import {
+  approvePublishRequestSchema,
+  createPublishRequestSchema,
+  publishRequestQuerySchema,
+  rejectPublishRequestSchema,
+} from "../schema/publishRequestSchema";
+
+/**
+ * Class responsible for handling the requests to publish decks.
+ */
+export class PublishRequestController {
+  /**
+   * Service instance responsible for handling publish request operations.
+   */
+  private publishRequestService: PublishRequestService;
+
+  /**
+   * Initializes the PublishRequestController with a PublishRequestService instance.
+   *
+   * @param {PublishRequestService} publishRequestService - The service handling publish request operations.
+   */
+  constructor(publishRequestService: PublishRequestService) {
+    this.publishRequestService = publishRequestService;
+  }
+
+  /**
+   * Handles the request to publish a private deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async createPublishRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const {user_id: userID} = this.getActor(req);
+
+    const validation = createPublishRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const request = await this.publishRequestService.createPublishRequest(userID, validation.data.deckID, req.headers.authorization);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage(request.mod_verdict === "PENDING" ?
+      "Publish Request is Now Pending" :
+      `Publish request was ${request.mod_verdict.toLowerCase()} by the automated moderation`);
+    baseResponse.setData(request);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to list the publish requests of the user.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the status filter and pagination in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getPublishRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const {user_id: userID} = this.getActor(req);
+
+    const validation = publishRequestQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {status, limit, nextPageToken} = validation.data;
+    const requests = await this.publishRequestService.getPublishRequests(userID, status, limit, nextPageToken ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Publish requests were successfully retrieved");
+    baseResponse.setData(requests);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to list the pending publish requests of every user.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the pagination in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getModerationQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    this.getActor(req);
+
+    const validation = publishRequestQuerySchema.omit({status: true}).safeParse(req.query);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {limit, nextPageToken} = validation.data;
+    const requests = await this.publishRequestService.getModerationQueue(limit, nextPageToken ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Pending publish requests were successfully retrieved");
+    baseResponse.setData(requests);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve a publish request.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the request ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getPublishRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const actor = this.getActor(req);
+    const {requestID} = req.params;
+
+    const request = await this.publishRequestService.getPublishRequest(actor, requestID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Publish request was successfully retrieved");
+    baseResponse.setData(request);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to cancel a pending publish request.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the request ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async cancelPublishRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const {user_id: userID} = this.getActor(req);
+    const {requestID} = req.params;
+
+    const request = await this.publishRequestService.cancelPublishRequest(userID, requestID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Publish request was successfully cancelled");
+    baseResponse.setData(request);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to approve a pending publish request.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the request ID and an optional reason.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async approvePublishRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const actor = this.getActor(req);
+    const {requestID} = req.params;
+
+    const validation = approvePublishRequestSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const request = await this.publishRequestService.reviewPublishRequest(actor, requestID, "APPROVED", validation.data.reason ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Publish request was approved and the deck is now public");
+    baseResponse.setData(request);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to reject a pending publish request.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the request ID and the reason.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async rejectPublishRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const actor = this.getActor(req);
+    const {requestID} = req.params;
+
+    const validation = rejectPublishRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const request = await this.publishRequestService.reviewPublishRequest(actor, requestID, "REJECTED", validation.data.reason);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Publish request was rejected");
+    baseResponse.setData(request);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Resolves the user performing the request and their platform role.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @return {AdminActor} The user ID and the role of the user.
+   * @throws {ApiError} Throws 401 when the user ID is missing.
+   */
+  private getActor(req: AuthenticatedRequest): AdminActor {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    return {user_id: userID, role: getUserRole(req.user)};
+  }
+
+  /**
+   * Maps the validation errors of a publish request to an API error.
+   *
+   * @param {ZodError} error - The validation error.
+   * @return {ApiError} A 400 error listing the invalid fields.
+   */
+  private toValidationError(error: ZodError): ApiError {
+    const errorList = error.errors.map(({path, message}) => {
+      const field = path[0] as string;
+      const code = field === "deckID" ? "INVALID_DECK_ID" :
+        field === "status" ? "INVALID_PUBLISH_STATUS" :
+          field === "reason" ? "INVALID_REASON" :
+            field === "limit" ? "INVALID_LIMIT" :
+              "VALIDATION_ERROR";
+      return {field, code, message};
+    });
+    return new ApiError("Publish request validation failed", 400, {errorList});
+  }
+}
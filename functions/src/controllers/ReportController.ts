@@ -0,0 +1,184 @@
+/**
+ * Deck Manager API - Report Controller
+ *
+ * @file ReportController.ts
+ * This module defines the controller for the reports filed against public decks. Users report
+ * decks through the deck routes; moderators work through the report queue in the admin routes.
+ *
+ * Methods:
+ * - reportDeck: Files a report against a public deck.
+ * - getReportQueue: Lists the decks with open reports for moderators.
+ * - getDeckReports: Retrieves the report summary and the reports of a deck.
+ * - resolveReports: Dismisses the open reports of a deck or unpublishes it.
+ *
+ * @module controller
+ * @file ReportController.ts
+ * @class ReportController
+ * @classdesc Handles report-related HTTP requests and delegates to ReportService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ZodError} from "zod";
+import {ReportService} from "../services/ReportService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {getUserRole} from "../middleware/requireRole";
+import {createReportSchema, reportQueueSchema, resolveReportsSchema} from "../schema/reportSchema";
+
+/**
+ * Class responsible for handling the reports of decks.
+ */
+export class ReportController {
+  /**
+   * Service instance responsible for handling report-related operations.
+   */
+  private reportService: ReportService;
+
+  /**
+   * Initializes the ReportController with a ReportService instance.
+   *
+   * @param {ReportService} reportService - The service handling report operations.
+   */
+  constructor(reportService: ReportService) {
+    this.reportService = reportService;
+  }
+
+  /**
+   * Handles the request to report a public deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID, the category and an optional comment.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async reportDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = createReportSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {category, comment} = validation.data;
+    const report = await this.reportService.reportDeck(userID, deckID, category, comment ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Deck was successfully reported");
+    baseResponse.setData(report);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to list the decks with open reports.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the pagination in the query.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getReportQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validation = reportQueueSchema.safeParse(req.query);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {limit, nextPageToken} = validation.data;
+    const queue = await this.reportService.getReportQueue(limit, nextPageToken ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Reported decks were successfully retrieved");
+    baseResponse.setData(queue);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve the reports of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getDeckReports(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const {deckID} = req.params;
+
+    const reports = await this.reportService.getDeckReports(deckID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Reports were successfully retrieved");
+    baseResponse.setData(reports);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to resolve the open reports of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID, the resolution and an optional reason.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async resolveReports(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = resolveReportsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const {resolution, reason} = validation.data;
+    const summary = await this.reportService.resolveReports(
+      {user_id: userID, role: getUserRole(req.user)},
+      deckID,
+      resolution,
+      reason ?? null
+    );
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Reports were successfully resolved");
+    baseResponse.setData(summary);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Maps the validation errors of a report request to an API error.
+   *
+   * @param {ZodError} error - The validation error.
+   * @return {ApiError} A 400 error listing the invalid fields.
+   */
+  private toValidationError(error: ZodError): ApiError {
+    const errorList = error.errors.map(({path, message}) => {
+      const field = path[0] as string;
+      const code = field === "category" ? "INVALID_REPORT_CATEGORY" :
+        field === "comment" ? "INVALID_REPORT_COMMENT" :
+          field === "resolution" ? "INVALID_REPORT_RESOLUTION" :
+            field === "reason" ? "INVALID_REASON" :
+              field === "limit" ? "INVALID_LIMIT" :
+                "VALIDATION_ERROR";
+      return {field, code, message};
+    });
+    return new ApiError("Report validation failed", 400, {errorList});
+  }
+}
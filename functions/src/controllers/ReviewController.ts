@@ -0,0 +1,165 @@
+/**
+ * Deck Manager API - Review Controller
+ *
+ * @file ReviewController.ts
+ * This module defines the controller for the spaced-repetition review endpoints.
+ * It validates the incoming requests and delegates the scheduling of reviews
+ * to the ReviewService.
+ *
+ * Methods:
+ * - reviewFlashcard: Records a graded review of a flashcard and returns its next due date.
+ * - getDueFlashcards: Returns the due and new flashcards of a specific deck.
+ * - getStudyQueue: Returns the due and new flashcards across every deck the user studies.
+ *
+ * @module controller
+ * @file ReviewController.ts
+ * @class ReviewController
+ * @classdesc Handles review-related HTTP requests and delegates to ReviewService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ReviewService} from "../services/ReviewService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {reviewFlashcardSchema} from "../schema/reviewFlashcardSchema";
+import {studyQueueSchema} from "../schema/studyQueueSchema";
+
+/**
+ * Class responsible for handling the review of flashcards.
+ */
+export class ReviewController {
+  /**
+   * Service instance responsible for handling review-related operations.
+   */
+  private reviewService: ReviewService;
+
+  /**
+   * Initializes the ReviewController with a ReviewService instance.
+   *
+   * @param {ReviewService} reviewService - The service handling review operations.
+   */
+  constructor(reviewService: ReviewService) {
+    this.reviewService = reviewService;
+  }
+
+  /**
+   * Handles the request to review a flashcard.
+   * Validates the grade and optional algorithm from the request body and
+   * responds with the new review state of the flashcard.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the grade in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async reviewFlashcard(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID, flashcardID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const validation = reviewFlashcardSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => {
+        const field = path[0] as string;
+        const code = field === "grade" ? "INVALID_REVIEW_GRADE" :
+          field === "algorithm" ? "INVALID_REVIEW_ALGORITHM" :
+            "VALIDATION_ERROR";
+        return {field, code, message};
+      });
+      throw new ApiError("Flashcard review validation failed", 400, {errorList});
+    }
+
+    const {grade, algorithm} = validation.data;
+    const reviewState = await this.reviewService.reviewFlashcard(userID, deckID, flashcardID, grade, algorithm);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Flashcard review was successfully recorded");
+    baseResponse.setData(reviewState);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve the study queue of a specific deck.
+   * Validates the optional `newLimit` and `reviewLimit` query parameters.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the limits.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getDueFlashcards(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+    const {deckID} = req.params;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const limits = this.parseStudyLimits(req.query);
+    const queue = await this.reviewService.getDueFlashcards(userID, deckID, limits);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Due flashcards were successfully retrieved");
+    baseResponse.setData(queue);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to retrieve the study queue across every deck the user studies.
+   * Validates the optional `newLimit`, `reviewLimit` and `nextPageToken` query parameters.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the limits.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getStudyQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    const {nextPageToken, ...limits} = this.parseStudyLimits(req.query);
+    const queue = await this.reviewService.getStudyQueue(userID, limits, nextPageToken ?? null);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Study queue was successfully retrieved");
+    baseResponse.setData(queue);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Validates the daily limits of a study queue, and the page token of its due cards.
+   *
+   * @param {object} query - The query parameters of the request.
+   * @return {object} The validated limits and page token.
+   * @throws {ApiError} Throws a 400 error listing the invalid parameters.
+   */
+  private parseStudyLimits(query: object): {newLimit: number, reviewLimit: number, nextPageToken?: string} {
+    const validation = studyQueueSchema.safeParse(query);
+    if (!validation.success) {
+      const errorList = validation.error.errors.map(({path, message}) => ({
+        field: path[0] as string,
+        code: path[0] === "nextPageToken" ? "INVALID_PAGE_TOKEN" : "INVALID_STUDY_LIMIT",
+        message,
+      }));
+      throw new ApiError("Study queue validation failed", 400, {errorList});
+    }
+
+    return validation.data;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Deck Manager API - Share Link Controller
+ *
+ * @file ShareLinkController.ts
+ * This module defines the controller for the share links of decks. It validates the incoming
+ * requests and delegates the management of share links, and the opening of shared decks, to the
+ * ShareLinkService.
+ *
+ * Methods:
+ * - getShareLinks: Lists the share links of a deck.
+ * - createShareLink: Generates a share link for a deck.
+ * - revokeShareLink: Revokes a share link of a deck.
+ * - openShareLink: Retrieves the deck and the flashcards behind a share token.
+ *
+ * @module controller
+ * @file ShareLinkController.ts
+ * @class ShareLinkController
+ * @classdesc Handles share link HTTP requests and delegates to ShareLinkService for business logic.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Response} from "express";
+import {ZodError} from "zod";
+import {ShareLinkService} from "../services/ShareLinkService";
+import {BaseResponse} from "../models/BaseResponse";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {ApiError} from "../helpers/apiError";
+import {createShareLinkSchema} from "../schema/shareLinkSchema";
+
+/**
+ * Class responsible for handling the requests on share links.
+ */
+export class ShareLinkController {
+  /**
+   * Service instance responsible for handling share link operations.
+   */
+  private shareLinkService: ShareLinkService;
+
+  /**
+   * Initializes the ShareLinkController with a ShareLinkService instance.
+   *
+   * @param {ShareLinkService} shareLinkService - The service handling share link operations.
+   */
+  constructor(shareLinkService: ShareLinkService) {
+    this.shareLinkService = shareLinkService;
+  }
+
+  /**
+   * Handles the request to list the share links of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async getShareLinks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {deckID} = req.params;
+
+    const links = await this.shareLinkService.getShareLinks(userID, deckID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Share links were successfully retrieved");
+    baseResponse.setData(links);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to generate a share link for a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the optional expiry and maximum uses in the body.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async createShareLink(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {deckID} = req.params;
+
+    const validation = createShareLinkSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw this.toValidationError(validation.error);
+    }
+
+    const link = await this.shareLinkService.createShareLink(userID, deckID, validation.data);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(201);
+    baseResponse.setMessage("Share link was successfully created");
+    baseResponse.setData(link);
+
+    res.status(201).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to revoke a share link of a deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the deck ID and the share link ID.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async revokeShareLink(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {deckID, linkID} = req.params;
+
+    const link = await this.shareLinkService.revokeShareLink(userID, deckID, linkID);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Share link was successfully revoked");
+    baseResponse.setData(link);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Handles the request to open a shared deck.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object containing the share token.
+   * @param {Response} res - The HTTP response object.
+   * @return {Promise<void>} Sends a JSON response.
+   */
+  public async openShareLink(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userID = this.getUserID(req);
+    const {token} = req.params;
+
+    const shared = await this.shareLinkService.openShareLink(userID, token);
+
+    const baseResponse = new BaseResponse();
+    baseResponse.setStatus(200);
+    baseResponse.setMessage("Shared deck was successfully retrieved");
+    baseResponse.setData(shared);
+
+    res.status(200).json(baseResponse);
+    return;
+  }
+
+  /**
+   * Resolves the user performing the request.
+   *
+   * @param {AuthenticatedRequest} req - The HTTP request object.
+   * @return {string} The ID of the user.
+   * @throws {ApiError} Throws 401 when the user ID is missing.
+   */
+  private getUserID(req: AuthenticatedRequest): string {
+    const userID = req.user?.user_id;
+
+    if (!userID) {
+      throw new ApiError("Unauthorized. Missing user ID.", 401);
+    }
+
+    return userID;
+  }
+
+  /**
+   * Maps the validation errors of a share link request to an API error.
+   *
+   * @param {ZodError} error - The validation error.
+   * @return {ApiError} A 400 error listing the invalid fields.
+   */
+  private toValidationError(error: ZodError): ApiError {
+    const errorList = error.errors.map(({path, message}) => {
+      const field = path[0] as string;
+      const code = field === "expiresAt" ? "INVALID_EXPIRY_DATE" :
+        field === "maxUses" ? "INVALID_MAX_USES" :
+          "VALIDATION_ERROR";
+      return {field, code, message};
+    });
+    return new ApiError("Share link validation failed", 400, {errorList});
+  }
+}
@@ -1,5 +1,6 @@
 /* eslint-disable valid-jsdoc */
 import {callFirebaseFunction} from "../utils/callFirebaseFunction";
+import {ApiError} from "./apiError";
 interface DeckAIRequestData {
   deckId: string;
   [key: string]: unknown;
@@ -14,6 +15,7 @@ interface DeckAIRequestData {
  * @param url - The URL of the external scoring API endpoint.
  * @param data - The data to be sent in the request body, typically containing the deck ID and other relevant information.
  * @returns A promise that resolves to the scoring result, containing the score as a number.
+ * @throws ApiError (MODERATION_SERVICE_UNAVAILABLE, 503) when the API cannot be reached or fails, so callers can fall back.
  */
 export async function callFirebaseAIAPI(
   userID: string,
@@ -41,5 +43,10 @@ export async function callFirebaseAIAPI(
       userID,
       deckID: data["deckId"],
     });
+    throw new ApiError(
+      "The moderation service is unavailable",
+      503,
+      {errorCode: "MODERATION_SERVICE_UNAVAILABLE", message: error.message}
+    );
   }
 }
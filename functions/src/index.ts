@@ -8,12 +8,23 @@
  * Routes:
  * - /: Handles requests that checks if the server or API is up.
  * - /decks: Handles requests tha manages deck resources and it subcollection flashcards.
+ * - /study: Handles requests that build the spaced-repetition study queue across decks.
+ * - /flashcards: Handles requests that search flashcards across decks.
+ * - /publish-requests: Handles the requests to publish decks and their review by moderators.
+ * - /folders: Handles the folders users organize their owned and saved decks in.
+ * - /shared: Handles the opening of unlisted decks through their share links.
+ * - /admin: Handles the moderation overrides of admins and moderators.
  *
  * Middleware:
- * - express.json(): Parses incoming request bodies in JSON format.
+ * - express.json(): Parses incoming request bodies in JSON format (up to 2 MB, to fit deck imports).
  * - CORS policy: (Cross origin resource sharing) checks if the request came
  *   from a valid source.
  *
+ * Scheduled jobs:
+ * - reembed_decks: Re-embeds every deck whose embedding is missing or outdated and backfills the search index of decks and flashcards
+ *   and the deck popularity counters (daily).
+ * - purge_deleted_decks: Permanently deletes the decks soft-deleted longer ago than the trash retention period (daily).
+ *
  * Server:
  * - Listens on port 5001. (Firebase Emulator)
  *
@@ -22,12 +33,18 @@
  *
  * @author Arthur M. Artugue
  * @created 2024-03-26
- * @updated 2025-04-02
+ * @updated 2026-10-19
  */
 import * as functions from "firebase-functions";
 import * as dotenv from "dotenv";
 import express from "express";
 import deckRoutes from "./routes/Routes";
+import studyRoutes from "./routes/StudyRoutes";
+import flashcardRoutes from "./routes/FlashcardRoutes";
+import adminRoutes from "./routes/AdminRoutes";
+import publishRequestRoutes from "./routes/PublishRequestRoutes";
+import folderRoutes from "./routes/FolderRoutes";
+import sharedRoutes from "./routes/SharedRoutes";
 import {AuthenticatedRequest} from "./interface/AuthenticatedRequest";
 import {BaseResponse} from "./models/BaseResponse";
 import {corsOptions} from "./config/corsOption";
@@ -35,6 +52,16 @@ import cors from "cors";
 import {AuthenticationService} from "./services/AuthenticationService";
 import {logRequest} from "./middleware/loggerMiddleware";
 import {errorHandler} from "./middleware/errorHandler";
+import {DeckService} from "./services/DeckService";
+import {DeckRepository} from "./repositories/DeckRepository";
+import {createEmbeddingProvider} from "./config/embeddingProvider";
+import {PermissionService} from "./services/PermissionService";
+import {CollaboratorRepository} from "./repositories/CollaboratorRepository";
+import {FlashcardRepository} from "./repositories/FlashcardRepository";
+import {DeckVersionRepository} from "./repositories/DeckVersionRepository";
+import {DuplicateDeckService} from "./services/DuplicateDeckService";
+import {loadModerationRules} from "./config/moderationRules";
+import {loadTrashRetentionDays} from "./config/trashRetention";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -46,7 +73,7 @@ const authService = new AuthenticationService();
 // Middlewares
 app.use(cors(corsOptions));
 // TODO: Add rate limiter
-app.use(express.json());
+app.use(express.json({limit: "2mb"}));
 
 // Middleware to verify Firebase token
 app.use(authService.verifyFirebaseToken.bind(authService));
@@ -54,6 +81,12 @@ app.use(logRequest);
 
 // Routes
 app.use("/v1/decks", deckRoutes);
+app.use("/v1/study", studyRoutes);
+app.use("/v1/flashcards", flashcardRoutes);
+app.use("/v1/publish-requests", publishRequestRoutes);
+app.use("/v1/folders", folderRoutes);
+app.use("/v1/shared", sharedRoutes);
+app.use("/v1/admin", adminRoutes);
 app.get("/v1", (req: AuthenticatedRequest, res) => {
   baseResponse.setStatus(200);
   baseResponse.setMessage("Deck Manager API is running");
@@ -66,3 +99,39 @@ app.use(errorHandler);
 
 // eslint-disable-next-line camelcase
 export const deck_manager_api = functions.https.onRequest(app);
+
+// eslint-disable-next-line camelcase
+export const reembed_decks = functions.scheduler.onSchedule(
+  {schedule: "every day 03:00", timeoutSeconds: 540},
+  async () => {
+    const permissionService = new PermissionService(new CollaboratorRepository);
+    const deckVersionRepository = new DeckVersionRepository;
+    const deckRepository = new DeckRepository(deckVersionRepository, permissionService);
+    const deckService = new DeckService(
+      deckRepository,
+      createEmbeddingProvider(),
+      permissionService,
+      new DuplicateDeckService(deckRepository, new FlashcardRepository(deckVersionRepository, permissionService), loadModerationRules())
+    );
+    const report = await deckService.reembedOutdatedDecks();
+    functions.logger.info("Deck re-embedding backfill completed", report);
+  }
+);
+
+// eslint-disable-next-line camelcase
+export const purge_deleted_decks = functions.scheduler.onSchedule(
+  {schedule: "every day 04:00", timeoutSeconds: 540},
+  async () => {
+    const permissionService = new PermissionService(new CollaboratorRepository);
+    const deckVersionRepository = new DeckVersionRepository;
+    const deckRepository = new DeckRepository(deckVersionRepository, permissionService);
+    const deckService = new DeckService(
+      deckRepository,
+      createEmbeddingProvider(),
+      permissionService,
+      new DuplicateDeckService(deckRepository, new FlashcardRepository(deckVersionRepository, permissionService), loadModerationRules())
+    );
+    const report = await deckService.purgeDeletedDecks(loadTrashRetentionDays());
+    functions.logger.info("Deleted deck purge completed", report);
+  }
+);
@@ -0,0 +1,35 @@
+/**
+ * Admin Audit Log Interface Definition
+ *
+ * @file AdminAuditLog.ts
+ * This module defines the `AdminAuditLog` interface, which records every moderation override
+ * performed by an admin or a moderator in the 'admin_audit_logs' collection.
+ *
+ * @module interface
+ * @file AdminAuditLog.ts
+ * @interface AdminAuditLog
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {UserRole} from "./UserRole";
+
+export type AdminAction = "UNPUBLISH_DECK" | "RESTORE_DECK" | "HARD_DELETE_DECK" | "SET_USER_ROLE" | "RESOLVE_REPORTS";
+
+/**
+ * Interface representing an entry of the admin audit log.
+ * `before` and `after` hold the fields changed by the action.
+ */
+export interface AdminAuditLog {
+  actor_id: string;
+  actor_role: UserRole;
+  action: AdminAction;
+  target_type: "deck" | "user";
+  target_id: string;
+  target_owner_id: string | null;
+  reason: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: FirebaseFirestore.Timestamp;
+}
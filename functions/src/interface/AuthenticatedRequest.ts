@@ -6,6 +6,9 @@
  * It adds an optional `user` property of type `DecodedIdToken` to the request object, which is used to store
  * decoded Firebase authentication token information after successful authentication.
  *
+ * The platform role of the user (moderator or admin) is read from the `role` custom claim of the token,
+ * see `getUserRole` in the `requireRole` middleware.
+ *
  * This interface is intended to be used in routes that require authentication to ensure that the decoded
  * user information is available in the request object for further processing.
  *
@@ -16,7 +19,7 @@
  * @property {DecodedIdToken | undefined} user - Optional property to store decoded Firebase authentication token.
  * @author Arthur M. Artugue
  * @created 2025-04-02
- * @updated 2025-04-04
+ * @updated 2026-10-19
  */
 
 import {Request} from "express";
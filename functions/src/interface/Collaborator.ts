@@ -0,0 +1,42 @@
+/**
+ * Collaborator Interface Definition
+ *
+ * @file Collaborator.ts
+ * This module defines the `Collaborator` interface, which represents a user that was given
+ * access to a deck by its owner, together with the roles and actions used to authorize
+ * every deck and flashcard operation.
+ *
+ * Roles, from least to most privileged:
+ * - viewer: can read the deck and its flashcards, even when the deck is private.
+ * - editor: can also edit the deck details and add, update and delete flashcards.
+ * - admin: can also change the visibility of the deck and manage viewers and editors.
+ * - owner: the creator of the deck; can also manage admins and delete the deck.
+ *
+ * @module interface
+ * @file Collaborator.ts
+ * @interface Collaborator
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+export const COLLABORATOR_ROLES = ["viewer", "editor", "admin"] as const;
+
+export type CollaboratorRole = typeof COLLABORATOR_ROLES[number];
+
+export type DeckRole = CollaboratorRole | "owner";
+
+export type DeckAction = "read" | "edit" | "manage" | "delete";
+
+/**
+ * Interface representing a collaborator of a deck, stored in the `collaborators`
+ * subcollection of the deck and keyed by the user ID.
+ */
+export interface Collaborator {
+  user_id: string;
+  deck_id: string;
+  role: CollaboratorRole;
+  added_by: string;
+  added_at: FirebaseFirestore.Timestamp;
+  updated_at: FirebaseFirestore.Timestamp;
+}
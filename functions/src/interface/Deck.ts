@@ -15,10 +15,11 @@
  * @interface Deck
  * @author Arthur M. Artugue
  * @created 2025-04-16
- * @updated 2025-05-12
+ * @updated 2026-10-19
  */
 
 import {FieldValue} from "firebase-admin/firestore";
+import {DeckCategory} from "../config/deckTaxonomy";
 
 /**
  * Interface representing a Deck entity.
@@ -35,7 +36,21 @@ export interface Deck {
   created_at: FirebaseFirestore.Timestamp;
   description: string;
   flashcard_count: number;
+  tags?: string[];
+  category?: DeckCategory | null;
   embedding_field: FieldValue;
+  embedding_model: string;
+  search_tokens?: string[];
+  flashcards_indexed?: boolean;
+  fork_count?: number;
+  save_count?: number;
+  study_count?: number;
+  popularity_score?: number;
+  popularity_indexed?: boolean;
+  forked_from?: DeckLineage;
+  moderation_hold?: boolean;
+  version_count?: number;
+  deleted_at?: FirebaseFirestore.Timestamp | null;
 }
 
 export interface DeckRaw {
@@ -47,7 +62,59 @@ export interface DeckRaw {
   created_at: FirebaseFirestore.Timestamp;
   description: string;
   flashcard_count: number;
+  tags?: string[];
+  category?: DeckCategory | null;
   embedding_field?: FieldValue;
+  embedding_model?: string;
+  search_tokens?: string[];
+  flashcards_indexed?: boolean;
+  fork_count?: number;
+  save_count?: number;
+  study_count?: number;
+  popularity_score?: number;
+  popularity_indexed?: boolean;
+  forked_from?: DeckLineage;
+  moderation_hold?: boolean;
+  version_count?: number;
+  deleted_at?: FirebaseFirestore.Timestamp | null;
+}
+
+/**
+ * The deck a fork was copied from. Following `forked_from` from deck to deck gives the full lineage.
+ */
+export interface DeckLineage {
+  deck_id: string;
+  owner_id: string;
+  title: string;
+  forked_at: FirebaseFirestore.Timestamp;
+}
+
+export interface DeckEmbeddingInfo {
+  id: string;
+  title: string;
+  description: string;
+  owner_id: string;
+  embedding_model?: string;
+  search_tokens?: string[];
+  flashcards_indexed?: boolean;
+  popularity_indexed?: boolean;
+}
+
+/**
+ * A soft-deleted deck as scanned by the trash purge. `deleted_at` is null for decks deleted before
+ * the deletion time was recorded.
+ */
+export interface DeletedDeckInfo {
+  id: string;
+  deleted_at: FirebaseFirestore.Timestamp | null;
+}
+
+/**
+ * Narrows a list of decks to a subject: decks carrying `tag` and/or filed under `category`.
+ */
+export interface DeckTaxonomyFilter {
+  tag?: string;
+  category?: DeckCategory;
 }
 
 export interface SaveDeck {
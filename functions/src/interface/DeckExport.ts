@@ -0,0 +1,58 @@
+/**
+ * Deck Export Interface Definition
+ *
+ * @file DeckExport.ts
+ * This module defines the `DeckExport` interface, the versioned JSON document produced by
+ * `GET /v1/decks/:deckID/export?format=json` and read back by `POST /v1/decks/import/json`.
+ *
+ * Versioning rules: additive, optional fields keep the same `version`; any change that
+ * removes, renames or changes the meaning of a field increments it, and the importer keeps
+ * reading every previous version. Version 2 adds the `tags` and `category` of the deck, which the
+ * importer carries over; version 1 exports are imported without them.
+ *
+ * @module interface
+ * @file DeckExport.ts
+ * @interface DeckExport
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {DeckCategory} from "../config/deckTaxonomy";
+
+export const DECK_EXPORT_SCHEMA = "deck-manager/deck";
+
+export const DECK_EXPORT_VERSION = 2;
+
+/**
+ * Interface representing an exported flashcard.
+ */
+export interface ExportedFlashcard {
+  id: string;
+  term: string;
+  definition: string;
+  is_starred: boolean;
+  tags: string[];
+  created_at: string | null;
+}
+
+/**
+ * Interface representing an exported deck and its flashcards.
+ * Dates are ISO 8601 strings.
+ */
+export interface DeckExport {
+  schema: typeof DECK_EXPORT_SCHEMA;
+  version: number;
+  exported_at: string;
+  deck: {
+    id: string;
+    title: string;
+    description: string;
+    cover_photo: string | null;
+    tags: string[];
+    category: DeckCategory | null;
+    created_at: string | null;
+    flashcard_count: number;
+  };
+  flashcards: ExportedFlashcard[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Deck Version Interface Definition
+ *
+ * @file DeckVersion.ts
+ * This module defines the version history of a deck. Every mutation of the details of a deck or of
+ * its flashcards is recorded as a numbered version holding the change set of the mutation: the value
+ * of every changed field before and after it, and the flashcards it created, updated or deleted.
+ *
+ * Versions are stored in the 'versions' subcollection of each deck, keyed by their number, and the
+ * flashcard changes of a version in its own 'flashcards' subcollection, keyed by flashcard ID, so a
+ * bulk edit is never limited by the size of a document. The `version_count` of the deck is the number
+ * of its latest version; version 0 is the deck as it was before its first recorded change. A deck
+ * keeps its last `MAX_DECK_VERSIONS` versions.
+ *
+ * Only the content of a deck is versioned: its title, description, cover photo, tags and category, and
+ * the term, definition, tags, star and deletion flag of its flashcards. Its visibility and deletion
+ * status are not.
+ *
+ * @module interface
+ * @file DeckVersion.ts
+ * @interface DeckVersion
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {DeckCategory} from "../config/deckTaxonomy";
+
+/**
+ * The number of versions kept per deck; older versions are pruned and can no longer be restored.
+ */
+export const MAX_DECK_VERSIONS = 100;
+
+export const DECK_VERSION_ACTIONS = [
+  "UPDATE_DECK", "UPDATE_TAXONOMY", "CREATE_FLASHCARDS", "UPDATE_FLASHCARD", "DELETE_FLASHCARDS", "RESTORE",
+] as const;
+
+export type DeckVersionAction = typeof DECK_VERSION_ACTIONS[number];
+
+/**
+ * The versioned fields of a deck.
+ */
+export interface VersionedDeck {
+  title: string;
+  description: string;
+  cover_photo: string | null;
+  tags: string[];
+  category: DeckCategory | null;
+}
+
+/**
+ * The versioned fields of a flashcard.
+ */
+export interface VersionedFlashcard {
+  term: string;
+  definition: string;
+  tags: string[];
+  is_starred: boolean;
+  is_deleted: boolean;
+  created_at: FirebaseFirestore.Timestamp | null;
+}
+
+/**
+ * The change of a flashcard within a version; `before` is null for a created flashcard and `after`
+ * is null for a flashcard deleted for good.
+ */
+export interface FlashcardChange {
+  flashcard_id: string;
+  before: VersionedFlashcard | null;
+  after: VersionedFlashcard | null;
+}
+
+/**
+ * Interface representing a version of a deck. `deck_changes` only holds the fields of the deck that
+ * changed, and is null when none did. `restored_from` is the version a restore went back to.
+ */
+export interface DeckVersion {
+  version: number;
+  deck_id: string;
+  action: DeckVersionAction;
+  author_id: string;
+  created_at: FirebaseFirestore.Timestamp;
+  deck_changes: {before: Partial<VersionedDeck>, after: Partial<VersionedDeck>} | null;
+  flashcard_change_count: number;
+  restored_from: number | null;
+}
+
+/**
+ * A version of a deck with the changes of its flashcards.
+ */
+export interface DeckVersionWithChanges extends DeckVersion {
+  flashcard_changes: FlashcardChange[];
+}
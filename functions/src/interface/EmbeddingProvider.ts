@@ -0,0 +1,42 @@
+/**
+ * Embedding Provider Interface Definition
+ *
+ * @file EmbeddingProvider.ts
+ * This module defines the `EmbeddingProvider` interface, the contract every embedding
+ * backend (Gemini, local deterministic hashing, ...) implements. Decks are embedded with
+ * `embedDocument`, search queries with `embedQuery`, and every stored embedding is tagged
+ * with the `modelId` of the provider that produced it.
+ *
+ * @module interface
+ * @file EmbeddingProvider.ts
+ * @interface EmbeddingProvider
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+/**
+ * Interface representing a backend able to turn text into embedding vectors.
+ * Vectors produced by the same `modelId` are comparable with each other and only with each other.
+ */
+export interface EmbeddingProvider {
+  /**
+   * The model/version tag stored next to every embedding produced by this provider.
+   */
+  readonly modelId: string;
+
+  /**
+   * The number of dimensions of every embedding produced by this provider.
+   */
+  readonly dimensions: number;
+
+  /**
+   * Embeds a document (e.g. the title and description of a deck) for retrieval.
+   */
+  embedDocument(text: string): Promise<number[]>;
+
+  /**
+   * Embeds a search query.
+   */
+  embedQuery(text: string): Promise<number[]>;
+}
@@ -0,0 +1,48 @@
+/**
+ * Folder Interface Definition
+ *
+ * @file Folder.ts
+ * This module defines the folders users organize their decks in. Folders are stored in the
+ * 'folders' collection and belong to one user; a folder without a `parent_id` is at the root,
+ * and folders nest up to `MAX_FOLDER_DEPTH` levels. `position` orders a folder among its siblings.
+ *
+ * The decks of a folder are stored in the 'folder_items' collection, keyed by `${user_id}_${deck_id}`,
+ * so a deck is in at most one folder of a user and adding it to another folder moves it. A folder
+ * holds decks the user owns or has saved; `position` orders a deck within its folder.
+ *
+ * @module interface
+ * @file Folder.ts
+ * @interface Folder
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+/**
+ * The deepest level of nesting of a folder; root folders are at depth 1.
+ */
+export const MAX_FOLDER_DEPTH = 5;
+
+/**
+ * Interface representing a folder of decks.
+ */
+export interface Folder {
+  id: string;
+  owner_id: string;
+  name: string;
+  parent_id: string | null;
+  position: number;
+  created_at: FirebaseFirestore.Timestamp;
+  updated_at: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Interface representing a deck filed in a folder of a user.
+ */
+export interface FolderItem {
+  user_id: string;
+  deck_id: string;
+  folder_id: string;
+  position: number;
+  added_at: FirebaseFirestore.Timestamp;
+}
@@ -0,0 +1,110 @@
+/**
+ * Moderation Interface Definition
+ *
+ * @file Moderation.ts
+ * This module defines the rules and results of the local moderation engine, which scans the
+ * title and description of a deck and the term and definition of every flashcard before the
+ * deck is published.
+ *
+ * Rules:
+ * - BLOCKLIST: a blocked word or phrase, matched as a whole word and case-insensitively.
+ * - PATTERN: a custom regular expression.
+ * - URL: a link (http(s):// or www.).
+ * - EMAIL / PHONE: personal information.
+ * - MAX_LENGTH: a field longer than its maximum length.
+ *
+ * Decks are also compared with the existing public decks to detect near-duplicates, combining the
+ * similarity of their embeddings with the overlap of their flashcards.
+ *
+ * @module interface
+ * @file Moderation.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+export type ModeratedField = "title" | "description" | "term" | "definition";
+
+export type ModerationRuleType = "BLOCKLIST" | "PATTERN" | "URL" | "EMAIL" | "PHONE" | "MAX_LENGTH";
+
+/**
+ * A custom regular expression rule.
+ */
+export interface ModerationPattern {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * The configurable rules of the local moderation engine.
+ */
+export interface ModerationRules {
+  blocklist: string[];
+  patterns: ModerationPattern[];
+  detectUrls: boolean;
+  detectPII: boolean;
+  maxLength: Record<ModeratedField, number>;
+  /**
+   * Whether a deck passing the local rules is approved when the external moderation service
+   * is not configured or unreachable. Otherwise the request waits for a moderator.
+   */
+  autoApprove: boolean;
+  /**
+   * The similarity (0 to 1) from which a public deck is reported as a likely duplicate, and publishing
+   * waits for a moderator instead of being approved automatically.
+   */
+  duplicateWarnThreshold: number;
+  /**
+   * The similarity (0 to 1) from which publishing a duplicate is rejected. Above 1, duplicates are never rejected.
+   */
+  duplicateBlockThreshold: number;
+}
+
+/**
+ * A structured reason why a field was flagged. `flashcard_id` is set for flashcard fields.
+ */
+export interface ModerationFlag {
+  rule: ModerationRuleType;
+  field: ModeratedField;
+  flashcard_id: string | null;
+  match: string;
+  message: string;
+}
+
+/**
+ * The result of scanning a deck and its flashcards. The deck passes when nothing is flagged.
+ */
+export interface ModerationResult {
+  engine: "local";
+  passed: boolean;
+  flags: ModerationFlag[];
+  scanned_flashcards: number;
+  checked_at: FirebaseFirestore.Timestamp;
+}
+
+export type DuplicateAction = "NONE" | "WARN" | "BLOCK";
+
+/**
+ * A public deck that is likely a duplicate of another deck. `embedding_similarity` is the cosine similarity
+ * of the embeddings; `card_overlap` (0 to 1) is the Jaccard index of the flashcards, compared by their
+ * normalized term and definition, and is null when either deck has no flashcards. `similarity` combines both.
+ */
+export interface DuplicateDeck {
+  deck_id: string;
+  title: string;
+  owner_id: string;
+  owner_name: string;
+  similarity: number;
+  embedding_similarity: number;
+  card_overlap: number | null;
+}
+
+/**
+ * The result of comparing a deck with the public decks. `action` follows the similarity of the closest
+ * duplicate: WARN from the warn threshold, BLOCK from the block threshold.
+ */
+export interface DuplicateCheck {
+  action: DuplicateAction;
+  duplicates: DuplicateDeck[];
+  checked_at: FirebaseFirestore.Timestamp;
+}
@@ -0,0 +1,68 @@
+/**
+ * Publish Request Interface Definition
+ *
+ * @file PublishRequest.ts
+ * This module defines the `PublishRequest` interface, which represents a request to make a
+ * private deck public, stored in the 'publish_requests' collection. A request starts `PENDING`
+ * and ends `APPROVED` or `REJECTED` by a moderator, or `CANCELLED` by the requester or the deck
+ * owner. The deck only becomes public when its request is approved.
+ *
+ * Every change of verdict is appended to `verdict_history`, so the history of a request
+ * always starts with its `PENDING` entry. The result of the local moderation engine is kept
+ * in `moderation`, and decks it flags are rejected automatically with the flags as reasons.
+ *
+ * @module interface
+ * @file PublishRequest.ts
+ * @interface PublishRequest
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {DuplicateCheck, ModerationFlag, ModerationResult} from "./Moderation";
+
+export const PUBLISH_VERDICTS = ["PENDING", "APPROVED", "REJECTED", "CANCELLED"] as const;
+
+export type PublishVerdict = typeof PUBLISH_VERDICTS[number];
+
+/**
+ * Who gave a verdict: the requester or deck owner, a moderator, the external moderation service
+ * or the local moderation engine.
+ */
+export type PublishVerdictSource = "owner" | "moderator" | "ai" | "automated";
+
+/**
+ * Whether the external moderation service was notified of a request, could not be reached, or is not configured.
+ */
+export type ExternalModerationStatus = "NOTIFIED" | "UNREACHABLE" | "DISABLED";
+
+/**
+ * An entry of the verdict history of a publish request.
+ */
+export interface PublishVerdictEntry {
+  verdict: PublishVerdict;
+  source: PublishVerdictSource;
+  actor_id: string | null;
+  reason: string | null;
+  flags?: ModerationFlag[];
+  decided_at: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Interface representing a request to publish a deck.
+ * `mod_verdict` always matches the last entry of `verdict_history`.
+ */
+export interface PublishRequest {
+  id: string;
+  deck_id: string;
+  deck_title: string;
+  owner_id: string;
+  requested_by: string;
+  mod_verdict: PublishVerdict;
+  verdict_history: PublishVerdictEntry[];
+  moderation?: ModerationResult;
+  duplicates?: DuplicateCheck;
+  external_moderation?: ExternalModerationStatus;
+  created_at: FirebaseFirestore.Timestamp;
+  updated_at: FirebaseFirestore.Timestamp;
+}
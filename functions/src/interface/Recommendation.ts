@@ -0,0 +1,47 @@
+/**
+ * Recommendation Interface Definition
+ *
+ * @file Recommendation.ts
+ * This module defines the types used by the deck recommendations. Recommendations blend three sources,
+ * each ranking public decks on its own:
+ * - search_history: the decks nearest to the average embedding of the user's recent searches.
+ * - activity: the decks nearest to the average embedding of the decks the user recently saved or studied.
+ * - trending: the public decks with the highest popularity score, the only source for new users.
+ *
+ * The popularity score of a deck is the weighted sum of its saves, forks and study sessions, kept up to date
+ * with increments as they happen.
+ *
+ * @module interface
+ * @file Recommendation.ts
+ * @interface DeckRecommendation
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {SearchDeck} from "./Search";
+
+export const RECOMMENDATION_SOURCES = ["search_history", "activity", "trending"] as const;
+
+export type RecommendationSource = typeof RECOMMENDATION_SOURCES[number];
+
+/**
+ * The weight of each event in the popularity score of a deck. A fork is a stronger signal than a save,
+ * which is a stronger signal than a study session.
+ */
+export const POPULARITY_WEIGHTS = {
+  save: 3,
+  fork: 5,
+  study: 1,
+} as const;
+
+/**
+ * A recommended deck. `score` is the weighted reciprocal rank fusion score of the deck over the sources
+ * listed in `sources`.
+ */
+export interface DeckRecommendation extends SearchDeck {
+  id: string;
+  owner_name: string;
+  score: number;
+  sources: RecommendationSource[];
+}
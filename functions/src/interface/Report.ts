@@ -0,0 +1,63 @@
+/**
+ * Report Interface Definition
+ *
+ * @file Report.ts
+ * This module defines the reports users file against public decks. Every report is stored in
+ * the 'reports' subcollection of the deck's summary in the 'deck_reports' collection, keyed by
+ * the reporting user, so a user has at most one open report per deck. The summary aggregates
+ * the open reports of the deck for the moderation queue.
+ *
+ * When the open reports of a deck reach the hide threshold, the deck is made private and put
+ * on `moderation_hold` until a moderator resolves its reports.
+ *
+ * @module interface
+ * @file Report.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+export const REPORT_CATEGORIES = ["spam", "inappropriate", "harassment", "copyright", "misinformation", "other"] as const;
+
+export type ReportCategory = typeof REPORT_CATEGORIES[number];
+
+export const REPORT_RESOLUTIONS = ["dismiss", "unpublish"] as const;
+
+/**
+ * How a moderator resolves the reports of a deck: `dismiss` keeps the deck public (and
+ * republishes it when it was hidden), `unpublish` keeps the deck private.
+ */
+export type ReportResolution = typeof REPORT_RESOLUTIONS[number];
+
+export type ReportStatus = "OPEN" | "RESOLVED";
+
+/**
+ * Interface representing the report of a user against a deck.
+ */
+export interface DeckReport {
+  user_id: string;
+  deck_id: string;
+  category: ReportCategory;
+  comment: string | null;
+  status: ReportStatus;
+  created_at: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Interface representing the aggregated reports of a deck, stored in 'deck_reports' and keyed by the deck ID.
+ * `open_count` and `categories` only count the reports filed since the last resolution.
+ */
+export interface DeckReportSummary {
+  deck_id: string;
+  deck_title: string;
+  owner_id: string;
+  status: ReportStatus;
+  open_count: number;
+  total_count: number;
+  categories: Partial<Record<ReportCategory, number>>;
+  hidden: boolean;
+  last_reported_at: FirebaseFirestore.Timestamp;
+  resolution: ReportResolution | null;
+  resolved_by: string | null;
+  resolved_at: FirebaseFirestore.Timestamp | null;
+}
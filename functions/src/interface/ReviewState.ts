@@ -0,0 +1,97 @@
+/**
+ * Review State Interface Definition
+ *
+ * @file ReviewState.ts
+ * This module defines the interfaces used by the spaced-repetition subsystem.
+ * A `ReviewState` is stored per user and per flashcard and keeps track of the
+ * scheduling data (ease, interval, due date, lapses) that a `ReviewScheduler`
+ * needs to compute the next review of the card.
+ *
+ * @module interface
+ * @file ReviewState.ts
+ * @interface ReviewState
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+/**
+ * The scheduling algorithms supported by the review scheduler.
+ */
+export type ReviewAlgorithm = "SM2" | "FSRS";
+
+/**
+ * The scheduling data that an algorithm reads and produces.
+ * Intervals are expressed in days.
+ */
+export interface SchedulingState {
+  ease_factor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  stability: number | null;
+  difficulty: number | null;
+  last_reviewed_at: Date | null;
+}
+
+/**
+ * The result of scheduling a review, including the next due date.
+ */
+export interface SchedulingResult extends SchedulingState {
+  due_at: Date;
+}
+
+/**
+ * Interface representing the review state of a flashcard for a specific user.
+ */
+export interface ReviewState {
+  user_id: string;
+  deck_id: string;
+  flashcard_id: string;
+  algorithm: ReviewAlgorithm;
+  ease_factor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  stability: number | null;
+  difficulty: number | null;
+  last_grade: number;
+  due_at: FirebaseFirestore.Timestamp;
+  last_reviewed_at: FirebaseFirestore.Timestamp | null;
+  created_at: FirebaseFirestore.Timestamp;
+  updated_at: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Interface representing a single review entry in the review history.
+ */
+export interface ReviewLog {
+  user_id: string;
+  deck_id: string;
+  flashcard_id: string;
+  algorithm: ReviewAlgorithm;
+  grade: number;
+  was_new: boolean;
+  previous_interval: number;
+  interval: number;
+  due_at: FirebaseFirestore.Timestamp;
+  reviewed_at: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Contract implemented by every spaced-repetition algorithm.
+ * Grades follow the SM-2 quality scale (0 - complete blackout, 5 - perfect response).
+ */
+export interface ReviewScheduler {
+  readonly algorithm: ReviewAlgorithm;
+
+  /**
+   * Computes the next scheduling state of a card.
+   *
+   * @param {SchedulingState | null} state - The current state, or null if the card was never reviewed.
+   * @param {number} grade - The grade given by the user (0 to 5).
+   * @param {Date} reviewedAt - The moment the review took place.
+   * @return {SchedulingResult} The next scheduling state and due date.
+   */
+  schedule(state: SchedulingState | null, grade: number, reviewedAt: Date): SchedulingResult;
+}
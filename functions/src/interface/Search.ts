@@ -0,0 +1,114 @@
+/**
+ * Search Interface Definition
+ *
+ * @file Search.ts
+ * This module defines the types used by the deck search. A search runs a keyword leg over the
+ * `search_tokens` index of the decks and a vector leg over their embeddings; the mode selects
+ * which legs run:
+ * - hybrid: both legs, fused with reciprocal rank fusion.
+ * - vector: only the embedding similarity.
+ * - keyword: only the token index, without embedding the query.
+ *
+ * Flashcards are searched by keyword only, over the `search_tokens` index of their term and definition.
+ *
+ * @module interface
+ * @file Search.ts
+ * @interface DeckSearchResult
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {DeckRaw} from "./Deck";
+
+export const SEARCH_MODES = ["hybrid", "vector", "keyword"] as const;
+
+export type SearchMode = typeof SEARCH_MODES[number];
+
+export const SEARCH_FILTERS = ["MY_DECKS", "SAVED_DECKS", "PUBLIC_DECKS", "DELETED_DECKS"] as const;
+
+export type SearchFilter = typeof SEARCH_FILTERS[number];
+
+export const FLASHCARD_SEARCH_FILTERS = ["MY_DECKS", "SAVED_DECKS", "PUBLIC_DECKS"] as const;
+
+export type FlashcardSearchFilter = typeof FLASHCARD_SEARCH_FILTERS[number];
+
+export type SearchDeck = Omit<DeckRaw, "embedding_field" | "search_tokens">;
+
+/**
+ * A deck returned by one leg of the search. `distance` is the cosine distance to the
+ * query and is only set by the vector leg.
+ */
+export interface DeckSearchHit {
+  id: string;
+  deck: SearchDeck;
+  distance?: number;
+}
+
+/**
+ * A deck of the search response with its relevance. `score` ranks the results of the selected mode;
+ * `keyword_score` (0 to 1) and `vector_score` (cosine similarity) are null when the deck was not
+ * returned by that leg.
+ */
+export interface DeckSearchResult extends SearchDeck {
+  id: string;
+  owner_name: string;
+  score: number;
+  keyword_score: number | null;
+  vector_score: number | null;
+}
+
+/**
+ * A deck of the ranking stored with a search session, with its scores (see `DeckSearchResult`).
+ */
+export interface RankedSearchEntry {
+  id: string;
+  score: number;
+  keyword_score: number | null;
+  vector_score: number | null;
+}
+
+/**
+ * The ranking of a search that returned more than one page, stored when the first page is served so
+ * the following pages read the same ranking instead of searching again. `search_hash` identifies the
+ * query, filter, mode and taxonomy filter of the search; `truncated` is set when a leg returned its
+ * maximum number of decks.
+ */
+export interface SearchSession {
+  user_id: string;
+  search_hash: string;
+  results: RankedSearchEntry[];
+  truncated: boolean;
+  created_at: FirebaseFirestore.Timestamp;
+  expires_at: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * A flashcard matching the query tokens, with its parent deck.
+ */
+export interface FlashcardSearchHit {
+  id: string;
+  deck_id: string;
+  term: string;
+  definition: string;
+  deck: SearchDeck;
+}
+
+/**
+ * A flashcard of the flashcard search response. `score` (0 to 1) counts the query tokens found in
+ * the card, a token in the term counting twice as much as one only in the definition.
+ */
+export interface FlashcardSearchResult {
+  id: string;
+  term: string;
+  definition: string;
+  score: number;
+  deck: {
+    id: string;
+    title: string;
+    owner_id: string;
+    owner_name: string;
+    cover_photo: string;
+    is_private: boolean;
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Share Link Interface Definition
+ *
+ * @file ShareLink.ts
+ * This module defines the share links that make a deck unlisted: anyone holding the token of a
+ * link can read the deck and its flashcards through `GET /v1/shared/:token`, while the deck stays
+ * private and out of the public listings and search.
+ *
+ * Share links are stored in the 'share_links' collection, keyed by the SHA-256 hash of their token.
+ * The token itself is only returned when the link is created and is never stored, so a leaked
+ * database cannot be turned into working links. A link stops working once it is revoked, once
+ * `expires_at` has passed or once it has been used `max_uses` times.
+ *
+ * @module interface
+ * @file ShareLink.ts
+ * @interface ShareLink
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+export type ShareLinkStatus = "ACTIVE" | "EXPIRED" | "EXHAUSTED" | "REVOKED";
+
+/**
+ * Interface representing a share link of a deck. The `id` is the hash of the token.
+ */
+export interface ShareLink {
+  id: string;
+  deck_id: string;
+  created_by: string;
+  created_at: FirebaseFirestore.Timestamp;
+  expires_at: FirebaseFirestore.Timestamp | null;
+  max_uses: number | null;
+  use_count: number;
+  last_used_at: FirebaseFirestore.Timestamp | null;
+  revoked_at: FirebaseFirestore.Timestamp | null;
+  revoked_by: string | null;
+}
@@ -0,0 +1,28 @@
+/**
+ * User Role Definition
+ *
+ * @file UserRole.ts
+ * This module defines the platform roles of a user, read from the `role` custom claim of the
+ * Firebase ID token. Users without the claim are regular users. Roles are ordered: a moderator
+ * can unpublish and restore any deck, and an admin can also hard-delete decks and assign roles.
+ *
+ * Platform roles are unrelated to the collaborator roles of a deck (see `Collaborator`).
+ *
+ * @module interface
+ * @file UserRole.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+export const USER_ROLES = ["user", "moderator", "admin"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+/**
+ * The user performing an administrative action.
+ */
+export interface AdminActor {
+  user_id: string;
+  role: UserRole;
+}
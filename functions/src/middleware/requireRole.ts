@@ -0,0 +1,37 @@
+/**
+ * Role-based access middleware.
+ *
+ * `getUserRole` reads the platform role of the user from the `role` custom claim of the decoded
+ * Firebase ID token, defaulting to `user`. `requireRole` only lets through the requests of users
+ * holding at least the given role (user < moderator < admin) and forwards a 403 error otherwise.
+ *
+ * @example
+ * router.use(requireRole("moderator"));
+ * router.post("/users/:userID/role", requireRole("admin"), asyncHandler(...));
+ */
+import {NextFunction, Response} from "express";
+import {DecodedIdToken} from "firebase-admin/auth";
+import {ApiError} from "../helpers/apiError";
+import {AuthenticatedRequest} from "../interface/AuthenticatedRequest";
+import {USER_ROLES, UserRole} from "../interface/UserRole";
+
+export const getUserRole = (user?: DecodedIdToken): UserRole => {
+  const role = user?.role;
+  return USER_ROLES.includes(role as UserRole) ? role as UserRole : "user";
+};
+
+export const requireRole = (minimum: UserRole) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user?.user_id) {
+      next(new ApiError("Unauthorized. Missing user ID.", 401));
+      return;
+    }
+
+    const role = getUserRole(req.user);
+    if (USER_ROLES.indexOf(role) < USER_ROLES.indexOf(minimum)) {
+      next(new ApiError(`This action requires the ${minimum} role`, 403, {role, errorCode: "INSUFFICIENT_ROLE"}));
+      return;
+    }
+
+    next();
+  };
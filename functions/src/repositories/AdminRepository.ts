@@ -0,0 +1,217 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file AdminRepository.ts
+ * This module defines the repository layer for the moderation overrides of admins and moderators.
+ * Every override is written together with its entry in the 'admin_audit_logs' collection.
+ *
+ * Methods:
+ * - overrideDeck: Updates the visibility or deletion status of any deck and records the override.
+ * - recordHardDelete: Records the permanent deletion of any deck before it is purged.
+ * - setUserRole: Sets the platform role custom claim of a user and records the change.
+ * - getAuditLogs: Retrieves the audit log, newest first, with pagination.
+ *
+ * @module repository
+ * @file AdminRepository.ts
+ * @class AdminRepository
+ * @classdesc Provides data access methods for moderation overrides and the 'admin_audit_logs' collection in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {AdminAuditLog} from "../interface/AdminAuditLog";
+import {DeckRaw} from "../interface/Deck";
+import {UserRole} from "../interface/UserRole";
+import {FieldValue} from "@google-cloud/firestore";
+
+/**
+ * The `AdminRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for moderation overrides and their audit log.
+ */
+export class AdminRepository extends FirebaseAdmin {
+  /**
+   * Updates the visibility or deletion status of any deck, regardless of its owner, and records
+   * the override in the audit log within the same transaction. The `before` and `after` fields
+   * of the log entry are filled from the deck. Changing the deletion status sets or clears `deleted_at`.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {object} data - The fields to update.
+   * @param {Omit<AdminAuditLog, "before" | "after" | "target_owner_id">} log - The audit log entry.
+   * @return {Promise<object>} A promise resolving to the ID of the deck and the updated fields.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or DECK_OVERRIDE_ERROR (500).
+   */
+  public async overrideDeck(
+    deckID: string,
+    data: {is_private?: boolean, is_deleted?: boolean},
+    log: Omit<AdminAuditLog, "before" | "after" | "target_owner_id">
+  ): Promise<object> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(deckID);
+
+      return await db.runTransaction(async (transaction) => {
+        const deckSnap = await transaction.get(deckRef);
+        if (!deckSnap.exists) {
+          throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+        }
+
+        const deck = deckSnap.data() as DeckRaw;
+        const before = Object.fromEntries(Object.keys(data).map((key) => [key, deck[key as keyof typeof data] ?? null]));
+
+        transaction.update(deckRef, data.is_deleted === undefined || data.is_deleted === deck.is_deleted ? data : {
+          ...data,
+          deleted_at: data.is_deleted ? FieldValue.serverTimestamp() : null,
+        });
+        transaction.set(db.collection("admin_audit_logs").doc(), {
+          ...log,
+          target_owner_id: deck.owner_id,
+          before,
+          after: data,
+        });
+
+        return {id: deckID, title: deck.title, owner_id: deck.owner_id, ...data};
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while overriding the deck.",
+        500,
+        {deckID, errorCode: "DECK_OVERRIDE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Records the permanent deletion of any deck, regardless of its owner, in the audit log. The entry is
+   * written before the deck is purged (see `DeckRepository.purgeDeck`) so the deletion is recorded even
+   * if it is interrupted.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {Omit<AdminAuditLog, "before" | "after" | "target_owner_id">} log - The audit log entry.
+   * @return {Promise<void>} A promise that resolves when the deletion is recorded.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or DATABASE_DELETE_ERROR (500).
+   */
+  public async recordHardDelete(deckID: string, log: Omit<AdminAuditLog, "before" | "after" | "target_owner_id">): Promise<void> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(deckID);
+      const deckSnap = await deckRef.get();
+
+      if (!deckSnap.exists) {
+        throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+
+      const deck = deckSnap.data() as DeckRaw;
+      await db.collection("admin_audit_logs").add({
+        ...log,
+        target_owner_id: deck.owner_id,
+        before: {
+          title: deck.title,
+          is_private: deck.is_private,
+          is_deleted: deck.is_deleted,
+          flashcard_count: deck.flashcard_count,
+        },
+        after: null,
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while deleting the deck.",
+        500,
+        {deckID, errorCode: "DATABASE_DELETE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Sets the platform role custom claim of a user, keeping the other claims, and records the change.
+   * The `user` role removes the claim. The new role applies once the user's ID token is refreshed.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {UserRole} role - The new role.
+   * @param {Omit<AdminAuditLog, "before" | "after" | "target_owner_id">} log - The audit log entry.
+   * @return {Promise<object>} A promise resolving to the previous and new role of the user.
+   * @throws {ApiError} Throws USER_NOT_FOUND (404) or USER_ROLE_UPDATE_ERROR (500).
+   */
+  public async setUserRole(
+    userID: string,
+    role: UserRole,
+    log: Omit<AdminAuditLog, "before" | "after" | "target_owner_id">
+  ): Promise<{user_id: string, previous_role: UserRole, role: UserRole}> {
+    try {
+      const auth = this.getAuth();
+      const user = await auth.getUser(userID);
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const {role: previousRole, ...claims} = user.customClaims ?? {};
+
+      await auth.setCustomUserClaims(userID, role === "user" ? claims : {...claims, role});
+      await this.getDb().collection("admin_audit_logs").add({
+        ...log,
+        target_owner_id: null,
+        before: {role: previousRole ?? "user"},
+        after: {role},
+      });
+
+      return {user_id: userID, previous_role: previousRole ?? "user", role};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error?.code === "auth/user-not-found") {
+        throw new ApiError(`User ${userID} does not exist`, 404, {userID, errorCode: "USER_NOT_FOUND"});
+      }
+
+      throw new ApiError(
+        "An error occurred while updating the role of the user.",
+        500,
+        {userID, errorCode: "USER_ROLE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the audit log, newest first, with pagination.
+   *
+   * @param {number} limit - The maximum number of entries to return.
+   * @param {string | null} nextPageToken - The ID of the last entry of the previous page.
+   * @param {string} [targetID] - Only return the entries of this deck or user.
+   * @return {Promise<object>} A promise resolving to the entries and the next page token.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getAuditLogs(limit: number, nextPageToken: string | null, targetID?: string): Promise<object> {
+    try {
+      const db = this.getDb();
+      const logsRef = db.collection("admin_audit_logs");
+      let query = (targetID ? logsRef.where("target_id", "==", targetID) : logsRef)
+        .orderBy("created_at", "desc")
+        .limit(limit);
+
+      if (nextPageToken) {
+        const lastSnap = await logsRef.doc(nextPageToken).get();
+        if (lastSnap.exists) {
+          query = query.startAfter(lastSnap);
+        }
+      }
+
+      const snapshot = await query.get();
+      const logs = snapshot.docs.map((doc) => ({id: doc.id, ...doc.data()}));
+
+      return {
+        logs,
+        nextPageToken: snapshot.docs.length === limit ? snapshot.docs[snapshot.docs.length - 1].id : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the audit log.",
+        500,
+        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+}
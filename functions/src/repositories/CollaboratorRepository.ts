@@ -0,0 +1,188 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file CollaboratorRepository.ts
+ * This module defines the repository layer for the collaborators of a deck within Firestore.
+ * Collaborators are stored in the 'collaborators' subcollection of each deck, keyed by user ID.
+ *
+ * Methods:
+ * - getCollaborator: Retrieves a collaborator of a deck.
+ * - getCollaborators: Retrieves every collaborator of a deck.
+ * - getCollaboratorRoles: Retrieves the roles of a user across every deck they collaborate on.
+ * - setCollaborator: Creates or replaces a collaborator of a deck.
+ * - updateCollaboratorRole: Changes the role of a collaborator.
+ * - removeCollaborators: Removes one or more collaborators from a deck.
+ *
+ * @module repository
+ * @file CollaboratorRepository.ts
+ * @class CollaboratorRepository
+ * @classdesc Provides data access methods for the 'collaborators' subcollection of the decks in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {Collaborator, CollaboratorRole} from "../interface/Collaborator";
+
+/**
+ * The `CollaboratorRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for managing the collaborators of decks.
+ */
+export class CollaboratorRepository extends FirebaseAdmin {
+  /**
+   * Retrieves a collaborator of a deck.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} userID - The ID of the user.
+   * @return {Promise<Collaborator | null>} The collaborator, or null if the user does not collaborate on the deck.
+   * @throws {ApiError} Throws COLLABORATOR_FETCH_ERROR on failure.
+   */
+  public async getCollaborator(deckID: string, userID: string): Promise<Collaborator | null> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db.collection("decks").doc(deckID).collection("collaborators").doc(userID).get();
+
+      return snapshot.exists ? snapshot.data() as Collaborator : null;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the collaborator.",
+        500,
+        {deckID, userID, errorCode: "COLLABORATOR_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves every collaborator of a deck, oldest first.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<Collaborator[]>} The collaborators of the deck.
+   * @throws {ApiError} Throws COLLABORATOR_FETCH_ERROR on failure.
+   */
+  public async getCollaborators(deckID: string): Promise<Collaborator[]> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db.collection("decks").doc(deckID).collection("collaborators")
+        .orderBy("added_at", "asc")
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data() as Collaborator);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the collaborators.",
+        500,
+        {deckID, errorCode: "COLLABORATOR_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the roles of a user across every deck they collaborate on.
+   *
+   * @param {string} userID - The ID of the user.
+   * @return {Promise<Record<string, CollaboratorRole>>} A map of deck IDs to the role of the user.
+   * @throws {ApiError} Throws COLLABORATOR_FETCH_ERROR on failure.
+   */
+  public async getCollaboratorRoles(userID: string): Promise<Record<string, CollaboratorRole>> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db.collectionGroup("collaborators")
+        .where("user_id", "==", userID)
+        .select("deck_id", "role")
+        .get();
+
+      const roles: Record<string, CollaboratorRole> = {};
+      snapshot.docs.forEach((doc) => {
+        const data = doc.data();
+        roles[data.deck_id] = data.role;
+      });
+      return roles;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the collaborations of the user.",
+        500,
+        {userID, errorCode: "COLLABORATOR_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Creates or replaces a collaborator of a deck.
+   *
+   * @param {Collaborator} collaborator - The collaborator.
+   * @return {Promise<void>} A promise that resolves when the collaborator is written.
+   * @throws {ApiError} Throws COLLABORATOR_WRITE_ERROR on failure.
+   */
+  public async setCollaborator(collaborator: Collaborator): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.collection("decks").doc(collaborator.deck_id)
+        .collection("collaborators").doc(collaborator.user_id)
+        .set(collaborator);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while adding the collaborator.",
+        500,
+        {deckID: collaborator.deck_id, userID: collaborator.user_id, errorCode: "COLLABORATOR_WRITE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Changes the role of a collaborator.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} userID - The ID of the collaborator.
+   * @param {CollaboratorRole} role - The new role.
+   * @return {Promise<void>} A promise that resolves when the role is updated.
+   * @throws {ApiError} Throws COLLABORATOR_WRITE_ERROR on failure.
+   */
+  public async updateCollaboratorRole(deckID: string, userID: string, role: CollaboratorRole): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.collection("decks").doc(deckID).collection("collaborators").doc(userID).update({
+        role,
+        updated_at: FirebaseAdmin.getTimeStamp(),
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while updating the collaborator.",
+        500,
+        {deckID, userID, errorCode: "COLLABORATOR_WRITE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Removes one or more collaborators from a deck. Users that are not collaborators are ignored.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {string[]} userIDs - The IDs of the collaborators to remove.
+   * @return {Promise<void>} A promise that resolves when the collaborators are removed.
+   * @throws {ApiError} Throws COLLABORATOR_DELETE_ERROR on failure.
+   */
+  public async removeCollaborators(deckID: string, userIDs: string[]): Promise<void> {
+    try {
+      const db = this.getDb();
+      const collaboratorsRef = db.collection("decks").doc(deckID).collection("collaborators");
+      const batch = db.batch();
+
+      userIDs.forEach((userID) => batch.delete(collaboratorsRef.doc(userID)));
+      await batch.commit();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while removing the collaborators.",
+        500,
+        {deckID, errorCode: "COLLABORATOR_DELETE_ERROR", message: error.message}
+      );
+    }
+  }
+}
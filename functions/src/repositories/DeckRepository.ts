@@ -9,12 +9,39 @@
  * It encapsulates Firestore query logic and translates database results/errors.
  *
  * Methods:
- * - getOwnerDecks: Queries Firestore for decks owned by a specific user, supporting pagination.
- * - getPublicDecks: Queries Firestore for public decks (is_private=false), supporting pagination.
+ * - getOwnerDecks: Queries Firestore for decks owned by a specific user, supporting pagination and tag/category filters.
+ * - getPublicDecks: Queries Firestore for public decks (is_private=false), supporting pagination and tag/category filters.
+ * - searchDecksByKeyword: Retrieves the decks of a search scope, collaborations included, matching query tokens in their `search_tokens` index.
+ * - searchDecksByVector: Retrieves the decks of a search scope, collaborations included, nearest to a query embedding, with their distance.
+ * - getDeckOwnerNames: Resolves the owner names of a list of decks.
+ * - suggestDeckTitles: Retrieves the titles of the user's own and public decks starting with a prefix.
+ * - getRecentSearchQueries: Retrieves the most recent deck search queries of a user.
+ * - saveSearchSession: Stores the ranking of a search whose following pages are served from it.
+ * - getSearchSession: Retrieves a stored search session by its ID.
  * - getSpecificDeck: Retrieves a single deck document from Firestore by its ID.
  * - createDeck: Adds a new deck document to the Firestore 'decks' collection.
- * - updateDeck: Updates fields of an existing deck document in Firestore, performing owner checks.
- * - deleteDecks: Deletes one or more deck documents from Firestore after performing owner checks.
+ * - updateDeck: Updates fields of an existing deck document in Firestore, performing permission checks, and records a deck version.
+ * - deleteDecks: Deletes one or more deck documents from Firestore after performing permission checks.
+ * - purgeDeck: Permanently deletes a deck, its subcollections, related quizzes and every document referring to it.
+ * - restoreDeletedDeck: Takes a soft-deleted deck out of the trash.
+ * - getOwnerDeletedDeckIDs: Retrieves the IDs of every soft-deleted deck of a user.
+ * - getDeletedDeckPage: Retrieves a page of the soft-deleted decks with their deletion time.
+ * - backfillDeletedAt: Starts the trash retention of a deck soft-deleted before its deletion time was recorded.
+ * - getDecksByIDs: Retrieves several deck documents at once, keyed by their ID.
+ * - getStudyDeckIDs: Retrieves the IDs of the decks a user owns or has saved.
+ * - getDeckEmbeddingPage: Retrieves a page of decks with the fields needed to (re-)embed and index them.
+ * - getDeckTaxonomyPage: Retrieves a page of the tags and categories of the public decks or of the decks of a user.
+ * - updateDeckEmbedding: Replaces the embedding of a deck and records the model that produced it.
+ * - updateDeckSearchTokens: Replaces the keyword search tokens of a deck.
+ * - updateDeckTaxonomy: Replaces the tags and/or the category of a deck and records a deck version.
+ * - indexDeckFlashcards: Builds the search index of the flashcards of a deck.
+ * - forkDeck: Copies a deck and its flashcards into a new deck and increments the fork count of the source.
+ * - getRecentSearchEmbeddings: Retrieves the embeddings of the most recent deck searches of a user.
+ * - getRecentActivityDeckIDs: Retrieves the IDs of the decks a user most recently studied.
+ * - getRecentSavedDeckIDs: Retrieves the IDs of the decks a user most recently saved.
+ * - getDeckEmbeddings: Retrieves the embeddings of several decks at once.
+ * - getTrendingDecks: Retrieves the public decks with the highest popularity score.
+ * - indexDeckPopularity: Computes the save, study and popularity counters of a deck created before they were maintained.
  *
  * @module repository
  * @file DeckRepository.ts
@@ -22,16 +49,20 @@
  * @classdesc Provides data access methods for the 'decks' collection in Firestore, extending FirebaseAdmin for database connectivity.
  * @author Arthur M. Artugue
  * @created 2024-03-30
- * @updated 2025-05-17
+ * @updated 2026-10-19
  */
 
 import {FirebaseAdmin} from "../config/FirebaseAdmin";
 import {ApiError} from "../helpers/apiError";
-import {Deck, DeckRaw, SaveDeck} from "../interface/Deck";
+import {Deck, DeckEmbeddingInfo, DeckRaw, DeckTaxonomyFilter, DeletedDeckInfo, SaveDeck} from "../interface/Deck";
+import {DeckSearchHit, SearchFilter, SearchSession} from "../interface/Search";
+import {POPULARITY_WEIGHTS} from "../interface/Recommendation";
 import {Utils} from "../utils/utils";
 import {QuizRepository} from "./QuizRepository";
+import {DeckVersionRepository} from "./DeckVersionRepository";
 import {UserRepository} from "./UserRepository";
-import {FieldValue, VectorQuery, VectorQuerySnapshot} from "@google-cloud/firestore";
+import {PermissionService} from "../services/PermissionService";
+import {FieldPath, FieldValue, Query} from "@google-cloud/firestore";
 
 /**
  * The `DeckRepository` class extends the `FirebaseAdmin` class to provide
@@ -43,6 +74,28 @@ export class DeckRepository extends FirebaseAdmin {
   userRepository : UserRepository = new UserRepository();
   quizRepository : QuizRepository = new QuizRepository();
 
+  /**
+   * The repository recording the versions of the decks, in the transactions changing them.
+   */
+  private deckVersionRepository: DeckVersionRepository;
+
+  /**
+   * The service authorizing deck operations for owners and collaborators.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * Initializes the DeckRepository.
+   *
+   * @param {DeckVersionRepository} deckVersionRepository - The repository recording the versions of the decks.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   */
+  constructor(deckVersionRepository: DeckVersionRepository, permissionService: PermissionService) {
+    super();
+    this.deckVersionRepository = deckVersionRepository;
+    this.permissionService = permissionService;
+  }
+
   /**
    * Retrieves a paginated list of non-deleted decks owned by a specific user from Firestore.
    * Orders decks by title.
@@ -51,17 +104,25 @@ export class DeckRepository extends FirebaseAdmin {
    * @param {number} limit - The maximum number of decks to return per page.
    * @param {string | null} [nextPageToken=null] - The document ID to start after for pagination.
    * @param {string} orderBy - The field to order the results by.
+   * @param {DeckTaxonomyFilter} [taxonomy={}] - Only return the decks with this tag and/or category.
    * @return {Promise<any[]>} A promise resolving to an object containing the decks array and the next page token.
    * @throws {Error} Throws custom errors (e.g., INTERNAL_SERVER_ERROR) on failure.
    */
-  public async getOwnerDecks(userID: string, limit: number, nextPageToken: string | null = null, orderBy: string): Promise<object> {
+  public async getOwnerDecks(
+    userID: string,
+    limit: number,
+    nextPageToken: string | null = null,
+    orderBy: string,
+    taxonomy: DeckTaxonomyFilter = {}
+  ): Promise<object> {
     try {
       const db = this.getDb();
       const order = (orderBy === "created_at") ? "desc" : "asc";
-      let query = db
+      const scope = db
         .collection("decks")
         .where("owner_id", "==", userID) // Filter by owner_id
-        .where("is_deleted", "==", false) // Filter out deleted decks
+        .where("is_deleted", "==", false); // Filter out deleted decks
+      let query = this.filterByTaxonomy(scope, taxonomy)
         .orderBy(orderBy, order) // Order results
         .limit(limit); // Limit results
 
@@ -81,7 +142,7 @@ export class DeckRepository extends FirebaseAdmin {
       // Extract deck data, stripping out embedding_field
       const decks = snapshot.docs.map((doc) => {
         // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
+        const {embedding_field, search_tokens, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
         return {
           id: doc.id,
           owner_name: userName[userID],
@@ -120,16 +181,18 @@ export class DeckRepository extends FirebaseAdmin {
    *
    * @param {number} limit - The maximum number of decks to return per page.
    * @param {string | null} [nextPageToken=null] - The document ID to start after for pagination.
+   * @param {DeckTaxonomyFilter} [taxonomy={}] - Only return the decks with this tag and/or category.
    * @return {Promise<PaginatedDecksResponse>} A promise resolving to an object containing the decks array and the next page token.
    * @throws {Error} Throws custom errors (e.g., DATABASE_FETCH_ERROR) on failure.
    */
-  public async getPublicDecks(limit: number, nextPageToken: string | null = null): Promise<object> {
+  public async getPublicDecks(limit: number, nextPageToken: string | null = null, taxonomy: DeckTaxonomyFilter = {}): Promise<object> {
     try {
       const db = this.getDb();
-      let query = db
+      const scope = db
         .collection("decks")
         .where("is_private", "==", false) // Filter by owner_id
-        .where("is_deleted", "==", false) // Filter out deleted decks
+        .where("is_deleted", "==", false); // Filter out deleted decks
+      let query = this.filterByTaxonomy(scope, taxonomy)
         .orderBy("title") // Order results
         .limit(limit); // Limit results
 
@@ -157,7 +220,7 @@ export class DeckRepository extends FirebaseAdmin {
       // Extract deck data, stripping out embedding_field, Build result
       const decks = snapshot.docs.map((doc) => {
         // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
+        const {embedding_field, search_tokens, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
         return {
           id: doc.id,
           owner_name: ownerMap[deckDataWithoutEmbedding.owner_id],
@@ -221,7 +284,7 @@ export class DeckRepository extends FirebaseAdmin {
       // Extract deck data, stripping out embedding_field
       const decks = snapshot.docs.map((doc) => {
         // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
+        const {embedding_field, search_tokens, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
         return {
           id: doc.id,
           owner_name: userName[userID],
@@ -307,7 +370,7 @@ export class DeckRepository extends FirebaseAdmin {
 
         // strip out embedding_field
         // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...raw} = deckData as DeckRaw;
+        const {embedding_field, search_tokens, ...raw} = deckData as DeckRaw;
         return {
           id: deckSnap.id,
           owner_name: ownerMap[raw.owner_id],
@@ -334,79 +397,50 @@ export class DeckRepository extends FirebaseAdmin {
 
 
   /**
-   * Retrieves decks based on user query (From the owners deck)
+   * Retrieves the decks of a search scope whose search tokens match the query tokens (the keyword leg of the search).
+   * The owned and public decks are read through the token index, up to `limit` candidates; the saved decks and
+   * the decks the user collaborates on are read whole. The decks are returned in Firestore order, possibly more
+   * than `limit` of them; ranking them is left to the caller.
    *
-   * @param {string} userID - The ID of the user whose decks to fetch.
-   * @param {number} query - The search query to filter decks.
-   * @param {number[]} vectorQuery - The embedding vector to search against.
-   * @param {number} limit - The maximum number of decks to return per page.
-   * @return {Promise<PaginatedDecksResponse>} A promise resolving to an object containing the decks array and the next page token.
-   * @throws {Error} Throws custom errors (e.g., DATABASE_FETCH_ERROR) on failure.
+   * @param {SearchFilter} filter - The scope of the search: the user's own, saved, public or deleted decks.
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {string[]} tokens - The query tokens, at most 30.
+   * @param {number} limit - The maximum number of decks read through the token index.
+   * @param {DeckTaxonomyFilter} [taxonomy={}] - Only return the decks with this tag and/or category.
+   * @return {Promise<DeckSearchHit[]>} A promise resolving to the matching decks.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
    */
-  public async searchOwnerDecks(userID: string, query: string, vectorQuery: number[], limit: number): Promise<object> {
+  public async searchDecksByKeyword(
+    filter: SearchFilter,
+    userID: string,
+    tokens: string[],
+    limit: number,
+    taxonomy: DeckTaxonomyFilter = {}
+  ): Promise<DeckSearchHit[]> {
     try {
-      const db = this.getDb();
-      const collection = db.collection("decks");
-
-      // Vector Query to find nearest decks
-      const preFilteredVectorQuery : VectorQuery = collection
-        .where("owner_id", "==", userID) // Filter by owner_id
-        .where("is_deleted", "==", false)
-        .findNearest({
-          vectorField: "embedding_field",
-          queryVector: vectorQuery,
-          limit: limit,
-          distanceMeasure: "COSINE",
-          distanceThreshold: 0.41,
-        });
-
-      // Exact title lookup
-      const cleanedQuery = Utils.cleanTitle(query);
-
-      // Exact‐title lookup on those same IDs
-      const exactTitleQuery = await db
-        .collection("decks")
-        .where("owner_id", "==", userID)
-        .where("title", "==", cleanedQuery)
-        .where("is_deleted", "==", false);
-
-      const ownerMap: Record<string, string> = {};
+      if (tokens.length === 0) return [];
+      const {indexed, listed} = await this.getSearchScopes(filter, userID, taxonomy);
 
-      const [vectorQueryResults, exactTitleQueryResults, userName] = await Promise.all([
-        preFilteredVectorQuery.get(),
-        exactTitleQuery.get(),
-        this.userRepository.getOwnerNames([userID]),
+      // Decks selected by ID cannot also be filtered with array-contains-any, their tokens are checked below
+      const snapshots = await Promise.all([
+        ...(indexed ? [indexed.where("search_tokens", "array-contains-any", tokens).limit(limit).get()] : []),
+        ...listed.map((query) => query.get()),
       ]);
 
+      const hits = new Map<string, DeckSearchHit>();
+      snapshots.flatMap((snapshot) => snapshot.docs).forEach((doc) => {
+        const searchTokens: string[] = doc.get("search_tokens") ?? [];
+        if (!tokens.some((token) => searchTokens.includes(token)) || !this.hasTag(doc.get("tags"), taxonomy)) return;
 
-      // Merge IDs exact matches
-      const exactIDs = new Set(exactTitleQueryResults.docs.map((d) => d.id));
-      console.log(`Exact IDs: ${exactIDs}`);
-
-      const mergedDocs = [
-        // exact‐match docs
-        ...exactTitleQueryResults.docs,
-        // then vector docs that aren’t already in exactIDs
-        ...vectorQueryResults.docs.filter((d) => !exactIDs.has(d.id)),
-      ].slice(0, limit);
-
-      // Extract deck data
-      const decks = mergedDocs.map((doc)=> {
         // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...raw} = doc.data() as DeckRaw;
-
-        return {
-          id: doc.id,
-          owner_name: ownerMap[raw.owner_id] || userName[userID],
-          ...raw,
-        };
+        const {embedding_field, search_tokens, ...deck} = doc.data() as DeckRaw;
+        hits.set(doc.id, {id: doc.id, deck});
       });
-
-      return {decks};
+      return [...hits.values()];
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (error:any) {
+    } catch (error: any) {
       throw new ApiError(
-        "An error occurred while searching owner decks.",
+        "An error occurred while searching decks by keyword.",
         500,
         {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
       );
@@ -414,62 +448,57 @@ export class DeckRepository extends FirebaseAdmin {
   }
 
   /**
-   * Retrieves decks based on user query (From the public decks)
+   * Retrieves the decks of a search scope nearest to the query embedding (the vector leg of the search),
+   * closest first, with their cosine distance.
    *
-   * @param {string} userID - The ID of the user whose made the request.
-   * @param {number} query - The search query to filter decks.
-   * @param {number} limit - The maximum number of decks to return per page.
-   * @return {Promise<PaginatedDecksResponse>} A promise resolving to an object containing the decks array and the next page token.
-   * @throws {Error} Throws custom errors (e.g., DATABASE_FETCH_ERROR) on failure.
+   * @param {SearchFilter} filter - The scope of the search: the user's own, saved, public or deleted decks.
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {number[]} vectorQuery - The embedding vector to search against.
+   * @param {number} limit - The maximum number of decks to return.
+   * @param {DeckTaxonomyFilter} [taxonomy={}] - Only return the decks with this tag and/or category.
+   * @return {Promise<DeckSearchHit[]>} A promise resolving to the nearest decks.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
    */
-  public async searchPublicDecks(userID: string, query: number[], limit: number): Promise<object> {
+  public async searchDecksByVector(
+    filter: SearchFilter,
+    userID: string,
+    vectorQuery: number[],
+    limit: number,
+    taxonomy: DeckTaxonomyFilter = {}
+  ): Promise<DeckSearchHit[]> {
     try {
-      const db = this.getDb();
-      const collection = db.collection("decks");
-      const preFilteredVectorQuery : VectorQuery = collection
-        .where("is_private", "==", false) // Filter by owner_id
-        .where("is_deleted", "==", false)
+      const {indexed, listed} = await this.getSearchScopes(filter, userID, taxonomy);
+      const scopes = indexed ? [indexed, ...listed] : listed;
+
+      const snapshots = await Promise.all(scopes.map((scope) => scope
         .findNearest({
           vectorField: "embedding_field",
-          queryVector: query,
+          queryVector: vectorQuery,
           limit: limit,
           distanceMeasure: "COSINE",
           distanceThreshold: 0.41,
-        }); // Order results
-
-
-      // Retrieve the query snapshot
-      const vectorQueryResults = await preFilteredVectorQuery.get();
+          distanceResultField: "vector_distance",
+        })
+        .get()
+      ));
 
-      // Extract unique owner IDs
-      const ownerIds = vectorQueryResults.docs.map((doc) => doc.data().owner_id);
-      const ownerMap: Record<string, string> = {};
-
-      // Fetch user names in batches if there are more than 10 ownerIds
-      const batchSize = 10;
-      for (let i = 0; i < ownerIds.length; i += batchSize) {
-        const batchIds = ownerIds.slice(i, i + batchSize);
-        const userNames = await this.userRepository.getOwnerNames(batchIds);
-        Object.assign(ownerMap, userNames);
-      }
+      const hits = new Map<string, DeckSearchHit>();
+      snapshots.flatMap((snapshot) => snapshot.docs).forEach((doc) => {
+        if (!this.hasTag(doc.get("tags"), taxonomy)) return;
 
-      // Extract deck data
-      const decks = vectorQueryResults.docs.map((doc)=> {
         // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
-
-        return {
-          id: doc.id,
-          owner_name: ownerMap[deckDataWithoutEmbedding.owner_id],
-          ...deckDataWithoutEmbedding,
-        };
+        const {embedding_field, search_tokens, vector_distance: distance, ...deck} = doc.data() as DeckRaw & {vector_distance: number};
+        hits.set(doc.id, {id: doc.id, deck, distance});
       });
 
-      return {decks};
+      // Each scope returns its own nearest decks, merge them back into one ranking
+      return [...hits.values()]
+        .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))
+        .slice(0, limit);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (error : any) {
+    } catch (error: any) {
       throw new ApiError(
-        "An error occurred while searching public decks.",
+        "An error occurred while searching decks by similarity.",
         500,
         {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
       );
@@ -477,66 +506,158 @@ export class DeckRepository extends FirebaseAdmin {
   }
 
   /**
- * Retrieves saved decks for a user based on an embedding similarity search.
- * Filters to only decks the user has saved, then performs a nearest-neighbor vector query on those decks.
- * Strips out embedding_field from returned results.
- *
- * @param {string} userID - The ID of the user whose saved decks to search.
- * @param {number[]} query - The embedding vector to search against.
- * @param {number} limit - The maximum number of decks to return.
- * @return {Promise<object>} A promise resolving to an object containing the matching decks.
- * @throws {Error} Throws custom errors (e.g., DATABASE_FETCH_ERROR) on failure.
- */
-  public async searchSavedDecks(userID: string, query: number[], limit: number): Promise<object> {
-    try {
-      const db = this.getDb();
+   * Resolves the owner names of a list of decks, fetching the names in batches of 10 owners.
+   *
+   * @param {string[]} ownerIDs - The IDs of the deck owners, duplicates allowed.
+   * @return {Promise<Record<string, string>>} A promise resolving to the owner names keyed by owner ID.
+   */
+  public async getDeckOwnerNames(ownerIDs: string[]): Promise<Record<string, string>> {
+    const uniqueIDs = [...new Set(ownerIDs)];
+    const ownerMap: Record<string, string> = {};
 
-      // 1. Fetch saved deck IDs for this user
-      const savedSnap = await db
+    const batchSize = 10;
+    for (let i = 0; i < uniqueIDs.length; i += batchSize) {
+      Object.assign(ownerMap, await this.userRepository.getOwnerNames(uniqueIDs.slice(i, i + batchSize)));
+    }
+    return ownerMap;
+  }
+
+  /**
+   * Builds the queries selecting the decks a search runs over. `indexed` selects the owned or public decks and
+   * may be large; `listed` select the saved decks, or the decks the user collaborates on for `MY_DECKS`, by ID
+   * in chunks of 30. The category is filtered by the queries; the tag is left to the legs, since the keyword
+   * leg already uses the one array filter a query allows.
+   *
+   * @param {SearchFilter} filter - The scope of the search.
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {DeckTaxonomyFilter} taxonomy - The subject the search is narrowed to.
+   * @return {Promise<object>} The query of the indexed scope, or null when there is none, and the queries of the listed decks.
+   */
+  private async getSearchScopes(
+    filter: SearchFilter,
+    userID: string,
+    taxonomy: DeckTaxonomyFilter
+  ): Promise<{indexed: Query | null, listed: Query[]}> {
+    const collection = this.getDb().collection("decks");
+    const byCategory = {category: taxonomy.category};
+    let indexed: Query | null = null;
+    let listedIDs: string[] = [];
+
+    if (filter === "SAVED_DECKS") {
+      const savedSnap = await this.getDb()
         .collection("saved_decks")
         .where("user_id", "==", userID)
         .get();
-      const deckIds = savedSnap.docs.map((doc) => doc.data().deck_id);
-      if (deckIds.length === 0) {
-        return {decks: []};
+      listedIDs = savedSnap.docs.map((doc) => doc.data().deck_id);
+    } else if (filter === "PUBLIC_DECKS") {
+      indexed = collection
+        .where("is_private", "==", false)
+        .where("is_deleted", "==", false);
+    } else {
+      indexed = collection
+        .where("owner_id", "==", userID)
+        .where("is_deleted", "==", filter === "DELETED_DECKS");
+
+      // The trash only holds the decks of their owner
+      if (filter === "MY_DECKS") {
+        listedIDs = Object.keys(await this.permissionService.getCollaboratorRoles(userID));
       }
+    }
 
-      // 2. Perform nearest-neighbor search on decks the user saved
-      const vectorQuery = db
-        .collection("decks")
-        .where("__name__", "in", deckIds)
-        .findNearest({
-          vectorField: "embedding_field",
-          queryVector: query,
-          limit: limit,
-          distanceMeasure: "COSINE",
-          distanceThreshold: 0.41,
-        });
+    // Firestore allows at most 30 values in an `in` filter
+    const listed: Query[] = [];
+    for (let i = 0; i < listedIDs.length; i += 30) {
+      listed.push(this.filterByTaxonomy(
+        collection
+          .where(FieldPath.documentId(), "in", listedIDs.slice(i, i + 30))
+          .where("is_deleted", "==", false),
+        byCategory
+      ));
+    }
+
+    return {indexed: indexed ? this.filterByTaxonomy(indexed, byCategory) : null, listed};
+  }
+
+  /**
+   * Narrows a deck query to the decks with a tag and/or a category.
+   *
+   * @param {Query} query - The deck query.
+   * @param {DeckTaxonomyFilter} taxonomy - The tag and category to filter by, either optional.
+   * @return {Query} The narrowed query.
+   */
+  private filterByTaxonomy(query: Query, taxonomy: DeckTaxonomyFilter): Query {
+    let filtered = query;
+    if (taxonomy.tag) {
+      filtered = filtered.where("tags", "array-contains", taxonomy.tag);
+    }
+    if (taxonomy.category) {
+      filtered = filtered.where("category", "==", taxonomy.category);
+    }
+    return filtered;
+  }
+
+  /**
+   * Checks whether the tags of a deck contain the tag of a taxonomy filter.
+   *
+   * @param {unknown} tags - The stored tags of the deck.
+   * @param {DeckTaxonomyFilter} taxonomy - The filter; without a tag every deck matches.
+   * @return {boolean} Whether the deck matches the tag.
+   */
+  private hasTag(tags: unknown, taxonomy: DeckTaxonomyFilter): boolean {
+    return !taxonomy.tag || (Array.isArray(tags) && tags.includes(taxonomy.tag));
+  }
 
-      // 3. Execute vector query and fetch owner names
-      const [vectorResults, ownerNames] = await Promise.all([
-        vectorQuery.get() as Promise<VectorQuerySnapshot>, // Explicitly type the result
-        this.userRepository.getOwnerNames(
-          (await vectorQuery.get()).docs.map((d) => d.data().owner_id) // Ensure proper typing
-        ),
+  /**
+   * Retrieves the titles of the decks starting with a prefix, using a range query on the cleaned titles:
+   * the user's own non-deleted decks first, then public decks. A title shared by several decks is returned once.
+   *
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {string} prefix - The cleaned title prefix (see `Utils.cleanTitle`).
+   * @param {number} limit - The maximum number of titles to return.
+   * @return {Promise<Array<object>>} A promise resolving to the matching deck IDs and titles, and whether the user owns them.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async suggestDeckTitles(userID: string, prefix: string, limit: number): Promise<Array<{id: string, title: string, is_owner: boolean}>> {
+    try {
+      const collection = this.getDb().collection("decks");
+      const end = `${prefix}\uf8ff`;
+
+      const [ownSnap, publicSnap] = await Promise.all([
+        collection
+          .where("owner_id", "==", userID)
+          .where("is_deleted", "==", false)
+          .where("title", ">=", prefix)
+          .where("title", "<", end)
+          .orderBy("title")
+          .select("title", "owner_id")
+          .limit(limit)
+          .get(),
+        collection
+          .where("is_private", "==", false)
+          .where("is_deleted", "==", false)
+          .where("title", ">=", prefix)
+          .where("title", "<", end)
+          .orderBy("title")
+          .select("title", "owner_id")
+          .limit(limit)
+          .get(),
       ]);
 
-      // 4. Build response, stripping embedding_field
-      const decks = vectorResults.docs.map((doc) => {
-        // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...deckDataWithoutEmbedding} = doc.data() as DeckRaw;
-        return {
-          id: doc.id,
-          owner_name: ownerNames[deckDataWithoutEmbedding.owner_id],
-          ...deckDataWithoutEmbedding,
-        };
-      });
+      const suggestions: Array<{id: string, title: string, is_owner: boolean}> = [];
+      const seen = new Set<string>();
+      for (const doc of [...ownSnap.docs, ...publicSnap.docs]) {
+        const title = doc.get("title") as string;
+        if (seen.has(title)) continue;
+
+        seen.add(title);
+        suggestions.push({id: doc.id, title, is_owner: doc.get("owner_id") === userID});
+      }
 
-      return {decks};
+      return suggestions.slice(0, limit);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (error : any) {
+    } catch (error: any) {
       throw new ApiError(
-        "An error occurred while searching saved decks.",
+        "An error occurred while suggesting deck titles.",
         500,
         {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
       );
@@ -544,85 +665,77 @@ export class DeckRepository extends FirebaseAdmin {
   }
 
   /**
-   * Retrieves decks based on user query (From the owners deck)
+   * Retrieves the most recent deck search queries of a user, newest first.
    *
-   * @param {string} userID - The ID of the user whose decks to fetch.
-   * @param {number} query - The search query to filter decks.
-   * @param {number[]} vectorQuery - The embedding vector to search against.
-   * @param {number} limit - The maximum number of decks to return per page.
-   * @return {Promise<PaginatedDecksResponse>} A promise resolving to an object containing the decks array and the next page token.
-   * @throws {Error} Throws custom errors (e.g., DATABASE_FETCH_ERROR) on failure.
+   * @param {string} userID - The ID of the user.
+   * @param {number} limit - The maximum number of queries to return.
+   * @return {Promise<string[]>} A promise resolving to the queries, duplicates included.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
    */
-  public async searchDeletedDecks(userID: string, query: string, vectorQuery: number[], limit: number): Promise<object> {
+  public async getRecentSearchQueries(userID: string, limit: number): Promise<string[]> {
     try {
-      const db = this.getDb();
-      const collection = db.collection("decks");
-
-      // Vector Query to find nearest decks
-      const preFilteredVectorQuery : VectorQuery = collection
-        .where("owner_id", "==", userID) // Filter by owner_id
-        .where("is_deleted", "==", true)
-        .findNearest({
-          vectorField: "embedding_field",
-          queryVector: vectorQuery,
-          limit: limit,
-          distanceMeasure: "COSINE",
-          distanceThreshold: 0.41,
-        });
-
-      // Exact title lookup
-      const cleanedQuery = Utils.cleanTitle(query);
-
-      // Exact‐title lookup on those same IDs
-      const exactTitleQuery = db
-        .collection("decks")
-        .where("owner_id", "==", userID)
-        .where("title", "==", cleanedQuery)
-        .where("is_deleted", "==", true);
-
-      const ownerMap: Record<string, string> = {};
-
-      const [vectorQueryResults, exactTitleQueryResults, userName] = await Promise.all([
-        preFilteredVectorQuery.get(),
-        exactTitleQuery.get(),
-        this.userRepository.getOwnerNames([userID]),
-      ]);
-
-
-      // Merge IDs exact matches
-      const exactIDs = new Set(exactTitleQueryResults.docs.map((d) => d.id));
-      console.log(`Exact IDs: ${exactIDs}`);
-
-      const mergedDocs = [
-        // exact‐match docs
-        ...exactTitleQueryResults.docs,
-        // then vector docs that aren’t already in exactIDs
-        ...vectorQueryResults.docs.filter((d) => !exactIDs.has(d.id)),
-      ].slice(0, limit);
-
-      // Extract deck data
-      const decks = mergedDocs.map((doc)=> {
-        // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-        const {embedding_field, ...raw} = doc.data() as DeckRaw;
+      const snapshot = await this.getDb()
+        .collection("search_deck_logs")
+        .where("user_id", "==", userID)
+        .orderBy("searched_at", "desc")
+        .select("search_query")
+        .limit(limit)
+        .get();
 
-        return {
-          id: doc.id,
-          owner_name: ownerMap[raw.owner_id] || userName[userID],
-          ...raw,
-        };
-      });
+      return snapshot.docs
+        .map((doc) => doc.get("search_query"))
+        .filter((query): query is string => typeof query === "string");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the recent searches.",
+        500,
+        {userID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
 
-      return {decks};
+  /**
+   * Stores the ranking of a search so its following pages can be served from it.
+   *
+   * @param {SearchSession} session - The search session.
+   * @return {Promise<string>} A promise resolving to the ID of the stored session.
+   * @throws {ApiError} Throws SEARCH_SESSION_CREATE_ERROR on failure.
+   */
+  public async saveSearchSession(session: SearchSession): Promise<string> {
+    try {
+      const res = await this.getDb().collection("search_sessions").add(session);
+      return res.id;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (error:any) {
+    } catch (error: any) {
       throw new ApiError(
-        "An error occurred while searching owner deleted decks.",
+        "An error occurred while storing the search results.",
         500,
-        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+        {userID: session.user_id, errorCode: "SEARCH_SESSION_CREATE_ERROR", message: error.message}
       );
     }
   }
 
+  /**
+   * Retrieves a stored search session by its ID.
+   *
+   * @param {string} sessionID - The ID of the search session.
+   * @return {Promise<SearchSession | null>} A promise resolving to the session, or null when it does not exist.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getSearchSession(sessionID: string): Promise<SearchSession | null> {
+    try {
+      const snap = await this.getDb().collection("search_sessions").doc(sessionID).get();
+      return snap.exists ? snap.data() as SearchSession : null;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the search results.",
+        500,
+        {sessionID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
 
   /**
    * Retrieves a specific deck document by its ID from Firestore.
@@ -655,12 +768,13 @@ export class DeckRepository extends FirebaseAdmin {
       // Extract deck data
 
       // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-      const {embedding_field, ...deckDataWithoutEmbedding} = deckSnap.data() as DeckRaw;
+      const {embedding_field, search_tokens, ...deckDataWithoutEmbedding} = deckSnap.data() as DeckRaw;
 
       const ownerMap = deckDataWithoutEmbedding ? await this.userRepository.getOwnerNames([deckDataWithoutEmbedding.owner_id]) : {};
       const deck = deckDataWithoutEmbedding ? {
         id: deckSnap.id,
         owner_name: ownerMap[deckDataWithoutEmbedding.owner_id],
+        fork_count: 0,
         ...deckDataWithoutEmbedding,
       } : null;
 
@@ -709,7 +823,7 @@ export class DeckRepository extends FirebaseAdmin {
 
       // Destructure to exclude embedding_field
       // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
-      const {embedding_field, ...deckDataWithoutEmbedding} = deckData;
+      const {embedding_field, search_tokens, ...deckDataWithoutEmbedding} = deckData;
 
       // Fetch owner name using owner_id
       const ownerMap = await this.userRepository.getOwnerNames([deckData.owner_id]);
@@ -744,7 +858,8 @@ export class DeckRepository extends FirebaseAdmin {
 
 
   /**
-   * Creates a new deck document in the Firestore 'saved_decks' collection.
+   * Creates a new deck document in the Firestore 'saved_decks' collection and counts the save
+   * in the popularity of the deck.
    *
    * @param {object} saveDeckData - The data object for the new deck (should match expected schema).
    * @throws {Error} Throws custom errors (INVALID_DECK_DATA, DATABASE_CREATE_ERROR) on failure or invalid input.
@@ -767,13 +882,13 @@ export class DeckRepository extends FirebaseAdmin {
         throw error;
       }
 
-      const res = await collectionRef.add(saveDeckData);
-
-      if (!res || !res.id) {
-        const error = new Error("Failed to save deck, no reference returned");
-        error.name = "DATABASE_DECK_SAVE_ERROR";
-        throw error;
-      }
+      const batch = db.batch();
+      batch.set(collectionRef.doc(), saveDeckData);
+      batch.update(db.collection("decks").doc(saveDeckData.deck_id), {
+        save_count: FieldValue.increment(1),
+        popularity_score: FieldValue.increment(POPULARITY_WEIGHTS.save),
+      });
+      await batch.commit();
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -786,7 +901,8 @@ export class DeckRepository extends FirebaseAdmin {
   }
 
   /**
- * Deletes an existing saved‐deck entry from the Firestore 'saved_decks' collection.
+ * Deletes an existing saved‐deck entry from the Firestore 'saved_decks' collection, removes
+ * the save from the popularity of the deck and takes the deck out of the user's folders.
  *
  * @param {object} unsaveDeckData - The identifying data for the saved deck:
  *   { deck_id: string; user_id: string; }
@@ -814,6 +930,11 @@ export class DeckRepository extends FirebaseAdmin {
       snapshot.docs.forEach((doc) => {
         batch.delete(doc.ref);
       });
+      batch.update(db.collection("decks").doc(unsaveDeckData.deck_id), {
+        save_count: FieldValue.increment(-snapshot.size),
+        popularity_score: FieldValue.increment(-snapshot.size * POPULARITY_WEIGHTS.save),
+      });
+      batch.delete(db.collection("folder_items").doc(`${unsaveDeckData.user_id}_${unsaveDeckData.deck_id}`));
       await batch.commit();
     } catch (error) {
       if (error instanceof Error) {
@@ -833,7 +954,10 @@ export class DeckRepository extends FirebaseAdmin {
 
   /**
    * Updates an existing deck document in Firestore.
-   * Verifies that the deck exists and the requesting user is the owner before updating.
+   * Verifies that the deck exists and the requesting user has the role the update requires
+   * (editor for the deck details, admin for the visibility, owner for the deletion status).
+   * Moving the deck to or out of the trash sets or clears its `deleted_at`. The update and its deck version
+   * are written in one transaction.
    *
    * @param {string} userID - The ID of the user requesting the update (for authorization).
    * @param {string} deckId - The unique identifier of the deck to update.
@@ -865,19 +989,41 @@ export class DeckRepository extends FirebaseAdmin {
         throw error;
       }
 
-      const deckOwner = deckData.data()?.owner_id;
+      const canUpdate = await this.permissionService.can(
+        userID, deckId, deckData.data() as DeckRaw, PermissionService.getUpdateAction(data)
+      );
 
-      if (deckOwner !== userID) {
+      if (!canUpdate) {
         const error = new Error(`User ${userID} is not authorized to update deck ${deckId}`);
         error.name = "NOT_AUTHORIZED_TO_UPDATE_DECK";
         throw error;
       }
 
-      // TODO: Check if the user role is admin
-      // AND the data to be changed is only the is_deleted field
-      // OR the is_private field
+      // Platform admins and moderators unpublish or restore decks they do not own through
+      // the AdminRepository, which records every override in the audit log.
+
+      // The update and its version are committed together
+      const version = await db.runTransaction(async (transaction) => {
+        const deckSnap = await transaction.get(deckRef);
+        if (!deckSnap.exists) {
+          const error = new Error(`Deck ${deckId} does not exist`);
+          error.name = "DECK_NOT_FOUND";
+          throw error;
+        }
+
+        const before = deckSnap.data() as DeckRaw;
+        const isDeleted = (data as {is_deleted?: boolean}).is_deleted;
+        const wasDeleted = before.is_deleted ?? false;
+        transaction.update(deckRef, isDeleted === undefined || isDeleted === wasDeleted ? data : {
+          ...data,
+          deleted_at: isDeleted ? FieldValue.serverTimestamp() : null,
+        });
 
-      await deckRef.update(data);
+        return this.deckVersionRepository.recordChanges(transaction, deckSnap, userID, "UPDATE_DECK", {
+          deck: {before, after: {...before, ...data}},
+        });
+      });
+      await this.deckVersionRepository.pruneVersions(deckId, version);
 
       const updatedDeck = await deckRef.get();
 
@@ -916,7 +1062,7 @@ export class DeckRepository extends FirebaseAdmin {
 
   /**
    * Deletes one or more deck documents from Firestore.
-   * Performs checks to ensure the deck exists and the requesting user is the owner before deletion.
+   * Performs checks to ensure the deck exists and the requesting user is allowed to delete it (owner) before deletion.
    * Skips deletion if checks fail for a specific ID and logs a warning.
    *
    * @param {string} userID - The ID of the user requesting the deletion (for authorization).
@@ -949,15 +1095,14 @@ export class DeckRepository extends FirebaseAdmin {
           continue;
         }
 
-        const deckOwner = deckSnapshot.data()?.owner_id;
-        if (deckOwner !== userID) {
+        const canDelete = await this.permissionService.can(userID, deckID, deckSnapshot.data() as DeckRaw, "delete");
+        if (!canDelete) {
           console.warn(`User not authorized to delete deck: ${deckID}`);
           continue;
         }
 
-        // TODO: Check if the user role is admin
-        await db.recursiveDelete(deckRef);
-        await this.quizRepository.deleteRelatedQuizzesByDeck(deckID);
+        // Hard deletes of decks the user does not own go through AdminRepository.hardDeleteDeck
+        await this.purgeDeck(deckID);
         console.log(`Deck with ID ${deckID} has been deleted.`);
       }
     } catch (error) {
@@ -978,64 +1123,108 @@ export class DeckRepository extends FirebaseAdmin {
   }
 
   /**
- * Recommend public decks for a user based on their recent search queries.
- *
- * @param {string} userID - The ID of the user to recommend for.
- * @param {number} limit - The maximum number of recommended decks to return.
- * @return {Promise<object>} A promise resolving to an object containing recommended decks.
- * @throws {Error} Throws custom errors on failure.
- */
-  public async recommendPublicDecks(userID: string, limit: number): Promise<object> {
+   * Permanently deletes a deck with its subcollections (flashcards, versions, collaborators), its related
+   * quizzes, and everything else referring to it: its entries in the saved decks and the folders of every
+   * user, its share links, the review states and review history of its flashcards, its reports and its
+   * publish requests. Permissions are checked by the caller.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<void>} A promise that resolves when the deck and everything referring to it are deleted.
+   */
+  public async purgeDeck(deckID: string): Promise<void> {
+    const db = this.getDb();
+    await db.recursiveDelete(db.collection("decks").doc(deckID));
+    await this.quizRepository.deleteRelatedQuizzesByDeck(deckID);
+    await db.recursiveDelete(db.collection("deck_reports").doc(deckID));
+
+    for (const collection of ["saved_decks", "folder_items", "share_links", "review_states", "review_logs", "publish_requests"]) {
+      await this.deleteByDeck(collection, deckID);
+    }
+  }
+
+  /**
+   * Takes a soft-deleted deck out of the trash, clearing its deletion time. Permissions are checked by the caller.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<void>} A promise that resolves when the deck is restored.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
+   */
+  public async restoreDeletedDeck(deckID: string): Promise<void> {
     try {
-      const db = this.getDb();
-      const searchLogsCollection = db.collection("search_deck_logs");
+      await this.getDb().collection("decks").doc(deckID).update({is_deleted: false, deleted_at: null});
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while restoring the deck.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
 
-      // Fetch recent search logs for this user
-      const searchLogsSnapshot = await searchLogsCollection
-        .where("user_id", "==", userID)
-        .orderBy("searched_at", "desc")
-        .limit(5) // Number of recent searches to consider
+  /**
+   * Retrieves the IDs of every soft-deleted deck owned by a user.
+   *
+   * @param {string} userID - The ID of the owner.
+   * @return {Promise<string[]>} A promise resolving to the IDs of the decks in the user's trash.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getOwnerDeletedDeckIDs(userID: string): Promise<string[]> {
+    try {
+      const snapshot = await this.getDb().collection("decks")
+        .where("owner_id", "==", userID)
+        .where("is_deleted", "==", true)
+        .select()
         .get();
 
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const vectors: number[][] = searchLogsSnapshot.docs.map((doc, idx) => {
-        const raw = doc.data().embedding;
-
-        // Unwrap it into a JS array
-        let arr: number[];
-        if (Array.isArray(raw)) {
-          arr = raw as number[];
-        } else if (raw.toArray) {
-          arr = raw.toArray();
-        } else if (raw.arrayValue?.values) {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          arr = raw.arrayValue.values.map((v: any) => v.doubleValue);
-        } else {
-          throw new ApiError(
-            "Invalid embedding format in search log",
-            500,
-          );
-        }
-        return arr;
-      });
+      return snapshot.docs.map((doc) => doc.id);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the deleted decks.",
+        500,
+        {userID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
 
+  /**
+   * Retrieves a page of the soft-deleted decks of every user with their deletion time, ordered by document ID.
+   *
+   * @param {number} limit - The maximum number of decks to retrieve.
+   * @param {string | null} [startAfterID=null] - The ID of the last deck of the previous page, or null for the first page.
+   * @return {Promise<object>} The decks of the page and the ID to start the next page after (null on the last page).
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getDeletedDeckPage(
+    limit: number,
+    startAfterID: string | null = null
+  ): Promise<{decks: DeletedDeckInfo[], nextPageToken: string | null}> {
+    try {
+      let query = this.getDb().collection("decks")
+        .where("is_deleted", "==", true)
+        .orderBy(FieldPath.documentId())
+        .select("deleted_at")
+        .limit(limit);
 
-      if (searchLogsSnapshot.empty) {
-        // Future TODO: Add fallback like popular public decks or recently accessed public decks
-        return {decks: []};
+      if (startAfterID) {
+        query = query.startAfter(startAfterID);
       }
 
-      // Compute average vector of recent search queries
-      const averageVector = this.averageVectors(vectors);
-
-      // Reuse your existing searchPublicDecks() method
-      const recommendations = await this.searchPublicDecks(userID, averageVector, limit);
+      const snapshot = await query.get();
+      const decks = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        deleted_at: doc.get("deleted_at") ?? null,
+      }));
 
-      return recommendations;
+      return {
+        decks,
+        nextPageToken: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+      };
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error: any) {
       throw new ApiError(
-        "An error occurred while generating public deck recommendations.",
+        "An error occurred while fetching the deleted decks.",
         500,
         {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
       );
@@ -1043,24 +1232,650 @@ export class DeckRepository extends FirebaseAdmin {
   }
 
   /**
-   * Computes the average of an array of vectors.
+   * Records the current time as the deletion time of a deck soft-deleted before deletion times were
+   * recorded, so its trash retention starts now.
    *
-   * @param {Array<Array<number>>} vectors - An array of vectors (number arrays)
-   * @return {Array<number>} The averaged vector.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<void>} A promise that resolves when the deck is updated.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
    */
-  private averageVectors(vectors: number[][]): number[] {
-    const numVectors = vectors.length;
-    const vectorLength = vectors[0].length;
-
-    const sumVector = new Array(vectorLength).fill(0);
+  public async backfillDeletedAt(deckID: string): Promise<void> {
+    try {
+      await this.getDb().collection("decks").doc(deckID).update({deleted_at: FieldValue.serverTimestamp()});
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while updating the deleted deck.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Deletes the documents of a top-level collection that refer to a deleted deck, such as its
+   * entries in the folders of every user, its share links or the review states of its flashcards.
+   *
+   * @param {string} collection - The collection, whose documents carry a `deck_id` field.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<void>} A promise that resolves when the documents of the deck are deleted.
+   */
+  private async deleteByDeck(collection: string, deckID: string): Promise<void> {
+    const db = this.getDb();
+    const snapshot = await db.collection(collection).where("deck_id", "==", deckID).select().get();
+
+    // A deck saved or studied by many users can be referred to by more documents than a single batch holds
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+      const batch = db.batch();
+      snapshot.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  }
+
+  /**
+   * Retrieves several deck documents at once, keyed by their ID.
+   * Decks that do not exist are omitted from the result. The embedding field is stripped out.
+   *
+   * @param {string[]} deckIDs - The IDs of the decks to retrieve.
+   * @return {Promise<Record<string, DeckRaw>>} A promise resolving to a map of deck IDs to deck data.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getDecksByIDs(deckIDs: string[]): Promise<Record<string, DeckRaw>> {
+    try {
+      const uniqueIDs = [...new Set(deckIDs)].filter((id) => typeof id === "string" && id.trim() !== "");
+      if (uniqueIDs.length === 0) return {};
+
+      const db = this.getDb();
+      const snapshots = await db.getAll(...uniqueIDs.map((id) => db.collection("decks").doc(id)));
+
+      const decks: Record<string, DeckRaw> = {};
+      snapshots.forEach((snap) => {
+        if (!snap.exists) return;
+        // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
+        const {embedding_field, search_tokens, ...deckDataWithoutEmbedding} = snap.data() as DeckRaw;
+        decks[snap.id] = deckDataWithoutEmbedding;
+      });
+
+      return decks;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the decks.",
+        500,
+        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
 
-    vectors.forEach((vector) => {
-      for (let i = 0; i < vectorLength; i++) {
-        sumVector[i] += vector[i];
+  /**
+   * Retrieves the IDs of the non-deleted decks a user owns, newest first, followed by the decks the user saved.
+   *
+   * @param {string} userID - The ID of the user.
+   * @return {Promise<string[]>} A promise resolving to the deck IDs.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getStudyDeckIDs(userID: string): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const [ownedSnapshot, savedSnapshot] = await Promise.all([
+        db.collection("decks")
+          .where("owner_id", "==", userID)
+          .where("is_deleted", "==", false)
+          .orderBy("created_at", "desc")
+          .select()
+          .get(),
+        db.collection("saved_decks")
+          .where("user_id", "==", userID)
+          .orderBy("saved_at", "desc")
+          .get(),
+      ]);
+
+      const deckIDs = [
+        ...ownedSnapshot.docs.map((doc) => doc.id),
+        ...savedSnapshot.docs.map((doc) => doc.data().deck_id as string),
+      ];
+
+      return [...new Set(deckIDs)];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the decks to study.",
+        500,
+        {userID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a page of decks (deleted ones included) with only the fields needed to (re-)embed and index them,
+   * ordered by document ID.
+   *
+   * @param {number} limit - The maximum number of decks to retrieve.
+   * @param {string | null} startAfterID - The ID of the last deck of the previous page, or null for the first page.
+   * @return {Promise<object>} The decks of the page and the ID to start the next page after (null on the last page).
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getDeckEmbeddingPage(limit: number, startAfterID: string | null = null): Promise<{decks: DeckEmbeddingInfo[], nextPageToken: string | null}> {
+    try {
+      const db = this.getDb();
+      let query = db.collection("decks")
+        .orderBy(FieldPath.documentId())
+        .select("title", "description", "owner_id", "embedding_model", "search_tokens", "flashcards_indexed", "popularity_indexed")
+        .limit(limit);
+
+      if (startAfterID) {
+        query = query.startAfter(startAfterID);
       }
-    });
 
-    return sumVector.map((sum) => sum / numVectors);
+      const snapshot = await query.get();
+      const decks = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        title: doc.get("title") ?? "",
+        description: doc.get("description") ?? "",
+        owner_id: doc.get("owner_id"),
+        embedding_model: doc.get("embedding_model"),
+        search_tokens: doc.get("search_tokens"),
+        flashcards_indexed: doc.get("flashcards_indexed"),
+        popularity_indexed: doc.get("popularity_indexed"),
+      }));
+
+      return {
+        decks,
+        nextPageToken: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the decks to embed.",
+        500,
+        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a page of the tags and categories of the non-deleted public decks, or of the non-deleted decks
+   * of a user, ordered by document ID.
+   *
+   * @param {string} scope - PUBLIC_DECKS or MY_DECKS.
+   * @param {string} userID - The ID of the user whose decks MY_DECKS covers.
+   * @param {number} limit - The maximum number of decks to retrieve.
+   * @param {string | null} [startAfterID=null] - The ID of the last deck of the previous page, or null for the first page.
+   * @return {Promise<object>} The taxonomy of the decks of the page and the ID to start the next page after (null on the last page).
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getDeckTaxonomyPage(
+    scope: "PUBLIC_DECKS" | "MY_DECKS",
+    userID: string,
+    limit: number,
+    startAfterID: string | null = null
+  ): Promise<{decks: Array<Pick<DeckRaw, "tags" | "category">>, nextPageToken: string | null}> {
+    try {
+      const collection = this.getDb().collection("decks");
+      let query = (scope === "PUBLIC_DECKS" ? collection.where("is_private", "==", false) : collection.where("owner_id", "==", userID))
+        .where("is_deleted", "==", false)
+        .orderBy(FieldPath.documentId())
+        .select("tags", "category")
+        .limit(limit);
+
+      if (startAfterID) {
+        query = query.startAfter(startAfterID);
+      }
+
+      const snapshot = await query.get();
+      return {
+        decks: snapshot.docs.map((doc) => ({
+          tags: doc.get("tags") ?? [],
+          category: doc.get("category") ?? null,
+        })),
+        nextPageToken: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the deck tags.",
+        500,
+        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Replaces the embedding of a deck and records the model that produced it, together with
+   * the keyword search tokens of the deck.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {number[]} vector - The new embedding.
+   * @param {string} embeddingModel - The model/version tag of the embedding.
+   * @param {string[]} searchTokens - The keyword search tokens of the deck.
+   * @return {Promise<void>} A promise that resolves when the deck is updated.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
+   */
+  public async updateDeckEmbedding(deckID: string, vector: number[], embeddingModel: string, searchTokens: string[]): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.collection("decks").doc(deckID).update({
+        embedding_field: FieldValue.vector(vector),
+        embedding_model: embeddingModel,
+        search_tokens: searchTokens,
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while updating the deck embedding.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Replaces the keyword search tokens of a deck.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {string[]} searchTokens - The keyword search tokens of the deck.
+   * @return {Promise<void>} A promise that resolves when the deck is updated.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
+   */
+  public async updateDeckSearchTokens(deckID: string, searchTokens: string[]): Promise<void> {
+    try {
+      await this.getDb().collection("decks").doc(deckID).update({search_tokens: searchTokens});
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while updating the deck search tokens.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Replaces the tags and/or the category of a deck and records a deck version in the same transaction.
+   * Permissions are checked by the caller.
+   *
+   * @param {string} userID - The ID of the user updating the deck.
+   * @param {string} deckID - The ID of the deck.
+   * @param {object} data - The new tags and/or category.
+   * @return {Promise<void>} A promise that resolves when the deck is updated.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
+   */
+  public async updateDeckTaxonomy(userID: string, deckID: string, data: Partial<Pick<DeckRaw, "tags" | "category">>): Promise<void> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(deckID);
+
+      const version = await db.runTransaction(async (transaction) => {
+        const deckSnap = await transaction.get(deckRef);
+        const before = deckSnap.data() as DeckRaw;
+
+        transaction.update(deckRef, data);
+        return this.deckVersionRepository.recordChanges(transaction, deckSnap, userID, "UPDATE_TAXONOMY", {
+          deck: {before, after: {...before, ...data}},
+        });
+      });
+      await this.deckVersionRepository.pruneVersions(deckID, version);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while updating the deck tags and category.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Builds the search index of every flashcard of a deck: the search tokens of its term and definition,
+   * and the deck and owner IDs used to scope flashcard searches. The deck is then marked as indexed.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} ownerID - The ID of the owner of the deck.
+   * @return {Promise<void>} A promise that resolves when the flashcards are indexed.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
+   */
+  public async indexDeckFlashcards(deckID: string, ownerID: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(deckID);
+      const flashcardsSnap = await deckRef.collection("flashcards").select("term", "definition").get();
+
+      // Firestore batches are limited to 500 writes
+      for (let i = 0; i < flashcardsSnap.docs.length; i += 500) {
+        const batch = db.batch();
+        flashcardsSnap.docs.slice(i, i + 500).forEach((doc) => {
+          batch.update(doc.ref, {
+            deck_id: deckID,
+            owner_id: ownerID,
+            search_tokens: Utils.searchTokens(doc.get("term") ?? "", doc.get("definition") ?? ""),
+          });
+        });
+        await batch.commit();
+      }
+
+      await deckRef.update({flashcards_indexed: true});
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while indexing the flashcards of the deck.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Copies a deck and its non-deleted flashcards into a new deck, then increments the
+   * `fork_count` of the source deck. The flashcards are written first, in batches, and the
+   * new deck document is created together with the fork count increment, so a fork only
+   * becomes visible once it is complete. A partially written fork is removed on failure.
+   * The embedding of the source deck is reused unless `deckData` provides one.
+   *
+   * @param {string} sourceDeckID - The ID of the deck to copy.
+   * @param {object} deckData - The data of the new deck (owner, privacy, lineage, ...).
+   * @return {Promise<object>} A promise resolving to the new deck, including its ID and owner_name.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or DECK_FORK_ERROR (500) on failure.
+   */
+  public async forkDeck(
+    sourceDeckID: string,
+    deckData: Omit<Deck, "id" | "embedding_field" | "embedding_model"> & Partial<Pick<Deck, "embedding_field" | "embedding_model">>
+  ): Promise<object> {
+    const db = this.getDb();
+    const sourceRef = db.collection("decks").doc(sourceDeckID);
+    const forkRef = db.collection("decks").doc();
+
+    try {
+      const [sourceSnap, flashcardsSnap] = await Promise.all([
+        sourceRef.get(),
+        sourceRef.collection("flashcards").where("is_deleted", "==", false).orderBy("created_at").get(),
+      ]);
+
+      if (!sourceSnap.exists) {
+        throw new ApiError(`Deck ${sourceDeckID} does not exist`, 404, {deckID: sourceDeckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      const source = sourceSnap.data() as DeckRaw;
+
+      // Firestore batches are limited to 500 writes; offset the creation times to keep the card order
+      const createdAt = deckData.created_at.toMillis();
+      const flashcardDocs = flashcardsSnap.docs;
+      for (let i = 0; i < flashcardDocs.length; i += 500) {
+        const batch = db.batch();
+        flashcardDocs.slice(i, i + 500).forEach((doc, j) => {
+          batch.set(forkRef.collection("flashcards").doc(), {
+            ...doc.data(),
+            deck_id: forkRef.id,
+            owner_id: deckData.owner_id,
+            search_tokens: doc.get("search_tokens") ?? Utils.searchTokens(doc.get("term") ?? "", doc.get("definition") ?? ""),
+            is_starred: false,
+            is_deleted: false,
+            created_at: FirebaseAdmin.convertToTimestamp(new Date(createdAt + i + j)),
+          });
+        });
+        await batch.commit();
+      }
+
+      const fork: DeckRaw = {
+        ...deckData,
+        flashcard_count: flashcardDocs.length,
+        fork_count: 0,
+        save_count: 0,
+        study_count: 0,
+        popularity_score: 0,
+        popularity_indexed: true,
+      };
+      if (!fork.embedding_field && source.embedding_field) {
+        fork.embedding_field = source.embedding_field;
+        fork.embedding_model = source.embedding_model ?? "";
+      }
+
+      const batch = db.batch();
+      batch.set(forkRef, fork);
+      batch.update(sourceRef, {
+        fork_count: FieldValue.increment(1),
+        popularity_score: FieldValue.increment(POPULARITY_WEIGHTS.fork),
+      });
+      await batch.commit();
+
+      // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
+      const {embedding_field, search_tokens, ...forkWithoutEmbedding} = fork;
+      const ownerMap = await this.userRepository.getOwnerNames([deckData.owner_id]);
+
+      return {
+        id: forkRef.id,
+        owner_name: ownerMap[deckData.owner_id],
+        ...forkWithoutEmbedding,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      await db.recursiveDelete(forkRef).catch(() => undefined);
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while forking the deck.",
+        500,
+        {deckID: sourceDeckID, errorCode: "DECK_FORK_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the embeddings of the most recent deck searches of a user, newest first.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {number} limit - The maximum number of searches to read.
+   * @return {Promise<Array<Array<number>>>} A promise resolving to the embeddings of the searches.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getRecentSearchEmbeddings(userID: string, limit: number): Promise<number[][]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("search_deck_logs")
+        .where("user_id", "==", userID)
+        .orderBy("searched_at", "desc")
+        .select("embedding")
+        .limit(limit)
+        .get();
+
+      return snapshot.docs
+        .map((doc) => this.toVector(doc.get("embedding")))
+        .filter((vector): vector is number[] => vector !== null);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the recent searches.",
+        500,
+        {userID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the IDs of the decks a user most recently studied or quizzed on, from the activity logs, newest first.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {number} limit - The maximum number of activity logs to read.
+   * @return {Promise<string[]>} A promise resolving to the unique deck IDs.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getRecentActivityDeckIDs(userID: string, limit: number): Promise<string[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("deck_logs")
+        .where("user_id", "==", userID)
+        .orderBy("occured_at", "desc")
+        .select("deck_id")
+        .limit(limit)
+        .get();
+
+      const deckIDs = snapshot.docs
+        .map((doc) => doc.get("deck_id"))
+        .filter((deckID): deckID is string => typeof deckID === "string");
+
+      return [...new Set(deckIDs)];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the recent deck activity.",
+        500,
+        {userID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the IDs of the decks a user most recently saved, newest first.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {number} limit - The maximum number of saved decks to read.
+   * @return {Promise<string[]>} A promise resolving to the deck IDs.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getRecentSavedDeckIDs(userID: string, limit: number): Promise<string[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("saved_decks")
+        .where("user_id", "==", userID)
+        .orderBy("saved_at", "desc")
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data().deck_id as string);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the saved decks.",
+        500,
+        {userID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the embeddings of several decks at once. Decks that do not exist or have no embedding are skipped.
+   *
+   * @param {string[]} deckIDs - The IDs of the decks, duplicates allowed.
+   * @return {Promise<Array<Array<number>>>} A promise resolving to the embeddings of the decks.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getDeckEmbeddings(deckIDs: string[]): Promise<number[][]> {
+    try {
+      const uniqueIDs = [...new Set(deckIDs)].filter((id) => typeof id === "string" && id.trim() !== "");
+      if (uniqueIDs.length === 0) return [];
+
+      const db = this.getDb();
+      const snapshots = await db.getAll(
+        ...uniqueIDs.map((id) => db.collection("decks").doc(id)),
+        {fieldMask: ["embedding_field"]}
+      );
+
+      return snapshots
+        .map((snap) => snap.exists ? this.toVector(snap.get("embedding_field")) : null)
+        .filter((vector): vector is number[] => vector !== null);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the deck embeddings.",
+        500,
+        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the public decks with the highest popularity score, most popular first.
+   * Decks whose popularity was never indexed are left out until the backfill reaches them.
+   *
+   * @param {number} limit - The maximum number of decks to return.
+   * @return {Promise<DeckSearchHit[]>} A promise resolving to the trending decks.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getTrendingDecks(limit: number): Promise<DeckSearchHit[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("decks")
+        .where("is_private", "==", false)
+        .where("is_deleted", "==", false)
+        .orderBy("popularity_score", "desc")
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc) => {
+        // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
+        const {embedding_field, search_tokens, ...deck} = doc.data() as DeckRaw;
+        return {id: doc.id, deck};
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the trending decks.",
+        500,
+        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Computes the popularity counters of a deck created before they were maintained: its saves, the
+   * study sessions of users other than its owner, and its forks. Runs in a transaction so saves and
+   * study sessions recorded meanwhile are not counted twice.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<void>} A promise that resolves when the counters are written.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
+   */
+  public async indexDeckPopularity(deckID: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(deckID);
+
+      await db.runTransaction(async (transaction) => {
+        const deckSnap = await transaction.get(deckRef);
+        if (!deckSnap.exists) return;
+
+        const [savesSnap, studiesSnap] = await Promise.all([
+          transaction.get(db.collection("saved_decks").where("deck_id", "==", deckID).count()),
+          transaction.get(db.collection("deck_logs")
+            .where("deck_id", "==", deckID)
+            .where("user_id", "!=", deckSnap.get("owner_id"))
+            .count()),
+        ]);
+
+        const saveCount = savesSnap.data().count;
+        const studyCount = studiesSnap.data().count;
+        const forkCount: number = deckSnap.get("fork_count") ?? 0;
+
+        transaction.update(deckRef, {
+          save_count: saveCount,
+          study_count: studyCount,
+          popularity_score: saveCount * POPULARITY_WEIGHTS.save + forkCount * POPULARITY_WEIGHTS.fork +
+            studyCount * POPULARITY_WEIGHTS.study,
+          popularity_indexed: true,
+        });
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while indexing the deck popularity.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Unwraps a stored embedding into a plain array, whether it is a Firestore vector, a plain array or a raw array value.
+   *
+   * @param {any} raw - The stored embedding.
+   * @return {number[] | null} The embedding, or null when the value is not an embedding.
+   */
+  private toVector(raw: any): number[] | null { // eslint-disable-line @typescript-eslint/no-explicit-any
+    if (Array.isArray(raw)) return raw as number[];
+    if (typeof raw?.toArray === "function") return raw.toArray();
+    if (raw?.arrayValue?.values) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return raw.arrayValue.values.map((v: any) => v.doubleValue);
+    }
+    return null;
   }
 
   // LOGS
@@ -1094,7 +1909,8 @@ export class DeckRepository extends FirebaseAdmin {
   }
 
   /**
-   * Logs a deck activity.
+   * Logs a deck activity. Activity on a deck of another user counts as a study session
+   * in the popularity of the deck.
    *
    * @param {string} userId - The ID of the user who performed the search.
    * @param {string} deckId - The ID of the deck that was searched.
@@ -1105,12 +1921,23 @@ export class DeckRepository extends FirebaseAdmin {
   public async logDeckActivity(userId: string, deckId: string, eventType: string ): Promise<void> {
     try {
       const db = this.getDb(); // your Firestore instance
-      await db.collection("deck_logs").add({
+      const deckRef = db.collection("decks").doc(deckId);
+      const deckSnap = await deckRef.get();
+
+      const batch = db.batch();
+      batch.set(db.collection("deck_logs").doc(), {
         user_id: userId,
         deck_id: deckId,
         event_type: eventType,
         occured_at: FirebaseAdmin.getTimeStamp(),
       });
+      if (deckSnap.exists && deckSnap.get("owner_id") !== userId) {
+        batch.update(deckRef, {
+          study_count: FieldValue.increment(1),
+          popularity_score: FieldValue.increment(POPULARITY_WEIGHTS.study),
+        });
+      }
+      await batch.commit();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (err: any) {
       throw new ApiError(
@@ -1166,30 +1993,4 @@ export class DeckRepository extends FirebaseAdmin {
       );
     }
   }
-
-  /**
- * Checks if there is a pending publish request for a given deck.
- *
- * @param {string} deckId - The ID of the deck to check.
- * @return {Promise<boolean>} A promise that resolves to true if a pending request exists, false otherwise.
- * @throws {ApiError} Throws custom errors (PUBLISH_REQUEST_CHECK_ERROR) on failure.
- */
-  public async hasPendingPublishRequest(deckId: string): Promise<boolean> {
-    try {
-      const db = this.getDb(); // your Firestore instance
-      const requestSnapshot = await db.collection("publish_requests")
-        .where("deck_id", "==", deckId)
-        .where("mod_verdict", "==", "PENDING")
-        .get();
-
-      return !requestSnapshot.empty;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (err: any) {
-      throw new ApiError(
-        "Failed to check for pending publish requests",
-        500,
-        {errorCode: "PUBLISH_REQUEST_CHECK_ERROR", message: err.message}
-      );
-    }
-  }
 }
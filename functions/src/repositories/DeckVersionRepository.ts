@@ -0,0 +1,302 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file DeckVersionRepository.ts
+ * This module defines the repository layer for the version history of decks within Firestore.
+ * Versions are stored in the 'versions' subcollection of each deck, keyed by their number, with
+ * the flashcard changes of each version in its own 'flashcards' subcollection.
+ *
+ * Methods:
+ * - recordChanges: Records the changes of the details or of the flashcards of a deck as a new version, in the transaction applying them.
+ * - pruneVersions: Deletes the version that fell out of the versions kept.
+ * - getVersionsPage: Retrieves a page of the versions of a deck, newest first.
+ * - getVersion: Retrieves a version of a deck with its flashcard changes.
+ * - getVersionRange: Retrieves the consecutive versions of a deck after a version, with their flashcard changes.
+ * - toVersionedDeck: Picks the versioned fields of a deck.
+ * - toVersionedFlashcard: Picks the versioned fields of a flashcard.
+ *
+ * @module repository
+ * @file DeckVersionRepository.ts
+ * @class DeckVersionRepository
+ * @classdesc Provides data access methods for the 'versions' subcollection of the decks in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {
+  DeckVersion,
+  DeckVersionAction,
+  DeckVersionWithChanges,
+  FlashcardChange,
+  MAX_DECK_VERSIONS,
+  VersionedDeck,
+  VersionedFlashcard,
+} from "../interface/DeckVersion";
+import {DocumentSnapshot, Transaction} from "@google-cloud/firestore";
+import {logger} from "firebase-functions";
+
+/**
+ * The `DeckVersionRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for recording and reading the version history of decks.
+ */
+export class DeckVersionRepository extends FirebaseAdmin {
+  /**
+   * The most flashcards a mutation changes in one transaction with its version. Each flashcard takes the write of
+   * the flashcard and the write of its change, next to the writes of the deck and of the version, and Firestore
+   * accepts at most 500 writes in a transaction. Larger mutations are split into consecutive transactions, each
+   * recorded as its own version.
+   */
+  public static readonly MAX_FLASHCARDS_PER_TRANSACTION = 240;
+
+  /**
+   * Records the changes of a mutation as a new version, in the transaction applying the mutation, so a change
+   * is never applied without its version nor a version recorded without its change. The number of the version
+   * follows the `version_count` of the deck read in the transaction. `deck` holds the deck before and after the
+   * mutation; in `flashcards`, `before` is null for a created flashcard and `after` is null for a flashcard deleted
+   * for good. Only the versioned fields are kept, unchanged flashcards are left out, and nothing is recorded when
+   * nothing changed. Once the transaction is committed, the caller prunes the history with `pruneVersions`.
+   *
+   * @param {Transaction} transaction - The transaction applying the mutation, all its reads done.
+   * @param {DocumentSnapshot} deckSnap - The deck, read in the transaction.
+   * @param {string} userID - The ID of the user who made the change.
+   * @param {DeckVersionAction} action - The mutation that changed the deck.
+   * @param {object} changes - The deck and at most `MAX_FLASHCARDS_PER_TRANSACTION` flashcards before and after the mutation.
+   * @param {number | null} [restoredFrom=null] - The version a restore went back to.
+   * @return {number | null} The number of the version, or null when nothing changed.
+   */
+  public recordChanges(
+    transaction: Transaction,
+    deckSnap: DocumentSnapshot,
+    userID: string,
+    action: DeckVersionAction,
+    changes: {
+      deck?: {before: object, after: object},
+      flashcards?: Array<{id: string, before: object | null, after: object | null}>,
+    },
+    restoredFrom: number | null = null
+  ): number | null {
+    const deckChanges = changes.deck ?
+      this.diffDeck(this.toVersionedDeck(changes.deck.before), this.toVersionedDeck(changes.deck.after)) :
+      null;
+
+    const flashcardChanges: FlashcardChange[] = (changes.flashcards ?? [])
+      .map(({id, before, after}) => ({
+        flashcard_id: id,
+        before: before ? this.toVersionedFlashcard(before) : null,
+        after: after ? this.toVersionedFlashcard(after) : null,
+      }))
+      .filter((change) => !this.isSame(change.before, change.after));
+
+    if (!deckChanges && flashcardChanges.length === 0) return null;
+
+    const version = (deckSnap.get("version_count") ?? 0) + 1;
+    const versionRef = deckSnap.ref.collection("versions").doc(String(version));
+    const record: DeckVersion = {
+      version,
+      deck_id: deckSnap.id,
+      action,
+      author_id: userID,
+      created_at: FirebaseAdmin.getTimeStamp(),
+      deck_changes: deckChanges,
+      flashcard_change_count: flashcardChanges.length,
+      restored_from: restoredFrom,
+    };
+
+    transaction.update(deckSnap.ref, {version_count: version});
+    transaction.set(versionRef, record);
+    flashcardChanges.forEach((change) => transaction.set(versionRef.collection("flashcards").doc(change.flashcard_id), change));
+    return version;
+  }
+
+  /**
+   * Deletes the version that fell out of the last `MAX_DECK_VERSIONS` versions when a version was recorded, with its
+   * flashcard changes. A failure is only logged: the mutation is already committed, and the version stays readable
+   * until a later version prunes the history again.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {number | null} version - The number of the version just recorded, or null when none was.
+   * @return {Promise<void>} A promise that resolves once the version is deleted, or the failure logged.
+   */
+  public async pruneVersions(deckID: string, version: number | null): Promise<void> {
+    if (version === null || version <= MAX_DECK_VERSIONS) return;
+
+    const db = this.getDb();
+    const pruned = version - MAX_DECK_VERSIONS;
+    try {
+      await db.recursiveDelete(db.collection("decks").doc(deckID).collection("versions").doc(String(pruned)));
+    } catch (error) {
+      logger.error(`Failed to prune version ${pruned} of deck ${deckID}:`, error);
+    }
+  }
+
+  /**
+   * Retrieves a page of the versions of a deck, newest first, without their flashcard changes.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} limit - The maximum number of versions to return.
+   * @param {number | null} startBefore - The number of the last version of the previous page, or null for the first page.
+   * @return {Promise<object>} A promise resolving to the versions and the number of the last version of the page, when more remain.
+   * @throws {ApiError} Throws DECK_VERSION_FETCH_ERROR on failure.
+   */
+  public async getVersionsPage(
+    deckID: string,
+    limit: number,
+    startBefore: number | null
+  ): Promise<{versions: DeckVersion[], nextPageToken: string | null}> {
+    try {
+      let query = this.getDb().collection("decks").doc(deckID).collection("versions")
+        .orderBy("version", "desc");
+      if (startBefore !== null) {
+        query = query.where("version", "<", startBefore);
+      }
+
+      const snapshot = await query.limit(limit + 1).get();
+      const versions = snapshot.docs.slice(0, limit).map((doc) => doc.data() as DeckVersion);
+
+      return {
+        versions,
+        nextPageToken: snapshot.docs.length > limit ? String(versions[versions.length - 1].version) : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the versions of the deck.",
+        500,
+        {deckID, errorCode: "DECK_VERSION_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a version of a deck with its flashcard changes.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} version - The number of the version.
+   * @return {Promise<DeckVersionWithChanges | null>} A promise resolving to the version, or null if it does not exist or was pruned.
+   * @throws {ApiError} Throws DECK_VERSION_FETCH_ERROR on failure.
+   */
+  public async getVersion(deckID: string, version: number): Promise<DeckVersionWithChanges | null> {
+    try {
+      const versionRef = this.getDb().collection("decks").doc(deckID).collection("versions").doc(String(version));
+      const [versionSnap, changesSnap] = await Promise.all([versionRef.get(), versionRef.collection("flashcards").get()]);
+
+      if (!versionSnap.exists) return null;
+
+      return {
+        ...versionSnap.data() as DeckVersion,
+        flashcard_changes: changesSnap.docs.map((doc) => doc.data() as FlashcardChange),
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the version of the deck.",
+        500,
+        {deckID, version, errorCode: "DECK_VERSION_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the versions of a deck after a version, up to another one, oldest first, with their
+   * flashcard changes. Versions that were pruned or never recorded are missing from the result; the
+   * caller checks that the range is complete.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} after - The number of the version the range starts after.
+   * @param {number} upTo - The number of the last version of the range.
+   * @return {Promise<DeckVersionWithChanges[]>} A promise resolving to the versions of the range that exist.
+   * @throws {ApiError} Throws DECK_VERSION_FETCH_ERROR on failure.
+   */
+  public async getVersionRange(deckID: string, after: number, upTo: number): Promise<DeckVersionWithChanges[]> {
+    try {
+      const snapshot = await this.getDb().collection("decks").doc(deckID).collection("versions")
+        .where("version", ">", after)
+        .where("version", "<=", upTo)
+        .orderBy("version", "asc")
+        .get();
+
+      const changes = await Promise.all(snapshot.docs.map((doc) => doc.ref.collection("flashcards").get()));
+
+      return snapshot.docs.map((doc, i) => ({
+        ...doc.data() as DeckVersion,
+        flashcard_changes: changes[i].docs.map((change) => change.data() as FlashcardChange),
+      }));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the versions of the deck.",
+        500,
+        {deckID, errorCode: "DECK_VERSION_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Picks the versioned fields of a deck, with defaults for the fields older decks lack.
+   *
+   * @param {object} deck - The deck.
+   * @return {VersionedDeck} The versioned fields of the deck.
+   */
+  public toVersionedDeck(deck: object): VersionedDeck {
+    const data = deck as Partial<VersionedDeck>;
+    return {
+      title: data.title ?? "",
+      description: data.description ?? "",
+      cover_photo: data.cover_photo ?? null,
+      tags: data.tags ?? [],
+      category: data.category ?? null,
+    };
+  }
+
+  /**
+   * Picks the versioned fields of a flashcard, with defaults for the fields older flashcards lack.
+   *
+   * @param {object} flashcard - The flashcard.
+   * @return {VersionedFlashcard} The versioned fields of the flashcard.
+   */
+  public toVersionedFlashcard(flashcard: object): VersionedFlashcard {
+    const data = flashcard as Partial<VersionedFlashcard>;
+    return {
+      term: data.term ?? "",
+      definition: data.definition ?? "",
+      tags: data.tags ?? [],
+      is_starred: data.is_starred ?? false,
+      is_deleted: data.is_deleted ?? false,
+      created_at: data.created_at ?? null,
+    };
+  }
+
+  /**
+   * Keeps the fields of a deck that changed.
+   *
+   * @param {VersionedDeck} before - The versioned fields before the change.
+   * @param {VersionedDeck} after - The versioned fields after the change.
+   * @return {object | null} The changed fields before and after the change, or null when none changed.
+   */
+  private diffDeck(before: VersionedDeck, after: VersionedDeck): DeckVersion["deck_changes"] {
+    const changed = (Object.keys(before) as Array<keyof VersionedDeck>)
+      .filter((field) => !this.isSame(before[field], after[field]));
+
+    if (changed.length === 0) return null;
+
+    return {
+      before: Object.fromEntries(changed.map((field) => [field, before[field]])),
+      after: Object.fromEntries(changed.map((field) => [field, after[field]])),
+    };
+  }
+
+  /**
+   * Compares two versioned values. Their fields are always picked in the same order, so comparing
+   * their serialization is enough.
+   *
+   * @param {unknown} a - The first value.
+   * @param {unknown} b - The second value.
+   * @return {boolean} Whether the values are the same.
+   */
+  private isSame(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
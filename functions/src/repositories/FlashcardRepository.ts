@@ -7,15 +7,22 @@
  * Extending FirebaseAdmin, it provides methods for CRUD operations on flashcards,
  * including retrieving lists (paginated or all), getting specific flashcards,
  * creating, updating, and deleting them. It handles necessary validations
- * (deck existence, owner checks) and maintains the flashcard count on the parent deck document.
+ * (deck existence, permission checks) and maintains the flashcard count on the parent deck document
+ * and the search index of every flashcard (`search_tokens`, `deck_id` and `owner_id`).
  *
  * Methods:
  * - getFlashcards: Queries Firestore for non-deleted flashcards within a specific deck, supporting pagination.
  * - getAllFlashcards: Queries Firestore for all non-deleted flashcards within a specific deck.
+ * - getFlashcardPage: Retrieves a page of the non-deleted flashcards of a deck in creation order, to read a deck in full page by page.
+ * - getFlashcardContents: Retrieves only the term and definition of every non-deleted flashcard of a deck.
  * - getSpecificFlashcard: Retrieves a single flashcard document from a specific deck's subcollection by its ID.
- * - createFlashcard: Adds a new flashcard document to a deck's subcollection and increments the deck's flashcard count.
- * - updateFlashcard: Updates fields of an existing flashcard document and adjusts the deck's flashcard count if deletion status changes.
- * - deleteFlashcards: Deletes one or more flashcard documents from a deck's subcollection using a batch operation and decrements the deck's flashcard count.
+ * - getFlashcardsByIDs: Retrieves several non-deleted flashcards of a deck at once by their IDs.
+ * - getFlashcardDocuments: Retrieves several flashcards of a deck at once by their IDs, including deleted ones.
+ * - createFlashcard: Adds a new flashcard document to a deck's subcollection, increments the deck's flashcard count and records a deck version in the same transaction.
+ * - updateFlashcard: Updates fields of an existing flashcard document, adjusts the deck's flashcard count if deletion status changes and records a deck version in the same transaction.
+ * - deleteFlashcards: Deletes one or more flashcard documents from a deck's subcollection, decrements the deck's flashcard count and records a deck version in the same transaction.
+ * - restoreVersion: Writes back the versioned fields of a deck and of its flashcards, recreating or deleting them, records the restore and recounts the deck's flashcards.
+ * - searchFlashcards: Queries every deck's flashcards (collection group) for cards matching query tokens, with their parent deck, collaborations included.
  *
  * @module repository
  * @file FlashcardRepository.ts
@@ -23,11 +30,19 @@
  * @classdesc Provides data access methods for the 'flashcards' subcollection within 'decks' in Firestore, managing related deck counts and performing necessary authorization checks.
  * @author Arthur M. Artugue
  * @created 2024-03-30
- * @updated 2025-05-17
+ * @updated 2026-10-19
  */
 
 import {FirebaseAdmin} from "../config/FirebaseAdmin";
 import {QuizRepository} from "./QuizRepository";
+import {DeckVersionRepository} from "./DeckVersionRepository";
+import {ApiError} from "../helpers/apiError";
+import {DeckAccessInfo, PermissionService} from "../services/PermissionService";
+import {DeckRaw} from "../interface/Deck";
+import {VersionedFlashcard} from "../interface/DeckVersion";
+import {FlashcardSearchFilter, FlashcardSearchHit, SearchDeck} from "../interface/Search";
+import {Utils} from "../utils/utils";
+import {DocumentReference, Query} from "@google-cloud/firestore";
 
 /**
  * The `FlashcardRepository` class extends the `FirebaseAdmin` class to provide
@@ -37,6 +52,29 @@ import {QuizRepository} from "./QuizRepository";
  */
 export class FlashcardRepository extends FirebaseAdmin {
   quizRepository: QuizRepository = new QuizRepository();
+
+  /**
+   * The repository recording the versions of the decks, in the transactions changing their flashcards.
+   */
+  private deckVersionRepository: DeckVersionRepository;
+
+  /**
+   * The service authorizing flashcard operations for deck owners and collaborators.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * Initializes the FlashcardRepository.
+   *
+   * @param {DeckVersionRepository} deckVersionRepository - The repository recording the versions of the decks.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   */
+  constructor(deckVersionRepository: DeckVersionRepository, permissionService: PermissionService) {
+    super();
+    this.deckVersionRepository = deckVersionRepository;
+    this.permissionService = permissionService;
+  }
+
   /**
    * Retrieves a paginated list of non-deleted flashcards for a specific deck from Firestore.
    * Orders flashcards by creation date.
@@ -173,6 +211,81 @@ export class FlashcardRepository extends FirebaseAdmin {
     }
   }
 
+  /**
+   * Retrieves a page of the non-deleted flashcards of a deck, ordered by creation date, so a deck
+   * can be read in full without loading every flashcard at once.
+   *
+   * @param {string} deckID - The unique identifier of the parent deck.
+   * @param {number} limit - The maximum number of flashcards to return.
+   * @param {string | null} [startAfterID=null] - The ID of the last flashcard of the previous page, or null for the first page.
+   * @return {Promise<object>} The flashcards of the page and the ID to start the next page after (null on the last page).
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getFlashcardPage(
+    deckID: string,
+    limit: number,
+    startAfterID: string | null = null
+  ): Promise<{flashcards: Array<{id: string, [key: string]: unknown}>, nextPageToken: string | null}> {
+    try {
+      const flashcardsRef = this.getDb().collection("decks").doc(deckID).collection("flashcards");
+      let query = flashcardsRef
+        .where("is_deleted", "==", false)
+        .orderBy("created_at")
+        .limit(limit);
+
+      if (startAfterID) {
+        const lastDocSnapShot = await flashcardsRef.doc(startAfterID).get();
+        if (lastDocSnapShot.exists) {
+          query = query.startAfter(lastDocSnapShot);
+        }
+      }
+
+      const snapshot = await query.get();
+      return {
+        flashcards: snapshot.docs.map((doc) => ({id: doc.id, ...doc.data()})),
+        nextPageToken: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the flashcards.",
+        500,
+        {deckID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves only the term and definition of every non-deleted flashcard of a deck, to compare card sets.
+   *
+   * @param {string} deckID - The unique identifier of the parent deck.
+   * @return {Promise<Array<object>>} A promise resolving to the terms and definitions, empty when the deck has no flashcards.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getFlashcardContents(deckID: string): Promise<Array<{term: string, definition: string}>> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("decks")
+        .doc(deckID)
+        .collection("flashcards")
+        .where("is_deleted", "==", false)
+        .select("term", "definition")
+        .get();
+
+      return snapshot.docs.map((doc) => ({
+        term: doc.get("term") ?? "",
+        definition: doc.get("definition") ?? "",
+      }));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the flashcards.",
+        500,
+        {deckID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
   /**
    * Retrieves a specific flashcard document by its ID from within a specific deck's subcollection.
    *
@@ -239,12 +352,70 @@ export class FlashcardRepository extends FirebaseAdmin {
     }
   }
 
+  /**
+   * Retrieves several non-deleted flashcards of a deck at once by their IDs.
+   * Flashcards that do not exist or are flagged as deleted are omitted from the result.
+   *
+   * @param {string} deckID - The unique identifier of the parent deck.
+   * @param {string[]} flashcardIDs - The unique identifiers of the flashcards to retrieve.
+   * @return {Promise<Array<{id: string}>>} A promise resolving to the flashcards, in the order of the given IDs.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getFlashcardsByIDs(deckID: string, flashcardIDs: string[]): Promise<Array<{id: string, [key: string]: unknown}>> {
+    try {
+      if (flashcardIDs.length === 0) return [];
+
+      const db = this.getDb();
+      const flashcardsRef = db.collection("decks").doc(deckID).collection("flashcards");
+      const snapshots = await db.getAll(...flashcardIDs.map((id) => flashcardsRef.doc(id)));
+
+      return snapshots
+        .filter((snap) => snap.exists && !snap.data()?.is_deleted)
+        .map((snap) => ({id: snap.id, ...snap.data()}));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the flashcards.",
+        500,
+        {deckID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves several flashcards of a deck at once by their IDs, including deleted ones.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {string[]} flashcardIDs - The unique identifiers of the flashcards to retrieve.
+   * @return {Promise<Record<string, object | null>>} A promise resolving to a map of flashcard IDs to flashcard data, null for a flashcard that does not exist.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async getFlashcardDocuments(deckID: string, flashcardIDs: string[]): Promise<Record<string, object | null>> {
+    try {
+      if (flashcardIDs.length === 0) return {};
+
+      const db = this.getDb();
+      const flashcardsRef = db.collection("decks").doc(deckID).collection("flashcards");
+      const snapshots = await db.getAll(...flashcardIDs.map((id) => flashcardsRef.doc(id)));
+
+      return Object.fromEntries(snapshots.map((snap) => [snap.id, snap.exists ? snap.data() ?? null : null]));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the flashcards.",
+        500,
+        {deckID, errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
   /**
  * Creates multiple flashcards in a specific deck's subcollection in Firestore.
- * Also increments the 'flashcard_count' field on the parent deck document.
+ * Also increments the 'flashcard_count' field on the parent deck document and records a deck version.
+ * The flashcards are written in chunks, each in one transaction with the count and its version.
  * Performs checks for deck existence, deck deletion status, and user authorization.
  *
- * @param {string} userID - The ID of the user creating the flashcards (must match deck owner).
+ * @param {string} userID - The ID of the user creating the flashcards (must be the deck owner or an editor).
  * @param {string} deckID - The unique identifier of the parent deck.
  * @param {object[]} flashcards - Array of flashcard data objects (should match expected schema, excluding ID).
  * @return {Promise<object[] | void>} A promise resolving to an array of created flashcards with their IDs.
@@ -276,26 +447,38 @@ export class FlashcardRepository extends FirebaseAdmin {
         throw Object.assign(new Error("Deck has been deleted"), {name: "DECK_DELETED"});
       }
 
-      if (deckData?.owner_id !== userID) {
+      if (!deckData || !(await this.permissionService.can(userID, deckID, deckData as DeckAccessInfo, "edit"))) {
         throw Object.assign(new Error("User is not authorized to add flashcards to this deck"), {name: "UNAUTHORIZED_USER"});
       }
 
-      // Add flashcards
-      const flashcardRefs = await Promise.all(
-        flashcards.map((flashcard) =>
-          query.collection("flashcards").add(flashcard)
-        )
-      );
+      // Add flashcards with their search index
+      const indexedFlashcards = flashcards.map((flashcard) => ({
+        ...flashcard,
+        ...this.getSearchIndex(deckID, deckData.owner_id, flashcard as {term?: string, definition?: string}),
+      }));
+      const flashcardRefs = indexedFlashcards.map(() => query.collection("flashcards").doc());
+
+      // Each chunk is written in one transaction with the flashcard count and its version
+      const chunkSize = DeckVersionRepository.MAX_FLASHCARDS_PER_TRANSACTION;
+      for (let i = 0; i < flashcardRefs.length; i += chunkSize) {
+        const refs = flashcardRefs.slice(i, i + chunkSize);
+        const version = await db.runTransaction(async (transaction) => {
+          const deckSnap = await transaction.get(query);
+
+          refs.forEach((ref, j) => transaction.create(ref, indexedFlashcards[i + j]));
+          transaction.update(query, {flashcard_count: (deckSnap.get("flashcard_count") ?? 0) + refs.length});
 
-      // Update flashcard count
-      const currentCount = deckData?.flashcard_count ?? 0;
-      const newCount = currentCount + flashcardRefs.length;
-      await query.update({flashcard_count: newCount});
+          return this.deckVersionRepository.recordChanges(transaction, deckSnap, userID, "CREATE_FLASHCARDS", {
+            flashcards: refs.map((ref, j) => ({id: ref.id, before: null, after: indexedFlashcards[i + j]})),
+          });
+        });
+        await this.deckVersionRepository.pruneVersions(deckID, version);
+      }
 
       // Prepare return data
       const createdFlashcards = flashcardRefs.map((ref, i) => ({
         id: ref.id,
-        ...flashcards[i],
+        ...indexedFlashcards[i],
       }));
 
       return createdFlashcards;
@@ -315,10 +498,11 @@ export class FlashcardRepository extends FirebaseAdmin {
 
   /**
    * Updates an existing flashcard document within a specific deck's subcollection in Firestore.
-   * Adjusts the 'flashcard_count' on the parent deck if the 'is_deleted' status of the flashcard changes.
+   * Adjusts the 'flashcard_count' on the parent deck if the 'is_deleted' status of the flashcard changes,
+   * and records a deck version, all in one transaction.
    * Performs checks for deck/flashcard existence, deck deletion status, and user authorization.
    *
-   * @param {string} userID - The ID of the user updating the flashcard (must match deck owner).
+   * @param {string} userID - The ID of the user updating the flashcard (must be the deck owner or an editor).
    * @param {string} deckID - The unique identifier of the parent deck.
    * @param {string} flashcardID - The unique identifier of the flashcard to update.
    * @param {object} data - An object containing the fields and values to update on the flashcard.
@@ -361,38 +545,51 @@ export class FlashcardRepository extends FirebaseAdmin {
         throw error;
       }
 
-      if (deck.data()?.owner_id !== userID) {
-        // TODO: check if the user id has a role of moderator
+      if (!(await this.permissionService.can(userID, deckID, deck.data() as DeckAccessInfo, "edit"))) {
         const error = new Error("User is not authorized to create flashcards in this deck");
         error.name = "UNAUTHORIZED_USER";
         throw error;
       }
 
       const flashcardRef = deckRef.collection("flashcards").doc(flashcardID);
-      const flashcardSnap = await flashcardRef.get();
-
-      if (!flashcardSnap.exists) {
-        const error = new Error(`Flashcard ${flashcardID} does not exist`);
-        error.name = "FLASHCARD_NOT_FOUND";
-        throw error;
-      }
-
-      const previousData = flashcardSnap.data();
 
-      // Update the flashcard
-      await flashcardRef.update(data);
+      // The flashcard, the flashcard count and the version are written in one transaction
+      const version = await db.runTransaction(async (transaction) => {
+        const [deckSnap, flashcardSnap] = await transaction.getAll(deckRef, flashcardRef);
 
-      // Adjust flashcard_count if is_deleted is updated
-      if (Object.prototype.hasOwnProperty.call(data, "is_deleted")) {
-        const isDeletedNow = (data as { is_deleted?: boolean }).is_deleted;
-        const wasDeletedBefore = previousData?.is_deleted ?? false;
+        if (!flashcardSnap.exists) {
+          const error = new Error(`Flashcard ${flashcardID} does not exist`);
+          error.name = "FLASHCARD_NOT_FOUND";
+          throw error;
+        }
 
-        if (isDeletedNow === true && wasDeletedBefore === false) {
-          await deckRef.update({flashcard_count: deck.data()?.flashcard_count - 1});
-        } else if (isDeletedNow === false && wasDeletedBefore === true) {
-          await deckRef.update({flashcard_count: deck.data()?.flashcard_count + 1});
+        const previousData = flashcardSnap.data();
+
+        // Update the flashcard, rebuilding its search index when the term or definition changes
+        const update = data as {term?: string, definition?: string};
+        const flashcardUpdate = update.term !== undefined || update.definition !== undefined ? {
+          ...data,
+          ...this.getSearchIndex(deckID, deckSnap.get("owner_id"), {...previousData, ...update}),
+        } : data;
+        transaction.update(flashcardRef, flashcardUpdate);
+
+        // Adjust flashcard_count if is_deleted is updated
+        if (Object.prototype.hasOwnProperty.call(data, "is_deleted")) {
+          const isDeletedNow = (data as { is_deleted?: boolean }).is_deleted;
+          const wasDeletedBefore = previousData?.is_deleted ?? false;
+
+          if (isDeletedNow === true && wasDeletedBefore === false) {
+            transaction.update(deckRef, {flashcard_count: deckSnap.get("flashcard_count") - 1});
+          } else if (isDeletedNow === false && wasDeletedBefore === true) {
+            transaction.update(deckRef, {flashcard_count: deckSnap.get("flashcard_count") + 1});
+          }
         }
-      }
+
+        return this.deckVersionRepository.recordChanges(transaction, deckSnap, userID, "UPDATE_FLASHCARD", {
+          flashcards: [{id: flashcardID, before: previousData ?? null, after: {...previousData, ...flashcardUpdate}}],
+        });
+      });
+      await this.deckVersionRepository.pruneVersions(deckID, version);
 
       const updatedFlashcard = await flashcardRef.get();
 
@@ -430,12 +627,13 @@ export class FlashcardRepository extends FirebaseAdmin {
 
 
   /**
-   * Deletes multiple flashcard documents from a specific deck's subcollection using a Firestore batch.
-   * Also decrements the 'flashcard_count' on the parent deck document by the number of successfully deleted flashcards.
+   * Deletes multiple flashcard documents from a specific deck's subcollection, with their quiz questions.
+   * Also decrements the 'flashcard_count' on the parent deck document by the number of successfully deleted flashcards
+   * and records a deck version. The flashcards are deleted in chunks, each in one transaction with the count and its version.
    * Performs checks for deck existence and user authorization before proceeding.
    * Skips flashcards that don't exist but proceeds with others.
    *
-   * @param {string} userID - The ID of the user deleting the flashcards (must match deck owner).
+   * @param {string} userID - The ID of the user deleting the flashcards (must be the deck owner or an editor).
    * @param {string} deckID - The unique identifier of the parent deck.
    * @param {string[]} flashcardIDs - An array of unique identifiers of the flashcards to delete.
    * @return {Promise<void>} A promise that resolves when the deletion batch commit and count update are complete.
@@ -466,14 +664,13 @@ export class FlashcardRepository extends FirebaseAdmin {
         throw error;
       }
 
-      if (deckSnapshot.data()?.owner_id !== userID) {
+      if (!(await this.permissionService.can(userID, deckID, deckSnapshot.data() as DeckAccessInfo, "edit"))) {
         const error = new Error("User is not authorized to create flashcards in this deck");
         error.name = "UNAUTHORIZED_USER";
         throw error;
       }
 
-      const deletedFlashcardPromises = [];
-      let deletedCount = 0;
+      const flashcardRefs: DocumentReference[] = [];
 
       for (const flashcardID of flashcardIDs) {
         const flashcardRef = deckRef.collection("flashcards").doc(flashcardID);
@@ -481,23 +678,35 @@ export class FlashcardRepository extends FirebaseAdmin {
 
         if (flashcardSnapshot.exists) {
           await this.quizRepository.deleteRelatedQuestionsByFlashcards(deckID, flashcardID);
-          // Recursively delete the flashcard and its subcollections
-          const deletePromise = db.recursiveDelete(flashcardRef);
-          deletedFlashcardPromises.push(deletePromise);
-
-          deletedCount++;
+          flashcardRefs.push(flashcardRef);
         }
       }
 
-      // Wait for all recursive deletes to complete
-      await Promise.all(deletedFlashcardPromises);
-      console.log(`Deleted ${deletedCount} flashcards from deck ${deckID}`);
-
-      // Update flashcard count
-      if (deletedCount > 0) {
-        const newFlashcardCount = (deckSnapshot.data()?.flashcard_count || 0) - deletedCount;
-        await deckRef.update({flashcard_count: Math.max(newFlashcardCount, 0)});
+      // Each chunk is deleted in one transaction with the flashcard count and its version
+      let deletedCount = 0;
+      const chunkSize = DeckVersionRepository.MAX_FLASHCARDS_PER_TRANSACTION;
+      for (let i = 0; i < flashcardRefs.length; i += chunkSize) {
+        const [version, deleted] = await db.runTransaction(async (transaction) => {
+          const [deckSnap, ...flashcardSnaps] = await transaction.getAll(deckRef, ...flashcardRefs.slice(i, i + chunkSize));
+          const existing = flashcardSnaps.filter((snap) => snap.exists);
+
+          existing.forEach((snap) => transaction.delete(snap.ref));
+          if (existing.length > 0) {
+            const newFlashcardCount = (deckSnap.get("flashcard_count") || 0) - existing.length;
+            transaction.update(deckRef, {flashcard_count: Math.max(newFlashcardCount, 0)});
+          }
+
+          return [
+            this.deckVersionRepository.recordChanges(transaction, deckSnap, userID, "DELETE_FLASHCARDS", {
+              flashcards: existing.map((snap) => ({id: snap.id, before: snap.data() ?? null, after: null})),
+            }),
+            existing.length,
+          ] as const;
+        });
+        await this.deckVersionRepository.pruneVersions(deckID, version);
+        deletedCount += deleted;
       }
+      console.log(`Deleted ${deletedCount} flashcards from deck ${deckID}`);
     } catch (error) {
       if (error instanceof Error) {
         const knownErrors = [
@@ -518,4 +727,185 @@ export class FlashcardRepository extends FirebaseAdmin {
       }
     }
   }
+
+  /**
+   * Restores a version of a deck: writes back the versioned fields of the deck, with the embedding fields matching
+   * them, and of its flashcards. A flashcard is recreated or updated with its search index, or deleted for good,
+   * with its quiz questions, when it did not exist yet. The flashcards are written in chunks, each in one transaction
+   * with its `RESTORE` version, the deck fields with the first. The flashcard count of the deck is then recounted.
+   * Permissions are checked by the caller.
+   *
+   * @param {string} userID - The ID of the user restoring the deck.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} ownerID - The ID of the owner of the deck.
+   * @param {object | null} deckData - The deck fields to write back, or null when none changed.
+   * @param {Array<object>} flashcards - The flashcards and their versioned fields, null for a flashcard to delete.
+   * @param {number} restoredFrom - The version restored.
+   * @return {Promise<number | null>} A promise resolving to the number of the (last) version recorded, or null when nothing changed.
+   * @throws {ApiError} Throws DATABASE_UPDATE_ERROR on failure.
+   */
+  public async restoreVersion(
+    userID: string,
+    deckID: string,
+    ownerID: string,
+    deckData: object | null,
+    flashcards: Array<{id: string, state: VersionedFlashcard | null}>,
+    restoredFrom: number
+  ): Promise<number | null> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(deckID);
+      const flashcardsRef = deckRef.collection("flashcards");
+
+      for (const {id} of flashcards.filter(({state}) => state === null)) {
+        await this.quizRepository.deleteRelatedQuestionsByFlashcards(deckID, id);
+      }
+
+      let version: number | null = null;
+      const chunkSize = DeckVersionRepository.MAX_FLASHCARDS_PER_TRANSACTION;
+      for (let i = 0; i === 0 || i < flashcards.length; i += chunkSize) {
+        const chunk = flashcards.slice(i, i + chunkSize);
+        const recorded = await db.runTransaction(async (transaction) => {
+          const [deckSnap, ...flashcardSnaps] = await transaction.getAll(deckRef, ...chunk.map(({id}) => flashcardsRef.doc(id)));
+          const before = deckSnap.data() ?? {};
+
+          if (i === 0 && deckData) transaction.update(deckRef, deckData);
+          chunk.forEach(({id, state}) => {
+            if (state === null) {
+              transaction.delete(flashcardsRef.doc(id));
+              return;
+            }
+            transaction.set(flashcardsRef.doc(id), {
+              ...state,
+              created_at: state.created_at ?? FirebaseAdmin.getTimeStamp(),
+              ...this.getSearchIndex(deckID, ownerID, state),
+            }, {merge: true});
+          });
+
+          return this.deckVersionRepository.recordChanges(transaction, deckSnap, userID, "RESTORE", {
+            deck: i === 0 && deckData ? {before, after: {...before, ...deckData}} : undefined,
+            flashcards: chunk.map(({id, state}, j) => ({id, before: flashcardSnaps[j].data() ?? null, after: state})),
+          }, restoredFrom);
+        });
+        await this.deckVersionRepository.pruneVersions(deckID, recorded);
+        version = recorded ?? version;
+      }
+
+      const count = await flashcardsRef.where("is_deleted", "==", false).count().get();
+      await deckRef.update({flashcard_count: count.data().count});
+
+      return version;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while restoring the version of the deck.",
+        500,
+        {deckID, errorCode: "DATABASE_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the non-deleted flashcards matching query tokens in their `search_tokens` index, together
+   * with their parent deck. `MY_DECKS` covers the decks of the user and the decks the user collaborates on,
+   * `SAVED_DECKS` the public decks the user saved and `PUBLIC_DECKS` every public deck; flashcards of deleted
+   * decks are never returned. The flashcards are returned in Firestore order; ranking them is left to the caller.
+   *
+   * @param {FlashcardSearchFilter} filter - The scope of the search.
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {string[]} tokens - The query tokens, at most 30.
+   * @param {number} limit - The maximum number of flashcards read per query.
+   * @return {Promise<FlashcardSearchHit[]>} A promise resolving to the matching flashcards.
+   * @throws {ApiError} Throws DATABASE_FETCH_ERROR on failure.
+   */
+  public async searchFlashcards(
+    filter: FlashcardSearchFilter,
+    userID: string,
+    tokens: string[],
+    limit: number
+  ): Promise<FlashcardSearchHit[]> {
+    try {
+      if (tokens.length === 0) return [];
+
+      const db = this.getDb();
+      const flashcards = db.collectionGroup("flashcards")
+        .where("is_deleted", "==", false)
+        .where("search_tokens", "array-contains-any", tokens);
+      const queries: Query[] = [];
+      let deckIDs: string[] = [];
+
+      if (filter === "MY_DECKS") {
+        queries.push(flashcards.where("owner_id", "==", userID).limit(limit));
+        deckIDs = Object.keys(await this.permissionService.getCollaboratorRoles(userID));
+      } else if (filter === "SAVED_DECKS") {
+        const savedSnap = await db.collection("saved_decks").where("user_id", "==", userID).get();
+        deckIDs = savedSnap.docs.map((doc) => doc.data().deck_id);
+      } else {
+        queries.push(flashcards.limit(limit));
+      }
+
+      // Firestore allows at most 30 disjunctions: deck IDs times query tokens
+      const chunkSize = Math.max(1, Math.floor(30 / tokens.length));
+      for (let i = 0; i < deckIDs.length; i += chunkSize) {
+        queries.push(flashcards.where("deck_id", "in", deckIDs.slice(i, i + chunkSize)).limit(limit));
+      }
+
+      const docs = (await Promise.all(queries.map((query) => query.get()))).flatMap((snapshot) => snapshot.docs);
+      if (docs.length === 0) return [];
+
+      // Resolve the parent decks, their visibility may have changed since the flashcards were indexed
+      const deckRefs = [...new Set(docs.map((doc) => doc.ref.parent.parent?.id).filter((id): id is string => !!id))]
+        .map((deckID) => db.collection("decks").doc(deckID));
+      const deckSnaps = await db.getAll(...deckRefs);
+      const decks: Record<string, SearchDeck> = {};
+      deckSnaps.forEach((snap) => {
+        if (!snap.exists) return;
+        // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
+        const {embedding_field, search_tokens, ...deck} = snap.data() as DeckRaw;
+        const inScope = filter === "MY_DECKS" ? deck.owner_id === userID || deckIDs.includes(snap.id) : !deck.is_private;
+        if (!deck.is_deleted && inScope) decks[snap.id] = deck;
+      });
+
+      return docs
+        .filter((doc) => doc.ref.parent.parent && decks[doc.ref.parent.parent.id])
+        .map((doc) => {
+          const deckID = doc.ref.parent.parent?.id as string;
+          return {
+            id: doc.id,
+            deck_id: deckID,
+            term: doc.get("term") ?? "",
+            definition: doc.get("definition") ?? "",
+            deck: decks[deckID],
+          };
+        });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while searching flashcards.",
+        500,
+        {errorCode: "DATABASE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Builds the search index fields of a flashcard: the search tokens of its term and definition,
+   * and the deck and owner IDs used to scope flashcard searches.
+   *
+   * @param {string} deckID - The ID of the parent deck.
+   * @param {string} ownerID - The ID of the owner of the parent deck.
+   * @param {object} flashcard - The term and definition of the flashcard.
+   * @return {object} The search index fields.
+   */
+  private getSearchIndex(
+    deckID: string,
+    ownerID: string,
+    flashcard: {term?: string, definition?: string}
+  ): {deck_id: string, owner_id: string, search_tokens: string[]} {
+    return {
+      deck_id: deckID,
+      owner_id: ownerID,
+      search_tokens: Utils.searchTokens(flashcard.term ?? "", flashcard.definition ?? ""),
+    };
+  }
 }
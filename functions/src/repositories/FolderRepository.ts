@@ -0,0 +1,426 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file FolderRepository.ts
+ * This module defines the repository layer for the folders of decks within Firestore.
+ * Folders are stored in the 'folders' collection and the decks they hold in the 'folder_items'
+ * collection, keyed by `${user_id}_${deck_id}` so a deck is in at most one folder of a user.
+ *
+ * Methods:
+ * - getFolders: Retrieves every folder of a user.
+ * - getFolder: Retrieves a folder by its ID.
+ * - createFolder: Creates a folder.
+ * - updateFolder: Renames, moves or repositions a folder.
+ * - setFolderPositions: Orders sibling folders as listed.
+ * - deleteFolders: Deletes folders and the entries of the decks they hold.
+ * - countFolderItems: Counts the decks of a folder.
+ * - getFolderItemsPage: Retrieves a page of the decks of a folder, in folder order.
+ * - getFolderDeckIDs: Retrieves the IDs of every deck of a folder, in folder order.
+ * - getLastItemPosition: Retrieves the position of the last deck of a folder.
+ * - setFolderItems: Files decks in a folder, moving them out of their previous folder.
+ * - deleteFolderItems: Removes decks from a folder.
+ * - setFolderItemPositions: Orders the decks of a folder as listed.
+ *
+ * @module repository
+ * @file FolderRepository.ts
+ * @class FolderRepository
+ * @classdesc Provides data access methods for the 'folders' and 'folder_items' collections in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {Folder, FolderItem} from "../interface/Folder";
+
+/**
+ * The `FolderRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for managing the folders of decks.
+ */
+export class FolderRepository extends FirebaseAdmin {
+  /**
+   * The most writes Firestore accepts in one batch.
+   */
+  private static readonly BATCH_SIZE = 500;
+
+  /**
+   * Retrieves every folder of a user.
+   *
+   * @param {string} userID - The ID of the user.
+   * @return {Promise<Folder[]>} A promise resolving to the folders, in no particular order.
+   * @throws {ApiError} Throws FOLDER_FETCH_ERROR on failure.
+   */
+  public async getFolders(userID: string): Promise<Folder[]> {
+    try {
+      const snapshot = await this.getDb().collection("folders").where("owner_id", "==", userID).get();
+
+      return snapshot.docs.map((doc) => ({id: doc.id, ...doc.data()}) as Folder);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the folders.",
+        500,
+        {userID, errorCode: "FOLDER_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a folder by its ID.
+   *
+   * @param {string} folderID - The ID of the folder.
+   * @return {Promise<Folder | null>} The folder, or null if it does not exist.
+   * @throws {ApiError} Throws FOLDER_FETCH_ERROR on failure.
+   */
+  public async getFolder(folderID: string): Promise<Folder | null> {
+    try {
+      const snapshot = await this.getDb().collection("folders").doc(folderID).get();
+
+      return snapshot.exists ? {id: snapshot.id, ...snapshot.data()} as Folder : null;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Creates a folder.
+   *
+   * @param {Omit<Folder, "id">} data - The folder.
+   * @return {Promise<Folder>} A promise resolving to the created folder.
+   * @throws {ApiError} Throws FOLDER_CREATE_ERROR on failure.
+   */
+  public async createFolder(data: Omit<Folder, "id">): Promise<Folder> {
+    try {
+      const folderRef = await this.getDb().collection("folders").add(data);
+
+      return {id: folderRef.id, ...data};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while creating the folder.",
+        500,
+        {errorCode: "FOLDER_CREATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Renames, moves or repositions a folder.
+   *
+   * @param {string} folderID - The ID of the folder.
+   * @param {object} data - The fields to update.
+   * @return {Promise<void>} A promise that resolves when the folder is updated.
+   * @throws {ApiError} Throws FOLDER_UPDATE_ERROR on failure.
+   */
+  public async updateFolder(
+    folderID: string,
+    data: Partial<Pick<Folder, "name" | "parent_id" | "position" | "updated_at">>
+  ): Promise<void> {
+    try {
+      await this.getDb().collection("folders").doc(folderID).update(data);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while updating the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Orders sibling folders as listed: each folder takes its index as position.
+   *
+   * @param {string[]} folderIDs - The IDs of the folders, in their new order.
+   * @return {Promise<void>} A promise that resolves when the folders are reordered.
+   * @throws {ApiError} Throws FOLDER_UPDATE_ERROR on failure.
+   */
+  public async setFolderPositions(folderIDs: string[]): Promise<void> {
+    try {
+      const db = this.getDb();
+      const updatedAt = FirebaseAdmin.getTimeStamp();
+
+      await this.commitInBatches(folderIDs.map((folderID, position) => (batch) => {
+        batch.update(db.collection("folders").doc(folderID), {position, updated_at: updatedAt});
+      }));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while reordering the folders.",
+        500,
+        {errorCode: "FOLDER_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Deletes folders and the entries of the decks they hold. The decks themselves are not touched.
+   *
+   * @param {string[]} folderIDs - The IDs of the folders.
+   * @return {Promise<number>} A promise resolving to the number of deck entries removed.
+   * @throws {ApiError} Throws FOLDER_DELETE_ERROR on failure.
+   */
+  public async deleteFolders(folderIDs: string[]): Promise<number> {
+    try {
+      const db = this.getDb();
+      const itemSnapshots = await Promise.all(folderIDs.map((folderID) =>
+        db.collection("folder_items").where("folder_id", "==", folderID).select().get()
+      ));
+      const itemRefs = itemSnapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.ref));
+
+      await this.commitInBatches([
+        ...itemRefs.map((ref) => (batch: FirebaseFirestore.WriteBatch) => {
+          batch.delete(ref);
+        }),
+        ...folderIDs.map((folderID) => (batch: FirebaseFirestore.WriteBatch) => {
+          batch.delete(db.collection("folders").doc(folderID));
+        }),
+      ]);
+
+      return itemRefs.length;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while deleting the folders.",
+        500,
+        {errorCode: "FOLDER_DELETE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Counts the decks of a folder.
+   *
+   * @param {string} folderID - The ID of the folder.
+   * @return {Promise<number>} A promise resolving to the number of decks.
+   * @throws {ApiError} Throws FOLDER_FETCH_ERROR on failure.
+   */
+  public async countFolderItems(folderID: string): Promise<number> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("folder_items")
+        .where("folder_id", "==", folderID)
+        .count()
+        .get();
+
+      return snapshot.data().count;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while counting the decks of the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a page of the decks of a folder, in folder order.
+   *
+   * @param {string} folderID - The ID of the folder.
+   * @param {number} limit - The maximum number of decks to return.
+   * @param {string | null} nextPageToken - The ID of the last entry of the previous page.
+   * @return {Promise<object>} A promise resolving to the entries of the page and the next page token.
+   * @throws {ApiError} Throws FOLDER_FETCH_ERROR on failure.
+   */
+  public async getFolderItemsPage(
+    folderID: string,
+    limit: number,
+    nextPageToken: string | null
+  ): Promise<{items: FolderItem[], nextPageToken: string | null}> {
+    try {
+      const itemsRef = this.getDb().collection("folder_items");
+      let query = itemsRef
+        .where("folder_id", "==", folderID)
+        .orderBy("position")
+        .limit(limit);
+
+      if (nextPageToken) {
+        const lastSnap = await itemsRef.doc(nextPageToken).get();
+        if (lastSnap.exists) {
+          query = query.startAfter(lastSnap);
+        }
+      }
+
+      const snapshot = await query.get();
+
+      return {
+        items: snapshot.docs.map((doc) => doc.data() as FolderItem),
+        nextPageToken: snapshot.docs.length === limit ? snapshot.docs[snapshot.docs.length - 1].id : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the decks of the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the IDs of every deck of a folder, in folder order.
+   *
+   * @param {string} folderID - The ID of the folder.
+   * @return {Promise<string[]>} A promise resolving to the deck IDs.
+   * @throws {ApiError} Throws FOLDER_FETCH_ERROR on failure.
+   */
+  public async getFolderDeckIDs(folderID: string): Promise<string[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("folder_items")
+        .where("folder_id", "==", folderID)
+        .orderBy("position")
+        .select("deck_id")
+        .get();
+
+      return snapshot.docs.map((doc) => doc.get("deck_id") as string);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the decks of the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the position of the last deck of a folder.
+   *
+   * @param {string} folderID - The ID of the folder.
+   * @return {Promise<number>} A promise resolving to the position, or -1 when the folder is empty.
+   * @throws {ApiError} Throws FOLDER_FETCH_ERROR on failure.
+   */
+  public async getLastItemPosition(folderID: string): Promise<number> {
+    try {
+      const snapshot = await this.getDb()
+        .collection("folder_items")
+        .where("folder_id", "==", folderID)
+        .orderBy("position", "desc")
+        .limit(1)
+        .get();
+
+      return snapshot.empty ? -1 : snapshot.docs[0].get("position");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the decks of the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Files decks in a folder, after its last deck and in the order listed. A deck already in another
+   * folder of the user is moved, since its entry is keyed by the user and the deck.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @param {string[]} deckIDs - The IDs of the decks.
+   * @param {number} startPosition - The position of the first deck.
+   * @return {Promise<void>} A promise that resolves when the decks are filed.
+   * @throws {ApiError} Throws FOLDER_UPDATE_ERROR on failure.
+   */
+  public async setFolderItems(userID: string, folderID: string, deckIDs: string[], startPosition: number): Promise<void> {
+    try {
+      const db = this.getDb();
+      const addedAt = FirebaseAdmin.getTimeStamp();
+
+      await this.commitInBatches(deckIDs.map((deckID, index) => (batch) => {
+        const item: FolderItem = {
+          user_id: userID,
+          deck_id: deckID,
+          folder_id: folderID,
+          position: startPosition + index,
+          added_at: addedAt,
+        };
+        batch.set(db.collection("folder_items").doc(`${userID}_${deckID}`), item);
+      }));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while adding the decks to the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Removes decks from a folder. Decks filed in another folder are left where they are.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @param {string[]} deckIDs - The IDs of the decks.
+   * @return {Promise<string[]>} A promise resolving to the IDs of the decks removed.
+   * @throws {ApiError} Throws FOLDER_UPDATE_ERROR on failure.
+   */
+  public async deleteFolderItems(userID: string, folderID: string, deckIDs: string[]): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const snapshots = await db.getAll(...deckIDs.map((deckID) => db.collection("folder_items").doc(`${userID}_${deckID}`)));
+      const inFolder = snapshots.filter((snap) => snap.exists && snap.get("folder_id") === folderID);
+
+      await this.commitInBatches(inFolder.map((snap) => (batch) => {
+        batch.delete(snap.ref);
+      }));
+
+      return inFolder.map((snap) => snap.get("deck_id") as string);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while removing the decks from the folder.",
+        500,
+        {folderID, errorCode: "FOLDER_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Orders the decks of a folder as listed: each deck takes its index as position.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string[]} deckIDs - The IDs of the decks of the folder, in their new order.
+   * @return {Promise<void>} A promise that resolves when the decks are reordered.
+   * @throws {ApiError} Throws FOLDER_UPDATE_ERROR on failure.
+   */
+  public async setFolderItemPositions(userID: string, deckIDs: string[]): Promise<void> {
+    try {
+      const db = this.getDb();
+
+      await this.commitInBatches(deckIDs.map((deckID, position) => (batch) => {
+        batch.update(db.collection("folder_items").doc(`${userID}_${deckID}`), {position});
+      }));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while reordering the decks of the folder.",
+        500,
+        {errorCode: "FOLDER_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Applies writes in as many batches as needed to stay under the batch size limit.
+   *
+   * @param {Array<Function>} writes - The writes, each adding one operation to a batch.
+   * @return {Promise<void>} A promise that resolves when every batch is committed.
+   */
+  private async commitInBatches(writes: Array<(batch: FirebaseFirestore.WriteBatch) => void>): Promise<void> {
+    const db = this.getDb();
+    for (let i = 0; i < writes.length; i += FolderRepository.BATCH_SIZE) {
+      const batch = db.batch();
+      writes.slice(i, i + FolderRepository.BATCH_SIZE).forEach((write) => write(batch));
+      await batch.commit();
+    }
+  }
+}
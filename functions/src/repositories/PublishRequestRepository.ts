@@ -0,0 +1,241 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file PublishRequestRepository.ts
+ * This module defines the repository layer for the requests to publish decks within Firestore.
+ * Requests are stored in the 'publish_requests' collection. A deck has at most one pending
+ * request, and deciding a request updates the request and the deck within the same transaction.
+ *
+ * Methods:
+ * - createPublishRequest: Creates a pending publish request for a deck.
+ * - getPublishRequest: Retrieves a publish request by its ID.
+ * - getPublishRequests: Retrieves publish requests by requester and/or verdict, with pagination.
+ * - updatePublishRequest: Updates the moderation status or the duplicate check of a publish request.
+ * - decidePublishRequest: Records the verdict of a pending request and publishes the deck on approval.
+ *
+ * @module repository
+ * @file PublishRequestRepository.ts
+ * @class PublishRequestRepository
+ * @classdesc Provides data access methods for the 'publish_requests' collection in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {DeckRaw} from "../interface/Deck";
+import {PublishRequest, PublishVerdict, PublishVerdictEntry} from "../interface/PublishRequest";
+
+/**
+ * The `PublishRequestRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for managing the requests to publish decks.
+ */
+export class PublishRequestRepository extends FirebaseAdmin {
+  /**
+   * Creates a pending publish request for a deck. The check for an existing pending
+   * request and the creation run in the same transaction.
+   *
+   * @param {Omit<PublishRequest, "id">} data - The publish request.
+   * @return {Promise<PublishRequest>} A promise resolving to the created request.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_ALREADY_PENDING (409) or PUBLISH_REQUEST_CREATE_ERROR (500).
+   */
+  public async createPublishRequest(data: Omit<PublishRequest, "id">): Promise<PublishRequest> {
+    try {
+      const db = this.getDb();
+      const requestsRef = db.collection("publish_requests");
+      const requestRef = requestsRef.doc();
+
+      await db.runTransaction(async (transaction) => {
+        const pending = await transaction.get(
+          requestsRef
+            .where("deck_id", "==", data.deck_id)
+            .where("mod_verdict", "==", "PENDING")
+            .limit(1)
+        );
+
+        if (!pending.empty) {
+          throw new ApiError(
+            "A publish request for this deck is already pending.",
+            409,
+            {deckID: data.deck_id, requestID: pending.docs[0].id, errorCode: "PUBLISH_REQUEST_ALREADY_PENDING"}
+          );
+        }
+
+        transaction.set(requestRef, data);
+      });
+
+      return {id: requestRef.id, ...data};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while creating the publish request.",
+        500,
+        {deckID: data.deck_id, errorCode: "PUBLISH_REQUEST_CREATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a publish request by its ID.
+   *
+   * @param {string} requestID - The ID of the publish request.
+   * @return {Promise<PublishRequest | null>} The publish request, or null if it does not exist.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_FETCH_ERROR on failure.
+   */
+  public async getPublishRequest(requestID: string): Promise<PublishRequest | null> {
+    try {
+      const snapshot = await this.getDb().collection("publish_requests").doc(requestID).get();
+
+      return snapshot.exists ? {id: snapshot.id, ...snapshot.data()} as PublishRequest : null;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the publish request.",
+        500,
+        {requestID, errorCode: "PUBLISH_REQUEST_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves publish requests by requester and/or verdict, with pagination.
+   *
+   * @param {object} filters - The filters of the query.
+   * @param {string} [filters.requestedBy] - Only return the requests of this user.
+   * @param {PublishVerdict} [filters.verdict] - Only return the requests with this verdict.
+   * @param {"asc" | "desc"} order - The order of creation; the moderation queue lists the oldest first.
+   * @param {number} limit - The maximum number of requests to return.
+   * @param {string | null} nextPageToken - The ID of the last request of the previous page.
+   * @return {Promise<object>} A promise resolving to the requests and the next page token.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_FETCH_ERROR on failure.
+   */
+  public async getPublishRequests(
+    filters: {requestedBy?: string, verdict?: PublishVerdict},
+    order: "asc" | "desc",
+    limit: number,
+    nextPageToken: string | null
+  ): Promise<{requests: PublishRequest[], nextPageToken: string | null}> {
+    try {
+      const requestsRef = this.getDb().collection("publish_requests");
+      let query: FirebaseFirestore.Query = requestsRef;
+
+      if (filters.requestedBy) {
+        query = query.where("requested_by", "==", filters.requestedBy);
+      }
+      if (filters.verdict) {
+        query = query.where("mod_verdict", "==", filters.verdict);
+      }
+      query = query.orderBy("created_at", order).limit(limit);
+
+      if (nextPageToken) {
+        const lastSnap = await requestsRef.doc(nextPageToken).get();
+        if (lastSnap.exists) {
+          query = query.startAfter(lastSnap);
+        }
+      }
+
+      const snapshot = await query.get();
+      const requests = snapshot.docs.map((doc) => ({id: doc.id, ...doc.data()}) as PublishRequest);
+
+      return {
+        requests,
+        nextPageToken: snapshot.docs.length === limit ? snapshot.docs[snapshot.docs.length - 1].id : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the publish requests.",
+        500,
+        {errorCode: "PUBLISH_REQUEST_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Updates the moderation status or the duplicate check of a publish request.
+   *
+   * @param {string} requestID - The ID of the publish request.
+   * @param {object} data - The fields to update.
+   * @return {Promise<void>} A promise that resolves when the request is updated.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_UPDATE_ERROR on failure.
+   */
+  public async updatePublishRequest(
+    requestID: string,
+    data: Partial<Pick<PublishRequest, "external_moderation" | "duplicates">>
+  ): Promise<void> {
+    try {
+      await this.getDb().collection("publish_requests").doc(requestID).update(data);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while updating the publish request.",
+        500,
+        {requestID, errorCode: "PUBLISH_REQUEST_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Records the verdict of a pending publish request. On approval the deck is made public
+   * within the same transaction, so a deck never becomes public without an approved request.
+   *
+   * @param {string} requestID - The ID of the publish request.
+   * @param {PublishVerdictEntry} entry - The verdict, appended to the verdict history.
+   * @return {Promise<PublishRequest>} A promise resolving to the updated request.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_NOT_FOUND (404), PUBLISH_REQUEST_NOT_PENDING (409),
+   * DECK_NOT_FOUND (404) or PUBLISH_REQUEST_UPDATE_ERROR (500).
+   */
+  public async decidePublishRequest(requestID: string, entry: PublishVerdictEntry): Promise<PublishRequest> {
+    try {
+      const db = this.getDb();
+      const requestRef = db.collection("publish_requests").doc(requestID);
+
+      return await db.runTransaction(async (transaction) => {
+        const requestSnap = await transaction.get(requestRef);
+        if (!requestSnap.exists) {
+          throw new ApiError(`Publish request ${requestID} does not exist`, 404, {requestID, errorCode: "PUBLISH_REQUEST_NOT_FOUND"});
+        }
+
+        const request = {id: requestSnap.id, ...requestSnap.data()} as PublishRequest;
+        if (request.mod_verdict !== "PENDING") {
+          throw new ApiError(
+            `Publish request ${requestID} is already ${request.mod_verdict.toLowerCase()}`,
+            409,
+            {requestID, verdict: request.mod_verdict, errorCode: "PUBLISH_REQUEST_NOT_PENDING"}
+          );
+        }
+
+        if (entry.verdict === "APPROVED") {
+          const deckRef = db.collection("decks").doc(request.deck_id);
+          const deckSnap = await transaction.get(deckRef);
+
+          if (!deckSnap.exists || (deckSnap.data() as DeckRaw).is_deleted) {
+            throw new ApiError(`Deck ${request.deck_id} does not exist`, 404, {deckID: request.deck_id, errorCode: "DECK_NOT_FOUND"});
+          }
+          transaction.update(deckRef, {is_private: false});
+        }
+
+        const updated = {
+          mod_verdict: entry.verdict,
+          verdict_history: [...(request.verdict_history ?? []), entry],
+          updated_at: entry.decided_at,
+        };
+        transaction.update(requestRef, updated);
+
+        return {...request, ...updated};
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while updating the publish request.",
+        500,
+        {requestID, errorCode: "PUBLISH_REQUEST_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+}
@@ -17,6 +17,9 @@ import {Timestamp} from "firebase-admin/firestore";
 import {FirebaseAdmin} from "../config/FirebaseAdmin";
 import {ApiError} from "../helpers/apiError";
 import {DeckRepository} from "./DeckRepository";
+import {DeckVersionRepository} from "./DeckVersionRepository";
+import {CollaboratorRepository} from "./CollaboratorRepository";
+import {PermissionService} from "../services/PermissionService";
 
 /**
  * The `QuizRepository` class extends the `FirebaseAdmin` class to provide
@@ -155,7 +158,7 @@ export class QuizRepository extends FirebaseAdmin {
       const latestAttempt = quizAttempt.docs[0].data();
       const deckId = latestAttempt.deck_id;
 
-      const deckRepo = new DeckRepository();
+      const deckRepo = new DeckRepository(new DeckVersionRepository(), new PermissionService(new CollaboratorRepository()));
 
       const deck = await deckRepo.getSpecificDeck(deckId);
 
@@ -0,0 +1,254 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file ReportRepository.ts
+ * This module defines the repository layer for the reports filed against public decks within Firestore.
+ * Every deck with reports has a summary in the 'deck_reports' collection, keyed by the deck ID, and
+ * its reports in the 'reports' subcollection of the summary, keyed by the reporting user.
+ * Filing a report, hiding the deck and resolving its reports each run in a single transaction.
+ *
+ * Methods:
+ * - createReport: Files a report against a public deck and hides the deck once the threshold is reached.
+ * - getReportQueue: Retrieves the decks with open reports, most reported first, with pagination.
+ * - getDeckReports: Retrieves the report summary and the reports of a deck.
+ * - resolveReports: Resolves the open reports of a deck and records the resolution in the audit log.
+ *
+ * @module repository
+ * @file ReportRepository.ts
+ * @class ReportRepository
+ * @classdesc Provides data access methods for the 'deck_reports' collection and its 'reports' subcollections in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {AdminAuditLog} from "../interface/AdminAuditLog";
+import {DeckRaw} from "../interface/Deck";
+import {DeckReport, DeckReportSummary, ReportResolution} from "../interface/Report";
+
+/**
+ * The `ReportRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for managing the reports of decks.
+ */
+export class ReportRepository extends FirebaseAdmin {
+  /**
+   * Files a report against a public deck. When the open reports of the deck reach the
+   * threshold, the deck is made private and put on moderation hold in the same transaction.
+   *
+   * @param {DeckReport} report - The report.
+   * @param {number} hideThreshold - The number of open reports that hides the deck.
+   * @return {Promise<object>} A promise resolving to the report and whether the deck was hidden.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404), REPORT_ALREADY_EXISTS (409) or REPORT_CREATE_ERROR (500).
+   */
+  public async createReport(report: DeckReport, hideThreshold: number): Promise<{report: DeckReport, hidden: boolean}> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(report.deck_id);
+      const summaryRef = db.collection("deck_reports").doc(report.deck_id);
+      const reportRef = summaryRef.collection("reports").doc(report.user_id);
+
+      return await db.runTransaction(async (transaction) => {
+        const [deckSnap, summarySnap, reportSnap] = await transaction.getAll(deckRef, summaryRef, reportRef);
+        const deck = deckSnap.data() as DeckRaw | undefined;
+
+        if (!deck || deck.is_deleted || deck.is_private) {
+          throw new ApiError(`Deck ${report.deck_id} does not exist`, 404, {deckID: report.deck_id, errorCode: "DECK_NOT_FOUND"});
+        }
+        if (reportSnap.exists && (reportSnap.data() as DeckReport).status === "OPEN") {
+          throw new ApiError(
+            "You already reported this deck",
+            409,
+            {deckID: report.deck_id, errorCode: "REPORT_ALREADY_EXISTS"}
+          );
+        }
+
+        const summary = summarySnap.data() as DeckReportSummary | undefined;
+        const isOpen = summary?.status === "OPEN";
+        const categories = isOpen ? {...summary.categories} : {};
+        categories[report.category] = (categories[report.category] ?? 0) + 1;
+
+        const openCount = (isOpen ? summary.open_count : 0) + 1;
+        const hidden = openCount >= hideThreshold;
+
+        if (hidden) {
+          transaction.update(deckRef, {is_private: true, moderation_hold: true});
+        }
+        transaction.set(reportRef, report);
+        transaction.set(summaryRef, {
+          deck_id: report.deck_id,
+          deck_title: deck.title,
+          owner_id: deck.owner_id,
+          status: "OPEN",
+          open_count: openCount,
+          total_count: (summary?.total_count ?? 0) + 1,
+          categories,
+          hidden,
+          last_reported_at: report.created_at,
+          resolution: null,
+          resolved_by: null,
+          resolved_at: null,
+        } as DeckReportSummary);
+
+        return {report, hidden};
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while reporting the deck.",
+        500,
+        {deckID: report.deck_id, errorCode: "REPORT_CREATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the decks with open reports, most reported first, with pagination.
+   *
+   * @param {number} limit - The maximum number of decks to return.
+   * @param {string | null} nextPageToken - The deck ID of the last summary of the previous page.
+   * @return {Promise<object>} A promise resolving to the report summaries and the next page token.
+   * @throws {ApiError} Throws REPORT_FETCH_ERROR on failure.
+   */
+  public async getReportQueue(limit: number, nextPageToken: string | null): Promise<object> {
+    try {
+      const summariesRef = this.getDb().collection("deck_reports");
+      let query = summariesRef
+        .where("status", "==", "OPEN")
+        .orderBy("open_count", "desc")
+        .orderBy("last_reported_at", "asc")
+        .limit(limit);
+
+      if (nextPageToken) {
+        const lastSnap = await summariesRef.doc(nextPageToken).get();
+        if (lastSnap.exists) {
+          query = query.startAfter(lastSnap);
+        }
+      }
+
+      const snapshot = await query.get();
+
+      return {
+        decks: snapshot.docs.map((doc) => doc.data() as DeckReportSummary),
+        nextPageToken: snapshot.docs.length === limit ? snapshot.docs[snapshot.docs.length - 1].id : null,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the report queue.",
+        500,
+        {errorCode: "REPORT_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves the report summary of a deck and its reports, newest first.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<object | null>} The summary and the reports, or null if the deck was never reported.
+   * @throws {ApiError} Throws REPORT_FETCH_ERROR on failure.
+   */
+  public async getDeckReports(deckID: string): Promise<{summary: DeckReportSummary, reports: DeckReport[]} | null> {
+    try {
+      const summaryRef = this.getDb().collection("deck_reports").doc(deckID);
+      const summarySnap = await summaryRef.get();
+
+      if (!summarySnap.exists) return null;
+
+      const reportsSnap = await summaryRef.collection("reports").orderBy("created_at", "desc").get();
+
+      return {
+        summary: summarySnap.data() as DeckReportSummary,
+        reports: reportsSnap.docs.map((doc) => doc.data() as DeckReport),
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the reports of the deck.",
+        500,
+        {deckID, errorCode: "REPORT_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Resolves the open reports of a deck and lifts its moderation hold. Dismissing the reports
+   * republishes a deck hidden by the reports; unpublishing keeps the deck private. The resolution
+   * is recorded in the admin audit log within the same transaction.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {ReportResolution} resolution - The resolution.
+   * @param {Omit<AdminAuditLog, "before" | "after" | "target_owner_id">} log - The audit log entry.
+   * @return {Promise<DeckReportSummary>} A promise resolving to the resolved summary.
+   * @throws {ApiError} Throws REPORTS_NOT_FOUND (404), REPORTS_NOT_OPEN (409) or REPORT_RESOLVE_ERROR (500).
+   */
+  public async resolveReports(
+    deckID: string,
+    resolution: ReportResolution,
+    log: Omit<AdminAuditLog, "before" | "after" | "target_owner_id">
+  ): Promise<DeckReportSummary> {
+    try {
+      const db = this.getDb();
+      const deckRef = db.collection("decks").doc(deckID);
+      const summaryRef = db.collection("deck_reports").doc(deckID);
+
+      return await db.runTransaction(async (transaction) => {
+        const [deckSnap, summarySnap] = await transaction.getAll(deckRef, summaryRef);
+        const summary = summarySnap.data() as DeckReportSummary | undefined;
+
+        if (!summary) {
+          throw new ApiError(`Deck ${deckID} has no reports`, 404, {deckID, errorCode: "REPORTS_NOT_FOUND"});
+        }
+        if (summary.status !== "OPEN") {
+          throw new ApiError(`The reports of deck ${deckID} are already resolved`, 409, {deckID, errorCode: "REPORTS_NOT_OPEN"});
+        }
+
+        const openReports = await transaction.get(summaryRef.collection("reports").where("status", "==", "OPEN"));
+        const deck = deckSnap.data() as DeckRaw | undefined;
+        const before = {is_private: deck?.is_private ?? null, moderation_hold: deck?.moderation_hold ?? false};
+        let after: Record<string, boolean> = {};
+
+        if (deck && !deck.is_deleted) {
+          after = resolution === "dismiss" && deck.moderation_hold ?
+            {is_private: false, moderation_hold: false} :
+            {is_private: resolution === "unpublish" ? true : deck.is_private, moderation_hold: false};
+          transaction.update(deckRef, after);
+        }
+
+        openReports.docs.forEach((doc) => transaction.update(doc.ref, {status: "RESOLVED"}));
+
+        const resolved: DeckReportSummary = {
+          ...summary,
+          status: "RESOLVED",
+          open_count: 0,
+          hidden: false,
+          resolution,
+          resolved_by: log.actor_id,
+          resolved_at: log.created_at,
+        };
+        transaction.set(summaryRef, resolved);
+        transaction.set(db.collection("admin_audit_logs").doc(), {
+          ...log,
+          target_owner_id: summary.owner_id,
+          before: {...before, open_reports: summary.open_count},
+          after: {...after, resolution},
+        });
+
+        return resolved;
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while resolving the reports.",
+        500,
+        {deckID, errorCode: "REPORT_RESOLVE_ERROR", message: error.message}
+      );
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file ReviewRepository.ts
+ * This module defines the repository layer for the spaced-repetition review data within Firestore.
+ * Review states are stored in the 'review_states' collection, keyed by user and flashcard,
+ * and every review is appended to the 'review_logs' collection.
+ *
+ * Methods:
+ * - getReviewState: Retrieves the review state of a flashcard for a specific user.
+ * - saveReview: Persists the new review state of a flashcard together with its review log entry.
+ * - getDeckReviewStates: Retrieves every review state of a user within a specific deck.
+ * - getDueReviewStates: Retrieves a page of the review states of a user that are due at a given time, oldest first.
+ * - getDuePageToken: Builds the page token resuming the due review states after a review state.
+ * - countDueReviewStates: Counts the review states of a user that are due at a given time.
+ * - countReviewsSince: Counts the new and review cards a user studied since a given time.
+ *
+ * @module repository
+ * @file ReviewRepository.ts
+ * @class ReviewRepository
+ * @classdesc Provides data access methods for the 'review_states' and 'review_logs' collections in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {ReviewLog, ReviewState} from "../interface/ReviewState";
+import {FieldPath, Timestamp} from "firebase-admin/firestore";
+
+/**
+ * The `ReviewRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for managing the review state of flashcards.
+ */
+export class ReviewRepository extends FirebaseAdmin {
+  /**
+   * Builds the document ID of a review state.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} flashcardID - The ID of the flashcard.
+   * @return {string} The document ID.
+   */
+  private stateID(userID: string, flashcardID: string): string {
+    return `${userID}_${flashcardID}`;
+  }
+
+  /**
+   * Retrieves the review state of a flashcard for a specific user.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} flashcardID - The ID of the flashcard.
+   * @return {Promise<ReviewState | null>} The review state, or null if the card was never reviewed.
+   * @throws {ApiError} Throws REVIEW_STATE_FETCH_ERROR on failure.
+   */
+  public async getReviewState(userID: string, flashcardID: string): Promise<ReviewState | null> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db.collection("review_states").doc(this.stateID(userID, flashcardID)).get();
+
+      return snapshot.exists ? snapshot.data() as ReviewState : null;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the review state.",
+        500,
+        {userID, flashcardID, errorCode: "REVIEW_STATE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Persists the review state of a flashcard and appends the review to the review logs.
+   * Both writes are committed atomically.
+   *
+   * @param {ReviewState} state - The new review state.
+   * @param {ReviewLog} log - The review log entry.
+   * @return {Promise<void>} A promise that resolves when both writes are committed.
+   * @throws {ApiError} Throws REVIEW_STATE_WRITE_ERROR on failure.
+   */
+  public async saveReview(state: ReviewState, log: ReviewLog): Promise<void> {
+    try {
+      const db = this.getDb();
+      const batch = db.batch();
+
+      batch.set(db.collection("review_states").doc(this.stateID(state.user_id, state.flashcard_id)), state);
+      batch.set(db.collection("review_logs").doc(), log);
+
+      await batch.commit();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while saving the review.",
+        500,
+        {flashcardID: state.flashcard_id, errorCode: "REVIEW_STATE_WRITE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves every review state of a user within a specific deck.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<ReviewState[]>} The review states of the deck.
+   * @throws {ApiError} Throws REVIEW_STATE_FETCH_ERROR on failure.
+   */
+  public async getDeckReviewStates(userID: string, deckID: string): Promise<ReviewState[]> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db.collection("review_states")
+        .where("user_id", "==", userID)
+        .where("deck_id", "==", deckID)
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data() as ReviewState);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the review states of the deck.",
+        500,
+        {userID, deckID, errorCode: "REVIEW_STATE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a page of the review states of a user that are due at the given time, across all decks,
+   * ordered by due date, oldest first, then by ID. The page starts after the review state of the page
+   * token (see `getDuePageToken`).
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {FirebaseFirestore.Timestamp} dueBefore - The moment at which cards are considered due.
+   * @param {number} limit - The maximum number of review states to return.
+   * @param {string | null} pageToken - The page token of the last review state already read, or null for the first page.
+   * @return {Promise<object>} The due review states of the page and whether more remain after them.
+   * @throws {ApiError} Throws REVIEW_STATE_FETCH_ERROR on failure.
+   */
+  public async getDueReviewStates(
+    userID: string,
+    dueBefore: FirebaseFirestore.Timestamp,
+    limit: number,
+    pageToken: string | null
+  ): Promise<{states: ReviewState[], hasMore: boolean}> {
+    try {
+      let query = this.getDb().collection("review_states")
+        .where("user_id", "==", userID)
+        .where("due_at", "<=", dueBefore)
+        .orderBy("due_at", "asc")
+        .orderBy(FieldPath.documentId(), "asc");
+
+      const cursor = pageToken?.match(/^(\d+)_(\d+)_(.+)$/);
+      if (cursor) {
+        query = query.startAfter(new Timestamp(Number(cursor[1]), Number(cursor[2])), cursor[3]);
+      }
+
+      // One more state is read to tell whether another page follows
+      const snapshot = await query.limit(limit + 1).get();
+
+      return {
+        states: snapshot.docs.slice(0, limit).map((doc) => doc.data() as ReviewState),
+        hasMore: snapshot.size > limit,
+      };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the due review states.",
+        500,
+        {userID, errorCode: "REVIEW_STATE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Builds the page token resuming the due review states of a user after a review state: its due date,
+   * to the nanosecond, and its document ID.
+   *
+   * @param {ReviewState} state - The last review state read.
+   * @return {string} The page token.
+   */
+  public getDuePageToken(state: ReviewState): string {
+    return `${state.due_at.seconds}_${state.due_at.nanoseconds}_${this.stateID(state.user_id, state.flashcard_id)}`;
+  }
+
+  /**
+   * Counts the review states of a user that are due at the given time, across all decks.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {FirebaseFirestore.Timestamp} dueBefore - The moment at which cards are considered due.
+   * @return {Promise<number>} The number of due review states.
+   * @throws {ApiError} Throws REVIEW_STATE_FETCH_ERROR on failure.
+   */
+  public async countDueReviewStates(userID: string, dueBefore: FirebaseFirestore.Timestamp): Promise<number> {
+    try {
+      const snapshot = await this.getDb().collection("review_states")
+        .where("user_id", "==", userID)
+        .where("due_at", "<=", dueBefore)
+        .count()
+        .get();
+
+      return snapshot.data().count;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while counting the due review states.",
+        500,
+        {userID, errorCode: "REVIEW_STATE_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Counts the new and review cards a user studied since the given time.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {FirebaseFirestore.Timestamp} since - The start of the counting window.
+   * @return {Promise<{newCount: number, reviewCount: number}>} The number of new and review cards studied.
+   * @throws {ApiError} Throws REVIEW_LOG_FETCH_ERROR on failure.
+   */
+  public async countReviewsSince(userID: string, since: FirebaseFirestore.Timestamp): Promise<{newCount: number, reviewCount: number}> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db.collection("review_logs")
+        .where("user_id", "==", userID)
+        .where("reviewed_at", ">=", since)
+        .select("was_new", "flashcard_id")
+        .get();
+
+      // A card studied several times in a day only counts once towards the limits
+      const newCards = new Set<string>();
+      const reviewCards = new Set<string>();
+      snapshot.docs.forEach((doc) => {
+        const data = doc.data();
+        if (data.was_new) {
+          newCards.add(data.flashcard_id);
+        } else {
+          reviewCards.add(data.flashcard_id);
+        }
+      });
+      newCards.forEach((flashcardID) => reviewCards.delete(flashcardID));
+
+      return {newCount: newCards.size, reviewCount: reviewCards.size};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while counting the reviews of the day.",
+        500,
+        {userID, errorCode: "REVIEW_LOG_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+}
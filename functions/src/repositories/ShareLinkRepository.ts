@@ -0,0 +1,187 @@
+/**
+ * Deck Manager API - Repository
+ *
+ * @file ShareLinkRepository.ts
+ * This module defines the repository layer for the share links of decks within Firestore.
+ * Share links are stored in the 'share_links' collection, keyed by the hash of their token.
+ *
+ * Methods:
+ * - getShareLinks: Retrieves every share link of a deck.
+ * - getShareLink: Retrieves a share link by its ID.
+ * - createShareLink: Stores a new share link.
+ * - revokeShareLink: Revokes a share link.
+ * - redeemShareLink: Reads the deck of a share link and counts the use, in a transaction.
+ *
+ * @module repository
+ * @file ShareLinkRepository.ts
+ * @class ShareLinkRepository
+ * @classdesc Provides data access methods for the 'share_links' collection in Firestore.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FieldValue} from "@google-cloud/firestore";
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {DeckRaw} from "../interface/Deck";
+import {ShareLink} from "../interface/ShareLink";
+
+/**
+ * The `ShareLinkRepository` class extends the `FirebaseAdmin` class to provide
+ * repository functionalities for managing the share links of decks.
+ */
+export class ShareLinkRepository extends FirebaseAdmin {
+  /**
+   * Retrieves every share link of a deck, newest first.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<ShareLink[]>} The share links of the deck.
+   * @throws {ApiError} Throws SHARE_LINK_FETCH_ERROR on failure.
+   */
+  public async getShareLinks(deckID: string): Promise<ShareLink[]> {
+    try {
+      const snapshot = await this.getDb().collection("share_links")
+        .where("deck_id", "==", deckID)
+        .orderBy("created_at", "desc")
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data() as ShareLink);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the share links.",
+        500,
+        {deckID, errorCode: "SHARE_LINK_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Retrieves a share link by its ID.
+   *
+   * @param {string} linkID - The ID of the share link.
+   * @return {Promise<ShareLink | null>} The share link, or null if it does not exist.
+   * @throws {ApiError} Throws SHARE_LINK_FETCH_ERROR on failure.
+   */
+  public async getShareLink(linkID: string): Promise<ShareLink | null> {
+    try {
+      const snapshot = await this.getDb().collection("share_links").doc(linkID).get();
+
+      return snapshot.exists ? snapshot.data() as ShareLink : null;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while fetching the share link.",
+        500,
+        {linkID, errorCode: "SHARE_LINK_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Stores a new share link.
+   *
+   * @param {ShareLink} link - The share link.
+   * @return {Promise<void>} A promise that resolves when the share link is stored.
+   * @throws {ApiError} Throws SHARE_LINK_CREATE_ERROR on failure.
+   */
+  public async createShareLink(link: ShareLink): Promise<void> {
+    try {
+      await this.getDb().collection("share_links").doc(link.id).create(link);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while creating the share link.",
+        500,
+        {deckID: link.deck_id, errorCode: "SHARE_LINK_CREATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Revokes a share link. The link is kept so its owner can still see how much it was used.
+   *
+   * @param {string} linkID - The ID of the share link.
+   * @param {string} userID - The ID of the user revoking the link.
+   * @return {Promise<object>} A promise resolving to the revocation fields.
+   * @throws {ApiError} Throws SHARE_LINK_UPDATE_ERROR on failure.
+   */
+  public async revokeShareLink(linkID: string, userID: string): Promise<{revoked_at: FirebaseFirestore.Timestamp, revoked_by: string}> {
+    try {
+      const revocation = {revoked_at: FirebaseAdmin.getTimeStamp(), revoked_by: userID};
+      await this.getDb().collection("share_links").doc(linkID).update(revocation);
+
+      return revocation;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      throw new ApiError(
+        "An error occurred while revoking the share link.",
+        500,
+        {linkID, errorCode: "SHARE_LINK_UPDATE_ERROR", message: error.message}
+      );
+    }
+  }
+
+  /**
+   * Reads the deck of a share link and counts the use, in a single transaction so that concurrent
+   * requests can never use a link more than `max_uses` times. Visits of the owner of the deck are
+   * not counted. Revoked links, links to decks that are deleted or hidden by moderation, and links
+   * that do not exist are all reported as not found so a token reveals nothing about the deck.
+   *
+   * @param {string} linkID - The ID of the share link.
+   * @param {string} userID - The ID of the user opening the link.
+   * @return {Promise<object>} A promise resolving to the share link, as updated, and the deck without its embedding.
+   * @throws {ApiError} Throws SHARE_LINK_NOT_FOUND (404), SHARE_LINK_EXPIRED (410), SHARE_LINK_EXHAUSTED (410)
+   * or SHARE_LINK_REDEEM_ERROR (500).
+   */
+  public async redeemShareLink(linkID: string, userID: string): Promise<{link: ShareLink, deck: DeckRaw & {id: string}}> {
+    try {
+      const db = this.getDb();
+      const linkRef = db.collection("share_links").doc(linkID);
+
+      return await db.runTransaction(async (transaction) => {
+        const linkSnap = await transaction.get(linkRef);
+        const link = linkSnap.data() as ShareLink | undefined;
+
+        if (!link || link.revoked_at) {
+          throw new ApiError("The share link does not exist or was revoked", 404, {errorCode: "SHARE_LINK_NOT_FOUND"});
+        }
+
+        const deckRef = db.collection("decks").doc(link.deck_id);
+        const deckSnap = await transaction.get(deckRef);
+        const deck = deckSnap.data() as DeckRaw | undefined;
+
+        if (!deck || deck.is_deleted || deck.moderation_hold) {
+          throw new ApiError("The share link does not exist or was revoked", 404, {errorCode: "SHARE_LINK_NOT_FOUND"});
+        }
+        if (link.expires_at && link.expires_at.toMillis() <= Date.now()) {
+          throw new ApiError("The share link has expired", 410, {errorCode: "SHARE_LINK_EXPIRED"});
+        }
+        if (link.max_uses !== null && link.use_count >= link.max_uses) {
+          throw new ApiError("The share link has reached its maximum number of uses", 410, {errorCode: "SHARE_LINK_EXHAUSTED"});
+        }
+
+        let redeemed = link;
+        if (userID !== deck.owner_id) {
+          const now = FirebaseAdmin.getTimeStamp();
+          transaction.update(linkRef, {use_count: FieldValue.increment(1), last_used_at: now});
+          redeemed = {...link, use_count: link.use_count + 1, last_used_at: now};
+        }
+
+        // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
+        const {embedding_field, search_tokens, ...deckData} = deck;
+        return {link: redeemed, deck: {id: deckSnap.id, ...deckData}};
+      });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      throw new ApiError(
+        "An error occurred while opening the share link.",
+        500,
+        {errorCode: "SHARE_LINK_REDEEM_ERROR", message: error.message}
+      );
+    }
+  }
+}
@@ -12,6 +12,7 @@
  * - createFlashcard: Adds a new flashcard document to a deck's subcollection and increments the deck's flashcard count.
  * - updateFlashcard: Updates fields of an existing flashcard document and adjusts the deck's flashcard count if deletion status changes.
  * - deleteFlashcards: Deletes one or more flashcard documents from a deck's subcollection using a batch operation and decrements the deck's flashcard count.
+ * - findAuthUser: Looks up a registered user by user ID or email address.
  *
  * @module repository
  * @file UserRepository.ts
@@ -19,10 +20,11 @@
  * @classdesc Repository class for managing User data in Firestore.
  * @author Arthur M. Artugue
  * @created 2024-04-18
- * @updated 2025-05-12
+ * @updated 2026-10-19
  */
 
 import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
 
 /**
  * UserRepository class for managing user data in Firestore.
@@ -70,4 +72,31 @@ export class UserRepository extends FirebaseAdmin {
       throw unknownError;
     }
   }
+
+  /**
+   * Looks up a registered user by user ID or email address.
+   *
+   * @param {object} identifier - The user ID or the email address of the user.
+   * @return {Promise<object | null>} The user ID and email of the user, or null if no user matches.
+   * @throws {ApiError} Throws USER_FETCH_ERROR on failure.
+   */
+  public async findAuthUser(identifier: {userID?: string, email?: string}): Promise<{user_id: string, email: string | null} | null> {
+    try {
+      const auth = this.getAuth();
+      const user = identifier.userID ?
+        await auth.getUser(identifier.userID) :
+        await auth.getUserByEmail(identifier.email ?? "");
+
+      return {user_id: user.uid, email: user.email ?? null};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      if (error?.code === "auth/user-not-found") return null;
+
+      throw new ApiError(
+        "An error occurred while looking up the user.",
+        500,
+        {errorCode: "USER_FETCH_ERROR", message: error.message}
+      );
+    }
+  }
 }
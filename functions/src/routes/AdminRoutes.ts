@@ -0,0 +1,153 @@
+/**
+ * Deck Manager API - Admin Router
+ *
+ * @file AdminRoutes.ts
+ * This module defines the moderation routes of the Deck Manager API. Every route requires the
+ * `moderator` platform role, read from the `role` custom claim of the Firebase ID token; hard
+ * deletes, role changes and the audit log require the `admin` role. Every override, including
+ * the resolution of reports, is recorded in the admin audit log.
+ *
+ * Admin Routes:
+ * - POST /v1/admin/decks/:deckID/unpublish: Makes any public deck private (moderator).
+ * - POST /v1/admin/decks/:deckID/restore: Restores any soft-deleted deck (moderator).
+ * - POST /v1/admin/decks/:deckID/delete: Permanently deletes any deck (admin).
+ * - PUT /v1/admin/users/:userID/role: Assigns the platform role of a user (admin).
+ * - GET /v1/admin/audit-logs: Retrieves the admin audit log (admin).
+ * - GET /v1/admin/reports: Lists the decks with open reports, most reported first (moderator).
+ * - GET /v1/admin/reports/:deckID: Retrieves the reports of a deck (moderator).
+ * - POST /v1/admin/reports/:deckID/resolve: Dismisses the open reports of a deck or unpublishes it (moderator).
+ *
+ * @module router
+ * @file AdminRoutes.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Router} from "express";
+import {AdminController} from "../controllers/AdminController";
+import {AdminService} from "../services/AdminService";
+import {AdminRepository} from "../repositories/AdminRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {PermissionService} from "../services/PermissionService";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+import {ReportController} from "../controllers/ReportController";
+import {ReportService} from "../services/ReportService";
+import {ReportRepository} from "../repositories/ReportRepository";
+import {asyncHandler} from "../middleware/asyncHandler";
+import {requireRole} from "../middleware/requireRole";
+
+// eslint-disable-next-line new-cap
+const router = Router();
+const deckRepository = new DeckRepository(new DeckVersionRepository, new PermissionService(new CollaboratorRepository));
+const adminController = new AdminController(new AdminService(new AdminRepository, deckRepository));
+const reportController = new ReportController(new ReportService(new ReportRepository, deckRepository));
+
+router.use(requireRole("moderator"));
+
+/**
+ * @route POST /v1/admin/decks/:deckID/unpublish
+ * @description Makes a public deck private, regardless of its owner.
+ * @group Admin - Moderation overrides
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string} [reason] - The reason of the override, up to 500 characters.
+ * @returns {Object} 200 - A JSON object containing the updated deck fields.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ * @returns {Error} 404 - Deck not found.
+ * @returns {Error} 409 - The deck is already private.
+ */
+router.post("/decks/:deckID/unpublish", asyncHandler(adminController.unpublishDeck.bind(adminController)));
+
+/**
+ * @route POST /v1/admin/decks/:deckID/restore
+ * @description Restores a soft-deleted deck, regardless of its owner.
+ * @group Admin - Moderation overrides
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string} [reason] - The reason of the override, up to 500 characters.
+ * @returns {Object} 200 - A JSON object containing the updated deck fields.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ * @returns {Error} 404 - Deck not found.
+ * @returns {Error} 409 - The deck is not deleted.
+ */
+router.post("/decks/:deckID/restore", asyncHandler(adminController.restoreDeck.bind(adminController)));
+
+/**
+ * @route POST /v1/admin/decks/:deckID/delete
+ * @description Permanently deletes a deck, its flashcards and its related quizzes, regardless of its owner.
+ * @group Admin - Moderation overrides
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string} [reason] - The reason of the override, up to 500 characters.
+ * @returns {Object} 200 - The deck was deleted.
+ * @returns {Error} 403 - The user is not an admin.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.post("/decks/:deckID/delete", requireRole("admin"), asyncHandler(adminController.hardDeleteDeck.bind(adminController)));
+
+/**
+ * @route PUT /v1/admin/users/:userID/role
+ * @description Assigns the platform role of a user. The new role applies once the user's ID token is refreshed.
+ * @group Admin - Moderation overrides
+ * @param {string} userID - The unique identifier of the user (from URL params).
+ * @body {string} role - The new role: user, moderator or admin.
+ * @body {string} [reason] - The reason of the change, up to 500 characters.
+ * @returns {Object} 200 - A JSON object containing the previous and new role of the user.
+ * @returns {Error} 400 - Bad request, invalid role, or the admin changes their own role.
+ * @returns {Error} 403 - The user is not an admin.
+ * @returns {Error} 404 - User not found.
+ */
+router.put("/users/:userID/role", requireRole("admin"), asyncHandler(adminController.setUserRole.bind(adminController)));
+
+/**
+ * @route GET /v1/admin/audit-logs
+ * @description Fetches the admin audit log, newest first.
+ * @group Admin - Moderation overrides
+ * @param {number} [limit] - The number of entries per page, 1 to 100 (query, defaults to 20).
+ * @param {string} [nextPageToken] - The token of the next page (query).
+ * @param {string} [targetID] - Only return the entries of this deck or user (query).
+ * @returns {Object} 200 - A JSON object containing the entries and the next page token.
+ * @returns {Error} 400 - Bad request, invalid query parameters.
+ * @returns {Error} 403 - The user is not an admin.
+ */
+router.get("/audit-logs", requireRole("admin"), asyncHandler(adminController.getAuditLogs.bind(adminController)));
+
+/**
+ * @route GET /v1/admin/reports
+ * @description Fetches the decks with open reports, most reported first, with the number of reports per category.
+ * @group Admin - Moderation overrides
+ * @param {number} [limit] - The number of decks per page, 1 to 100 (query, defaults to 20).
+ * @param {string} [nextPageToken] - The token of the next page (query).
+ * @returns {Object} 200 - A JSON object containing the report summaries and the next page token.
+ * @returns {Error} 400 - Bad request, invalid query parameters.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ */
+router.get("/reports", asyncHandler(reportController.getReportQueue.bind(reportController)));
+
+/**
+ * @route GET /v1/admin/reports/:deckID
+ * @description Fetches the report summary of a deck and every report filed against it, newest first.
+ * @group Admin - Moderation overrides
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @returns {Object} 200 - A JSON object containing the summary and the reports.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ * @returns {Error} 404 - The deck was never reported.
+ */
+router.get("/reports/:deckID", asyncHandler(reportController.getDeckReports.bind(reportController)));
+
+/**
+ * @route POST /v1/admin/reports/:deckID/resolve
+ * @description Resolves the open reports of a deck and lifts its moderation hold. `dismiss` republishes a deck
+ * hidden by its reports; `unpublish` keeps the deck private.
+ * @group Admin - Moderation overrides
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string} resolution - dismiss or unpublish.
+ * @body {string} [reason] - The reason of the resolution, up to 500 characters.
+ * @returns {Object} 200 - A JSON object containing the resolved summary.
+ * @returns {Error} 400 - Bad request, invalid resolution.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ * @returns {Error} 404 - The deck was never reported.
+ * @returns {Error} 409 - The reports are already resolved.
+ */
+router.post("/reports/:deckID/resolve", asyncHandler(reportController.resolveReports.bind(reportController)));
+
+export default router;
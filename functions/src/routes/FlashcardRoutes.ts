@@ -0,0 +1,50 @@
+/**
+ * Deck Manager API - Flashcard Router
+ *
+ * @file FlashcardRoutes.ts
+ * This module defines the routes for working with flashcards across decks in the Deck Manager API.
+ * Routes scoped to a single deck live in Routes.ts under /v1/decks/:deckID/flashcards.
+ *
+ * Flashcard Routes:
+ * - GET /v1/flashcards/search: Searches the flashcards of the user's decks, saved decks or public decks.
+ *
+ * @module router
+ * @file FlashcardRoutes.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Router} from "express";
+import {FlashcardController} from "../controllers/FlashcardController";
+import {FlashcardService} from "../services/FlashCardService";
+import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {PermissionService} from "../services/PermissionService";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+import {asyncHandler} from "../middleware/asyncHandler";
+
+// eslint-disable-next-line new-cap
+const router = Router();
+const permissionService = new PermissionService(new CollaboratorRepository);
+const deckVersionRepository = new DeckVersionRepository;
+const flashcardController = new FlashcardController(new FlashcardService(
+  new FlashcardRepository(deckVersionRepository, permissionService),
+  new DeckRepository(deckVersionRepository, permissionService)
+));
+
+/**
+ * @route GET /v1/flashcards/search
+ * @description Searches flashcards by keyword, matching the words of the query, or their beginning,
+ * against the term and definition of every card. Flashcards of deleted decks are never returned.
+ * @group Flashcards - Operations related to flashcards
+ * @param {string} searchQuery - The search query, 1 to 200 characters (query).
+ * @param {string} filter - MY_DECKS, SAVED_DECKS or PUBLIC_DECKS (query).
+ * @param {number} [limit] - The maximum number of flashcards, 1 to 50 (query, defaults to 10).
+ * @returns {Object} 200 - A JSON object containing the flashcards, best match first, with their score and parent deck.
+ * @returns {Error} 400 - Bad request, invalid search query, filter or limit.
+ */
+router.get("/search", asyncHandler(flashcardController.searchFlashcards.bind(flashcardController)));
+
+export default router;
@@ -0,0 +1,164 @@
+/**
+ * Deck Manager API - Folder Router
+ *
+ * @file FolderRoutes.ts
+ * This module defines the routes for the folders users organize their decks in. Folders belong
+ * to the authenticated user, nest up to 5 levels and hold decks the user owns or has saved;
+ * a deck is in at most one folder of a user.
+ *
+ * Folder Routes:
+ * - GET /v1/folders: Lists every folder of the user.
+ * - POST /v1/folders: Creates a folder.
+ * - POST /v1/folders/reorder: Orders the subfolders of a folder, or the root folders.
+ * - GET /v1/folders/:folderID: Retrieves a folder with its path, its subfolders and its deck count.
+ * - PUT /v1/folders/:folderID: Renames and/or moves a folder.
+ * - POST /v1/folders/:folderID/delete: Deletes a folder and its subfolders, leaving their decks untouched.
+ * - GET /v1/folders/:folderID/decks: Retrieves a page of the decks of a folder.
+ * - POST /v1/folders/:folderID/decks: Files decks in a folder, moving them out of their previous folder.
+ * - POST /v1/folders/:folderID/decks/delete: Removes decks from a folder.
+ * - POST /v1/folders/:folderID/decks/reorder: Orders the decks of a folder.
+ *
+ * @module router
+ * @file FolderRoutes.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Router} from "express";
+import {FolderController} from "../controllers/FolderController";
+import {FolderService} from "../services/FolderService";
+import {FolderRepository} from "../repositories/FolderRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {PermissionService} from "../services/PermissionService";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+import {asyncHandler} from "../middleware/asyncHandler";
+
+// eslint-disable-next-line new-cap
+const router = Router();
+const folderController = new FolderController(new FolderService(
+  new FolderRepository,
+  new DeckRepository(new DeckVersionRepository, new PermissionService(new CollaboratorRepository))
+));
+
+/**
+ * @route GET /v1/folders
+ * @description Fetches every folder of the user, ordered by parent and position. Each folder has its `parent_id`
+ * (null at the root) and `position` among its siblings.
+ * @group Folders - Operations related to organizing decks in folders
+ * @returns {Object} 200 - A JSON object containing the folders.
+ */
+router.get("/", asyncHandler(folderController.getFolders.bind(folderController)));
+
+/**
+ * @route POST /v1/folders
+ * @description Creates a folder after its last sibling. A user has at most 200 folders.
+ * @group Folders - Operations related to organizing decks in folders
+ * @body {string} name - The name of the folder, up to 100 characters.
+ * @body {string | null} [parentID] - The ID of the parent folder; omitted or null creates a root folder.
+ * @returns {Object} 201 - A JSON object containing the created folder.
+ * @returns {Error} 400 - Bad request, invalid name or parent, or the folder would be nested more than 5 levels deep.
+ * @returns {Error} 404 - Parent folder not found.
+ * @returns {Error} 409 - The user has too many folders.
+ */
+router.post("/", asyncHandler(folderController.createFolder.bind(folderController)));
+
+/**
+ * @route POST /v1/folders/reorder
+ * @description Orders the subfolders of a folder, or the root folders, as listed.
+ * @group Folders - Operations related to organizing decks in folders
+ * @body {string | null} [parentID] - The ID of the parent folder; omitted or null reorders the root folders.
+ * @body {string[]} folderIDs - Every subfolder of the parent, once, in the new order.
+ * @returns {Object} 200 - A JSON object containing the reordered folders.
+ * @returns {Error} 400 - Bad request, the folder IDs do not list every subfolder once.
+ * @returns {Error} 404 - Parent folder not found.
+ */
+router.post("/reorder", asyncHandler(folderController.reorderFolders.bind(folderController)));
+
+/**
+ * @route GET /v1/folders/:folderID
+ * @description Fetches a folder with its path from the root, its subfolders and the number of decks it holds.
+ * @group Folders - Operations related to organizing decks in folders
+ * @param {string} folderID - The unique identifier of the folder (from URL params).
+ * @returns {Object} 200 - A JSON object containing the folder, its path, its subfolders and its deck count.
+ * @returns {Error} 404 - Folder not found.
+ */
+router.get("/:folderID", asyncHandler(folderController.getFolder.bind(folderController)));
+
+/**
+ * @route PUT /v1/folders/:folderID
+ * @description Renames a folder and/or moves it, with its subfolders, to another parent (after its last subfolder).
+ * @group Folders - Operations related to organizing decks in folders
+ * @param {string} folderID - The unique identifier of the folder (from URL params).
+ * @body {string} [name] - The new name of the folder, up to 100 characters.
+ * @body {string | null} [parentID] - The ID of the new parent folder, or null to move the folder to the root.
+ * @returns {Object} 200 - A JSON object containing the updated folder.
+ * @returns {Error} 400 - Bad request, invalid name or parent, a move into the folder itself or one of its subfolders,
+ * or a move nesting folders more than 5 levels deep.
+ * @returns {Error} 404 - Folder or parent folder not found.
+ */
+router.put("/:folderID", asyncHandler(folderController.updateFolder.bind(folderController)));
+
+/**
+ * @route POST /v1/folders/:folderID/delete
+ * @description Deletes a folder and all its subfolders. The decks they held are unfiled, not deleted.
+ * @group Folders - Operations related to organizing decks in folders
+ * @param {string} folderID - The unique identifier of the folder (from URL params).
+ * @returns {Object} 200 - A JSON object containing the IDs of the deleted folders and the number of decks unfiled.
+ * @returns {Error} 404 - Folder not found.
+ */
+router.post("/:folderID/delete", asyncHandler(folderController.deleteFolder.bind(folderController)));
+
+/**
+ * @route GET /v1/folders/:folderID/decks
+ * @description Fetches a page of the decks of a folder, in folder order. Decks deleted since they were filed are left out.
+ * @group Folders - Operations related to organizing decks in folders
+ * @param {string} folderID - The unique identifier of the folder (from URL params).
+ * @param {number} [limit] - The number of decks per page, 1 to 50 (query, defaults to 10).
+ * @param {string} [nextPageToken] - The token of the next page, returned with the previous page (query).
+ * @returns {Object} 200 - A JSON object containing the decks and the next page token.
+ * @returns {Error} 400 - Bad request, invalid limit.
+ * @returns {Error} 404 - Folder not found.
+ */
+router.get("/:folderID/decks", asyncHandler(folderController.getFolderDecks.bind(folderController)));
+
+/**
+ * @route POST /v1/folders/:folderID/decks
+ * @description Files decks in a folder, after its last deck. A deck filed in another folder of the user is moved.
+ * Only decks the user owns or has saved can be filed, and a folder holds at most 500 decks.
+ * @group Folders - Operations related to organizing decks in folders
+ * @param {string} folderID - The unique identifier of the folder (from URL params).
+ * @body {string[]} deckIDs - The IDs of the decks, 1 to 50.
+ * @returns {Object} 200 - A JSON object containing the IDs of the decks added.
+ * @returns {Error} 400 - Bad request, invalid deck IDs or a deck the user neither owns nor saved.
+ * @returns {Error} 404 - Folder not found.
+ * @returns {Error} 409 - The folder is full.
+ */
+router.post("/:folderID/decks", asyncHandler(folderController.addDecksToFolder.bind(folderController)));
+
+/**
+ * @route POST /v1/folders/:folderID/decks/delete
+ * @description Removes decks from a folder. The decks themselves are not deleted.
+ * @group Folders - Operations related to organizing decks in folders
+ * @param {string} folderID - The unique identifier of the folder (from URL params).
+ * @body {string[]} deckIDs - The IDs of the decks, 1 to 50.
+ * @returns {Object} 200 - A JSON object containing the IDs of the decks removed.
+ * @returns {Error} 400 - Bad request, invalid deck IDs.
+ * @returns {Error} 404 - Folder not found.
+ */
+router.post("/:folderID/decks/delete", asyncHandler(folderController.removeDecksFromFolder.bind(folderController)));
+
+/**
+ * @route POST /v1/folders/:folderID/decks/reorder
+ * @description Orders the decks of a folder as listed.
+ * @group Folders - Operations related to organizing decks in folders
+ * @param {string} folderID - The unique identifier of the folder (from URL params).
+ * @body {string[]} deckIDs - Every deck of the folder, once, in the new order.
+ * @returns {Object} 200 - A JSON object containing the deck IDs in their new order.
+ * @returns {Error} 400 - Bad request, the deck IDs do not list every deck of the folder once.
+ * @returns {Error} 404 - Folder not found.
+ */
+router.post("/:folderID/decks/reorder", asyncHandler(folderController.reorderFolderDecks.bind(folderController)));
+
+export default router;
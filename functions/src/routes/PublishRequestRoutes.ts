@@ -0,0 +1,153 @@
+/**
+ * Deck Manager API - Publish Request Router
+ *
+ * @file PublishRequestRoutes.ts
+ * This module defines the routes for the requests to publish decks in the Deck Manager API.
+ * A private deck only becomes public when a moderator approves its publish request.
+ * Reviewing requests requires the `moderator` platform role.
+ *
+ * Publish Request Routes:
+ * - POST /v1/publish-requests: Requests to publish a private deck.
+ * - GET /v1/publish-requests: Lists the publish requests of the user.
+ * - GET /v1/publish-requests/queue: Lists the pending publish requests, oldest first (moderator).
+ * - GET /v1/publish-requests/:requestID: Retrieves a publish request and its verdict history.
+ * - POST /v1/publish-requests/:requestID/cancel: Cancels a pending publish request.
+ * - POST /v1/publish-requests/:requestID/approve: Approves a pending publish request and publishes the deck (moderator).
+ * - POST /v1/publish-requests/:requestID/reject: Rejects a pending publish request (moderator).
+ *
+ * @module router
+ * @file PublishRequestRoutes.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Router} from "express";
+import {PublishRequestController} from "../controllers/PublishRequestController";
+import {PublishRequestService} from "../services/PublishRequestService";
+import {PublishRequestRepository} from "../repositories/PublishRequestRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {PermissionService} from "../services/PermissionService";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+import {FlashcardService} from "../services/FlashCardService";
+import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {ModerationService} from "../services/ModerationService";
+import {DuplicateDeckService} from "../services/DuplicateDeckService";
+import {loadModerationRules} from "../config/moderationRules";
+import {asyncHandler} from "../middleware/asyncHandler";
+import {requireRole} from "../middleware/requireRole";
+
+// eslint-disable-next-line new-cap
+const router = Router();
+const moderationRules = loadModerationRules();
+const permissionService = new PermissionService(new CollaboratorRepository);
+const deckVersionRepository = new DeckVersionRepository;
+const deckRepository = new DeckRepository(deckVersionRepository, permissionService);
+const flashcardRepository = new FlashcardRepository(deckVersionRepository, permissionService);
+const publishRequestService = new PublishRequestService(
+  new PublishRequestRepository,
+  deckRepository,
+  permissionService,
+  new FlashcardService(flashcardRepository, deckRepository),
+  new ModerationService(moderationRules),
+  new DuplicateDeckService(deckRepository, flashcardRepository, moderationRules)
+);
+const publishRequestController = new PublishRequestController(publishRequestService);
+
+/**
+ * @route POST /v1/publish-requests
+ * @description Requests to publish a private deck. Only the owner and admins of the deck can request it.
+ * The deck is scanned by the local moderation engine first; flagged decks are rejected right away.
+ * @group Publish Requests - Operations related to publishing decks
+ * @body {string} deckID - The unique identifier of the deck.
+ * @returns {Object} 201 - A JSON object containing the request and its moderation result.
+ * @returns {Error} 400 - Bad request, missing deck ID.
+ * @returns {Error} 403 - The user cannot manage the deck.
+ * @returns {Error} 404 - Deck not found.
+ * @returns {Error} 409 - The deck is already public or already has a pending request.
+ */
+router.post("/", asyncHandler(publishRequestController.createPublishRequest.bind(publishRequestController)));
+
+/**
+ * @route GET /v1/publish-requests
+ * @description Fetches the publish requests made by the user, newest first.
+ * @group Publish Requests - Operations related to publishing decks
+ * @param {string} [status] - Only return the requests with this verdict (query).
+ * @param {number} [limit] - The number of requests per page, 1 to 100 (query, defaults to 20).
+ * @param {string} [nextPageToken] - The token of the next page (query).
+ * @returns {Object} 200 - A JSON object containing the requests and the next page token.
+ * @returns {Error} 400 - Bad request, invalid query parameters.
+ */
+router.get("/", asyncHandler(publishRequestController.getPublishRequests.bind(publishRequestController)));
+
+/**
+ * @route GET /v1/publish-requests/queue
+ * @description Fetches the pending publish requests of every user, oldest first.
+ * @group Publish Requests - Operations related to publishing decks
+ * @param {number} [limit] - The number of requests per page, 1 to 100 (query, defaults to 20).
+ * @param {string} [nextPageToken] - The token of the next page (query).
+ * @returns {Object} 200 - A JSON object containing the requests and the next page token.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ */
+router.get("/queue", requireRole("moderator"), asyncHandler(publishRequestController.getModerationQueue.bind(publishRequestController)));
+
+/**
+ * @route GET /v1/publish-requests/:requestID
+ * @description Fetches a publish request and its verdict history. Visible to its requester, the deck owner and moderators.
+ * @group Publish Requests - Operations related to publishing decks
+ * @param {string} requestID - The unique identifier of the publish request (from URL params).
+ * @returns {Object} 200 - A JSON object containing the publish request.
+ * @returns {Error} 403 - The user cannot view the request.
+ * @returns {Error} 404 - Publish request not found.
+ */
+router.get("/:requestID", asyncHandler(publishRequestController.getPublishRequest.bind(publishRequestController)));
+
+/**
+ * @route POST /v1/publish-requests/:requestID/cancel
+ * @description Cancels a pending publish request. Only its requester and the deck owner can cancel it.
+ * @group Publish Requests - Operations related to publishing decks
+ * @param {string} requestID - The unique identifier of the publish request (from URL params).
+ * @returns {Object} 200 - A JSON object containing the cancelled request.
+ * @returns {Error} 403 - The user cannot cancel the request.
+ * @returns {Error} 404 - Publish request not found.
+ * @returns {Error} 409 - The request is not pending.
+ */
+router.post("/:requestID/cancel", asyncHandler(publishRequestController.cancelPublishRequest.bind(publishRequestController)));
+
+/**
+ * @route POST /v1/publish-requests/:requestID/approve
+ * @description Approves a pending publish request and makes the deck public.
+ * @group Publish Requests - Operations related to publishing decks
+ * @param {string} requestID - The unique identifier of the publish request (from URL params).
+ * @body {string} [reason] - A note for the requester, up to 500 characters.
+ * @returns {Object} 200 - A JSON object containing the approved request.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ * @returns {Error} 404 - Publish request or deck not found.
+ * @returns {Error} 409 - The request is not pending.
+ */
+router.post(
+  "/:requestID/approve",
+  requireRole("moderator"),
+  asyncHandler(publishRequestController.approvePublishRequest.bind(publishRequestController))
+);
+
+/**
+ * @route POST /v1/publish-requests/:requestID/reject
+ * @description Rejects a pending publish request. The deck stays private.
+ * @group Publish Requests - Operations related to publishing decks
+ * @param {string} requestID - The unique identifier of the publish request (from URL params).
+ * @body {string} reason - The reason of the rejection, up to 500 characters.
+ * @returns {Object} 200 - A JSON object containing the rejected request.
+ * @returns {Error} 400 - Bad request, missing reason.
+ * @returns {Error} 403 - The user is not a moderator or admin.
+ * @returns {Error} 404 - Publish request not found.
+ * @returns {Error} 409 - The request is not pending.
+ */
+router.post(
+  "/:requestID/reject",
+  requireRole("moderator"),
+  asyncHandler(publishRequestController.rejectPublishRequest.bind(publishRequestController))
+);
+
+export default router;
@@ -7,12 +7,27 @@
  * enabling CRUD operations on decks and flashcards.
  *
  * Deck Routes:
- * - GET /v1/decks/: Fetches all decks.
- * - GET /v1/decks/public: Fetches all public decks.
+ * - GET /v1/decks/: Fetches all decks, optionally by tag and category.
+ * - GET /v1/decks/public: Fetches all public decks, optionally by tag and category.
+ * - GET /v1/decks/search: Searches decks by keyword, by embedding similarity or both, optionally by tag and category.
+ * - GET /v1/decks/suggest: Suggests past queries and deck titles starting with a prefix.
+ * - GET /v1/decks/categories: Lists the deck categories with their labels.
+ * - GET /v1/decks/tags: Counts the tags and categories of the public decks or of the user's decks.
  * - GET /v1/decks/:deckID: Fetches a specific deck by its ID.
+ * - GET /v1/decks/:deckID/related: Fetches the public decks most similar to a deck.
  * - POST /v1/decks/: Creates a new deck.
- * - PUT /v1/decks/:deckID: Updates an existing deck by its ID.
+ * - POST /v1/decks/import: Creates a new deck and its flashcards from CSV/TSV content.
+ * - POST /v1/decks/import/apkg: Creates a new deck and its flashcards from an Anki package.
+ * - POST /v1/decks/import/json: Creates a new deck and its flashcards from a JSON deck export.
+ * - GET /v1/decks/:deckID/export: Exports a deck and its flashcards as JSON, CSV or Markdown.
+ * - GET /v1/decks/:deckID/export/apkg: Exports a deck and its flashcards as an Anki package.
+ * - POST /v1/decks/:deckID/fork: Copies a public or owned deck and its flashcards into a new private deck.
+ * - PUT /v1/decks/:deckID: Updates an existing deck by its ID (making it public creates a publish request).
+ * - PUT /v1/decks/:deckID/tags: Replaces the tags of a deck.
+ * - PUT /v1/decks/:deckID/category: Replaces or clears the category of a deck.
  * - POST /v1/decks/delete: Deletes a deck (HARD delete perform SOFT deletion by updating the is_deleted flag).
+ * - POST /v1/decks/deleted/empty: Permanently deletes every soft-deleted deck of the user.
+ * - POST /v1/decks/:deckID/restore: Takes a soft-deleted deck out of the trash.
  *
  * Flashcard Routes:
  * - GET /v1/decks/:deckID/flashcards: Retrieves all flashcards from a specific deck.
@@ -22,28 +37,111 @@
  * - PUT /v1/decks/:deckID/flashcards/:flashcardID: Updates a specific flashcard by its ID.
  * - POST /v1/decks/:deckID/flashcards/delete: Deletes one or more flashcards from a specific deck.
  *
+ * Collaborator Routes:
+ * - GET /v1/decks/:deckID/collaborators: Lists the owner and the collaborators of a deck.
+ * - POST /v1/decks/:deckID/collaborators: Invites a user to a deck as a viewer, editor or admin.
+ * - PUT /v1/decks/:deckID/collaborators/:userID: Changes the role of a collaborator.
+ * - POST /v1/decks/:deckID/collaborators/delete: Removes one or more collaborators from a deck.
+ *
+ * Version Routes:
+ * - GET /v1/decks/:deckID/versions: Lists the versions of a deck, newest first.
+ * - GET /v1/decks/:deckID/versions/diff: Compares a deck and its flashcards between two versions.
+ * - GET /v1/decks/:deckID/versions/:version: Retrieves a version of a deck with its flashcard changes.
+ * - POST /v1/decks/:deckID/versions/:version/restore: Restores a deck and its flashcards to a previous version.
+ *
+ * Share Link Routes:
+ * - GET /v1/decks/:deckID/share-links: Lists the share links of a deck.
+ * - POST /v1/decks/:deckID/share-links: Generates a share link that makes a deck readable by anyone holding its token.
+ * - POST /v1/decks/:deckID/share-links/:linkID/revoke: Revokes a share link of a deck.
+ *
+ * Report Routes:
+ * - POST /v1/decks/:deckID/reports: Reports a public deck for abuse.
+ *
+ * Review Routes:
+ * - POST /v1/decks/:deckID/flashcards/:flashcardID/review: Records a graded review of a flashcard and schedules its next review.
+ * - GET /v1/decks/:deckID/flashcards/due: Retrieves the due and new flashcards of a specific deck.
+ *
  * @module router
  * @file Routes.ts
  * @author Arthur M. Artugue
  * @created 2024-03-30
- * @updated 2025-05-16
+ * @updated 2026-10-19
  */
 
-import {Router, Request, Response} from "express";
+import express, {Router, Request, Response} from "express";
 import {DeckController} from "../controllers/DeckController";
 import {FlashcardController} from "../controllers/FlashcardController";
 import {DeckService} from "../services/DeckService";
 import {DeckRepository} from "../repositories/DeckRepository";
+import {createEmbeddingProvider} from "../config/embeddingProvider";
 import {FlashcardService} from "../services/FlashCardService";
 import {FlashcardRepository} from "../repositories/FlashcardRepository";
 import {asyncHandler} from "../middleware/asyncHandler";
+import {ReviewController} from "../controllers/ReviewController";
+import {ReviewService} from "../services/ReviewService";
+import {ReviewRepository} from "../repositories/ReviewRepository";
+import {DeckImportController} from "../controllers/DeckImportController";
+import {DeckImportService} from "../services/DeckImportService";
+import {DeckExportController} from "../controllers/DeckExportController";
+import {DeckExportService} from "../services/DeckExportService";
+import {CollaboratorController} from "../controllers/CollaboratorController";
+import {CollaboratorService} from "../services/CollaboratorService";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+import {PermissionService} from "../services/PermissionService";
+import {UserRepository} from "../repositories/UserRepository";
+import {PublishRequestService} from "../services/PublishRequestService";
+import {PublishRequestRepository} from "../repositories/PublishRequestRepository";
+import {ModerationService} from "../services/ModerationService";
+import {DuplicateDeckService} from "../services/DuplicateDeckService";
+import {loadModerationRules} from "../config/moderationRules";
+import {ReportController} from "../controllers/ReportController";
+import {ReportService} from "../services/ReportService";
+import {ReportRepository} from "../repositories/ReportRepository";
+import {ShareLinkController} from "../controllers/ShareLinkController";
+import {DeckVersionController} from "../controllers/DeckVersionController";
+import {DeckVersionService} from "../services/DeckVersionService";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {ShareLinkService} from "../services/ShareLinkService";
+import {ShareLinkRepository} from "../repositories/ShareLinkRepository";
 
 // eslint-disable-next-line new-cap
 const router = Router();
-const flashcardService = new FlashcardService(new FlashcardRepository);
-const deckService = new DeckService(new DeckRepository);
-const deckController = new DeckController(deckService);
+const permissionService = new PermissionService(new CollaboratorRepository);
+const deckVersionRepository = new DeckVersionRepository;
+const deckRepository = new DeckRepository(deckVersionRepository, permissionService);
+const flashcardRepository = new FlashcardRepository(deckVersionRepository, permissionService);
+const flashcardService = new FlashcardService(flashcardRepository, deckRepository);
+const moderationRules = loadModerationRules();
+const duplicateDeckService = new DuplicateDeckService(deckRepository, flashcardRepository, moderationRules);
+const deckService = new DeckService(deckRepository, createEmbeddingProvider(), permissionService, duplicateDeckService);
+const publishRequestService = new PublishRequestService(
+  new PublishRequestRepository,
+  deckRepository,
+  permissionService,
+  flashcardService,
+  new ModerationService(moderationRules),
+  duplicateDeckService
+);
+const deckController = new DeckController(deckService, publishRequestService);
 const flashcardController = new FlashcardController(flashcardService);
+const reviewService = new ReviewService(new ReviewRepository, flashcardRepository, deckRepository, permissionService);
+const reviewController = new ReviewController(reviewService);
+const deckImportController = new DeckImportController(new DeckImportService(deckService, flashcardService));
+const deckExportController = new DeckExportController(new DeckExportService(deckService, flashcardService));
+const collaboratorController = new CollaboratorController(
+  new CollaboratorService(new CollaboratorRepository, deckRepository, new UserRepository, permissionService)
+);
+const reportController = new ReportController(new ReportService(new ReportRepository, deckRepository));
+const deckVersionController = new DeckVersionController(new DeckVersionService(
+  deckVersionRepository,
+  deckRepository,
+  flashcardRepository,
+  deckService,
+  permissionService
+));
+const shareLinkController = new ShareLinkController(
+  new ShareLinkService(new ShareLinkRepository, deckRepository, new UserRepository, flashcardService, permissionService)
+);
 
 // DECK ROUTES
 
@@ -51,6 +149,8 @@ const flashcardController = new FlashcardController(flashcardService);
  * @route GET /v1/decks/
  * @description Fetches all decks.
  * @group Decks - Operations related to flashcard decks
+ * @param {string} [tag] - Only the decks with this tag, normalized like stored tags (query).
+ * @param {string} [category] - Only the decks of this category (query).
  * @returns {Object} 200 - A JSON object containing all decks
  * @returns {Error} 500 - Internal Server Error
  */
@@ -60,6 +160,8 @@ router.get("/", asyncHandler(deckController.getOwnerDecks.bind(deckController)))
  * @route GET /v1/decks/public
  * @description Fetches all decks.
  * @group Decks - Operations related to flashcard decks
+ * @param {string} [tag] - Only the decks with this tag, normalized like stored tags (query).
+ * @param {string} [category] - Only the decks of this category (query).
  * @returns {Object} 200 - A JSON object containing all decks
  * @returns {Error} 500 - Internal Server Error
  */
@@ -85,17 +187,61 @@ router.get("/saved", asyncHandler(deckController.getSavedDecks.bind(deckControll
 
 /**
  * @route GET /v1/decks/search
- * @description Searches for a deck.
+ * @description Searches for decks by keyword, by embedding similarity or both (hybrid, fused with reciprocal rank fusion).
  * @group Decks - Operations related to flashcard decks
- * @returns {Object} 200 - A JSON object containing all decks
+ * @param {string} searchQuery - The search query, letters, numbers and spaces only (query).
+ * @param {string} filter - MY_DECKS, SAVED_DECKS, PUBLIC_DECKS or DELETED_DECKS (query).
+ * @param {string} [mode] - hybrid, vector or keyword (query, defaults to hybrid).
+ * @param {number} [limit] - The number of decks per page, 1 to 50 (query, defaults to 10).
+ * @param {string} [nextPageToken] - The token of the next page, returned with the previous page (query).
+ * @param {string} [tag] - Only search the decks with this tag (query).
+ * @param {string} [category] - Only search the decks of this category (query).
+ * @returns {Object} 200 - A JSON object containing a page of decks, best match first, with their relevance scores and the next page token
+ * @returns {Error} 400 - Bad request, invalid query, filter, mode, limit, page token, tag or category
  * @returns {Error} 500 - Internal Server Error
  */
 router.get("/search", asyncHandler(deckController.searchDeck.bind(deckController)));
 
+/**
+ * @route GET /v1/decks/suggest
+ * @description Suggests completions for a partially typed search query: the user's past queries, then the titles
+ * of the user's own and public decks, starting with the prefix. No embedding is computed and no search is logged.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} prefix - The partially typed query, up to 100 characters (query).
+ * @param {number} [limit] - The maximum number of suggestions, 1 to 20 (query, defaults to 8).
+ * @returns {Object} 200 - A JSON object containing the suggestions
+ * @returns {Error} 400 - Bad request, invalid prefix or limit
+ */
+router.get("/suggest", asyncHandler(deckController.suggestDecks.bind(deckController)));
+
+/**
+ * @route GET /v1/decks/categories
+ * @description Lists the deck categories of the taxonomy with their labels.
+ * @group Decks - Operations related to flashcard decks
+ * @returns {Object} 200 - A JSON object containing the categories
+ */
+router.get("/categories", asyncHandler(deckController.getCategories.bind(deckController)));
+
+/**
+ * @route GET /v1/decks/tags
+ * @description Counts the tags and categories of the non-deleted public decks, or of the user's non-deleted decks.
+ * Tags are returned most used first; at most 5000 decks are counted, reported in `scanned_decks`.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} [scope] - PUBLIC_DECKS or MY_DECKS (query, defaults to PUBLIC_DECKS).
+ * @param {number} [limit] - The maximum number of tags, 1 to 200 (query, defaults to 50).
+ * @returns {Object} 200 - A JSON object containing the tag counts, the category counts and the number of decks counted
+ * @returns {Error} 400 - Bad request, invalid scope or limit
+ */
+router.get("/tags", asyncHandler(deckController.getTagCloud.bind(deckController)));
+
 /**
  * @route GET api/v1/decks/recommend
- * @description Recommends public decks based on the user's preferences.
- * @returns {object} JSON response with a success message or an error.
+ * @description Recommends public decks blending the user's search history, the decks the user saved or studied,
+ * and trending decks, which are the only source for users without history. Owned and saved decks are excluded.
+ * @group Decks - Operations related to flashcard decks
+ * @param {number} [limit] - The maximum number of decks, 2 to 50 (query, defaults to 10).
+ * @returns {Object} 200 - A JSON object containing the recommended decks, best first, with their score and sources
+ * @returns {Error} 400 - Bad request, invalid limit
  */
 router.get("/recommend", asyncHandler(deckController.recommendPublicDecks.bind(deckController)));
 
@@ -114,6 +260,21 @@ router.get("/:deckID", async (req: Request, res: Response) => {
   await deckController.getSpecifiDeck(req, res);
 });
 
+/**
+ * @route GET /v1/decks/:deckID/related
+ * @description Fetches the public decks most similar to a deck, nearest first, from the stored embedding of the deck.
+ * The deck itself is never returned.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {number} [limit] - The maximum number of decks, 1 to 20 (query, defaults to 6).
+ * @param {boolean} [excludeSameOwner] - Whether to leave out the other decks of the same owner (query, defaults to false).
+ * @returns {Object} 200 - A JSON object containing the related decks with their owner name and similarity
+ * @returns {Error} 400 - Bad request, invalid limit or excludeSameOwner
+ * @returns {Error} 403 - The user cannot read the deck.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.get("/:deckID/related", asyncHandler(deckController.getRelatedDecks.bind(deckController)));
+
 /**
  * @route POST /v1/decks/
  * @description Creates a new flashcard deck.
@@ -122,6 +283,8 @@ router.get("/:deckID", async (req: Request, res: Response) => {
  * @param {Object} req.body - The request body containing deck details.
  * @param {string} req.body.title - The title of the deck.
  * @param {string} req.body.coverPhoto - (Optional) Cover photo URL of the deck.
+ * @param {string[]} req.body.tags - (Optional) Tags of the deck, at most 10.
+ * @param {string} req.body.category - (Optional) Category of the deck, see GET /v1/decks/categories.
  *
  * @returns {Object} 201 - A JSON object containing the created deck.
  * @returns {Error} 400 - Bad request, missing required fields.
@@ -129,6 +292,55 @@ router.get("/:deckID", async (req: Request, res: Response) => {
  */
 router.post("/", asyncHandler(deckController.createDeck.bind(deckController)));
 
+/**
+ * @route POST /v1/decks/import
+ * @description Creates a new deck and its flashcards from CSV/TSV content (spreadsheet exports).
+ * Quoted fields may contain delimiters and line breaks. Every row is validated like a flashcard;
+ * invalid rows are rejected and reported, and the import fails if no row is valid.
+ * @group Decks - Operations related to flashcard decks
+ * @body {string} title - The title of the deck.
+ * @body {string} description - The description of the deck.
+ * @body {string} [coverPhoto] - The cover photo URL of the deck (optional).
+ * @body {string} content - The CSV/TSV text.
+ * @body {string} [delimiter] - The field delimiter, detected from the first line when omitted (optional).
+ * @body {boolean} [hasHeader] - Whether the first row is a header, detected when omitted (optional).
+ * @body {number|string} [termColumn] - The 0-based index or header name of the term column (optional).
+ * @body {number|string} [definitionColumn] - The 0-based index or header name of the definition column (optional).
+ * @returns {Object} 201 - A JSON object containing the created deck and the per-row import report.
+ * @returns {Error} 400 - Bad request, invalid options, malformed content or no valid row.
+ */
+router.post("/import", asyncHandler(deckImportController.importDelimited.bind(deckImportController)));
+
+/**
+ * @route POST /v1/decks/import/apkg
+ * @description Creates a new deck and its flashcards from an Anki package (.apkg), sent as the raw request body.
+ * Note fields are converted to plain text, cloze deletions are split into term and definition, and tags are kept.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} [title] - The title of the deck, defaults to the Anki deck name (query, optional).
+ * @param {string} [description] - The description of the deck (query, optional).
+ * @param {string} [coverPhoto] - The cover photo URL of the deck (query, optional).
+ * @body {Buffer} The .apkg file (Content-Type: application/octet-stream, at most 10 MB).
+ * @returns {Object} 201 - A JSON object containing the created deck and the per-note import report.
+ * @returns {Error} 400 - Bad request, missing or unreadable package, or no valid note.
+ */
+router.post(
+  "/import/apkg",
+  express.raw({type: ["application/octet-stream", "application/zip", "application/apkg"], limit: "10mb"}),
+  asyncHandler(deckImportController.importApkg.bind(deckImportController))
+);
+
+/**
+ * @route POST /v1/decks/import/json
+ * @description Creates a new deck and its flashcards from a JSON deck export (`GET /v1/decks/:deckID/export?format=json`).
+ * The terms, definitions, tags, stars and order of the flashcards are restored. Exports of a newer
+ * version than the API supports are rejected; invalid flashcards are rejected and reported.
+ * @group Decks - Operations related to flashcard decks
+ * @body {Object} The JSON deck export document (`schema`, `version`, `deck` and `flashcards`).
+ * @returns {Object} 201 - A JSON object containing the created deck and the per-flashcard import report.
+ * @returns {Error} 400 - Bad request, not a deck export, unsupported version or no valid flashcard.
+ */
+router.post("/import/json", asyncHandler(deckImportController.importJson.bind(deckImportController)));
+
 /**
  * @route POST /v1/decks/save/:deckID
  * @description Saves a new flashcard deck.
@@ -173,6 +385,28 @@ router.post("/delete", async (req: Request, res: Response) => {
   await deckController.deleteDeck(req, res);
 });
 
+/**
+ * @route POST /v1/decks/deleted/empty
+ * @description Permanently deletes every soft-deleted deck of the user, with its flashcards, related quizzes,
+ * folder entries and share links.
+ * @group Decks - Operations related to flashcard decks
+ * @returns {Object} 200 - A JSON object containing the IDs of the deleted decks and their count.
+ * @returns {Error} 500 - Internal Server Error
+ */
+router.post("/deleted/empty", asyncHandler(deckController.emptyTrash.bind(deckController)));
+
+/**
+ * @route POST /v1/decks/:deckID/restore
+ * @description Takes a soft-deleted deck out of the trash. Only the owner may restore a deck.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @returns {Object} 200 - A JSON object containing the ID, title and deletion status of the deck.
+ * @returns {Error} 403 - The user may not restore the deck.
+ * @returns {Error} 404 - Deck not found.
+ * @returns {Error} 409 - The deck is not deleted.
+ */
+router.post("/:deckID/restore", asyncHandler(deckController.restoreDeletedDeck.bind(deckController)));
+
 /**
  * @route PUT api/v1/decks/:deckID
  * @description Updates an existing deck.
@@ -184,9 +418,76 @@ router.post("/delete", async (req: Request, res: Response) => {
  * @body {string} [madeToQuizAt] - Timestamp of when the deck was last converted to a quiz (optional).
  * @returns {object} JSON response with a success message or an error.
  */
-router.put("/:deckID", async (req: Request, res: Response) => {
-  await deckController.updateDeck(req, res);
-});
+router.put("/:deckID", asyncHandler(deckController.updateDeck.bind(deckController)));
+
+/**
+ * @route PUT /v1/decks/:deckID/tags
+ * @description Replaces the tags of a deck. Tags are normalized (lowercase, accents and punctuation removed,
+ * words joined with hyphens) and deduplicated. Requires the editor role.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string[]} tags - The new tags, at most 10 of at most 30 characters each.
+ * @returns {Object} 200 - A JSON object containing the ID, tags and category of the deck.
+ * @returns {Error} 400 - Bad request, invalid tags.
+ * @returns {Error} 403 - The user may not edit the deck.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.put("/:deckID/tags", asyncHandler(deckController.updateDeckTags.bind(deckController)));
+
+/**
+ * @route PUT /v1/decks/:deckID/category
+ * @description Replaces or clears the category of a deck. Requires the editor role.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string | null} category - A category of `GET /v1/decks/categories`, or null to clear it.
+ * @returns {Object} 200 - A JSON object containing the ID, tags and category of the deck.
+ * @returns {Error} 400 - Bad request, invalid category.
+ * @returns {Error} 403 - The user may not edit the deck.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.put("/:deckID/category", asyncHandler(deckController.updateDeckCategory.bind(deckController)));
+
+/**
+ * @route POST /v1/decks/:deckID/fork
+ * @description Copies a public or owned deck and all its flashcards into a new private deck owned by the user.
+ * The fork records its source in `forked_from` and the `fork_count` of the source deck is incremented.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} deckID - The unique identifier of the deck to fork (from URL params).
+ * @body {string} [title] - The title of the fork, defaults to the title of the source deck (optional).
+ * @body {string} [description] - The description of the fork, defaults to the source description (optional).
+ * @body {string} [coverPhoto] - The cover photo URL of the fork, defaults to the source cover photo (optional).
+ * @returns {Object} 201 - A JSON object containing the new deck.
+ * @returns {Error} 400 - Bad request, invalid overrides.
+ * @returns {Error} 403 - The deck is private and not owned by the user.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.post("/:deckID/fork", asyncHandler(deckController.forkDeck.bind(deckController)));
+
+/**
+ * @route GET /v1/decks/:deckID/export
+ * @description Exports a deck and its flashcards, streamed as a file download.
+ * `json` is a versioned document that `POST /v1/decks/import/json` reads back without loss,
+ * `csv` contains the flashcards only (term, definition and tags), and `md` is a readable study sheet.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {string} [format] - The export format: `json` (default), `csv` or `md` (query, optional).
+ * @returns {File} 200 - The exported file as an attachment.
+ * @returns {Error} 400 - Unsupported export format.
+ * @returns {Error} 403 - The deck is private and not owned by the user.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.get("/:deckID/export", asyncHandler(deckExportController.exportDeck.bind(deckExportController)));
+
+/**
+ * @route GET /v1/decks/:deckID/export/apkg
+ * @description Exports a deck and its flashcards as an Anki package (.apkg) that Anki and this API can import.
+ * @group Decks - Operations related to flashcard decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @returns {File} 200 - The .apkg file as an attachment.
+ * @returns {Error} 403 - The deck is private and not owned by the user.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.get("/:deckID/export/apkg", asyncHandler(deckExportController.exportApkg.bind(deckExportController)));
 
 /**
  * @route POST api/v1/decks/log/activity
@@ -243,6 +544,20 @@ router.get("/:deckID/flashcards/random", async (req: Request, res: Response) =>
   await flashcardController.getRandomFlashcards(req, res);
 });
 
+/**
+ * @route GET api/v1/decks/:deckID/flashcards/due
+ * @description Fetches the study queue of a deck: the flashcards due for review, most overdue first,
+ * followed by the flashcards never studied, both capped by what remains of the daily limits.
+ * @group Reviews - Operations related to spaced-repetition study
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {number} [newLimit] - The maximum number of new flashcards per day, 0 to 200 (query, defaults to 20).
+ * @param {number} [reviewLimit] - The maximum number of reviews per day, 0 to 1000 (query, defaults to 200).
+ * @returns {Object} 200 - A JSON object containing the due flashcards, the new flashcards and a summary of the day.
+ * @returns {Error} 400 - Bad request, invalid limits.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.get("/:deckID/flashcards/due", asyncHandler(reviewController.getDueFlashcards.bind(reviewController)));
+
 /**
  * @route GET api/v1/decks/:deckID/flascards/:flashcardID
  * @description Fetches a specific deck by its unique identifier.
@@ -303,4 +618,203 @@ router.post("/:deckID/flashcards/delete", async (req: Request, res: Response) =>
   await flashcardController.deleteFlashcard(req, res);
 });
 
+// COLLABORATOR ROUTES
+
+/**
+ * @route GET /v1/decks/:deckID/collaborators
+ * @description Lists the owner and the collaborators of a deck, with their roles. Only the owner and the collaborators can see them.
+ * @group Collaborators - Operations related to the collaborators of a deck
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @returns {Object} 200 - A JSON object containing the owner, the collaborators and the role of the user.
+ * @returns {Error} 403 - The user is neither the owner nor a collaborator.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.get("/:deckID/collaborators", asyncHandler(collaboratorController.getCollaborators.bind(collaboratorController)));
+
+/**
+ * @route POST /v1/decks/:deckID/collaborators
+ * @description Invites a user to a deck. Admins can invite viewers and editors; only the owner can invite admins.
+ * @group Collaborators - Operations related to the collaborators of a deck
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string} [userID] - The ID of the invited user (either userID or email is required).
+ * @body {string} [email] - The email address of the invited user (either userID or email is required).
+ * @body {string} role - The role of the invited user: viewer, editor or admin.
+ * @returns {Object} 201 - A JSON object containing the new collaborator.
+ * @returns {Error} 400 - Bad request, invalid role or user, or the user is the owner.
+ * @returns {Error} 403 - The user is not allowed to manage collaborators with this role.
+ * @returns {Error} 404 - Deck or invited user not found.
+ * @returns {Error} 409 - The user already collaborates on the deck.
+ */
+router.post("/:deckID/collaborators", asyncHandler(collaboratorController.addCollaborator.bind(collaboratorController)));
+
+/**
+ * @route POST /v1/decks/:deckID/collaborators/delete
+ * @description Removes one or more collaborators from a deck. Admins can remove viewers and editors,
+ * only the owner can remove admins, and any collaborator can remove themselves.
+ * @group Collaborators - Operations related to the collaborators of a deck
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string[]} userIDs - The IDs of the collaborators to remove (1 to 50).
+ * @returns {Object} 200 - A JSON object containing the IDs of the removed collaborators.
+ * @returns {Error} 400 - Bad request, invalid user IDs or the owner is included.
+ * @returns {Error} 403 - The user is not allowed to remove these collaborators.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.post("/:deckID/collaborators/delete", asyncHandler(collaboratorController.removeCollaborators.bind(collaboratorController)));
+
+/**
+ * @route PUT /v1/decks/:deckID/collaborators/:userID
+ * @description Changes the role of a collaborator. Only the owner can promote to or demote from admin.
+ * @group Collaborators - Operations related to the collaborators of a deck
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {string} userID - The ID of the collaborator (from URL params).
+ * @body {string} role - The new role: viewer, editor or admin.
+ * @returns {Object} 200 - A JSON object containing the updated collaborator.
+ * @returns {Error} 400 - Bad request, invalid role.
+ * @returns {Error} 403 - The user is not allowed to manage collaborators with this role.
+ * @returns {Error} 404 - Deck or collaborator not found.
+ */
+router.put("/:deckID/collaborators/:userID", asyncHandler(collaboratorController.updateCollaboratorRole.bind(collaboratorController)));
+
+// VERSION ROUTES
+
+/**
+ * @route GET /v1/decks/:deckID/versions
+ * @description Fetches the versions of a deck, newest first. Every change of the details of the deck or of its
+ * flashcards is recorded as a version; version 0 is the deck before its first recorded change, and the last 100
+ * versions are kept. Requires the editor role.
+ * @group Versions - Operations related to the version history of decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {number} [limit] - The number of versions per page, 1 to 50 (query, defaults to 20).
+ * @param {string} [nextPageToken] - The token of the next page, returned with the previous page (query).
+ * @returns {Object} 200 - A JSON object containing the current version, the versions and the next page token.
+ * @returns {Error} 400 - Bad request, invalid limit or page token.
+ * @returns {Error} 403 - The user may not edit the deck.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.get("/:deckID/versions", asyncHandler(deckVersionController.getVersions.bind(deckVersionController)));
+
+/**
+ * @route GET /v1/decks/:deckID/versions/diff
+ * @description Compares a deck and its flashcards between two versions: the changed fields of the deck and the
+ * flashcards added, removed and modified between them. Requires the editor role.
+ * @group Versions - Operations related to the version history of decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {number} from - The first version (query).
+ * @param {number} [to] - The last version, after the first one (query, defaults to the latest version).
+ * @returns {Object} 200 - A JSON object containing the differences between the versions.
+ * @returns {Error} 400 - Bad request, invalid versions.
+ * @returns {Error} 403 - The user may not edit the deck.
+ * @returns {Error} 404 - Deck or version not found.
+ */
+router.get("/:deckID/versions/diff", asyncHandler(deckVersionController.diffVersions.bind(deckVersionController)));
+
+/**
+ * @route GET /v1/decks/:deckID/versions/:version
+ * @description Fetches a version of a deck with the changes of its deck fields and flashcards. Requires the editor role.
+ * @group Versions - Operations related to the version history of decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {number} version - The number of the version (from URL params).
+ * @returns {Object} 200 - A JSON object containing the version.
+ * @returns {Error} 400 - Bad request, invalid version.
+ * @returns {Error} 403 - The user may not edit the deck.
+ * @returns {Error} 404 - Deck or version not found.
+ */
+router.get("/:deckID/versions/:version", asyncHandler(deckVersionController.getVersion.bind(deckVersionController)));
+
+/**
+ * @route POST /v1/decks/:deckID/versions/:version/restore
+ * @description Restores the details and the flashcards of a deck to a previous version. Flashcards created since are
+ * deleted and flashcards deleted since are recreated, without their review history. The restore is recorded as a new
+ * version, so it can be undone. Requires the editor role.
+ * @group Versions - Operations related to the version history of decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {number} version - The number of the version to restore (from URL params).
+ * @returns {Object} 200 - A JSON object containing the restored and the new version, the restored deck fields and the number of restored flashcards.
+ * @returns {Error} 400 - Bad request, invalid version or the deck is already at this version.
+ * @returns {Error} 403 - The user may not edit the deck.
+ * @returns {Error} 404 - Deck or version not found.
+ */
+router.post(
+  "/:deckID/versions/:version/restore",
+  asyncHandler(deckVersionController.restoreVersion.bind(deckVersionController))
+);
+
+// SHARE LINK ROUTES
+
+/**
+ * @route GET /v1/decks/:deckID/share-links
+ * @description Lists the share links of a deck, newest first, with their status (ACTIVE, EXPIRED, EXHAUSTED or REVOKED)
+ * and remaining uses. Only the owner and the admins of the deck can see them; tokens are never listed.
+ * @group Share Links - Operations related to sharing unlisted decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @returns {Object} 200 - A JSON object containing the share links.
+ * @returns {Error} 403 - The user is not allowed to share the deck.
+ * @returns {Error} 404 - Deck not found.
+ */
+router.get("/:deckID/share-links", asyncHandler(shareLinkController.getShareLinks.bind(shareLinkController)));
+
+/**
+ * @route POST /v1/decks/:deckID/share-links
+ * @description Generates a share link: anyone holding its token can read the deck and its flashcards through
+ * GET /v1/shared/:token, while the deck stays private. The token is only returned in this response.
+ * @group Share Links - Operations related to sharing unlisted decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string} [expiresAt] - When the link expires, an ISO 8601 date-time at most 365 days ahead (never, when omitted).
+ * @body {number} [maxUses] - How many times the link can be opened, 1 to 100000 (unlimited, when omitted).
+ * @returns {Object} 201 - A JSON object containing the share link, its token and the path that opens it.
+ * @returns {Error} 400 - Bad request, invalid expiry date or maximum uses.
+ * @returns {Error} 403 - The user is not allowed to share the deck.
+ * @returns {Error} 404 - Deck not found.
+ * @returns {Error} 409 - The deck already has 20 working share links.
+ */
+router.post("/:deckID/share-links", asyncHandler(shareLinkController.createShareLink.bind(shareLinkController)));
+
+/**
+ * @route POST /v1/decks/:deckID/share-links/:linkID/revoke
+ * @description Revokes a share link; its token stops working immediately.
+ * @group Share Links - Operations related to sharing unlisted decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @param {string} linkID - The ID of the share link (from URL params).
+ * @returns {Object} 200 - A JSON object containing the revoked share link.
+ * @returns {Error} 403 - The user is not allowed to share the deck.
+ * @returns {Error} 404 - Deck or share link not found.
+ */
+router.post(
+  "/:deckID/share-links/:linkID/revoke",
+  asyncHandler(shareLinkController.revokeShareLink.bind(shareLinkController))
+);
+
+// REPORT ROUTES
+
+/**
+ * @route POST /v1/decks/:deckID/reports
+ * @description Reports a public deck for abuse. Users cannot report their own decks and have at most one open report per deck.
+ * Once the open reports of a deck reach the hide threshold, the deck is hidden until a moderator reviews it.
+ * @group Reports - Operations related to reporting decks
+ * @param {string} deckID - The unique identifier of the deck (from URL params).
+ * @body {string} category - spam, inappropriate, harassment, copyright, misinformation or other.
+ * @body {string} [comment] - A comment, up to 1000 characters (required for the other category).
+ * @returns {Object} 201 - A JSON object containing the report.
+ * @returns {Error} 400 - Bad request, invalid category or comment, or the user owns the deck.
+ * @returns {Error} 404 - Deck not found or not public.
+ * @returns {Error} 409 - The user already reported the deck.
+ */
+router.post("/:deckID/reports", asyncHandler(reportController.reportDeck.bind(reportController)));
+
+// REVIEW ROUTES
+
+/**
+ * @route POST api/v1/decks/:deckID/flashcards/:flashcardID/review
+ * @description Records a graded review of a flashcard and schedules its next review.
+ * @group Reviews - Operations related to spaced-repetition study
+ * @param {string} deckID - The unique identifier of the deck where the flashcard is found (from URL params).
+ * @param {string} flashcardID - The unique identifier of the reviewed flashcard (from URL params).
+ * @body {number} grade - The grade of the review, from 0 (complete blackout) to 5 (perfect response).
+ * @body {string} [algorithm] - The scheduling algorithm to use, SM2 (default) or FSRS (optional).
+ * @returns {Object} 200 - A JSON object containing the new review state of the flashcard.
+ * @returns {Error} 400 - Bad request, invalid grade or algorithm.
+ * @returns {Error} 404 - Deck or flashcard not found.
+ */
+router.post("/:deckID/flashcards/:flashcardID/review", asyncHandler(reviewController.reviewFlashcard.bind(reviewController)));
+
 export default router;
@@ -0,0 +1,57 @@
+/**
+ * Deck Manager API - Shared Deck Router
+ *
+ * @file SharedRoutes.ts
+ * This module defines the route that opens the unlisted decks shared through share links.
+ * Any signed-in user holding the token of a working link can read the deck and its flashcards;
+ * the deck itself stays private. Share links are managed under /v1/decks/:deckID/share-links.
+ *
+ * Shared Routes:
+ * - GET /v1/shared/:token: Retrieves the deck and the flashcards behind a share token.
+ *
+ * @module router
+ * @file SharedRoutes.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Router} from "express";
+import {ShareLinkController} from "../controllers/ShareLinkController";
+import {ShareLinkService} from "../services/ShareLinkService";
+import {ShareLinkRepository} from "../repositories/ShareLinkRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {UserRepository} from "../repositories/UserRepository";
+import {FlashcardService} from "../services/FlashCardService";
+import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {PermissionService} from "../services/PermissionService";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+import {asyncHandler} from "../middleware/asyncHandler";
+
+// eslint-disable-next-line new-cap
+const router = Router();
+const permissionService = new PermissionService(new CollaboratorRepository);
+const deckVersionRepository = new DeckVersionRepository;
+const deckRepository = new DeckRepository(deckVersionRepository, permissionService);
+const shareLinkController = new ShareLinkController(new ShareLinkService(
+  new ShareLinkRepository,
+  deckRepository,
+  new UserRepository,
+  new FlashcardService(new FlashcardRepository(deckVersionRepository, permissionService), deckRepository),
+  permissionService
+));
+
+/**
+ * @route GET /v1/shared/:token
+ * @description Fetches the deck and the flashcards behind a share token and counts the use of the link
+ * (visits of the owner of the deck are not counted). The deck is not made public.
+ * @group Share Links - Operations related to sharing unlisted decks
+ * @param {string} token - The share token (from URL params).
+ * @returns {Object} 200 - A JSON object containing the deck, its flashcards, and the expiry and remaining uses of the link.
+ * @returns {Error} 404 - The link does not exist or was revoked, or the deck was deleted.
+ * @returns {Error} 410 - The link has expired or reached its maximum number of uses.
+ */
+router.get("/:token", asyncHandler(shareLinkController.openShareLink.bind(shareLinkController)));
+
+export default router;
@@ -0,0 +1,54 @@
+/**
+ * Deck Manager API - Study Router
+ *
+ * @file StudyRoutes.ts
+ * This module defines the routes for studying across decks in the Deck Manager API.
+ * Routes scoped to a single deck live in Routes.ts under /v1/decks.
+ *
+ * Study Routes:
+ * - GET /v1/study/due: Retrieves the due and new flashcards across every deck the user studies.
+ *
+ * @module router
+ * @file StudyRoutes.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Router} from "express";
+import {ReviewController} from "../controllers/ReviewController";
+import {ReviewService} from "../services/ReviewService";
+import {ReviewRepository} from "../repositories/ReviewRepository";
+import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {asyncHandler} from "../middleware/asyncHandler";
+import {PermissionService} from "../services/PermissionService";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+
+// eslint-disable-next-line new-cap
+const router = Router();
+const permissionService = new PermissionService(new CollaboratorRepository);
+const deckVersionRepository = new DeckVersionRepository;
+const reviewService = new ReviewService(
+  new ReviewRepository,
+  new FlashcardRepository(deckVersionRepository, permissionService),
+  new DeckRepository(deckVersionRepository, permissionService),
+  permissionService
+);
+const reviewController = new ReviewController(reviewService);
+
+/**
+ * @route GET /v1/study/due
+ * @description Fetches the study queue across every deck the user owns, saved or reviewed:
+ * the flashcards due for review, most overdue first, followed by the flashcards never studied,
+ * both capped by what remains of the daily limits.
+ * @group Reviews - Operations related to spaced-repetition study
+ * @param {number} [newLimit] - The maximum number of new flashcards per day, 0 to 200 (query, defaults to 20).
+ * @param {number} [reviewLimit] - The maximum number of reviews per day, 0 to 1000 (query, defaults to 200).
+ * @returns {Object} 200 - A JSON object containing the due flashcards, the new flashcards and a summary of the day.
+ * @returns {Error} 400 - Bad request, invalid limits.
+ */
+router.get("/due", asyncHandler(reviewController.getStudyQueue.bind(reviewController)));
+
+export default router;
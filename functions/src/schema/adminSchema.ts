@@ -0,0 +1,51 @@
+/**
+ * Schema definitions for the moderation overrides of admins and moderators using Zod.
+ *
+ * `adminOverrideSchema` validates a deck override, where `reason` is an optional string of 1 to 500 characters.
+ *
+ * `setUserRoleSchema` validates a role change, ensuring that:
+ * - `role` is either `user`, `moderator` or `admin`.
+ * - `reason` follows the same rules as above.
+ *
+ * `auditLogQuerySchema` validates the audit log query parameters, ensuring that:
+ * - `limit` is an optional integer between 1 and 100 (defaults to 20), coerced from the query string.
+ * - `nextPageToken` and `targetID` are optional non-empty strings.
+ *
+ * @file adminSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {coerce, object, string, enum as zodEnum} from "zod";
+import {USER_ROLES} from "../interface/UserRole";
+
+const reason = string({invalid_type_error: "The reason should be of type string"})
+  .trim()
+  .min(1, "The reason must not be empty")
+  .max(500, "The reason must be at most 500 characters")
+  .optional();
+
+export const adminOverrideSchema = object({
+  reason,
+});
+
+export const setUserRoleSchema = object({
+  role: zodEnum(USER_ROLES, {
+    errorMap: () => ({message: "The role must be either user, moderator or admin"}),
+  }),
+  reason,
+});
+
+export const auditLogQuerySchema = object({
+  limit: coerce.number({
+    invalid_type_error: "The limit should be a number",
+  })
+    .int("The limit must be an integer")
+    .min(1, "The limit must be between 1 and 100")
+    .max(100, "The limit must be between 1 and 100")
+    .default(20),
+
+  nextPageToken: string().min(1, "The next page token must not be empty").optional(),
+
+  targetID: string().min(1, "The target ID must not be empty").optional(),
+});
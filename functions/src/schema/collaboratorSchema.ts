@@ -0,0 +1,50 @@
+/**
+ * Schema definitions for managing the collaborators of a deck using Zod.
+ *
+ * `addCollaboratorSchema` validates an invitation, ensuring that:
+ * - exactly one of `userID` or `email` identifies the invited user.
+ * - `role` is either `viewer`, `editor` or `admin`.
+ *
+ * `updateCollaboratorSchema` validates a role change, where `role` follows the same rules.
+ *
+ * `removeCollaboratorsSchema` validates a removal, where `userIDs` is a list of 1 to 50 user IDs.
+ *
+ * @file collaboratorSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {array, object, string, enum as zodEnum} from "zod";
+import {COLLABORATOR_ROLES} from "../interface/Collaborator";
+
+const collaboratorRole = zodEnum(COLLABORATOR_ROLES, {
+  errorMap: () => ({message: "The collaborator role must be either viewer, editor or admin"}),
+});
+
+export const addCollaboratorSchema = object({
+  userID: string({invalid_type_error: "The user ID should be of type string"})
+    .min(1, "The user ID must not be empty")
+    .optional(),
+
+  email: string({invalid_type_error: "The email should be of type string"})
+    .email("The email is not a valid email address")
+    .optional(),
+
+  role: collaboratorRole,
+}).refine((data) => !!data.userID !== !!data.email, {
+  message: "Either a user ID or an email is required, but not both",
+  path: ["userID"],
+});
+
+export const updateCollaboratorSchema = object({
+  role: collaboratorRole,
+});
+
+export const removeCollaboratorsSchema = object({
+  userIDs: array(string({invalid_type_error: "Each user ID should be of type string"}).min(1, "A user ID must not be empty"), {
+    required_error: "The user IDs are a required field",
+    invalid_type_error: "The user IDs should be an array",
+  })
+    .min(1, "At least one user ID is required")
+    .max(50, "At most 50 collaborators can be removed at once"),
+});
@@ -6,15 +6,17 @@
  * - `description` is a required string with a minimum and maximum length.
  * - `coverPhoto` is an optional string that must match a specific Firebase Storage URL pattern.
  * - `flashcards` is an optional array of objects validated by the `flashcardSchema`.
+ * - `tags` is an optional array of tags and `category` an optional category of the taxonomy (see `deckTaxonomySchema`).
  *
  * The schema is designed to enforce data integrity for deck creation in the application.
  * @file createDeckSchema.ts
  * @author Arthur M. Artugue
  * @created 2024-04-16
- * @updated 2025-05-22
+ * @updated 2026-10-19
  */
 import {object, string, array} from "zod";
 import {flashcardSchema} from "./createFlashcardSchema";
+import {deckCategoryField, deckTagsField} from "./deckTaxonomySchema";
 
 export const createDeckSchema = object({
   title: string({
@@ -43,4 +45,8 @@ export const createDeckSchema = object({
     .optional(),
 
   flashcards: array(flashcardSchema).optional(),
+
+  tags: deckTagsField.optional(),
+
+  category: deckCategoryField.optional(),
 });
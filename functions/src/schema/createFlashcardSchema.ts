@@ -5,16 +5,19 @@
  * and arrays of flashcards. It ensures that:
  * - Each flashcard has a `term` which is a required string with a minimum length of 1.
  * - Each flashcard has a `definition` which is a required string with a minimum length of 1.
+ * - Each flashcard may have `tags`, an array of at most 30 non-blank strings of at most 100 characters.
  * - The `createFlashcardSchema` validates an array of flashcards, ensuring all items conform to the `flashcardSchema`.
  *
  * These schemas are designed to enforce data integrity for flashcard creation in the application.
  * @file createFlashcardSchema.ts
  * @author Arthur M. Artugue
  * @created 2025-04-16
- * @updated 2025-04-16
+ * @updated 2026-10-19
  */
 import {object, string, array} from "zod";
 
+export const MAX_FLASHCARD_TAGS = 30;
+
 export const flashcardSchema = object({
   term: string({
     required_error: "flashcard term is a required",
@@ -25,6 +28,14 @@ export const flashcardSchema = object({
     required_error: "flashcard definition is a required",
     invalid_type_error: "The definition of the flashcard should be of type string",
   }).trim().min(1, "flashcard definition is a required"),
+
+  tags: array(
+    string({invalid_type_error: "A flashcard tag should be of type string"})
+      .trim()
+      .min(1, "A flashcard tag must not be blank")
+      .max(100, "A flashcard tag must be at most 100 characters"),
+    {invalid_type_error: "The tags of the flashcard should be an array of strings"}
+  ).max(MAX_FLASHCARD_TAGS, `A flashcard can have at most ${MAX_FLASHCARD_TAGS} tags`).optional(),
 });
 
 export const createFlashcardSchema = array(flashcardSchema);
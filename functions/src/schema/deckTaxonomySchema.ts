@@ -0,0 +1,64 @@
+/**
+ * Schema definitions for the tags and category of decks using Zod.
+ *
+ * `deckTagsField` validates the tags of a deck, ensuring that:
+ * - `tags` is an array of at most 10 strings.
+ * - every tag, once normalized (see `Utils.normalizeTag`), contains a letter or a digit and is at most 30 characters.
+ * Duplicate tags are merged.
+ *
+ * `deckCategoryField` validates the category of a deck against the taxonomy (see `config/deckTaxonomy`).
+ *
+ * `updateDeckTagsSchema` and `updateDeckCategorySchema` validate the bodies replacing the tags or the
+ * category of a deck; the category may be null to clear it.
+ *
+ * `tagCloudSchema` validates the tag cloud query parameters, where `scope` is either `PUBLIC_DECKS`
+ * (default) or `MY_DECKS` and `limit` an optional integer between 1 and 200 (defaults to 50).
+ *
+ * @file deckTaxonomySchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {array, coerce, object, string, enum as zodEnum} from "zod";
+import {DECK_CATEGORIES, MAX_DECK_TAGS, MAX_TAG_LENGTH} from "../config/deckTaxonomy";
+import {Utils} from "../utils/utils";
+
+export const TAG_CLOUD_SCOPES = ["PUBLIC_DECKS", "MY_DECKS"] as const;
+
+export const deckTagsField = array(
+  string({invalid_type_error: "Every tag should be of type string"})
+    .transform(Utils.normalizeTag)
+    .refine(
+      (tag) => tag.length > 0 && tag.length <= MAX_TAG_LENGTH,
+      `Every tag must contain a letter or a digit and be at most ${MAX_TAG_LENGTH} characters`
+    ),
+  {invalid_type_error: "The tags should be an array of strings"}
+)
+  .max(MAX_DECK_TAGS, `A deck has at most ${MAX_DECK_TAGS} tags`)
+  .transform((tags) => [...new Set(tags)]);
+
+export const deckCategoryField = zodEnum(DECK_CATEGORIES, {
+  errorMap: () => ({message: `The category must be one of ${DECK_CATEGORIES.join(", ")}`}),
+});
+
+export const updateDeckTagsSchema = object({
+  tags: deckTagsField,
+});
+
+export const updateDeckCategorySchema = object({
+  category: deckCategoryField.nullable(),
+});
+
+export const tagCloudSchema = object({
+  scope: zodEnum(TAG_CLOUD_SCOPES, {
+    errorMap: () => ({message: "The scope must be either PUBLIC_DECKS or MY_DECKS"}),
+  }).default("PUBLIC_DECKS"),
+
+  limit: coerce.number({
+    invalid_type_error: "The limit should be a number",
+  })
+    .int("The limit must be an integer")
+    .min(1, "The limit must be between 1 and 200")
+    .max(200, "The limit must be between 1 and 200")
+    .default(50),
+});
@@ -0,0 +1,46 @@
+/**
+ * Schema definitions for the version history of decks using Zod.
+ *
+ * `versionNumberSchema` validates a version number from the URL, a non-negative integer; version 0 is
+ * the deck as it was before its first recorded change.
+ *
+ * `deckVersionsQuerySchema` validates the pagination of the versions of a deck, where `limit` is an
+ * optional integer between 1 and 50 (defaults to 20).
+ *
+ * `deckVersionDiffQuerySchema` validates the versions to compare, where `from` is required and `to`
+ * is optional (the latest version when omitted), `from` coming before `to`.
+ *
+ * @file deckVersionSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {coerce, object, string} from "zod";
+
+const version = (label: string) => coerce.number({
+  invalid_type_error: `The ${label} version should be a number`,
+})
+  .int(`The ${label} version must be an integer`)
+  .min(0, `The ${label} version must not be negative`);
+
+export const versionNumberSchema = version("requested");
+
+export const deckVersionsQuerySchema = object({
+  limit: coerce.number({
+    invalid_type_error: "The limit should be a number",
+  })
+    .int("The limit must be an integer")
+    .min(1, "The limit must be between 1 and 50")
+    .max(50, "The limit must be between 1 and 50")
+    .default(20),
+
+  nextPageToken: string().regex(/^\d+$/, "The next page token is not valid").optional(),
+});
+
+export const deckVersionDiffQuerySchema = object({
+  from: version("first"),
+  to: version("last").optional(),
+}).refine(
+  (data) => data.to === undefined || data.from < data.to,
+  {message: "The first version must come before the last version", path: ["to"]}
+);
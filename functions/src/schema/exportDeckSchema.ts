@@ -0,0 +1,18 @@
+/**
+ * Schema definition for exporting a deck using Zod.
+ *
+ * This schema validates the query parameters of a deck export, ensuring that:
+ * - `format` is an optional export format, either `json`, `csv` or `md` (defaults to `json`).
+ *
+ * @file exportDeckSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {object, enum as zodEnum} from "zod";
+
+export const exportDeckSchema = object({
+  format: zodEnum(["json", "csv", "md"], {
+    errorMap: () => ({message: "The export format must be either json, csv or md"}),
+  }).default("json"),
+});
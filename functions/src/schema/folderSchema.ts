@@ -0,0 +1,96 @@
+/**
+ * Schema definitions for the folders of decks using Zod.
+ *
+ * `createFolderSchema` validates a new folder, ensuring that:
+ * - `name` is a required string of 1 to 100 characters, trimmed.
+ * - `parentID` is an optional folder ID; null or omitted creates a root folder.
+ *
+ * `updateFolderSchema` validates a folder update: a new `name` and/or a new `parentID` (null moves the
+ * folder to the root), at least one of them.
+ *
+ * `reorderFoldersSchema` validates the new order of the subfolders of `parentID` (the root folders when
+ * null or omitted), where `folderIDs` lists every subfolder exactly once.
+ *
+ * `folderDecksSchema` validates the decks added to or removed from a folder, 1 to 50 deck IDs.
+ *
+ * `reorderFolderDecksSchema` validates the new order of the decks of a folder, where `deckIDs` lists
+ * every deck of the folder exactly once.
+ *
+ * `folderDecksQuerySchema` validates the pagination of the decks of a folder, where `limit` is an
+ * optional integer between 1 and 50 (defaults to 10).
+ *
+ * @file folderSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {array, coerce, object, string} from "zod";
+
+const name = string({
+  required_error: "The folder name is a required field",
+  invalid_type_error: "The folder name should be of type string",
+})
+  .trim()
+  .min(1, "The folder name must not be empty")
+  .max(100, "The folder name must be at most 100 characters");
+
+const parentID = string({
+  invalid_type_error: "The parent folder ID should be of type string or null",
+}).min(1, "The parent folder ID must not be empty").nullable();
+
+const uniqueIDs = (ids: string[]) => new Set(ids).size === ids.length;
+
+export const createFolderSchema = object({
+  name,
+  parentID: parentID.optional(),
+});
+
+export const updateFolderSchema = object({
+  name: name.optional(),
+  parentID: parentID.optional(),
+}).refine(
+  (data) => data.name !== undefined || data.parentID !== undefined,
+  {message: "Provide a new name or a new parent folder", path: ["name"]}
+);
+
+export const reorderFoldersSchema = object({
+  parentID: parentID.optional(),
+
+  folderIDs: array(string().min(1, "Every folder ID must not be empty"), {
+    required_error: "The folder IDs are a required field",
+    invalid_type_error: "The folder IDs should be an array of strings",
+  })
+    .min(1, "Provide at least one folder ID")
+    .refine(uniqueIDs, "Every folder ID must be listed once"),
+});
+
+export const folderDecksSchema = object({
+  deckIDs: array(string().min(1, "Every deck ID must not be empty"), {
+    required_error: "The deck IDs are a required field",
+    invalid_type_error: "The deck IDs should be an array of strings",
+  })
+    .min(1, "Provide at least one deck ID")
+    .max(50, "At most 50 decks can be added or removed at once")
+    .transform((ids) => [...new Set(ids)]),
+});
+
+export const reorderFolderDecksSchema = object({
+  deckIDs: array(string().min(1, "Every deck ID must not be empty"), {
+    required_error: "The deck IDs are a required field",
+    invalid_type_error: "The deck IDs should be an array of strings",
+  })
+    .min(1, "Provide at least one deck ID")
+    .refine(uniqueIDs, "Every deck ID must be listed once"),
+});
+
+export const folderDecksQuerySchema = object({
+  limit: coerce.number({
+    invalid_type_error: "The limit should be a number",
+  })
+    .int("The limit must be an integer")
+    .min(1, "The limit must be between 1 and 50")
+    .max(50, "The limit must be between 1 and 50")
+    .default(10),
+
+  nextPageToken: string().min(1, "The next page token must not be empty").optional(),
+});
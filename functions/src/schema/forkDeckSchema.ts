@@ -0,0 +1,17 @@
+/**
+ * Schema definition for forking a deck using Zod.
+ *
+ * This schema validates the optional body of a deck fork. The `title`, `description` and
+ * `coverPhoto` of the fork default to those of the source deck and follow the same rules
+ * as `createDeckSchema` when provided.
+ *
+ * @file forkDeckSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {createDeckSchema} from "./createDeckSchema";
+
+export const forkDeckSchema = createDeckSchema
+  .pick({title: true, description: true, coverPhoto: true})
+  .partial();
@@ -0,0 +1,97 @@
+/**
+ * Schema definition for importing a deck from delimited text (CSV/TSV) using Zod.
+ *
+ * This schema validates the body of a deck import, ensuring that:
+ * - `title`, `description` and `coverPhoto` follow the same rules as `createDeckSchema`.
+ * - `content` is the required delimited text, at most 1,000,000 characters long.
+ * - `delimiter` is an optional single character (e.g. `,`, `;` or a tab). Detected from the first line when omitted.
+ * - `hasHeader` is an optional boolean. Detected from the first row when omitted.
+ * - `termColumn` and `definitionColumn` are optional column indexes (0-based) or header names.
+ *
+ * `importApkgSchema` validates the query parameters of an Anki package import, where the
+ * title, description and cover photo are all optional overrides.
+ *
+ * `importJsonSchema` validates a JSON deck export (see `DeckExport`): its schema name, a supported
+ * version, the deck details (with their tags and category since version 2), and at most 1000 flashcards.
+ * The flashcards themselves are validated one by one during the import so invalid ones can be reported.
+ *
+ * @file importDeckSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {array, boolean, infer as zodInfer, literal, number, object, string, union, unknown} from "zod";
+import {DECK_EXPORT_SCHEMA, DECK_EXPORT_VERSION} from "../interface/DeckExport";
+import {createDeckSchema} from "./createDeckSchema";
+import {deckCategoryField, deckTagsField} from "./deckTaxonomySchema";
+
+const columnSchema = union([
+  number().int("A column index must be an integer").min(0, "A column index must be 0 or greater"),
+  string().trim().min(1, "A column name must not be blank"),
+], {
+  errorMap: () => ({message: "A column must be a 0-based index or a header name"}),
+});
+
+export const importDeckSchema = createDeckSchema
+  .pick({title: true, description: true, coverPhoto: true})
+  .extend({
+    content: string({
+      required_error: "The content to import is a required field",
+      invalid_type_error: "The content to import should be of type string",
+    })
+      .min(1, "The content to import is a required field")
+      .max(1000000, "The content to import must be at most 1,000,000 characters"),
+
+    delimiter: string({
+      invalid_type_error: "The delimiter should be of type string",
+    })
+      .length(1, "The delimiter must be a single character")
+      .refine((value) => !["\"", "\n", "\r"].includes(value), "The delimiter cannot be a quote or a line break")
+      .optional(),
+
+    hasHeader: boolean({
+      invalid_type_error: "The has header flag should be of type boolean",
+    }).optional(),
+
+    termColumn: columnSchema.optional(),
+
+    definitionColumn: columnSchema.optional(),
+  });
+
+export const importApkgSchema = createDeckSchema
+  .pick({title: true, description: true, coverPhoto: true})
+  .partial();
+
+export const importJsonSchema = object({
+  schema: literal(DECK_EXPORT_SCHEMA, {
+    errorMap: () => ({message: `The document is not a deck export, its schema must be "${DECK_EXPORT_SCHEMA}"`}),
+  }),
+
+  version: number({
+    required_error: "The export version is a required field",
+    invalid_type_error: "The export version should be of type number",
+  })
+    .int("The export version must be an integer")
+    .min(1, "The export version must be 1 or greater")
+    .max(DECK_EXPORT_VERSION, `This export is newer than the supported version (${DECK_EXPORT_VERSION})`),
+
+  deck: object({
+    title: createDeckSchema.shape.title,
+    description: createDeckSchema.shape.description,
+    cover_photo: string().nullable().optional(),
+    tags: deckTagsField.optional(),
+    category: deckCategoryField.nullable().optional(),
+  }, {required_error: "The deck details are a required field"}),
+
+  flashcards: array(object({
+    term: unknown(),
+    definition: unknown(),
+    tags: unknown().optional(),
+    is_starred: unknown().optional(),
+  }), {
+    required_error: "The flashcards are a required field",
+    invalid_type_error: "The flashcards should be an array",
+  }).max(1000, "An import can contain at most 1000 flashcards"),
+});
+
+export type DeckExportDocument = zodInfer<typeof importJsonSchema>;
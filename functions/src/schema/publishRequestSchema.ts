@@ -0,0 +1,60 @@
+/**
+ * Schema definitions for the requests to publish decks using Zod.
+ *
+ * `createPublishRequestSchema` validates a new request, where `deckID` is a non-empty string.
+ *
+ * `publishRequestQuerySchema` validates the list query parameters, ensuring that:
+ * - `status` is optionally one of `PENDING`, `APPROVED`, `REJECTED` or `CANCELLED`.
+ * - `limit` is an optional integer between 1 and 100 (defaults to 20), coerced from the query string.
+ * - `nextPageToken` is an optional non-empty string.
+ *
+ * `approvePublishRequestSchema` validates an approval, where `reason` is an optional string of 1 to 500 characters.
+ *
+ * `rejectPublishRequestSchema` validates a rejection, where `reason` is required and follows the same rules.
+ *
+ * @file publishRequestSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {coerce, object, string, enum as zodEnum} from "zod";
+import {PUBLISH_VERDICTS} from "../interface/PublishRequest";
+
+const reason = string({
+  required_error: "The reason is a required field",
+  invalid_type_error: "The reason should be of type string",
+})
+  .trim()
+  .min(1, "The reason must not be empty")
+  .max(500, "The reason must be at most 500 characters");
+
+export const createPublishRequestSchema = object({
+  deckID: string({
+    required_error: "The deck ID is a required field",
+    invalid_type_error: "The deck ID should be of type string",
+  }).min(1, "The deck ID must not be empty"),
+});
+
+export const publishRequestQuerySchema = object({
+  status: zodEnum(PUBLISH_VERDICTS, {
+    errorMap: () => ({message: "The status must be either PENDING, APPROVED, REJECTED or CANCELLED"}),
+  }).optional(),
+
+  limit: coerce.number({
+    invalid_type_error: "The limit should be a number",
+  })
+    .int("The limit must be an integer")
+    .min(1, "The limit must be between 1 and 100")
+    .max(100, "The limit must be between 1 and 100")
+    .default(20),
+
+  nextPageToken: string().min(1, "The next page token must not be empty").optional(),
+});
+
+export const approvePublishRequestSchema = object({
+  reason: reason.optional(),
+});
+
+export const rejectPublishRequestSchema = object({
+  reason,
+});
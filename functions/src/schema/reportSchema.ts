@@ -0,0 +1,60 @@
+/**
+ * Schema definitions for the reports of decks using Zod.
+ *
+ * `createReportSchema` validates a report, ensuring that:
+ * - `category` is one of `spam`, `inappropriate`, `harassment`, `copyright`, `misinformation` or `other`.
+ * - `comment` is an optional string of 1 to 1000 characters, required for the `other` category.
+ *
+ * `resolveReportsSchema` validates a resolution, ensuring that:
+ * - `resolution` is either `dismiss` or `unpublish`.
+ * - `reason` is an optional string of 1 to 500 characters.
+ *
+ * `reportQueueSchema` validates the queue query parameters, where `limit` is an optional integer
+ * between 1 and 100 (defaults to 20) and `nextPageToken` an optional non-empty string.
+ *
+ * @file reportSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {coerce, object, string, enum as zodEnum} from "zod";
+import {REPORT_CATEGORIES, REPORT_RESOLUTIONS} from "../interface/Report";
+
+export const createReportSchema = object({
+  category: zodEnum(REPORT_CATEGORIES, {
+    errorMap: () => ({message: `The report category must be one of ${REPORT_CATEGORIES.join(", ")}`}),
+  }),
+
+  comment: string({invalid_type_error: "The comment should be of type string"})
+    .trim()
+    .min(1, "The comment must not be empty")
+    .max(1000, "The comment must be at most 1000 characters")
+    .optional(),
+}).refine((data) => data.category !== "other" || !!data.comment, {
+  message: "A comment is required for reports of the other category",
+  path: ["comment"],
+});
+
+export const resolveReportsSchema = object({
+  resolution: zodEnum(REPORT_RESOLUTIONS, {
+    errorMap: () => ({message: "The resolution must be either dismiss or unpublish"}),
+  }),
+
+  reason: string({invalid_type_error: "The reason should be of type string"})
+    .trim()
+    .min(1, "The reason must not be empty")
+    .max(500, "The reason must be at most 500 characters")
+    .optional(),
+});
+
+export const reportQueueSchema = object({
+  limit: coerce.number({
+    invalid_type_error: "The limit should be a number",
+  })
+    .int("The limit must be an integer")
+    .min(1, "The limit must be between 1 and 100")
+    .max(100, "The limit must be between 1 and 100")
+    .default(20),
+
+  nextPageToken: string().min(1, "The next page token must not be empty").optional(),
+});
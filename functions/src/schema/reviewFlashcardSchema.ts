@@ -0,0 +1,27 @@
+/**
+ * Schema definition for reviewing a flashcard using Zod.
+ *
+ * This schema validates the body of a flashcard review, ensuring that:
+ * - `grade` is a required integer between 0 (complete blackout) and 5 (perfect response).
+ * - `algorithm` is an optional scheduling algorithm, either `SM2` or `FSRS`.
+ *
+ * @file reviewFlashcardSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {object, number, enum as zodEnum} from "zod";
+
+export const reviewFlashcardSchema = object({
+  grade: number({
+    required_error: "Review grade is a required field",
+    invalid_type_error: "The review grade should be of type number",
+  })
+    .int("The review grade must be an integer")
+    .min(0, "The review grade must be between 0 and 5")
+    .max(5, "The review grade must be between 0 and 5"),
+
+  algorithm: zodEnum(["SM2", "FSRS"], {
+    errorMap: () => ({message: "The algorithm must be either SM2 or FSRS"}),
+  }).optional(),
+});
@@ -0,0 +1,39 @@
+/**
+ * Schema definition for the flashcard search query parameters using Zod.
+ *
+ * This schema validates a flashcard search, ensuring that:
+ * - `searchQuery` is a string of 1 to 200 characters containing at least one letter or digit.
+ * - `filter` is one of `MY_DECKS`, `SAVED_DECKS` or `PUBLIC_DECKS`.
+ * - `limit` is an optional integer between 1 and 50 (defaults to 10), coerced from the query string.
+ *
+ * @file searchFlashcardsSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {coerce, object, string, enum as zodEnum} from "zod";
+import {FLASHCARD_SEARCH_FILTERS} from "../interface/Search";
+import {Utils} from "../utils/utils";
+
+export const searchFlashcardsSchema = object({
+  searchQuery: string({
+    required_error: "The search query is required",
+    invalid_type_error: "The search query should be of type string",
+  })
+    .trim()
+    .min(1, "The search query must not be empty")
+    .max(200, "The search query must be at most 200 characters")
+    .refine((query) => Utils.searchQueryTokens(query).length > 0, "The search query must contain at least one letter or digit"),
+
+  filter: zodEnum(FLASHCARD_SEARCH_FILTERS, {
+    errorMap: () => ({message: `The filter must be one of ${FLASHCARD_SEARCH_FILTERS.join(", ")}`}),
+  }),
+
+  limit: coerce.number({
+    invalid_type_error: "The limit should be a number",
+  })
+    .int("The limit must be an integer")
+    .min(1, "The limit must be between 1 and 50")
+    .max(50, "The limit must be between 1 and 50")
+    .default(10),
+});
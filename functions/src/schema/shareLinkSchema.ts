@@ -0,0 +1,33 @@
+/**
+ * Schema definitions for the share links of decks using Zod.
+ *
+ * `createShareLinkSchema` validates a new share link, ensuring that:
+ * - `expiresAt` is an optional ISO 8601 date-time in the future, at most 365 days ahead; omitted, the link never expires.
+ * - `maxUses` is an optional integer between 1 and 100000; omitted, the link can be used any number of times.
+ *
+ * @file shareLinkSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {number, object, string} from "zod";
+
+const MAX_EXPIRY_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const createShareLinkSchema = object({
+  expiresAt: string({
+    invalid_type_error: "The expiry date should be of type string",
+  })
+    .datetime({offset: true, message: "The expiry date must be an ISO 8601 date-time"})
+    .refine((value) => Date.parse(value) > Date.now(), "The expiry date must be in the future")
+    .refine((value) => Date.parse(value) <= Date.now() + MAX_EXPIRY_MS, "The expiry date must be at most 365 days ahead")
+    .optional(),
+
+  maxUses: number({
+    invalid_type_error: "The maximum number of uses should be a number",
+  })
+    .int("The maximum number of uses must be an integer")
+    .min(1, "The maximum number of uses must be between 1 and 100000")
+    .max(100000, "The maximum number of uses must be between 1 and 100000")
+    .optional(),
+});
@@ -0,0 +1,36 @@
+/**
+ * Schema definition for the study queue query parameters using Zod.
+ *
+ * This schema validates the daily limits of a study queue, ensuring that:
+ * - `newLimit` is an optional integer between 0 and 200 (defaults to 20).
+ * - `reviewLimit` is an optional integer between 0 and 1000 (defaults to 200).
+ * - `nextPageToken` is an optional page token of the due cards of the cross-deck queue.
+ *
+ * Both values arrive as query strings and are coerced to numbers.
+ *
+ * @file studyQueueSchema.ts
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+import {object, coerce, string} from "zod";
+
+export const studyQueueSchema = object({
+  newLimit: coerce.number({
+    invalid_type_error: "The new card limit should be a number",
+  })
+    .int("The new card limit must be an integer")
+    .min(0, "The new card limit must be between 0 and 200")
+    .max(200, "The new card limit must be between 0 and 200")
+    .default(20),
+
+  reviewLimit: coerce.number({
+    invalid_type_error: "The review limit should be a number",
+  })
+    .int("The review limit must be an integer")
+    .min(0, "The review limit must be between 0 and 1000")
+    .max(1000, "The review limit must be between 0 and 1000")
+    .default(200),
+
+  nextPageToken: string().regex(/^\d+_\d+_.+$/, "The next page token is not valid").optional(),
+});
@@ -0,0 +1,186 @@
+/**
+ * Deck Manager API - Admin Service
+ *
+ * @file AdminService.ts
+ * This module defines the service layer for the moderation overrides of admins and moderators.
+ * Overrides bypass the deck permissions (see `PermissionService`) and are always recorded in the
+ * admin audit log together with the actor, the optional reason and the changed fields.
+ *
+ * Methods:
+ * - unpublishDeck: Makes any public deck private.
+ * - restoreDeck: Restores any soft-deleted deck.
+ * - hardDeleteDeck: Permanently deletes any deck.
+ * - setUserRole: Assigns the platform role of a user.
+ * - getAuditLogs: Retrieves the admin audit log.
+ *
+ * @module service
+ * @file AdminService.ts
+ * @class AdminService
+ * @classdesc Handles business logic for moderation overrides, delegating persistence and auditing to the AdminRepository.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {AdminAction, AdminAuditLog} from "../interface/AdminAuditLog";
+import {Deck} from "../interface/Deck";
+import {AdminActor, UserRole} from "../interface/UserRole";
+import {AdminRepository} from "../repositories/AdminRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+
+/**
+ * Service class responsible for the moderation overrides of admins and moderators.
+ */
+export class AdminService {
+  /**
+   * A repository instance for applying and auditing overrides.
+   */
+  private adminRepository: AdminRepository;
+
+  /**
+   * A repository instance used to read the current state of a deck.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * Initializes the AdminService.
+   *
+   * @param {AdminRepository} adminRepository - The repository applying and auditing overrides.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   */
+  constructor(adminRepository: AdminRepository, deckRepository: DeckRepository) {
+    this.adminRepository = adminRepository;
+    this.deckRepository = deckRepository;
+  }
+
+  /**
+   * Makes a public deck private, regardless of its owner.
+   *
+   * @param {AdminActor} actor - The admin or moderator performing the override.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string | null} reason - The reason of the override.
+   * @return {Promise<object>} A promise resolving to the updated deck fields.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or DECK_NOT_PUBLIC (409).
+   */
+  public async unpublishDeck(actor: AdminActor, deckID: string, reason: string | null): Promise<object> {
+    const deck = await this.getDeck(deckID);
+    if (deck.is_private) {
+      throw new ApiError(`Deck ${deckID} is not public`, 409, {deckID, errorCode: "DECK_NOT_PUBLIC"});
+    }
+
+    return this.adminRepository.overrideDeck(deckID, {is_private: true}, this.toLog(actor, "UNPUBLISH_DECK", "deck", deckID, reason));
+  }
+
+  /**
+   * Restores a soft-deleted deck, regardless of its owner. The deck keeps its visibility.
+   *
+   * @param {AdminActor} actor - The admin or moderator performing the override.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string | null} reason - The reason of the override.
+   * @return {Promise<object>} A promise resolving to the updated deck fields.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or DECK_NOT_DELETED (409).
+   */
+  public async restoreDeck(actor: AdminActor, deckID: string, reason: string | null): Promise<object> {
+    const deck = await this.getDeck(deckID);
+    if (!deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} is not deleted`, 409, {deckID, errorCode: "DECK_NOT_DELETED"});
+    }
+
+    return this.adminRepository.overrideDeck(deckID, {is_deleted: false}, this.toLog(actor, "RESTORE_DECK", "deck", deckID, reason));
+  }
+
+  /**
+   * Permanently deletes a deck, regardless of its owner, through the same purge as the trash: its
+   * flashcards, related quizzes and every document referring to it are deleted. The deletion is
+   * recorded in the audit log first.
+   *
+   * @param {AdminActor} actor - The admin performing the override.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string | null} reason - The reason of the override.
+   * @return {Promise<void>} A promise that resolves when the deck is deleted.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404).
+   */
+  public async hardDeleteDeck(actor: AdminActor, deckID: string, reason: string | null): Promise<void> {
+    await this.adminRepository.recordHardDelete(deckID, this.toLog(actor, "HARD_DELETE_DECK", "deck", deckID, reason));
+    await this.deckRepository.purgeDeck(deckID);
+  }
+
+  /**
+   * Assigns the platform role of a user. Admins cannot change their own role, so the
+   * platform always keeps at least the admin performing the change.
+   *
+   * @param {AdminActor} actor - The admin performing the change.
+   * @param {string} userID - The ID of the user.
+   * @param {UserRole} role - The new role.
+   * @param {string | null} reason - The reason of the change.
+   * @return {Promise<object>} A promise resolving to the previous and new role of the user.
+   * @throws {ApiError} Throws CANNOT_CHANGE_OWN_ROLE (400) or USER_NOT_FOUND (404).
+   */
+  public async setUserRole(actor: AdminActor, userID: string, role: UserRole, reason: string | null): Promise<object> {
+    if (actor.user_id === userID) {
+      throw new ApiError("Admins cannot change their own role", 400, {userID, errorCode: "CANNOT_CHANGE_OWN_ROLE"});
+    }
+
+    return this.adminRepository.setUserRole(userID, role, this.toLog(actor, "SET_USER_ROLE", "user", userID, reason));
+  }
+
+  /**
+   * Retrieves the admin audit log, newest first.
+   *
+   * @param {number} limit - The maximum number of entries to return.
+   * @param {string | null} nextPageToken - The ID of the last entry of the previous page.
+   * @param {string} [targetID] - Only return the entries of this deck or user.
+   * @return {Promise<object>} A promise resolving to the entries and the next page token.
+   */
+  public async getAuditLogs(limit: number, nextPageToken: string | null, targetID?: string): Promise<object> {
+    return this.adminRepository.getAuditLogs(limit, nextPageToken, targetID);
+  }
+
+  /**
+   * Retrieves a deck, deleted or not.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<Deck>} A promise resolving to the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404).
+   */
+  private async getDeck(deckID: string): Promise<Deck> {
+    try {
+      return await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the audit log entry of an override.
+   *
+   * @param {AdminActor} actor - The user performing the override.
+   * @param {AdminAction} action - The override.
+   * @param {"deck" | "user"} targetType - The type of the target.
+   * @param {string} targetID - The ID of the target.
+   * @param {string | null} reason - The reason of the override.
+   * @return {object} The audit log entry, without the changed fields.
+   */
+  private toLog(
+    actor: AdminActor,
+    action: AdminAction,
+    targetType: "deck" | "user",
+    targetID: string,
+    reason: string | null
+  ): Omit<AdminAuditLog, "before" | "after" | "target_owner_id"> {
+    return {
+      actor_id: actor.user_id,
+      actor_role: actor.role,
+      action,
+      target_type: targetType,
+      target_id: targetID,
+      reason,
+      created_at: FirebaseAdmin.getTimeStamp(),
+    };
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Deck Manager API - Collaborator Service
+ *
+ * @file CollaboratorService.ts
+ * This module defines the service layer for the collaborators of a deck. It resolves the
+ * invited users, enforces who may manage which role and persists the collaborators through
+ * the CollaboratorRepository. Admins manage viewers and editors; only the owner manages admins.
+ * A collaborator can always remove themselves from a deck.
+ *
+ * Methods:
+ * - getCollaborators: Lists the owner and the collaborators of a deck.
+ * - addCollaborator: Invites a user to a deck with a role, by user ID or email.
+ * - updateCollaboratorRole: Changes the role of a collaborator.
+ * - removeCollaborators: Removes one or more collaborators from a deck.
+ *
+ * @module service
+ * @file CollaboratorService.ts
+ * @class CollaboratorService
+ * @classdesc Handles business logic for deck collaborators, coordinating the PermissionService and the CollaboratorRepository.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {CollaboratorRole, DeckRole} from "../interface/Collaborator";
+import {Deck} from "../interface/Deck";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {UserRepository} from "../repositories/UserRepository";
+import {PermissionService} from "./PermissionService";
+
+/**
+ * Service class responsible for managing the collaborators of decks.
+ */
+export class CollaboratorService {
+  /**
+   * A repository instance for managing collaborator data.
+   */
+  private collaboratorRepository: CollaboratorRepository;
+
+  /**
+   * A repository instance used to read the deck being shared.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * A repository instance used to resolve the invited users and their names.
+   */
+  private userRepository: UserRepository;
+
+  /**
+   * The service authorizing deck operations.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * Initializes the CollaboratorService.
+   *
+   * @param {CollaboratorRepository} collaboratorRepository - The repository handling collaborator data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   * @param {UserRepository} userRepository - The repository handling user data operations.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   */
+  constructor(
+    collaboratorRepository: CollaboratorRepository,
+    deckRepository: DeckRepository,
+    userRepository: UserRepository,
+    permissionService: PermissionService
+  ) {
+    this.collaboratorRepository = collaboratorRepository;
+    this.deckRepository = deckRepository;
+    this.userRepository = userRepository;
+    this.permissionService = permissionService;
+  }
+
+  /**
+   * Lists the owner and the collaborators of a deck. Only the owner and the collaborators can see them.
+   *
+   * @param {string} userID - The ID of the user requesting the list.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<object>} A promise resolving to the owner, the collaborators and the role of the user.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_VIEW_COLLABORATORS (403).
+   */
+  public async getCollaborators(userID: string, deckID: string): Promise<object> {
+    const deck = await this.getDeck(deckID);
+    const role = await this.permissionService.getRole(userID, deckID, deck);
+
+    if (!role) {
+      throw new ApiError(
+        `User ${userID} is not authorized to view the collaborators of deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_VIEW_COLLABORATORS"}
+      );
+    }
+
+    const collaborators = await this.collaboratorRepository.getCollaborators(deckID);
+    const names = await this.userRepository.getOwnerNames([deck.owner_id, ...collaborators.map((c) => c.user_id)]);
+
+    return {
+      owner: {user_id: deck.owner_id, name: names[deck.owner_id], role: "owner"},
+      collaborators: collaborators.map((collaborator) => ({...collaborator, name: names[collaborator.user_id]})),
+      your_role: role,
+    };
+  }
+
+  /**
+   * Invites a user to a deck with a role. The user is identified by user ID or email.
+   *
+   * @param {string} userID - The ID of the user sending the invitation.
+   * @param {string} deckID - The ID of the deck.
+   * @param {object} invitee - The user ID or email of the invited user.
+   * @param {CollaboratorRole} role - The role given to the invited user.
+   * @return {Promise<object>} A promise resolving to the new collaborator.
+   * @throws {ApiError} Throws DECK_NOT_FOUND, USER_NOT_FOUND (404), CANNOT_ADD_OWNER (400),
+   * NOT_AUTHORIZED_TO_MANAGE_COLLABORATORS (403) or COLLABORATOR_ALREADY_EXISTS (409).
+   */
+  public async addCollaborator(
+    userID: string,
+    deckID: string,
+    invitee: {userID?: string, email?: string},
+    role: CollaboratorRole
+  ): Promise<object> {
+    const deck = await this.getDeck(deckID);
+    await this.assertCanManage(userID, deckID, deck, [role]);
+
+    const user = await this.userRepository.findAuthUser(invitee);
+    if (!user) {
+      throw new ApiError("The invited user does not exist", 404, {errorCode: "USER_NOT_FOUND"});
+    }
+    if (user.user_id === deck.owner_id) {
+      throw new ApiError("The owner of the deck cannot be added as a collaborator", 400, {errorCode: "CANNOT_ADD_OWNER"});
+    }
+    if (await this.collaboratorRepository.getCollaborator(deckID, user.user_id)) {
+      throw new ApiError(
+        `User ${user.user_id} already collaborates on deck ${deckID}`,
+        409,
+        {deckID, userID: user.user_id, errorCode: "COLLABORATOR_ALREADY_EXISTS"}
+      );
+    }
+
+    const now = FirebaseAdmin.getTimeStamp();
+    const collaborator = {
+      user_id: user.user_id,
+      deck_id: deckID,
+      role,
+      added_by: userID,
+      added_at: now,
+      updated_at: now,
+    };
+    await this.collaboratorRepository.setCollaborator(collaborator);
+
+    const names = await this.userRepository.getOwnerNames([user.user_id]);
+    return {
+      collaborator: {...collaborator, name: names[user.user_id], email: user.email},
+    };
+  }
+
+  /**
+   * Changes the role of a collaborator.
+   *
+   * @param {string} userID - The ID of the user changing the role.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} collaboratorID - The ID of the collaborator.
+   * @param {CollaboratorRole} role - The new role.
+   * @return {Promise<object>} A promise resolving to the updated collaborator.
+   * @throws {ApiError} Throws DECK_NOT_FOUND, COLLABORATOR_NOT_FOUND (404) or NOT_AUTHORIZED_TO_MANAGE_COLLABORATORS (403).
+   */
+  public async updateCollaboratorRole(userID: string, deckID: string, collaboratorID: string, role: CollaboratorRole): Promise<object> {
+    const deck = await this.getDeck(deckID);
+    const collaborator = await this.collaboratorRepository.getCollaborator(deckID, collaboratorID);
+
+    if (!collaborator) {
+      throw new ApiError(
+        `User ${collaboratorID} does not collaborate on deck ${deckID}`,
+        404,
+        {deckID, userID: collaboratorID, errorCode: "COLLABORATOR_NOT_FOUND"}
+      );
+    }
+
+    await this.assertCanManage(userID, deckID, deck, [collaborator.role, role]);
+    await this.collaboratorRepository.updateCollaboratorRole(deckID, collaboratorID, role);
+
+    return {
+      collaborator: {...collaborator, role, updated_at: FirebaseAdmin.getTimeStamp()},
+    };
+  }
+
+  /**
+   * Removes one or more collaborators from a deck. Users that do not collaborate on the deck are ignored.
+   * A collaborator can always remove themselves.
+   *
+   * @param {string} userID - The ID of the user removing the collaborators.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string[]} collaboratorIDs - The IDs of the collaborators to remove.
+   * @return {Promise<object>} A promise resolving to the IDs of the removed collaborators.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404), CANNOT_REMOVE_OWNER (400) or NOT_AUTHORIZED_TO_MANAGE_COLLABORATORS (403).
+   */
+  public async removeCollaborators(userID: string, deckID: string, collaboratorIDs: string[]): Promise<object> {
+    const deck = await this.getDeck(deckID);
+
+    if (collaboratorIDs.includes(deck.owner_id)) {
+      throw new ApiError("The owner of the deck cannot be removed", 400, {deckID, errorCode: "CANNOT_REMOVE_OWNER"});
+    }
+
+    const collaborators = (await Promise.all(
+      [...new Set(collaboratorIDs)].map((id) => this.collaboratorRepository.getCollaborator(deckID, id))
+    )).filter((collaborator) => collaborator !== null);
+
+    const others = collaborators.filter((collaborator) => collaborator.user_id !== userID);
+    if (others.length > 0) {
+      await this.assertCanManage(userID, deckID, deck, others.map((collaborator) => collaborator.role));
+    }
+
+    const removedIDs = collaborators.map((collaborator) => collaborator.user_id);
+    if (removedIDs.length > 0) {
+      await this.collaboratorRepository.removeCollaborators(deckID, removedIDs);
+    }
+
+    return {
+      removed: removedIDs,
+    };
+  }
+
+  /**
+   * Retrieves a deck that exists and is not deleted.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<Deck>} A promise resolving to the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404).
+   */
+  private async getDeck(deckID: string): Promise<Deck> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+    return deck;
+  }
+
+  /**
+   * Verifies that the user can manage collaborators with the given roles:
+   * admins manage viewers and editors, only the owner manages admins.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @param {Deck} deck - The deck.
+   * @param {CollaboratorRole[]} roles - The roles being granted, changed or removed.
+   * @return {Promise<void>} Resolves when the user can manage the collaborators.
+   * @throws {ApiError} Throws NOT_AUTHORIZED_TO_MANAGE_COLLABORATORS (403).
+   */
+  private async assertCanManage(userID: string, deckID: string, deck: Deck, roles: CollaboratorRole[]): Promise<void> {
+    const role: DeckRole | null = await this.permissionService.getRole(userID, deckID, deck);
+    const allowed = roles.includes("admin") ? role === "owner" : PermissionService.allows(role, "manage", deck);
+
+    if (!allowed) {
+      throw new ApiError(
+        roles.includes("admin") ?
+          "Only the owner of the deck can manage its admins" :
+          `User ${userID} is not authorized to manage the collaborators of deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_MANAGE_COLLABORATORS"}
+      );
+    }
+  }
+}
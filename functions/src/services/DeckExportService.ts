@@ -0,0 +1,281 @@
+/**
+ * Deck Manager API - Service
+ *
+ * @file DeckExportService.ts
+ * This module defines the service layer for exporting decks to external formats.
+ * It verifies that the user can read the deck, loads its flashcards and
+ * serializes them in the requested format. Text exports read the flashcards page by page
+ * while they are streamed, so a deck is never held in memory in full.
+ *
+ * Methods:
+ * - exportApkg: Exports a deck and its flashcards as an Anki package (.apkg).
+ * - exportDeck: Exports a deck and its flashcards as JSON, CSV or Markdown, produced chunk by chunk.
+ *
+ * @module service
+ * @file DeckExportService.ts
+ * @class DeckExportService
+ * @classdesc Handles business logic for exporting decks, coordinating the DeckService and the FlashcardService.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {Timestamp} from "firebase-admin/firestore";
+import {Deck} from "../interface/Deck";
+import {DECK_EXPORT_SCHEMA, DECK_EXPORT_VERSION, DeckExport, ExportedFlashcard} from "../interface/DeckExport";
+import {AnkiPackage} from "../utils/AnkiPackage";
+import {DeckService} from "./DeckService";
+import {FlashcardService} from "./FlashCardService";
+
+/**
+ * An exported file.
+ */
+export interface ExportedFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * An exported text file, produced chunk by chunk as its flashcards are read so it can be streamed.
+ */
+export interface StreamedFile {
+  fileName: string;
+  contentType: string;
+  chunks: AsyncIterable<string>;
+}
+
+/**
+ * The text formats a deck can be exported to.
+ */
+export type ExportFormat = "json" | "csv" | "md";
+
+/**
+ * Service class responsible for exporting decks.
+ */
+export class DeckExportService {
+  /**
+   * The number of flashcards read per query while a text export is streamed.
+   */
+  static readonly PAGE_SIZE = 200;
+
+  /**
+   * A service instance used to verify access to the deck.
+   */
+  private deckService: DeckService;
+
+  /**
+   * A service instance used to load the flashcards of the deck.
+   */
+  private flashcardService: FlashcardService;
+
+  /**
+   * Initializes the DeckExportService.
+   *
+   * @param {DeckService} deckService - The service handling deck operations.
+   * @param {FlashcardService} flashcardService - The service handling flashcard operations.
+   */
+  constructor(deckService: DeckService, flashcardService: FlashcardService) {
+    this.deckService = deckService;
+    this.flashcardService = flashcardService;
+  }
+
+  /**
+   * Exports a deck and its flashcards as an Anki package.
+   * The user must own the deck or the deck must be public.
+   *
+   * @param {string} userID - The ID of the user exporting the deck.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<ExportedFile>} A promise resolving to the .apkg file.
+   * @throws {ApiError} Throws when the deck cannot be read.
+   */
+  public async exportApkg(userID: string, deckID: string): Promise<ExportedFile> {
+    const deck = await this.deckService.getAccessibleDeck(userID, deckID);
+    const flashcards = await this.flashcardService.getAllFlashcards(deckID);
+
+    const content = await AnkiPackage.write(
+      deckID,
+      deck.title,
+      deck.description ?? "",
+      flashcards.map((flashcard) => this.toExportedFlashcard(flashcard))
+    );
+
+    return {
+      fileName: `${this.toFileName(deck.title)}.apkg`,
+      contentType: "application/octet-stream",
+      content,
+    };
+  }
+
+  /**
+   * Exports a deck and its flashcards as JSON, CSV or Markdown.
+   * The user must own the deck or the deck must be public. The JSON export follows the
+   * versioned `DeckExport` schema and can be imported back; the CSV export starts with the deck
+   * metadata, one `#name,value` row each, followed by the flashcards (term, definition, tags).
+   * Only the access check happens up front: the flashcards are read page by page as the file is consumed.
+   *
+   * @param {string} userID - The ID of the user exporting the deck.
+   * @param {string} deckID - The ID of the deck.
+   * @param {ExportFormat} format - The export format.
+   * @return {Promise<StreamedFile>} A promise resolving to the file, produced chunk by chunk.
+   * @throws {ApiError} Throws when the deck cannot be read.
+   */
+  public async exportDeck(userID: string, deckID: string, format: ExportFormat): Promise<StreamedFile> {
+    const deck = await this.deckService.getAccessibleDeck(userID, deckID);
+    const flashcards = this.readFlashcards(deckID);
+    const fileName = this.toFileName(deck.title);
+
+    if (format === "csv") {
+      return {fileName: `${fileName}.csv`, contentType: "text/csv; charset=utf-8", chunks: this.toCsv(deck, flashcards)};
+    }
+    if (format === "md") {
+      return {fileName: `${fileName}.md`, contentType: "text/markdown; charset=utf-8", chunks: this.toMarkdown(deck, flashcards)};
+    }
+    return {fileName: `${fileName}.json`, contentType: "application/json; charset=utf-8", chunks: this.toJson(deck, flashcards)};
+  }
+
+  /**
+   * Reads the flashcards of a deck page by page, in creation order.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @yields {ExportedFlashcard} The flashcards of the deck, in their exported form.
+   */
+  private async* readFlashcards(deckID: string): AsyncGenerator<ExportedFlashcard> {
+    let nextPageToken: string | null = null;
+    do {
+      const page: {flashcards: Array<{id: string, [key: string]: unknown}>, nextPageToken: string | null} =
+        await this.flashcardService.getFlashcardPage(deckID, DeckExportService.PAGE_SIZE, nextPageToken);
+      nextPageToken = page.nextPageToken;
+
+      for (const flashcard of page.flashcards) {
+        yield this.toExportedFlashcard(flashcard);
+      }
+    } while (nextPageToken);
+  }
+
+  /**
+   * Produces the JSON export, one flashcard per chunk. The flashcard count is the one recorded on the deck,
+   * since the flashcards are only counted as they are read.
+   *
+   * @param {Deck} deck - The deck.
+   * @param {AsyncIterable<ExportedFlashcard>} flashcards - The flashcards of the deck.
+   * @yields {string} The chunks of the JSON document.
+   */
+  private async* toJson(deck: Deck, flashcards: AsyncIterable<ExportedFlashcard>): AsyncGenerator<string> {
+    const header: Omit<DeckExport, "flashcards"> = {
+      schema: DECK_EXPORT_SCHEMA,
+      version: DECK_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      deck: {
+        id: deck.id,
+        title: deck.title,
+        description: deck.description ?? "",
+        cover_photo: deck.cover_photo ?? null,
+        tags: deck.tags ?? [],
+        category: deck.category ?? null,
+        created_at: this.toIsoString(deck.created_at),
+        flashcard_count: deck.flashcard_count ?? 0,
+      },
+    };
+
+    // Open the flashcards array of the document, then close it after the last flashcard
+    yield `${JSON.stringify(header).slice(0, -1)},"flashcards":[`;
+    let first = true;
+    for await (const flashcard of flashcards) {
+      yield (first ? "" : ",") + JSON.stringify(flashcard);
+      first = false;
+    }
+    yield "]}";
+  }
+
+  /**
+   * Produces the CSV export: the deck metadata, one `#name,value` row each, then a header row
+   * and one flashcard per chunk. `POST /v1/decks/import` skips the metadata rows.
+   *
+   * @param {Deck} deck - The deck.
+   * @param {AsyncIterable<ExportedFlashcard>} flashcards - The flashcards of the deck.
+   * @yields {string} The chunks of the CSV file.
+   */
+  private async* toCsv(deck: Deck, flashcards: AsyncIterable<ExportedFlashcard>): AsyncGenerator<string> {
+    const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value);
+
+    const metadata: Array<[string, string]> = [
+      ["schema", DECK_EXPORT_SCHEMA],
+      ["version", String(DECK_EXPORT_VERSION)],
+      ["exported_at", new Date().toISOString()],
+      ["id", deck.id],
+      ["title", deck.title],
+      ["description", deck.description ?? ""],
+      ["cover_photo", deck.cover_photo ?? ""],
+      ["tags", (deck.tags ?? []).join("; ")],
+      ["category", deck.category ?? ""],
+      ["created_at", this.toIsoString(deck.created_at) ?? ""],
+      ["flashcard_count", String(deck.flashcard_count ?? 0)],
+    ];
+    yield metadata.map(([name, value]) => `#${name},${escape(value)}\r\n`).join("");
+
+    yield "term,definition,tags\r\n";
+    for await (const flashcard of flashcards) {
+      yield `${escape(flashcard.term)},${escape(flashcard.definition)},${escape(flashcard.tags.join("; "))}\r\n`;
+    }
+  }
+
+  /**
+   * Produces the Markdown export, one flashcard per chunk.
+   *
+   * @param {Deck} deck - The deck.
+   * @param {AsyncIterable<ExportedFlashcard>} flashcards - The flashcards of the deck.
+   * @yields {string} The chunks of the Markdown document.
+   */
+  private async* toMarkdown(deck: Deck, flashcards: AsyncIterable<ExportedFlashcard>): AsyncGenerator<string> {
+    const count = deck.flashcard_count ?? 0;
+    yield `# ${deck.title}\n\n`;
+    if (deck.description) {
+      yield `${deck.description.split(/\r?\n/).map((line) => `> ${line}`).join("\n")}\n\n`;
+    }
+    yield `_${count} flashcard${count === 1 ? "" : "s"}_\n`;
+
+    for await (const flashcard of flashcards) {
+      const tags = flashcard.tags.length ? `\n\nTags: ${flashcard.tags.map((tag) => `\`${tag}\``).join(" ")}` : "";
+      yield `\n---\n\n## ${flashcard.is_starred ? "★ " : ""}${flashcard.term.replace(/\r?\n/g, " ")}\n\n${flashcard.definition}${tags}\n`;
+    }
+  }
+
+  /**
+   * Maps a stored flashcard to its exported form.
+   *
+   * @param {object} flashcard - The stored flashcard.
+   * @return {ExportedFlashcard} The exported flashcard.
+   */
+  private toExportedFlashcard(flashcard: {id: string, [key: string]: unknown}): ExportedFlashcard {
+    return {
+      id: flashcard.id,
+      term: String(flashcard.term ?? ""),
+      definition: String(flashcard.definition ?? ""),
+      is_starred: flashcard.is_starred === true,
+      tags: Array.isArray(flashcard.tags) ? flashcard.tags.map(String) : [],
+      created_at: this.toIsoString(flashcard.created_at),
+    };
+  }
+
+  /**
+   * Converts a Firestore timestamp to an ISO 8601 string.
+   *
+   * @param {unknown} value - The timestamp.
+   * @return {string | null} The ISO 8601 string, or null if the value is not a timestamp.
+   */
+  private toIsoString(value: unknown): string | null {
+    return value instanceof Timestamp ? value.toDate().toISOString() : null;
+  }
+
+  /**
+   * Turns a deck title into a safe file name.
+   *
+   * @param {string} title - The title of the deck.
+   * @return {string} The file name, without extension.
+   */
+  private toFileName(title: string): string {
+    const name = title.normalize("NFKD").replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "_");
+    return name || "deck";
+  }
+}
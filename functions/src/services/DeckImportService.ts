@@ -0,0 +1,437 @@
+/**
+ * Deck Manager API - Service
+ *
+ * @file DeckImportService.ts
+ * This module defines the service layer for importing decks from external formats.
+ * It parses the uploaded content, maps it to flashcards, validates every row against
+ * the flashcard schema, then creates the deck and its flashcards through the DeckService
+ * and the FlashcardService. The response reports which rows were accepted and why the
+ * others were rejected.
+ *
+ * Methods:
+ * - importDelimited: Creates a deck from CSV/TSV content.
+ * - importApkg: Creates a deck from an Anki package (.apkg), carrying over the note tags.
+ * - importJson: Creates a deck from a JSON deck export, carrying over the deck tags and category and the tags and stars of the flashcards.
+ *
+ * @module service
+ * @file DeckImportService.ts
+ * @class DeckImportService
+ * @classdesc Handles business logic for importing decks, coordinating the DeckService and the FlashcardService.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {ApiError} from "../helpers/apiError";
+import {flashcardSchema, MAX_FLASHCARD_TAGS} from "../schema/createFlashcardSchema";
+import {DeckExportDocument, importApkgSchema} from "../schema/importDeckSchema";
+import {deckCategoryField, deckTagsField} from "../schema/deckTaxonomySchema";
+import {DECK_EXPORT_SCHEMA} from "../interface/DeckExport";
+import {DeckCategory} from "../config/deckTaxonomy";
+import {AnkiPackage} from "../utils/AnkiPackage";
+import {Utils} from "../utils/utils";
+import {DeckService} from "./DeckService";
+import {FlashcardService} from "./FlashCardService";
+
+/**
+ * The options of a CSV/TSV import.
+ */
+interface DelimitedImportOptions {
+  title: string;
+  description: string;
+  coverPhoto?: string;
+  content: string;
+  delimiter?: string;
+  hasHeader?: boolean;
+  termColumn?: number | string;
+  definitionColumn?: number | string;
+}
+
+/**
+ * The details of an imported deck.
+ */
+interface DeckDetails {
+  title: string;
+  description: string;
+  coverPhoto?: string;
+  tags?: string[];
+  category?: DeckCategory;
+}
+
+/**
+ * The options of an Anki package import.
+ */
+interface ApkgImportOptions {
+  title?: string;
+  description?: string;
+  coverPhoto?: string;
+}
+
+/**
+ * A row of the import, before validation.
+ */
+interface ImportRow {
+  row: number;
+  term: unknown;
+  definition: unknown;
+  tags?: unknown;
+  starred?: boolean;
+}
+
+/**
+ * Service class responsible for importing decks.
+ */
+export class DeckImportService {
+  /**
+   * Header names recognized as the term column, compared case-insensitively.
+   */
+  static readonly TERM_HEADERS = ["term", "front", "word", "question", "prompt"];
+
+  /**
+   * Header names recognized as the definition column, compared case-insensitively.
+   */
+  static readonly DEFINITION_HEADERS = ["definition", "back", "meaning", "answer", "translation"];
+
+  /**
+   * The maximum number of flashcards a single import can contain.
+   */
+  static readonly MAX_IMPORT_ROWS = 1000;
+
+  /**
+   * A service instance used to create the imported deck.
+   */
+  private deckService: DeckService;
+
+  /**
+   * A service instance used to create the imported flashcards.
+   */
+  private flashcardService: FlashcardService;
+
+  /**
+   * Initializes the DeckImportService.
+   *
+   * @param {DeckService} deckService - The service handling deck operations.
+   * @param {FlashcardService} flashcardService - The service handling flashcard operations.
+   */
+  constructor(deckService: DeckService, flashcardService: FlashcardService) {
+    this.deckService = deckService;
+    this.flashcardService = flashcardService;
+  }
+
+  /**
+   * Creates a deck from CSV/TSV content.
+   * The delimiter and the presence of a header row are detected when not provided. Columns default
+   * to the recognized header names, or to the first two columns. The deck metadata rows a CSV
+   * export of this API starts with are skipped, except for the tags and category of the deck, which are kept.
+   *
+   * @param {string} userID - The ID of the user importing the deck.
+   * @param {DelimitedImportOptions} options - The deck details, the content and the parsing options.
+   * @return {Promise<object>} A promise resolving to the created deck, its likely duplicates and the per-row report.
+   * @throws {ApiError} Throws when the content cannot be parsed, a column cannot be resolved, or no row is valid.
+   */
+  public async importDelimited(userID: string, options: DelimitedImportOptions): Promise<object> {
+    const delimiter = options.delimiter ?? this.detectDelimiter(options.content);
+
+    let rows: Array<{line: number, cells: string[]}>;
+    let metadata: Record<string, string>;
+    try {
+      ({metadata, rows} = this.splitExportMetadata(Utils.parseDelimited(options.content, delimiter)));
+    } catch (error) {
+      if (error instanceof Error && error.name === "UNTERMINATED_QUOTED_FIELD") {
+        throw new ApiError(error.message, 400, {errorCode: "MALFORMED_IMPORT_CONTENT"});
+      }
+      throw error;
+    }
+
+    const hasHeader = options.hasHeader ?? this.looksLikeHeader(rows[0]?.cells ?? [], options);
+    const header = hasHeader ? rows[0]?.cells.map((cell) => cell.trim().toLowerCase()) ?? [] : [];
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+
+    if (dataRows.length > DeckImportService.MAX_IMPORT_ROWS) {
+      throw new ApiError(
+        `An import can contain at most ${DeckImportService.MAX_IMPORT_ROWS} rows, received ${dataRows.length}.`,
+        400,
+        {errorCode: "IMPORT_TOO_LARGE"}
+      );
+    }
+
+    const termIndex = this.resolveColumn(options.termColumn, header, DeckImportService.TERM_HEADERS, 0, "termColumn");
+    const definitionIndex = this.resolveColumn(
+      options.definitionColumn, header, DeckImportService.DEFINITION_HEADERS, 1, "definitionColumn"
+    );
+
+    return this.createFromRows(
+      userID,
+      {...options, ...this.readExportTaxonomy(metadata)},
+      dataRows.map(({line, cells}) => ({row: line, term: cells[termIndex], definition: cells[definitionIndex]})),
+      {delimiter, has_header: hasHeader}
+    );
+  }
+
+  /**
+   * Creates a deck from an Anki package.
+   * Every note becomes a flashcard (first field as term, second as definition, cloze deletions
+   * hidden in the term and revealed in the definition) and keeps its tags. Rows are numbered by note order.
+   * The deck title defaults to the name of the Anki deck holding most notes.
+   *
+   * @param {string} userID - The ID of the user importing the deck.
+   * @param {Buffer} content - The content of the .apkg file.
+   * @param {ApkgImportOptions} options - Overrides of the deck title, description and cover photo.
+   * @return {Promise<object>} A promise resolving to the created deck, its likely duplicates and the per-note report.
+   * @throws {ApiError} Throws when the package cannot be read, is too large, or contains no valid note.
+   */
+  public async importApkg(userID: string, content: Buffer, options: ApkgImportOptions): Promise<object> {
+    let deckName: string | null;
+    let notes: Array<{term: string, definition: string, tags: string[]}>;
+    try {
+      ({deckName, notes} = await AnkiPackage.read(content));
+    } catch (error) {
+      if (error instanceof Error && (error.name === "INVALID_APKG" || error.name === "UNSUPPORTED_APKG_VERSION")) {
+        throw new ApiError(error.message, 400, {errorCode: error.name});
+      }
+      throw error;
+    }
+
+    if (notes.length > DeckImportService.MAX_IMPORT_ROWS) {
+      throw new ApiError(
+        `An import can contain at most ${DeckImportService.MAX_IMPORT_ROWS} notes, received ${notes.length}.`,
+        400,
+        {errorCode: "IMPORT_TOO_LARGE"}
+      );
+    }
+
+    return this.createFromRows(
+      userID,
+      {
+        title: options.title ?? (deckName || "Anki Deck").slice(0, 100),
+        description: options.description ?? "Imported from Anki",
+        coverPhoto: options.coverPhoto,
+      },
+      notes.map(({term, definition, tags}, i) => ({
+        row: i + 1,
+        term,
+        definition,
+        tags: [...new Set(tags)].slice(0, MAX_FLASHCARD_TAGS).map((tag) => tag.slice(0, 100)),
+      })),
+      {source: "apkg"}
+    );
+  }
+
+  /**
+   * Creates a deck from a JSON deck export (see `DeckExport`).
+   * The title, description, cover photo, tags and category of the exported deck are reused, and every flashcard
+   * keeps its term, definition, tags, star and order. A cover photo that is not a valid deck cover
+   * URL is replaced by the default cover. Rows are numbered by flashcard order.
+   *
+   * @param {string} userID - The ID of the user importing the deck.
+   * @param {DeckExportDocument} document - The validated export document.
+   * @return {Promise<object>} A promise resolving to the created deck, its likely duplicates and the per-flashcard report.
+   * @throws {ApiError} Throws when the export contains no valid flashcard.
+   */
+  public async importJson(userID: string, document: DeckExportDocument): Promise<object> {
+    const coverPhoto = document.deck.cover_photo ?? undefined;
+
+    return this.createFromRows(
+      userID,
+      {
+        title: document.deck.title,
+        description: document.deck.description,
+        coverPhoto: importApkgSchema.shape.coverPhoto.safeParse(coverPhoto).success ? coverPhoto : undefined,
+        tags: document.deck.tags,
+        category: document.deck.category ?? undefined,
+      },
+      document.flashcards.map(({term, definition, tags, is_starred: starred}, i) => ({
+        row: i + 1,
+        term,
+        definition,
+        tags,
+        starred: starred === true,
+      })),
+      {source: "json", version: document.version}
+    );
+  }
+
+  /**
+   * Validates the rows against the flashcard schema, then creates the deck and the valid flashcards.
+   * If the flashcards cannot be created, the new deck is deleted again.
+   *
+   * @param {string} userID - The ID of the user importing the deck.
+   * @param {DeckDetails} deckDetails - The title, description, cover photo, tags and category of the deck.
+   * @param {ImportRow[]} rows - The rows to import.
+   * @param {object} detected - The parsing options that were used, echoed in the report.
+   * @return {Promise<object>} A promise resolving to the created deck, its likely duplicates and the per-row report.
+   * @throws {ApiError} Throws NO_VALID_IMPORT_ROWS when every row is rejected.
+   */
+  private async createFromRows(
+    userID: string,
+    deckDetails: DeckDetails,
+    rows: ImportRow[],
+    detected: object
+  ): Promise<object> {
+    const accepted: Array<{row: number, flashcard: {term: string, definition: string, tags?: string[], is_starred?: boolean}}> = [];
+    const rejected: Array<{row: number, errors: Array<{field: string, message: string}>}> = [];
+
+    rows.forEach(({row, term, definition, tags, starred}) => {
+      const validation = flashcardSchema.safeParse({term, definition, tags: Array.isArray(tags) && tags.length ? tags : undefined});
+      if (validation.success) {
+        const {tags: validTags, ...flashcard} = validation.data;
+        accepted.push({
+          row,
+          flashcard: {...flashcard, ...(validTags ? {tags: validTags} : {}), ...(starred ? {is_starred: true} : {})},
+        });
+      } else {
+        rejected.push({
+          row,
+          errors: validation.error.errors.map(({path, message}) => ({field: path[0] as string, message})),
+        });
+      }
+    });
+
+    const report = {
+      ...detected,
+      total_rows: rows.length,
+      accepted_count: accepted.length,
+      rejected_count: rejected.length,
+      rejected,
+    };
+
+    if (accepted.length === 0) {
+      throw new ApiError("The import contains no valid flashcard.", 400, {errorCode: "NO_VALID_IMPORT_ROWS", report});
+    }
+
+    // The accepted cards are compared with the public decks, so imported copies are reported as duplicates
+    const {deck, duplicates} = await this.deckService.createDeck(
+      deckDetails.title,
+      userID,
+      deckDetails.coverPhoto ?? null,
+      deckDetails.description,
+      accepted.map(({flashcard: {term, definition}}) => ({term, definition})),
+      {tags: deckDetails.tags, category: deckDetails.category}
+    ) as {deck: {id: string}, duplicates: object[]};
+
+    let flashcards: Array<{id: string}>;
+    try {
+      flashcards = await this.flashcardService.createFlashcards(
+        userID,
+        deck.id,
+        accepted.map(({flashcard}) => flashcard)
+      ) as Array<{id: string}>;
+    } catch (error) {
+      await this.deckService.deleteDeck(userID, [deck.id]);
+      throw error;
+    }
+
+    return {
+      deck: {...deck, flashcard_count: flashcards.length},
+      duplicates,
+      report: {
+        ...report,
+        accepted: accepted.map(({row}, i) => ({row, flashcard_id: flashcards[i].id})),
+      },
+    };
+  }
+
+  /**
+   * Splits off the deck metadata rows (`#name,value`) a CSV export of this API starts with. Content is only
+   * treated as an export when its first row is the `#schema` row, so a first term starting with `#` is kept.
+   *
+   * @param {Array<{line: number, cells: string[]}>} rows - The parsed rows.
+   * @return {object} The metadata values keyed by name, and the rows following the metadata.
+   */
+  private splitExportMetadata(
+    rows: Array<{line: number, cells: string[]}>
+  ): {metadata: Record<string, string>, rows: Array<{line: number, cells: string[]}>} {
+    const [first] = rows;
+    if (first?.cells[0]?.trim() !== "#schema" || first.cells[1]?.trim() !== DECK_EXPORT_SCHEMA) return {metadata: {}, rows};
+
+    const end = rows.findIndex(({cells}) => !cells[0]?.startsWith("#"));
+    const metadataRows = end === -1 ? rows : rows.slice(0, end);
+    return {
+      metadata: Object.fromEntries(metadataRows.map(({cells}) => [cells[0].trim().slice(1), cells[1] ?? ""])),
+      rows: end === -1 ? [] : rows.slice(end),
+    };
+  }
+
+  /**
+   * Reads the tags and category of the deck from the metadata of a CSV export. Values that are not
+   * valid deck tags or a category of the taxonomy are left out.
+   *
+   * @param {Record<string, string>} metadata - The metadata values keyed by name.
+   * @return {object} The tags and category of the exported deck, when present and valid.
+   */
+  private readExportTaxonomy(metadata: Record<string, string>): {tags?: string[], category?: DeckCategory} {
+    const tags = deckTagsField.safeParse((metadata.tags ?? "").split(";").map((tag) => tag.trim()).filter(Boolean));
+    const category = deckCategoryField.safeParse(metadata.category);
+
+    return {
+      ...(tags.success && tags.data.length > 0 ? {tags: tags.data} : {}),
+      ...(category.success ? {category: category.data} : {}),
+    };
+  }
+
+  /**
+   * Detects the delimiter from the first line: the most frequent of tab, comma and semicolon.
+   *
+   * @param {string} content - The delimited text.
+   * @return {string} The detected delimiter, a comma when none appears.
+   */
+  private detectDelimiter(content: string): string {
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+    const candidates = ["\t", ",", ";"];
+    const counts = candidates.map((candidate) => firstLine.split(candidate).length - 1);
+    const best = counts.indexOf(Math.max(...counts));
+
+    return counts[best] > 0 ? candidates[best] : ",";
+  }
+
+  /**
+   * Checks whether the first row is a header: it names the requested columns,
+   * or contains a recognized term or definition header.
+   *
+   * @param {string[]} cells - The cells of the first row.
+   * @param {DelimitedImportOptions} options - The import options.
+   * @return {boolean} True if the first row is a header.
+   */
+  private looksLikeHeader(cells: string[], options: DelimitedImportOptions): boolean {
+    if (typeof options.termColumn === "string" || typeof options.definitionColumn === "string") return true;
+
+    const names = cells.map((cell) => cell.trim().toLowerCase());
+    return names.some((name) =>
+      DeckImportService.TERM_HEADERS.includes(name) || DeckImportService.DEFINITION_HEADERS.includes(name)
+    );
+  }
+
+  /**
+   * Resolves a column to its index.
+   *
+   * @param {number | string | undefined} column - The requested column: an index, a header name, or undefined.
+   * @param {string[]} header - The lowercased header row, empty when the content has none.
+   * @param {string[]} knownHeaders - The header names recognized for this column.
+   * @param {number} fallback - The index used when the column is neither requested nor recognized.
+   * @param {string} field - The name of the option, used in error details.
+   * @return {number} The index of the column.
+   * @throws {ApiError} Throws IMPORT_COLUMN_NOT_FOUND when a named column is not in the header.
+   */
+  private resolveColumn(
+    column: number | string | undefined,
+    header: string[],
+    knownHeaders: string[],
+    fallback: number,
+    field: string
+  ): number {
+    if (typeof column === "number") return column;
+
+    if (typeof column === "string") {
+      const index = header.indexOf(column.trim().toLowerCase());
+      if (index === -1) {
+        throw new ApiError(`Column "${column}" was not found in the header row.`, 400, {
+          errorList: [{field, code: "IMPORT_COLUMN_NOT_FOUND", message: `Column "${column}" was not found in the header row`}],
+        });
+      }
+      return index;
+    }
+
+    const recognized = header.findIndex((name) => knownHeaders.includes(name));
+    return recognized === -1 ? fallback : recognized;
+  }
+}
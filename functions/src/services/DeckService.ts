@@ -8,12 +8,26 @@
  * and prepares data structures for creation or retrieval (e.g., setting defaults, timestamps).
  *
  * Methods:
- * - getOwnerDeck: Retrieves paginated decks owned by a specific user via the repository.
- * - getPublicDecks: Retrieves paginated public (non-private) decks via the repository.
+ * - getOwnerDeck: Retrieves paginated decks owned by a specific user via the repository, optionally by tag and category.
+ * - getPublicDecks: Retrieves paginated public (non-private) decks via the repository, optionally by tag and category.
  * - getSpecificDeck: Retrieves details for a single deck by its ID via the repository.
- * - createDeck: Constructs a new deck object with defaults (privacy, cover photo, timestamp) and requests its creation via the repository.
- * - updateDeck: Passes update data for a specific deck to the repository.
+ * - getAccessibleDeck: Retrieves a deck the user is allowed to read (public, owned or shared with the user, not deleted).
+ * - searchDeck: Searches decks by keyword, by embedding similarity or both, fusing the rankings with reciprocal rank fusion, paging through the ranking stored with the first page.
+ * - getCategories: Lists the deck categories of the taxonomy with their labels.
+ * - getTagCloud: Counts the tags and categories of the public decks or of the user's decks.
+ * - suggestDecks: Suggests past queries and deck titles starting with a prefix, without embedding or logging anything.
+ * - getRelatedDecks: Retrieves the public decks most similar to a deck from its stored embedding.
+ * - createDeck: Constructs a new deck object with defaults (privacy, cover photo, timestamp) and requests its creation via the repository, reporting likely duplicates.
+ * - updateDeck: Passes update data for a specific deck to the repository, re-embedding the deck when its title or description changes.
+ * - updateDeckTaxonomy: Replaces the tags or the category of a deck the user may edit.
+ * - getEmbeddingFields: Builds the embedding and the search tokens of a deck from its title and description.
+ * - forkDeck: Copies a public or owned deck and its flashcards into a new private deck owned by the user.
  * - deleteDeck: Requests the hard deletion of one or more decks by their IDs via the repository.
+ * - restoreDeletedDeck: Takes a soft-deleted deck of the user out of the trash.
+ * - emptyTrash: Permanently deletes every soft-deleted deck of the user.
+ * - purgeDeletedDecks: Permanently deletes the decks soft-deleted longer ago than the trash retention period.
+ * - recommendPublicDecks: Recommends public decks blending search history, saved and studied decks, and trending decks.
+ * - reembedOutdatedDecks: Re-embeds every deck whose embedding is missing or was produced by an older model, and backfills the search index of decks and flashcards and the deck popularity counters.
  *
  * @module service
  * @file DeckService.ts
@@ -21,23 +35,96 @@
  * @classdesc Handles business logic and data orchestration for deck operations, acting as an intermediary between the controller and the repository.
  * @author Arthur M. Artugue
  * @created 2024-03-26
- * @updated 2025-05-22
+ * @updated 2026-10-19
  */
 
 import {DeckRepository} from "../repositories/DeckRepository";
 import {FirebaseAdmin} from "../config/FirebaseAdmin";
 import {Utils} from "../utils/utils";
-import {Deck, SaveDeck} from "../interface/Deck";
-import {Gemini} from "../config/Gemini";
+import {Deck, DeckEmbeddingInfo, DeckTaxonomyFilter, DeletedDeckInfo, SaveDeck} from "../interface/Deck";
+import {DECK_CATEGORIES, DECK_CATEGORY_LABELS, DeckCategory} from "../config/deckTaxonomy";
+import {EmbeddingProvider} from "../interface/EmbeddingProvider";
+import {DeckSearchHit, DeckSearchResult, SearchDeck, SearchFilter, SearchMode} from "../interface/Search";
+import {DeckRecommendation, RECOMMENDATION_SOURCES, RecommendationSource} from "../interface/Recommendation";
 import {FieldValue, Timestamp} from "firebase-admin/firestore";
 import {logger} from "firebase-functions";
+import {createHash} from "crypto";
 import {QuizRepository} from "../repositories/QuizRepository";
+import {ApiError} from "../helpers/apiError";
+import {PermissionService} from "./PermissionService";
+import {DuplicateDeckService} from "./DuplicateDeckService";
+import {DuplicateDeck} from "../interface/Moderation";
 
 /**
  * Service class responsible for handling operations related to decks.
  * This class provides methods to manage and manipulate deck data.
  */
-export class DeckService extends Gemini {
+export class DeckService {
+  /**
+   * The rank constant of reciprocal rank fusion; larger values flatten the gap between top and lower ranks.
+   */
+  private static readonly RRF_K = 60;
+
+  /**
+   * The number of recent searches of the user scanned for suggestions.
+   */
+  private static readonly RECENT_QUERIES_SCANNED = 50;
+
+  /**
+   * The number of decks each leg of a search returns before the legs are ranked together,
+   * which also bounds how far a search can be paged.
+   */
+  private static readonly MAX_SEARCH_RESULTS = 100;
+
+  /**
+   * The number of decks the keyword leg reads through the token index. The index cannot order the decks by
+   * relevance, so the leg reads more candidates than it keeps and ranks them before keeping the best.
+   */
+  private static readonly MAX_KEYWORD_CANDIDATES = 500;
+
+  /**
+   * How long the ranking of a search stays available to its following pages, in milliseconds.
+   */
+  private static readonly SEARCH_SESSION_TTL_MS = 30 * 60 * 1000;
+
+  /**
+   * The number of recent searches of the user whose embeddings are averaged for recommendations.
+   */
+  private static readonly RECENT_SEARCHES_SCANNED = 20;
+
+  /**
+   * The number of recent activity logs, and of recently saved decks, of the user read for recommendations.
+   */
+  private static readonly RECENT_ACTIVITY_SCANNED = 50;
+
+  /**
+   * The most decks each recommendation source returns before the sources are blended.
+   */
+  private static readonly MAX_RECOMMENDATION_CANDIDATES = 100;
+
+  /**
+   * The number of nearest decks fetched for related decks when the decks of the same owner are left out,
+   * which all count against the limit of the nearest-neighbor query.
+   */
+  private static readonly MAX_RELATED_CANDIDATES = 50;
+
+  /**
+   * The number of decks read per query when counting tags, and the most decks a tag cloud counts.
+   * Past the cap the counts are a sample, which the response reports through `scanned_decks`.
+   */
+  private static readonly TAG_CLOUD_PAGE_SIZE = 500;
+  private static readonly MAX_TAG_CLOUD_DECKS = 5000;
+
+  /**
+   * The weight of each recommendation source in the blended score. Trending decks weigh less so they
+   * only fill in around the personalized recommendations, unless the user has no history.
+   */
+  private static readonly RECOMMENDATION_WEIGHTS: Record<RecommendationSource, number> = {
+    search_history: 1,
+    activity: 1,
+    trending: 0.5,
+  };
+
   /**
    * A repository instance for managing deck-related data operations.
    * Provides methods to interact with the data source for creating, reading,
@@ -45,15 +132,39 @@ export class DeckService extends Gemini {
    */
   private deckRepository: DeckRepository;
 
+  /**
+   * The provider used to embed decks and search queries.
+   */
+  private embeddingProvider: EmbeddingProvider;
+
+  /**
+   * The service authorizing deck operations from the deck owner and its collaborators.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * The service comparing new decks with the public decks to warn about likely duplicates.
+   */
+  private duplicateDeckService: DuplicateDeckService;
+
   /**
    * Initializes the DeckService with a DeckRepository instance.
    *
    * @param {DeckRepository} deckRepository - The repository handling data operations.
-   * @param {FlashcardService} flashcardService - The repository handling data operations.
+   * @param {EmbeddingProvider} embeddingProvider - The provider used to embed decks and search queries.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   * @param {DuplicateDeckService} duplicateDeckService - The service detecting near-duplicate decks.
    */
-  constructor(deckRepository: DeckRepository) {
-    super();
+  constructor(
+    deckRepository: DeckRepository,
+    embeddingProvider: EmbeddingProvider,
+    permissionService: PermissionService,
+    duplicateDeckService: DuplicateDeckService
+  ) {
     this.deckRepository = deckRepository;
+    this.embeddingProvider = embeddingProvider;
+    this.permissionService = permissionService;
+    this.duplicateDeckService = duplicateDeckService;
   }
 
   /**
@@ -64,11 +175,18 @@ export class DeckService extends Gemini {
    * @param {number} limit - The maximum number of decks to retrieve per page.
    * @param {string | null} nextPageToken - Token for fetching the next page of results, or null for the first page.
    * @param {string} orderBy - The field by which to order the results (e.g., "created_at").
+   * @param {DeckTaxonomyFilter} [taxonomy={}] - Only retrieve the decks with this tag and/or category.
    * @return {Promise<object | void>} A promise resolving to the paginated deck data object from the repository, or void/throws on error.
    * @throws Will re-throw errors encountered during repository access.
    */
-  public async getOwnerDeck(userID: string, limit: number, nextPageToken: string | null, orderBy: string): Promise<object | void> {
-    const decks = await this.deckRepository.getOwnerDecks(userID, limit, nextPageToken, orderBy);
+  public async getOwnerDeck(
+    userID: string,
+    limit: number,
+    nextPageToken: string | null,
+    orderBy: string,
+    taxonomy: DeckTaxonomyFilter = {}
+  ): Promise<object | void> {
+    const decks = await this.deckRepository.getOwnerDecks(userID, limit, nextPageToken, orderBy, taxonomy);
     return decks;
   }
 
@@ -78,11 +196,12 @@ export class DeckService extends Gemini {
    *
    * @param {number} limit - The maximum number of decks to retrieve per page.
    * @param {string | null} nextPageToken - Token for fetching the next page of results, or null for the first page.
+   * @param {DeckTaxonomyFilter} [taxonomy={}] - Only retrieve the decks with this tag and/or category.
    * @return {Promise<object | void>} A promise resolving to the paginated public deck data object from the repository, or void/throws on error.
    * @throws Will re-throw errors encountered during repository access.
    */
-  public async getPublicDecks(limit: number, nextPageToken: string | null): Promise<object | void> {
-    const decks = await this.deckRepository.getPublicDecks(limit, nextPageToken);
+  public async getPublicDecks(limit: number, nextPageToken: string | null, taxonomy: DeckTaxonomyFilter = {}): Promise<object | void> {
+    const decks = await this.deckRepository.getPublicDecks(limit, nextPageToken, taxonomy);
     return decks;
   }
 
@@ -136,46 +255,278 @@ export class DeckService extends Gemini {
   }
 
   /**
-   * Searches for decks based on a query.
-   * Delegates the retrieval logic to the deck repository.
+   * Retrieves a deck the user is allowed to read: the deck must exist, not be deleted,
+   * and be either public, owned by the user or shared with the user.
+   *
+   * @param {string} userID - The ID of the user requesting the deck.
+   * @param {string} deckID - The unique identifier of the deck.
+   * @return {Promise<Deck>} A promise resolving to the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_ACCESS_DECK (403).
+   */
+  public async getAccessibleDeck(userID: string, deckID: string): Promise<Deck> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+
+    if (!(await this.permissionService.can(userID, deckID, deck, "read"))) {
+      throw new ApiError(
+        `User ${userID} is not authorized to access deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_ACCESS_DECK"}
+      );
+    }
+
+    return deck;
+  }
+
+  /**
+   * Searches for decks based on a query. Depending on the mode, the keyword leg matches the query tokens
+   * against the `search_tokens` index of the decks, the vector leg matches the query embedding against
+   * the deck embeddings, and hybrid mode fuses both rankings with reciprocal rank fusion.
+   * Searches that embed the query are logged, except searches of deleted decks.
+   *
+   * The query is embedded and ranked once, on the first page. When the ranking spans more than one page it
+   * is stored as a search session, and the `nextPageToken` carries the session, the offset of the next page
+   * and a hash of the search: the following pages read the stored ranking, so pages never skip or repeat
+   * decks. The token is rejected when reused by another user or with another query, filter, mode or
+   * taxonomy filter, and once the session expires. Decks deleted, or made private during a search of the
+   * public decks, after the first page are left out of the following pages.
+   *
+   * Each leg ranks at most `MAX_SEARCH_RESULTS` decks, the keyword leg keeping the best of the candidates it
+   * read; `truncated` is set when a leg found more decks than that, so more decks may match than the search
+   * returns. In `MY_DECKS` the decks the user collaborates on are searched along with the decks of the user. The tag filter applies to the candidates of each leg,
+   * so a rare tag may match fewer decks than the query would on its own.
    *
    * @param {string} userID - The ID of the user whose decks are to be retrieved.
    * @param {string} query - The search query string.
    * @param {number} limit - The maximum number of decks to retrieve per page.
-   * @param {string} filter - Flag indicating whether to search the user's own decks, saved decks, or public decks.
-   * @return {Promise<object | void>} A promise resolving to the paginated deck data object from the repository, or void/throws on error.
-   * @throws Will re-throw errors encountered during repository access.
+   * @param {SearchFilter} filter - Flag indicating whether to search the user's own decks, saved decks, public decks or deleted decks.
+   * @param {SearchMode} [mode="hybrid"] - The legs of the search to run: hybrid, vector or keyword.
+   * @param {string | null} [nextPageToken=null] - The token returned with the previous page, or null for the first page.
+   * @param {DeckTaxonomyFilter} [taxonomy={}] - Only search the decks with this tag and/or category.
+   * @return {Promise<object>} A promise resolving to the page of decks, best match first, with their relevance scores, whether the results were truncated and the next page token.
+   * @throws {ApiError} Throws INVALID_PAGE_TOKEN (400) or PAGE_TOKEN_EXPIRED (400); re-throws errors encountered during repository access.
    */
-  public async searchDeck(userID: string, query: string, limit:number, filter: string): Promise<object | void> {
-    let decks;
-    const embedResponse = await this.embedQuery(query);
-    const firstEmbedObj = embedResponse.embeddings[0];
-    const embeddedQuery: number[] = firstEmbedObj.values;
-
-    // Kick off the log write if filter is not DELETED_DECKS
-    if (filter !== "DELETED_DECKS") {
-      void this.deckRepository.logDeckSearch(userID, query, embeddedQuery)
-        .catch((err) => {
-          logger.error("Error writing log to Firestore:", err);
-        });
+  public async searchDeck(
+    userID: string,
+    query: string,
+    limit: number,
+    filter: SearchFilter,
+    mode: SearchMode = "hybrid",
+    nextPageToken: string | null = null,
+    taxonomy: DeckTaxonomyFilter = {}
+  ): Promise<object> {
+    const tokens = Utils.searchQueryTokens(query);
+    const searchHash = this.hashSearch(tokens, filter, mode, taxonomy);
+
+    if (nextPageToken) {
+      return this.getSearchPage(userID, limit, filter, mode, nextPageToken, searchHash);
     }
 
-    if (filter === "MY_DECKS") {
-      decks = await this.deckRepository.searchOwnerDecks(userID, query, embeddedQuery, limit);
-    } else if (filter === "SAVED_DECKS") {
-      decks = await this.deckRepository.searchSavedDecks(userID, embeddedQuery, limit);
-    } else if (filter === "PUBLIC_DECKS") {
-      decks = await this.deckRepository.searchPublicDecks(userID, embeddedQuery, limit);
-    } else if (filter === "DELETED_DECKS") {
-      decks = await this.deckRepository.searchDeletedDecks(userID, query, embeddedQuery, limit);
+    let embeddedQuery: number[] | null = null;
+    if (mode !== "keyword") {
+      embeddedQuery = await this.embeddingProvider.embedQuery(query);
+
+      // Kick off the log write if filter is not DELETED_DECKS
+      if (filter !== "DELETED_DECKS") {
+        void this.deckRepository.logDeckSearch(userID, query, embeddedQuery)
+          .catch((err) => {
+            logger.error("Error writing log to Firestore:", err);
+          });
+      }
     }
 
-    return decks;
+    const [keywordHits, vectorHits] = await Promise.all([
+      mode !== "vector" ? this.deckRepository.searchDecksByKeyword(filter, userID, tokens, DeckService.MAX_KEYWORD_CANDIDATES, taxonomy) : [],
+      embeddedQuery ? this.deckRepository.searchDecksByVector(filter, userID, embeddedQuery, DeckService.MAX_SEARCH_RESULTS, taxonomy) : [],
+    ]);
+
+    const ranked = this.rankSearchHits(tokens, keywordHits, vectorHits, mode);
+    const truncated = keywordHits.length > DeckService.MAX_SEARCH_RESULTS || vectorHits.length >= DeckService.MAX_SEARCH_RESULTS;
+
+    let next: string | null = null;
+    if (ranked.length > limit) {
+      const now = Date.now();
+      const sessionID = await this.deckRepository.saveSearchSession({
+        user_id: userID,
+        search_hash: searchHash,
+        results: ranked.map(({id, score, keywordScore, vectorScore}) => ({
+          id,
+          score,
+          keyword_score: keywordScore,
+          vector_score: vectorScore,
+        })),
+        truncated,
+        created_at: FirebaseAdmin.convertToTimestamp(new Date(now)),
+        expires_at: FirebaseAdmin.convertToTimestamp(new Date(now + DeckService.SEARCH_SESSION_TTL_MS)),
+      });
+      next = this.encodeSearchPageToken(sessionID, limit, searchHash);
+    }
+
+    const page = ranked.slice(0, limit);
+    const ownerNames = await this.deckRepository.getDeckOwnerNames(page.map(({deck}) => deck.owner_id));
+
+    const decks: DeckSearchResult[] = page.map(({id, deck, score, keywordScore, vectorScore}) => ({
+      id,
+      owner_name: ownerNames[deck.owner_id],
+      ...deck,
+      score,
+      keyword_score: keywordScore,
+      vector_score: vectorScore,
+    }));
+
+    return {
+      decks,
+      mode,
+      truncated,
+      nextPageToken: next,
+    };
+  }
+
+  /**
+   * Lists the deck categories of the taxonomy with their labels, in taxonomy order.
+   *
+   * @return {object} The categories.
+   */
+  public getCategories(): {categories: Array<{category: DeckCategory, label: string}>} {
+    return {
+      categories: DECK_CATEGORIES.map((category) => ({category, label: DECK_CATEGORY_LABELS[category]})),
+    };
+  }
+
+  /**
+   * Counts the tags and categories of the non-deleted public decks, or of the non-deleted decks of the user.
+   * Tags are returned most used first, ties in alphabetical order; every category is returned, empty ones
+   * included, in taxonomy order. Counting stops after `MAX_TAG_CLOUD_DECKS` decks.
+   *
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {string} scope - PUBLIC_DECKS or MY_DECKS.
+   * @param {number} limit - The maximum number of tags to return.
+   * @return {Promise<object>} A promise resolving to the tag counts, the category counts and the number of decks counted.
+   * @throws Will re-throw errors encountered during repository access.
+   */
+  public async getTagCloud(userID: string, scope: "PUBLIC_DECKS" | "MY_DECKS", limit: number): Promise<object> {
+    const tagCounts = new Map<string, number>();
+    const categoryCounts = new Map<DeckCategory, number>();
+    let scannedDecks = 0;
+    let startAfterID: string | null = null;
+
+    do {
+      const page: {decks: Array<{tags?: string[], category?: DeckCategory | null}>, nextPageToken: string | null} =
+        await this.deckRepository.getDeckTaxonomyPage(scope, userID, DeckService.TAG_CLOUD_PAGE_SIZE, startAfterID);
+
+      page.decks.forEach(({tags, category}) => {
+        (tags ?? []).forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1));
+        if (category) categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1);
+      });
+      scannedDecks += page.decks.length;
+      startAfterID = page.nextPageToken;
+    } while (startAfterID && scannedDecks < DeckService.MAX_TAG_CLOUD_DECKS);
+
+    const tags = [...tagCounts.entries()]
+      .sort(([tagA, countA], [tagB, countB]) => countB - countA || tagA.localeCompare(tagB))
+      .slice(0, limit)
+      .map(([tag, count]) => ({tag, count}));
+
+    return {
+      tags,
+      categories: this.getCategories().categories.map(({category, label}) => ({
+        category,
+        label,
+        count: categoryCounts.get(category) ?? 0,
+      })),
+      scanned_decks: scannedDecks,
+    };
+  }
+
+  /**
+   * Suggests completions for a partially typed search query: the user's own past queries starting with
+   * the prefix, then the titles of the user's own and public decks starting with it. Suggestions are
+   * cheap enough to request on every keystroke: no embedding is computed and no search is logged.
+   *
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {string} prefix - The partially typed query.
+   * @param {number} limit - The maximum number of suggestions to return.
+   * @return {Promise<object>} A promise resolving to the suggestions, past queries first.
+   */
+  public async suggestDecks(userID: string, prefix: string, limit: number): Promise<object> {
+    const normalizedPrefix = prefix.toLowerCase().replace(/\s+/g, " ").trimStart();
+
+    const [recentQueries, titles] = await Promise.all([
+      this.deckRepository.getRecentSearchQueries(userID, DeckService.RECENT_QUERIES_SCANNED),
+      this.deckRepository.suggestDeckTitles(userID, Utils.cleanTitle(prefix), limit),
+    ]);
+
+    const suggestions: Array<{text: string, type: "query" | "deck", deck_id: string | null}> = [];
+    const seen = new Set<string>();
+    const add = (text: string, type: "query" | "deck", deckID: string | null) => {
+      const key = text.toLowerCase().replace(/\s+/g, " ").trim();
+      if (seen.has(key)) return;
+      seen.add(key);
+      suggestions.push({text, type, deck_id: deckID});
+    };
+
+    // Keep at least half of the suggestions for deck titles
+    recentQueries
+      .filter((query) => query.toLowerCase().replace(/\s+/g, " ").startsWith(normalizedPrefix))
+      .slice(0, Math.ceil(limit / 2))
+      .forEach((query) => add(query.trim(), "query", null));
+    titles.forEach(({id, title}) => add(title, "deck", id));
+
+    return {suggestions: suggestions.slice(0, limit)};
+  }
+
+  /**
+   * Retrieves the public decks most similar to a deck, nearest first, by running a nearest-neighbor query
+   * on the stored embedding of the deck. The deck itself is never returned; the other decks of its owner
+   * are left out when `excludeSameOwner` is set. A deck without an embedding has no related decks.
+   *
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} limit - The maximum number of decks to return.
+   * @param {boolean} excludeSameOwner - Whether to leave out the decks of the owner of the deck.
+   * @return {Promise<object>} A promise resolving to the related decks with their owner name and cosine similarity.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_ACCESS_DECK (403) when the user cannot read the deck.
+   */
+  public async getRelatedDecks(userID: string, deckID: string, limit: number, excludeSameOwner: boolean): Promise<object> {
+    const deck = await this.getAccessibleDeck(userID, deckID);
+
+    const [vector] = await this.deckRepository.getDeckEmbeddings([deckID]);
+    if (!vector) {
+      return {decks: []};
+    }
+
+    // Filtered out decks count against the limit of the query, so ask for enough of them
+    const candidates = excludeSameOwner ? Math.max(DeckService.MAX_RELATED_CANDIDATES, limit + 1) : limit + 1;
+    const hits = (await this.deckRepository.searchDecksByVector("PUBLIC_DECKS", userID, vector, candidates))
+      .filter((hit) => hit.id !== deckID && !(excludeSameOwner && hit.deck.owner_id === deck.owner_id))
+      .slice(0, limit);
+
+    const ownerNames = await this.deckRepository.getDeckOwnerNames(hits.map((hit) => hit.deck.owner_id));
+    const decks = hits.map((hit) => ({
+      id: hit.id,
+      owner_name: ownerNames[hit.deck.owner_id],
+      ...hit.deck,
+      similarity: 1 - (hit.distance ?? 0),
+    }));
+
+    return {decks};
   }
 
   /**
    * Creates a new deck entity with default values and cleaned data.
    * Constructs the deck data object and delegates persistence to the repository.
+   * The new deck is compared with the public decks, and the likely duplicates are returned alongside it.
    *
    * @param {string} title - The title for the new deck.
    * @param {string} userID - The ID of the user creating the deck (owner).
@@ -184,7 +535,8 @@ export class DeckService extends Gemini {
    * @param {Array<object> | null} flashcards - Optional array of flashcard objects to be associated with the deck.
    * @param {string} flashcards[].term - The term for the flashcard.
    * @param {string} flashcards[].definition - The definition for the flashcard.
-   * @return {Promise<object | void>} A promise resolving to the created deck data object from the repository, or void/throws on error.
+   * @param {object} [taxonomy={}] - Optional tags (already normalized) and category of the deck.
+   * @return {Promise<object | void>} A promise resolving to the created deck data object from the repository and its likely duplicates, or void/throws on error.
    * @throws Will re-throw errors encountered during repository access or data processing.
    */
   public async createDeck(
@@ -192,20 +544,12 @@ export class DeckService extends Gemini {
     userID: string,
     coverPhoto: string | null = null,
     description: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    flashcards: Array<{ term: string; definition: string }> | undefined): Promise<object | void> {
+    flashcards: Array<{ term: string; definition: string }> | undefined,
+    taxonomy: {tags?: string[], category?: DeckCategory} = {}): Promise<object | void> {
     const coverPhotoRef = coverPhoto ?? "https://firebasestorage.googleapis.com/v0/b/deck-f429c.appspot.com/o/deckCovers%2Fdefault%2FdeckDefault.png?alt=media&token=de6ac50d-13d0-411c-934e-fbeac5b9f6e0";
 
     // Generate embedding for the deck title and description
-    const embedRes = await this.embedDeck(`Deck title: ${title}, Description: ${description}`);
-    const firstEmbedObj = embedRes.embeddings[0];
-    const vector: number[] = firstEmbedObj.values;
-
-    if (!embedRes) {
-      const error = new Error("Failed to create deck, failed to generate embedding");
-      error.name = "DATABASE_CREATE_ERROR";
-      throw error;
-    }
+    const vector = await this.generateDeckEmbedding(title, description);
 
     const deck: Omit<Deck, "id"> = {
       title: Utils.cleanTitle(title),
@@ -217,6 +561,16 @@ export class DeckService extends Gemini {
       description: description,
       flashcard_count: 0,
       embedding_field: FieldValue.vector(vector),
+      embedding_model: this.embeddingProvider.modelId,
+      search_tokens: Utils.searchTokens(title, description),
+      flashcards_indexed: true,
+      tags: taxonomy.tags ?? [],
+      category: taxonomy.category ?? null,
+      fork_count: 0,
+      save_count: 0,
+      study_count: 0,
+      popularity_score: 0,
+      popularity_indexed: true,
     };
 
     const decks = await this.deckRepository.createDeck(deck);
@@ -225,8 +579,18 @@ export class DeckService extends Gemini {
     //   const deckID = decks.id;
     //   await this.flashcardService.createFlashcards(userID, deckID, flashcards);
     // }
+
+    // Duplicates are only a warning on creation, the deck is created even if the check fails
+    let duplicates: DuplicateDeck[] = [];
+    try {
+      ({duplicates} = await this.duplicateDeckService.checkDuplicates(userID, vector, flashcards ?? []));
+    } catch (error) {
+      logger.warn("Failed to check the new deck for duplicates:", error);
+    }
+
     return {
       deck: decks,
+      duplicates,
     };
   }
 
@@ -316,7 +680,8 @@ export class DeckService extends Gemini {
 
   /**
    * Updates an existing deck with the provided data.
-   * Delegates the update logic directly to the deck repository.
+   * When the title or description changes, the deck is re-embedded and its search tokens are rebuilt so search stays consistent.
+   * Delegates the update logic to the deck repository.
    * Assumes updateData contains validated fields mapped to repository schema.
    *
    * @param {string} userID - The ID of the user requesting the update (for ownership verification in repository).
@@ -325,14 +690,133 @@ export class DeckService extends Gemini {
    * @return {Promise<object | void>} A promise resolving to the updated deck data object from the repository, or void/throws on error.
    * @throws Will re-throw errors encountered (e.g., deck not found, permission denied, repository access error).
    */
-  public async updateDeck(userID: string, deckID: string, updateData: object): Promise<object | void> {
+  public async updateDeck(userID: string, deckID: string, updateData: {title?: string, description?: string}): Promise<object | void> {
     try {
-      const updatedDeck = await this.deckRepository.updateDeck(userID, deckID, updateData);
+      let data: object = updateData;
+
+      if (updateData.title !== undefined || updateData.description !== undefined) {
+        const currentDeck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+
+        // Permissions are enforced by the repository, only spend an embedding on an authorized update
+        if (await this.permissionService.can(userID, deckID, currentDeck, "edit")) {
+          const title = updateData.title ?? currentDeck.title;
+          const description = updateData.description ?? currentDeck.description;
+
+          if (title !== currentDeck.title || description !== currentDeck.description) {
+            data = {...updateData, ...(await this.getEmbeddingFields(title, description))};
+          }
+        }
+      }
+
+      const updatedDeck = await this.deckRepository.updateDeck(userID, deckID, data);
       return updatedDeck;
     } catch (error) {
       if (error instanceof Error) throw error;
     }
   }
+  /**
+   * Replaces the tags or the category of a deck. The deck must exist, not be deleted, and the user must be
+   * allowed to edit it.
+   *
+   * @param {string} userID - The ID of the user requesting the update.
+   * @param {string} deckID - The ID of the deck.
+   * @param {object} data - The new tags (already normalized) and/or category, null clearing the category.
+   * @return {Promise<object>} A promise resolving to the ID, tags and category of the deck after the update.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_UPDATE_DECK (403); re-throws errors encountered during repository access.
+   */
+  public async updateDeckTaxonomy(
+    userID: string,
+    deckID: string,
+    data: {tags?: string[], category?: DeckCategory | null}
+  ): Promise<object> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+
+    if (!(await this.permissionService.can(userID, deckID, deck, "edit"))) {
+      throw new ApiError(
+        `User ${userID} is not authorized to update deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_UPDATE_DECK"}
+      );
+    }
+
+    await this.deckRepository.updateDeckTaxonomy(userID, deckID, data);
+
+    return {
+      deck: {
+        id: deckID,
+        tags: data.tags ?? deck.tags ?? [],
+        category: data.category !== undefined ? data.category : deck.category ?? null,
+      },
+    };
+  }
+
+  /**
+   * Copies a deck and its flashcards into a new private deck owned by the user.
+   * The source deck must be public, owned by or shared with the user. The fork records its lineage in
+   * `forked_from` and the `fork_count` of the source deck is incremented. Stars are not copied.
+   * The embedding of the source deck is reused unless the title or description is overridden; its tags and
+   * category are copied.
+   *
+   * @param {string} userID - The ID of the user forking the deck.
+   * @param {string} deckID - The ID of the deck to fork.
+   * @param {object} overrides - Optional title, description and cover photo of the fork.
+   * @return {Promise<object>} A promise resolving to the new deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404), NOT_AUTHORIZED_TO_ACCESS_DECK (403) or DECK_FORK_ERROR (500).
+   */
+  public async forkDeck(
+    userID: string,
+    deckID: string,
+    overrides: {title?: string, description?: string, coverPhoto?: string} = {}
+  ): Promise<object> {
+    const source = await this.getAccessibleDeck(userID, deckID);
+    const title = overrides.title !== undefined ? Utils.cleanTitle(overrides.title) : source.title;
+    const description = overrides.description ?? source.description;
+    const forkedAt = FirebaseAdmin.getTimeStamp();
+
+    const embedding = title !== source.title || description !== source.description ? {
+      embedding_field: FieldValue.vector(await this.generateDeckEmbedding(title, description)),
+      embedding_model: this.embeddingProvider.modelId,
+    } : {};
+
+    const deck = await this.deckRepository.forkDeck(deckID, {
+      title,
+      is_deleted: false,
+      is_private: true,
+      owner_id: userID,
+      cover_photo: overrides.coverPhoto ?? source.cover_photo,
+      created_at: forkedAt,
+      description,
+      flashcard_count: 0,
+      search_tokens: Utils.searchTokens(title, description),
+      flashcards_indexed: true,
+      tags: source.tags ?? [],
+      category: source.category ?? null,
+      forked_from: {
+        deck_id: deckID,
+        owner_id: source.owner_id,
+        title: source.title,
+        forked_at: forkedAt,
+      },
+      ...embedding,
+    });
+
+    return {
+      deck,
+    };
+  }
+
   /**
    * Deletes (HARD) a specific deck.
    * @param {string} userID - The ID of the one who owns and requested for the creation of deck.
@@ -348,17 +832,236 @@ export class DeckService extends Gemini {
   }
 
   /**
-   * Recommends public decks to a user based on their preferences or history.
-   * Delegates the retrieval logic to the deck repository.
+   * Takes a soft-deleted deck out of the trash. Only the users who may delete the deck may restore it.
    *
-   * @param {string} userID - The ID of the user whose decks are to be retrieved.
-   * @param {number} limit - The maximum number of decks to retrieve per page.
-   * @return {Promise<object | void>} A promise resolving to the paginated deck data object from the repository, or void/throws on error.
+   * @param {string} userID - The ID of the user restoring the deck.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<object>} A promise resolving to the ID, title and deletion status of the restored deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404), NOT_AUTHORIZED_TO_RESTORE_DECK (403) or DECK_NOT_DELETED (409);
+   * re-throws errors encountered during repository access.
+   */
+  public async restoreDeletedDeck(userID: string, deckID: string): Promise<object> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+
+    if (!(await this.permissionService.can(userID, deckID, deck, "delete"))) {
+      throw new ApiError(
+        `User ${userID} is not authorized to restore deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_RESTORE_DECK"}
+      );
+    }
+
+    if (!deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} is not deleted`, 409, {deckID, errorCode: "DECK_NOT_DELETED"});
+    }
+
+    await this.deckRepository.restoreDeletedDeck(deckID);
+
+    return {
+      deck: {id: deckID, title: deck.title, is_deleted: false, deleted_at: null},
+    };
+  }
+
+  /**
+   * Permanently deletes every soft-deleted deck of the user, with its flashcards, related quizzes,
+   * folder entries and share links.
+   *
+   * @param {string} userID - The ID of the owner of the trash.
+   * @return {Promise<object>} A promise resolving to the IDs of the deleted decks and their count.
    * @throws Will re-throw errors encountered during repository access.
    */
-  public async recommendPublicDecks(userID: string, limit: number): Promise<object | void> {
-    const decks = await this.deckRepository.recommendPublicDecks(userID, limit);
-    return decks;
+  public async emptyTrash(userID: string): Promise<{deleted_decks: string[], deleted_count: number}> {
+    // The user owns every deck of the query, and owners may always delete their decks
+    const deckIDs = await this.deckRepository.getOwnerDeletedDeckIDs(userID);
+
+    for (const deckID of deckIDs) {
+      await this.deckRepository.purgeDeck(deckID);
+    }
+
+    return {
+      deleted_decks: deckIDs,
+      deleted_count: deckIDs.length,
+    };
+  }
+
+  /**
+   * Permanently deletes the decks soft-deleted more than `retentionDays` days ago. Decks soft-deleted before
+   * deletion times were recorded get the current time as their deletion time, so they are purged one full
+   * retention period later. Deleted decks are scanned page by page; a deck that fails to purge is logged and
+   * skipped. At most `maxDecks` decks are purged per run, the next run picks up the rest.
+   *
+   * @param {number} retentionDays - The number of days a deleted deck stays in the trash.
+   * @param {number} [pageSize=100] - The number of deleted decks scanned per page.
+   * @param {number} [maxDecks=500] - The maximum number of decks purged in a single run.
+   * @return {Promise<object>} A report of the run: the number of deleted decks scanned, purged, given a
+   * deletion time, and failed.
+   */
+  public async purgeDeletedDecks(
+    retentionDays: number,
+    pageSize = 100,
+    maxDecks = 500
+  ): Promise<{scanned: number, purged: number, backfilled: number, failed: number}> {
+    const report = {scanned: 0, purged: 0, backfilled: 0, failed: 0};
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    let nextPageToken: string | null = null;
+
+    do {
+      const page: {decks: DeletedDeckInfo[], nextPageToken: string | null} =
+        await this.deckRepository.getDeletedDeckPage(pageSize, nextPageToken);
+      nextPageToken = page.nextPageToken;
+
+      for (const deck of page.decks) {
+        report.scanned++;
+
+        try {
+          if (!deck.deleted_at) {
+            await this.deckRepository.backfillDeletedAt(deck.id);
+            report.backfilled++;
+          } else if (deck.deleted_at.toMillis() <= cutoff) {
+            await this.deckRepository.purgeDeck(deck.id);
+            report.purged++;
+          }
+        } catch (error) {
+          logger.error(`Failed to purge deleted deck ${deck.id}:`, error);
+          report.failed++;
+        }
+
+        if (report.purged >= maxDecks) return report;
+      }
+    } while (nextPageToken);
+
+    return report;
+  }
+
+  /**
+   * Re-embeds every deck whose embedding is missing or was produced by another model than the current provider,
+   * builds the search index of every deck, and of its flashcards, indexed before keyword search existed,
+   * rebuilds the search tokens of every deck whose stored tokens differ from the current tokenizer,
+   * as well as the popularity counters of every deck created before they were maintained.
+   * Decks are scanned page by page; a deck that fails to update is logged and skipped so the backfill
+   * can carry on. At most `maxDecks` decks are updated per run, the next run picks up the rest.
+   *
+   * @param {number} [pageSize=100] - The number of decks scanned per page.
+   * @param {number} [maxDecks=500] - The maximum number of decks updated in a single run.
+   * @return {Promise<object>} A report of the run: the number of decks scanned, re-embedded, re-indexed,
+   * whose flashcards were indexed, whose popularity was indexed, and failed.
+   */
+  public async reembedOutdatedDecks(
+    pageSize = 100,
+    maxDecks = 500
+  ): Promise<{scanned: number, reembedded: number, reindexed: number, flashcardsIndexed: number, popularityIndexed: number, failed: number}> {
+    const report = {scanned: 0, reembedded: 0, reindexed: 0, flashcardsIndexed: 0, popularityIndexed: 0, failed: 0};
+    let updated = 0;
+    let nextPageToken: string | null = null;
+
+    do {
+      const page: {decks: DeckEmbeddingInfo[], nextPageToken: string | null} =
+        await this.deckRepository.getDeckEmbeddingPage(pageSize, nextPageToken);
+      nextPageToken = page.nextPageToken;
+
+      for (const deck of page.decks) {
+        report.scanned++;
+        const isEmbedded = deck.embedding_model === this.embeddingProvider.modelId;
+        // Tokens built by an older tokenizer (e.g. before non-Latin words were indexed) are rebuilt too
+        const searchTokens = Utils.searchTokens(deck.title, deck.description);
+        const isTokenized = !!deck.search_tokens && deck.search_tokens.length === searchTokens.length &&
+          searchTokens.every((token) => deck.search_tokens?.includes(token));
+        if (isEmbedded && isTokenized && deck.flashcards_indexed && deck.popularity_indexed) continue;
+
+        try {
+          if (!isEmbedded) {
+            const vector = await this.generateDeckEmbedding(deck.title, deck.description);
+            await this.deckRepository.updateDeckEmbedding(deck.id, vector, this.embeddingProvider.modelId, searchTokens);
+            report.reembedded++;
+          } else if (!isTokenized) {
+            // Only the token index is missing or outdated, no need to spend an embedding
+            await this.deckRepository.updateDeckSearchTokens(deck.id, searchTokens);
+            report.reindexed++;
+          }
+
+          if (!deck.flashcards_indexed) {
+            await this.deckRepository.indexDeckFlashcards(deck.id, deck.owner_id);
+            report.flashcardsIndexed++;
+          }
+
+          if (!deck.popularity_indexed) {
+            await this.deckRepository.indexDeckPopularity(deck.id);
+            report.popularityIndexed++;
+          }
+        } catch (error) {
+          logger.error(`Failed to re-embed deck ${deck.id}:`, error);
+          report.failed++;
+        }
+
+        if (++updated >= maxDecks) return report;
+      }
+    } while (nextPageToken);
+
+    return report;
+  }
+
+  /**
+   * Recommends public decks to a user by blending three sources: the decks nearest to the user's recent
+   * searches, the decks nearest to the decks the user recently saved or studied, and trending decks.
+   * Each source ranks its decks on its own; the rankings are fused with weighted reciprocal rank fusion.
+   * A user without history only gets trending decks. Decks the user owns or saved are never recommended.
+   *
+   * @param {string} userID - The ID of the user to recommend decks to.
+   * @param {number} limit - The maximum number of decks to recommend.
+   * @return {Promise<object>} A promise resolving to the recommended decks, best first.
+   * @throws Will re-throw errors encountered during repository access.
+   */
+  public async recommendPublicDecks(userID: string, limit: number): Promise<{decks: DeckRecommendation[]}> {
+    const [searchVectors, activityDeckIDs, savedDeckIDs, excludedDeckIDs] = await Promise.all([
+      this.deckRepository.getRecentSearchEmbeddings(userID, DeckService.RECENT_SEARCHES_SCANNED),
+      this.deckRepository.getRecentActivityDeckIDs(userID, DeckService.RECENT_ACTIVITY_SCANNED),
+      this.deckRepository.getRecentSavedDeckIDs(userID, DeckService.RECENT_ACTIVITY_SCANNED),
+      this.deckRepository.getStudyDeckIDs(userID),
+    ]);
+    const activityVectors = await this.deckRepository.getDeckEmbeddings([...savedDeckIDs, ...activityDeckIDs]);
+
+    // Owned and saved decks are filtered out afterwards, so fetch enough candidates to make up for them
+    const excluded = new Set(excludedDeckIDs);
+    const candidates = Math.min(limit + excluded.size, DeckService.MAX_RECOMMENDATION_CANDIDATES);
+
+    const [searchHistoryHits, activityHits, trendingHits] = await Promise.all([
+      searchVectors.length > 0 ?
+        this.deckRepository.searchDecksByVector("PUBLIC_DECKS", userID, this.averageVectors(searchVectors), candidates) :
+        Promise.resolve([]),
+      activityVectors.length > 0 ?
+        this.deckRepository.searchDecksByVector("PUBLIC_DECKS", userID, this.averageVectors(activityVectors), candidates) :
+        Promise.resolve([]),
+      this.deckRepository.getTrendingDecks(candidates),
+    ]);
+
+    const ranked = this.blendRecommendations({
+      search_history: searchHistoryHits,
+      activity: activityHits,
+      trending: trendingHits,
+    }, excluded).slice(0, limit);
+
+    const ownerNames = await this.deckRepository.getDeckOwnerNames(ranked.map(({deck}) => deck.owner_id));
+    const decks: DeckRecommendation[] = ranked.map(({id, deck, score, sources}) => ({
+      id,
+      owner_name: ownerNames[deck.owner_id],
+      ...deck,
+      score,
+      sources,
+    }));
+
+    return {decks};
   }
 
   /**
@@ -437,4 +1140,259 @@ export class DeckService extends Gemini {
     const quizRepo = new QuizRepository();
     return await quizRepo.getLatestQuizAttempt(userID);
   }
+
+  /**
+   * Builds the embedding fields of a deck from its title and description: its embedding, the model that
+   * produced it and its keyword search tokens.
+   *
+   * @param {string} title - The title of the deck.
+   * @param {string} description - The description of the deck.
+   * @return {Promise<object>} A promise resolving to the embedding fields.
+   * @throws {ApiError} Throws DECK_EMBEDDING_ERROR if the provider fails.
+   */
+  public async getEmbeddingFields(
+    title: string,
+    description: string
+  ): Promise<{embedding_field: FieldValue, embedding_model: string, search_tokens: string[]}> {
+    const vector = await this.generateDeckEmbedding(title, description);
+    return {
+      embedding_field: FieldValue.vector(vector),
+      embedding_model: this.embeddingProvider.modelId,
+      search_tokens: Utils.searchTokens(title, description),
+    };
+  }
+
+  /**
+   * Generates the embedding of a deck from its title and description.
+   *
+   * @param {string} title - The title of the deck.
+   * @param {string} description - The description of the deck.
+   * @return {Promise<number[]>} A promise resolving to the embedding vector.
+   * @throws {ApiError} Throws DECK_EMBEDDING_ERROR if the provider fails.
+   */
+  private async generateDeckEmbedding(title: string, description: string): Promise<number[]> {
+    return this.embeddingProvider.embedDocument(`Deck title: ${title}, Description: ${description}`);
+  }
+
+  /**
+   * Scores the decks returned by the legs of a search and ranks them, best match first.
+   * In hybrid mode the score of a deck is its reciprocal rank fusion score, the sum of
+   * 1 / (k + rank) over the legs that returned it; otherwise it is the score of the only leg.
+   *
+   * @param {string[]} tokens - The query tokens.
+   * @param {DeckSearchHit[]} keywordHits - The decks returned by the keyword leg, of which the best `MAX_SEARCH_RESULTS` are ranked.
+   * @param {DeckSearchHit[]} vectorHits - The decks returned by the vector leg, closest first.
+   * @param {SearchMode} mode - The mode of the search.
+   * @return {Array<object>} The ranked decks with their fused, keyword and vector scores.
+   */
+  private rankSearchHits(
+    tokens: string[],
+    keywordHits: DeckSearchHit[],
+    vectorHits: DeckSearchHit[],
+    mode: SearchMode
+  ): Array<{id: string, deck: SearchDeck, score: number, keywordScore: number | null, vectorScore: number | null}> {
+    const results = new Map<string, {id: string, deck: SearchDeck, score: number, keywordScore: number | null, vectorScore: number | null}>();
+    const resultOf = (hit: DeckSearchHit) => {
+      const result = results.get(hit.id) ?? {id: hit.id, deck: hit.deck, score: 0, keywordScore: null, vectorScore: null};
+      results.set(hit.id, result);
+      return result;
+    };
+
+    const keywordRanking = keywordHits
+      .map((hit) => ({hit, keywordScore: Utils.keywordScore(tokens, hit.deck.title, hit.deck.description)}))
+      .filter(({keywordScore}) => keywordScore > 0)
+      .sort((a, b) => b.keywordScore - a.keywordScore || a.hit.id.localeCompare(b.hit.id))
+      .slice(0, DeckService.MAX_SEARCH_RESULTS);
+
+    keywordRanking.forEach(({hit, keywordScore}, index) => {
+      const result = resultOf(hit);
+      result.keywordScore = keywordScore;
+      result.score += mode === "hybrid" ? 1 / (DeckService.RRF_K + index + 1) : keywordScore;
+    });
+
+    vectorHits.forEach((hit, index) => {
+      const result = resultOf(hit);
+      result.vectorScore = 1 - (hit.distance ?? 0);
+      result.score += mode === "hybrid" ? 1 / (DeckService.RRF_K + index + 1) : result.vectorScore;
+    });
+
+    // Break ties on the deck ID so pages never overlap
+    return [...results.values()].sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Blends the rankings of the recommendation sources: the score of a deck is the sum of
+   * weight / (k + rank) over the sources that returned it, ranks counted after the excluded decks are removed.
+   *
+   * @param {Record<RecommendationSource, DeckSearchHit[]>} hits - The decks returned by each source, best first.
+   * @param {Set<string>} excluded - The IDs of the decks that must not be recommended.
+   * @return {Array<object>} The blended decks with their score and sources, best first.
+   */
+  private blendRecommendations(
+    hits: Record<RecommendationSource, DeckSearchHit[]>,
+    excluded: Set<string>
+  ): Array<{id: string, deck: SearchDeck, score: number, sources: RecommendationSource[]}> {
+    const results = new Map<string, {id: string, deck: SearchDeck, score: number, sources: RecommendationSource[]}>();
+
+    RECOMMENDATION_SOURCES.forEach((source) => {
+      hits[source]
+        .filter((hit) => !excluded.has(hit.id))
+        .forEach((hit, index) => {
+          const result = results.get(hit.id) ?? {id: hit.id, deck: hit.deck, score: 0, sources: []};
+          result.score += DeckService.RECOMMENDATION_WEIGHTS[source] / (DeckService.RRF_K + index + 1);
+          result.sources.push(source);
+          results.set(hit.id, result);
+        });
+    });
+
+    return [...results.values()].sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Computes the average of a list of vectors of the same length.
+   *
+   * @param {Array<Array<number>>} vectors - The vectors to average, at least one.
+   * @return {number[]} The averaged vector.
+   */
+  private averageVectors(vectors: number[][]): number[] {
+    const sumVector = new Array(vectors[0].length).fill(0);
+
+    vectors.forEach((vector) => {
+      for (let i = 0; i < sumVector.length; i++) {
+        sumVector[i] += vector[i];
+      }
+    });
+
+    return sumVector.map((sum) => sum / vectors.length);
+  }
+
+  /**
+   * Hashes what identifies a search, so a page token cannot be reused with another search.
+   *
+   * @param {string[]} tokens - The query tokens.
+   * @param {SearchFilter} filter - The scope of the search.
+   * @param {SearchMode} mode - The mode of the search.
+   * @param {DeckTaxonomyFilter} taxonomy - The tag and category the search is narrowed to.
+   * @return {string} The hash of the search.
+   */
+  private hashSearch(tokens: string[], filter: SearchFilter, mode: SearchMode, taxonomy: DeckTaxonomyFilter): string {
+    const search = [tokens, filter, mode, taxonomy.tag ?? null, taxonomy.category ?? null];
+    return createHash("sha256").update(JSON.stringify(search)).digest("hex").slice(0, 16);
+  }
+
+  /**
+   * Serves a following page of a search from the ranking stored with its first page.
+   *
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {number} limit - The maximum number of decks to retrieve per page.
+   * @param {SearchFilter} filter - The scope of the search.
+   * @param {SearchMode} mode - The mode of the search.
+   * @param {string} nextPageToken - The token returned with the previous page.
+   * @param {string} searchHash - The hash of the current search.
+   * @return {Promise<object>} A promise resolving to the page of decks, whether the results were truncated and the next page token.
+   * @throws {ApiError} Throws INVALID_PAGE_TOKEN (400) or PAGE_TOKEN_EXPIRED (400).
+   */
+  private async getSearchPage(
+    userID: string,
+    limit: number,
+    filter: SearchFilter,
+    mode: SearchMode,
+    nextPageToken: string,
+    searchHash: string
+  ): Promise<object> {
+    const {sessionID, offset} = this.decodeSearchPageToken(nextPageToken, searchHash);
+    const session = await this.deckRepository.getSearchSession(sessionID);
+
+    if (!session || session.user_id !== userID || session.search_hash !== searchHash) {
+      throw new ApiError(
+        "The page token is invalid or belongs to another search",
+        400,
+        {nextPageToken, errorCode: "INVALID_PAGE_TOKEN"}
+      );
+    }
+    if (session.expires_at.toMillis() <= Date.now()) {
+      throw new ApiError(
+        "The search has expired, run it again from the first page",
+        400,
+        {nextPageToken, errorCode: "PAGE_TOKEN_EXPIRED"}
+      );
+    }
+
+    const entries = session.results.slice(offset, offset + limit);
+    const deckMap = await this.deckRepository.getDecksByIDs(entries.map(({id}) => id));
+    const found = entries.filter(({id}) => deckMap[id] && this.isInSearchScope(deckMap[id], filter));
+    const ownerNames = await this.deckRepository.getDeckOwnerNames(found.map(({id}) => deckMap[id].owner_id));
+
+    const decks: DeckSearchResult[] = found.map((entry) => ({
+      id: entry.id,
+      owner_name: ownerNames[deckMap[entry.id].owner_id],
+      ...deckMap[entry.id],
+      score: entry.score,
+      keyword_score: entry.keyword_score,
+      vector_score: entry.vector_score,
+    }));
+
+    return {
+      decks,
+      mode,
+      truncated: session.truncated,
+      nextPageToken: offset + limit < session.results.length ?
+        this.encodeSearchPageToken(sessionID, offset + limit, searchHash) :
+        null,
+    };
+  }
+
+  /**
+   * Checks whether a deck of a stored search ranking still belongs to the scope of the search.
+   *
+   * @param {SearchDeck} deck - The current data of the deck.
+   * @param {SearchFilter} filter - The scope of the search.
+   * @return {boolean} Whether the deck can still be returned.
+   */
+  private isInSearchScope(deck: SearchDeck, filter: SearchFilter): boolean {
+    if (deck.is_deleted !== (filter === "DELETED_DECKS")) return false;
+    return filter !== "PUBLIC_DECKS" || !deck.is_private;
+  }
+
+  /**
+   * Encodes the page token of a search as base64url JSON.
+   *
+   * @param {string} sessionID - The ID of the search session holding the ranking.
+   * @param {number} offset - The offset of the next page in the ranking.
+   * @param {string} searchHash - The hash of the search.
+   * @return {string} The page token.
+   */
+  private encodeSearchPageToken(sessionID: string, offset: number, searchHash: string): string {
+    return Buffer.from(JSON.stringify({session: sessionID, offset, hash: searchHash})).toString("base64url");
+  }
+
+  /**
+   * Decodes the page token of a search.
+   *
+   * @param {string} token - The page token.
+   * @param {string} searchHash - The hash of the current search.
+   * @return {object} The ID of the search session and the offset of the page.
+   * @throws {ApiError} Throws INVALID_PAGE_TOKEN (400) when the token is malformed or belongs to another search.
+   */
+  private decodeSearchPageToken(token: string, searchHash: string): {sessionID: string, offset: number} {
+    let decoded: {session?: unknown, offset?: unknown, hash?: unknown};
+    try {
+      decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    } catch {
+      decoded = {};
+    }
+
+    const {session, offset, hash} = decoded ?? {};
+    if (
+      typeof session !== "string" || session === "" || session.includes("/") ||
+      !Number.isInteger(offset) || (offset as number) < 0 || hash !== searchHash
+    ) {
+      throw new ApiError(
+        "The page token is invalid or belongs to another search",
+        400,
+        {nextPageToken: token, errorCode: "INVALID_PAGE_TOKEN"}
+      );
+    }
+    return {sessionID: session, offset: offset as number};
+  }
 }
@@ -0,0 +1,369 @@
+/**
+ * Deck Manager API - Deck Version Service
+ *
+ * @file DeckVersionService.ts
+ * This module defines the service layer for the version history of decks. Every mutation of a deck
+ * or of its flashcards is recorded by the repositories as a version holding its change set; this
+ * service lists the versions, compares two of them and restores a deck, with its flashcards, to a
+ * previous version. A restore is itself recorded as a version, so it can be undone.
+ *
+ * Methods:
+ * - getVersions: Lists the versions of a deck, newest first, with pagination.
+ * - getVersion: Retrieves a version of a deck with its flashcard changes.
+ * - diffVersions: Compares the deck and its flashcards between two versions.
+ * - restoreVersion: Restores the details and the flashcards of a deck to a previous version.
+ *
+ * @module service
+ * @file DeckVersionService.ts
+ * @class DeckVersionService
+ * @classdesc Handles business logic for deck versions, coordinating the DeckVersionRepository, the DeckRepository and the FlashcardRepository.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {ApiError} from "../helpers/apiError";
+import {Deck} from "../interface/Deck";
+import {DeckVersionWithChanges, VersionedDeck, VersionedFlashcard} from "../interface/DeckVersion";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {DeckVersionRepository} from "../repositories/DeckVersionRepository";
+import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {DeckService} from "./DeckService";
+import {PermissionService} from "./PermissionService";
+
+/**
+ * Service class responsible for the version history of decks.
+ */
+export class DeckVersionService {
+  /**
+   * A repository instance for reading and recording deck versions.
+   */
+  private deckVersionRepository: DeckVersionRepository;
+
+  /**
+   * A repository instance used to read the deck.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * A repository instance used to read the flashcards of the deck and to restore the deck with them.
+   */
+  private flashcardRepository: FlashcardRepository;
+
+  /**
+   * A service instance used to re-embed a deck whose title or description is restored.
+   */
+  private deckService: DeckService;
+
+  /**
+   * The service authorizing deck operations.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * Initializes the DeckVersionService.
+   *
+   * @param {DeckVersionRepository} deckVersionRepository - The repository handling deck version data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   * @param {FlashcardRepository} flashcardRepository - The repository handling flashcard data operations.
+   * @param {DeckService} deckService - The service handling deck operations.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   */
+  constructor(
+    deckVersionRepository: DeckVersionRepository,
+    deckRepository: DeckRepository,
+    flashcardRepository: FlashcardRepository,
+    deckService: DeckService,
+    permissionService: PermissionService
+  ) {
+    this.deckVersionRepository = deckVersionRepository;
+    this.deckRepository = deckRepository;
+    this.flashcardRepository = flashcardRepository;
+    this.deckService = deckService;
+    this.permissionService = permissionService;
+  }
+
+  /**
+   * Lists the versions of a deck, newest first, without their flashcard changes.
+   *
+   * @param {string} userID - The ID of the user requesting the versions.
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} limit - The maximum number of versions to return.
+   * @param {string | null} nextPageToken - The token returned with the previous page, or null for the first page.
+   * @return {Promise<object>} A promise resolving to the current version, the versions and the next page token.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_ACCESS_VERSIONS (403).
+   */
+  public async getVersions(userID: string, deckID: string, limit: number, nextPageToken: string | null): Promise<object> {
+    const deck = await this.getEditableDeck(userID, deckID);
+
+    const page = await this.deckVersionRepository.getVersionsPage(
+      deckID,
+      limit,
+      nextPageToken !== null ? Number(nextPageToken) : null
+    );
+
+    return {
+      current_version: deck.version_count ?? 0,
+      ...page,
+    };
+  }
+
+  /**
+   * Retrieves a version of a deck with its flashcard changes.
+   *
+   * @param {string} userID - The ID of the user requesting the version.
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} version - The number of the version.
+   * @return {Promise<object>} A promise resolving to the version.
+   * @throws {ApiError} Throws DECK_NOT_FOUND, VERSION_NOT_FOUND (404) or NOT_AUTHORIZED_TO_ACCESS_VERSIONS (403).
+   */
+  public async getVersion(userID: string, deckID: string, version: number): Promise<object> {
+    await this.getEditableDeck(userID, deckID);
+
+    const record = await this.deckVersionRepository.getVersion(deckID, version);
+    if (!record) {
+      throw this.versionNotFound(deckID, version);
+    }
+
+    return {
+      version: record,
+    };
+  }
+
+  /**
+   * Compares the deck and its flashcards between two versions: the changed fields of the deck, and the
+   * flashcards added, removed and modified between them. Flashcards that were changed and then changed
+   * back are left out.
+   *
+   * @param {string} userID - The ID of the user requesting the comparison.
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} from - The number of the first version.
+   * @param {number | null} to - The number of the last version, or null for the latest version.
+   * @return {Promise<object>} A promise resolving to the differences between the versions.
+   * @throws {ApiError} Throws DECK_NOT_FOUND, VERSION_NOT_FOUND (404), INVALID_VERSION_RANGE (400),
+   * NOT_AUTHORIZED_TO_ACCESS_VERSIONS (403) or VERSION_HISTORY_INCOMPLETE (409).
+   */
+  public async diffVersions(userID: string, deckID: string, from: number, to: number | null): Promise<object> {
+    const deck = await this.getEditableDeck(userID, deckID);
+    const current = deck.version_count ?? 0;
+    const last = to ?? current;
+
+    if (last > current) {
+      throw this.versionNotFound(deckID, last);
+    }
+    if (from >= last) {
+      throw new ApiError(
+        "The first version must come before the last version",
+        400,
+        {deckID, from, to: last, errorCode: "INVALID_VERSION_RANGE"}
+      );
+    }
+
+    const versions = await this.getRange(deckID, from, last);
+
+    const deckBefore: Partial<VersionedDeck> = {};
+    const deckAfter: Partial<VersionedDeck> = {};
+    const flashcards = new Map<string, {before: VersionedFlashcard | null, after: VersionedFlashcard | null}>();
+
+    for (const version of versions) {
+      if (version.deck_changes) {
+        Object.assign(deckBefore, {...version.deck_changes.before, ...deckBefore});
+        Object.assign(deckAfter, version.deck_changes.after);
+      }
+      for (const change of version.flashcard_changes) {
+        const before = flashcards.has(change.flashcard_id) ? flashcards.get(change.flashcard_id)?.before ?? null : change.before;
+        flashcards.set(change.flashcard_id, {before, after: change.after});
+      }
+    }
+
+    const deckDiff = Object.fromEntries((Object.keys(deckAfter) as Array<keyof VersionedDeck>)
+      .filter((field) => !this.isSame(deckBefore[field], deckAfter[field]))
+      .map((field) => [field, {before: deckBefore[field], after: deckAfter[field]}]));
+
+    const added: object[] = [];
+    const removed: object[] = [];
+    const modified: object[] = [];
+    flashcards.forEach(({before, after}, id) => {
+      const wasLive = before !== null && !before.is_deleted;
+      const isLive = after !== null && !after.is_deleted;
+
+      if (!wasLive && isLive) added.push({id, ...after});
+      else if (wasLive && !isLive) removed.push({id, ...before});
+      else if (wasLive && isLive && !this.isSame(before, after)) modified.push({id, before, after});
+    });
+
+    return {
+      from,
+      to: last,
+      deck: deckDiff,
+      flashcards: {added, removed, modified},
+    };
+  }
+
+  /**
+   * Restores the details and the flashcards of a deck to a previous version by undoing, newest first,
+   * every version recorded after it. Flashcards created since are deleted, flashcards deleted since are
+   * recreated with the same ID (without their review history), and the deck is re-embedded when its title
+   * or description changes. The restore is recorded as a new version, in the transaction writing it (as
+   * consecutive versions when it changes more flashcards than a transaction holds).
+   *
+   * @param {string} userID - The ID of the user restoring the deck.
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} version - The number of the version to restore.
+   * @return {Promise<object>} A promise resolving to the restored and the new version, the restored deck fields and the number of restored flashcards.
+   * @throws {ApiError} Throws DECK_NOT_FOUND, VERSION_NOT_FOUND (404), VERSION_IS_CURRENT (400),
+   * NOT_AUTHORIZED_TO_ACCESS_VERSIONS (403) or VERSION_HISTORY_INCOMPLETE (409).
+   */
+  public async restoreVersion(userID: string, deckID: string, version: number): Promise<object> {
+    const deck = await this.getEditableDeck(userID, deckID);
+    const current = deck.version_count ?? 0;
+
+    if (version > current) {
+      throw this.versionNotFound(deckID, version);
+    }
+    if (version === current) {
+      throw new ApiError(`Deck ${deckID} is already at version ${version}`, 400, {deckID, version, errorCode: "VERSION_IS_CURRENT"});
+    }
+
+    const versions = await this.getRange(deckID, version, current);
+
+    // Undo the versions newest first, so the state before the oldest change of each field or flashcard wins
+    const targetDeck: Partial<VersionedDeck> = {};
+    const targetFlashcards = new Map<string, VersionedFlashcard | null>();
+    for (const undone of [...versions].reverse()) {
+      Object.assign(targetDeck, undone.deck_changes?.before ?? {});
+      undone.flashcard_changes.forEach((change) => targetFlashcards.set(change.flashcard_id, change.before));
+    }
+
+    const currentDeck = this.deckVersionRepository.toVersionedDeck(deck);
+    const deckFields = (Object.keys(targetDeck) as Array<keyof VersionedDeck>)
+      .filter((field) => !this.isSame(currentDeck[field], targetDeck[field]));
+
+    const currentFlashcards = await this.flashcardRepository.getFlashcardDocuments(deckID, [...targetFlashcards.keys()]);
+    const flashcards = [...targetFlashcards.entries()]
+      .map(([id, state]) => ({id, state}))
+      .filter(({id, state}) => {
+        const before = currentFlashcards[id];
+        return !this.isSame(before ? this.deckVersionRepository.toVersionedFlashcard(before) : null, state);
+      });
+
+    let deckData: object | null = null;
+    if (deckFields.length > 0) {
+      const data: object = Object.fromEntries(deckFields.map((field) => [field, targetDeck[field]]));
+      const title = targetDeck.title ?? currentDeck.title;
+      const description = targetDeck.description ?? currentDeck.description;
+
+      deckData = deckFields.includes("title") || deckFields.includes("description") ?
+        {...data, ...(await this.deckService.getEmbeddingFields(title, description))} :
+        data;
+    }
+
+    const newVersion = deckData || flashcards.length > 0 ?
+      await this.flashcardRepository.restoreVersion(userID, deckID, deck.owner_id, deckData, flashcards, version) :
+      null;
+
+    return {
+      restored_version: version,
+      version: newVersion ?? current,
+      deck_fields: deckFields,
+      restored_flashcard_count: flashcards.length,
+    };
+  }
+
+  /**
+   * Retrieves the versions recorded after a version, up to another one, and verifies that none of them
+   * was pruned and that every version of the range was recorded with all its flashcard changes.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} after - The number of the version the range starts after.
+   * @param {number} upTo - The number of the last version of the range.
+   * @return {Promise<DeckVersionWithChanges[]>} A promise resolving to the versions, oldest first.
+   * @throws {ApiError} Throws VERSION_NOT_FOUND (404) when the first version was pruned, or
+   * VERSION_HISTORY_INCOMPLETE (409) when a later version of the range is missing or incomplete.
+   */
+  private async getRange(deckID: string, after: number, upTo: number): Promise<DeckVersionWithChanges[]> {
+    const versions = await this.deckVersionRepository.getVersionRange(deckID, after, upTo);
+
+    if (versions.length === 0 || versions[0].version !== after + 1) {
+      throw this.versionNotFound(deckID, after);
+    }
+
+    const recorded = new Set(versions
+      .filter((version) => version.flashcard_changes.length === version.flashcard_change_count)
+      .map(({version}) => version));
+    const missing: number[] = [];
+    for (let version = after + 1; version <= upTo; version++) {
+      if (!recorded.has(version)) missing.push(version);
+    }
+
+    if (missing.length > 0) {
+      throw new ApiError(
+        `The history of deck ${deckID} is missing versions ${missing.join(", ")}`,
+        409,
+        {deckID, missing, errorCode: "VERSION_HISTORY_INCOMPLETE"}
+      );
+    }
+    return versions;
+  }
+
+  /**
+   * Retrieves a deck that exists, is not deleted and that the user may edit: the version history holds
+   * content that may never have been published, so only editors can read it.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<Deck>} A promise resolving to the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_ACCESS_VERSIONS (403).
+   */
+  private async getEditableDeck(userID: string, deckID: string): Promise<Deck> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+
+    if (!(await this.permissionService.can(userID, deckID, deck, "edit"))) {
+      throw new ApiError(
+        `User ${userID} is not authorized to access the versions of deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_ACCESS_VERSIONS"}
+      );
+    }
+
+    return deck;
+  }
+
+  /**
+   * Builds the error of a version that does not exist or was pruned.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {number} version - The number of the version.
+   * @return {ApiError} A 404 error.
+   */
+  private versionNotFound(deckID: string, version: number): ApiError {
+    return new ApiError(
+      `Version ${version} of deck ${deckID} does not exist or is too old to be kept`,
+      404,
+      {deckID, version, errorCode: "VERSION_NOT_FOUND"}
+    );
+  }
+
+  /**
+   * Compares two versioned values, whose fields are always picked in the same order.
+   *
+   * @param {unknown} a - The first value.
+   * @param {unknown} b - The second value.
+   * @return {boolean} Whether the values are the same.
+   */
+  private isSame(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Deck Manager API - Duplicate Deck Service
+ *
+ * @file DuplicateDeckService.ts
+ * This module defines the detection of near-duplicate decks. A deck is compared with the public
+ * decks nearest to its embedding; the closest ones are then compared card by card. The similarity
+ * of a candidate combines the cosine similarity of the embeddings with the Jaccard index of the
+ * flashcards, compared by their normalized term and definition. When either deck has no flashcards,
+ * only the embeddings are compared.
+ *
+ * Candidates from the warn threshold of the moderation rules are reported as likely duplicates; the
+ * block threshold decides when publishing a duplicate is rejected (see `PublishRequestService`).
+ *
+ * Methods:
+ * - checkDuplicates: Compares an embedding and a card set with the public decks.
+ * - checkDeckDuplicates: Compares a stored deck with the other public decks.
+ *
+ * @module service
+ * @file DuplicateDeckService.ts
+ * @class DuplicateDeckService
+ * @classdesc Detects public decks that duplicate a deck, reading decks and flashcards through their repositories.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {DuplicateCheck, DuplicateDeck, ModerationRules} from "../interface/Moderation";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {Utils} from "../utils/utils";
+
+/**
+ * Service class responsible for detecting near-duplicate decks.
+ */
+export class DuplicateDeckService {
+  /**
+   * The number of nearest public decks compared card by card.
+   */
+  public static readonly MAX_CANDIDATES = 5;
+
+  /**
+   * The weight of the embedding similarity when both decks have flashcards; the card overlap weighs the rest.
+   * Cards weigh more because decks on the same topic have close embeddings without being copies.
+   */
+  public static readonly EMBEDDING_WEIGHT = 0.4;
+
+  /**
+   * A repository instance used to find the nearest public decks.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * A repository instance used to read the flashcards of the candidates.
+   */
+  private flashcardRepository: FlashcardRepository;
+
+  /**
+   * The thresholds of the moderation rules.
+   */
+  private rules: Pick<ModerationRules, "duplicateWarnThreshold" | "duplicateBlockThreshold">;
+
+  /**
+   * Initializes the DuplicateDeckService.
+   *
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   * @param {FlashcardRepository} flashcardRepository - The repository handling flashcard data operations.
+   * @param {ModerationRules} rules - The moderation rules holding the duplicate thresholds (see `loadModerationRules`).
+   */
+  constructor(
+    deckRepository: DeckRepository,
+    flashcardRepository: FlashcardRepository,
+    rules: Pick<ModerationRules, "duplicateWarnThreshold" | "duplicateBlockThreshold">
+  ) {
+    this.deckRepository = deckRepository;
+    this.flashcardRepository = flashcardRepository;
+    this.rules = rules;
+  }
+
+  /**
+   * Compares an embedding and a card set with the public decks and reports the likely duplicates,
+   * most similar first.
+   *
+   * @param {string} userID - The ID of the user the deck belongs to.
+   * @param {number[]} vector - The embedding of the deck.
+   * @param {Array<object>} flashcards - The flashcards of the deck, possibly none.
+   * @param {string | null} [excludeDeckID=null] - The ID of the deck itself, never reported as its own duplicate.
+   * @return {Promise<DuplicateCheck>} A promise resolving to the duplicates and the action they call for.
+   * @throws Will re-throw errors encountered during repository access.
+   */
+  public async checkDuplicates(
+    userID: string,
+    vector: number[],
+    flashcards: Array<{term?: unknown, definition?: unknown, [key: string]: unknown}>,
+    excludeDeckID: string | null = null
+  ): Promise<DuplicateCheck> {
+    const hits = (await this.deckRepository.searchDecksByVector(
+      "PUBLIC_DECKS",
+      userID,
+      vector,
+      DuplicateDeckService.MAX_CANDIDATES + 1
+    ))
+      .filter((hit) => hit.id !== excludeDeckID)
+      .slice(0, DuplicateDeckService.MAX_CANDIDATES);
+
+    const cards = this.cardSet(flashcards);
+    const candidates = await Promise.all(hits.map(async (hit) => {
+      const embeddingSimilarity = 1 - (hit.distance ?? 0);
+      const candidateCards = this.cardSet(await this.flashcardRepository.getFlashcardContents(hit.id));
+      const cardOverlap = cards.size > 0 && candidateCards.size > 0 ? this.jaccard(cards, candidateCards) : null;
+
+      return {
+        hit,
+        embeddingSimilarity,
+        cardOverlap,
+        similarity: cardOverlap === null ? embeddingSimilarity :
+          DuplicateDeckService.EMBEDDING_WEIGHT * embeddingSimilarity + (1 - DuplicateDeckService.EMBEDDING_WEIGHT) * cardOverlap,
+      };
+    }));
+
+    const duplicates = candidates
+      .filter(({similarity}) => similarity >= this.rules.duplicateWarnThreshold)
+      .sort((a, b) => b.similarity - a.similarity);
+    const ownerNames = await this.deckRepository.getDeckOwnerNames(duplicates.map(({hit}) => hit.deck.owner_id));
+
+    const top = duplicates[0]?.similarity ?? 0;
+    return {
+      action: duplicates.length === 0 ? "NONE" : top >= this.rules.duplicateBlockThreshold ? "BLOCK" : "WARN",
+      duplicates: duplicates.map(({hit, similarity, embeddingSimilarity, cardOverlap}): DuplicateDeck => ({
+        deck_id: hit.id,
+        title: hit.deck.title,
+        owner_id: hit.deck.owner_id,
+        owner_name: ownerNames[hit.deck.owner_id],
+        similarity,
+        embedding_similarity: embeddingSimilarity,
+        card_overlap: cardOverlap,
+      })),
+      checked_at: FirebaseAdmin.getTimeStamp(),
+    };
+  }
+
+  /**
+   * Compares a stored deck with the other public decks. A deck without an embedding has no duplicates.
+   *
+   * @param {string} userID - The ID of the user the deck belongs to.
+   * @param {string} deckID - The ID of the deck.
+   * @param {Array<object>} flashcards - The flashcards of the deck.
+   * @return {Promise<DuplicateCheck>} A promise resolving to the duplicates and the action they call for.
+   * @throws Will re-throw errors encountered during repository access.
+   */
+  public async checkDeckDuplicates(
+    userID: string,
+    deckID: string,
+    flashcards: Array<{term?: unknown, definition?: unknown, [key: string]: unknown}>
+  ): Promise<DuplicateCheck> {
+    const [vector] = await this.deckRepository.getDeckEmbeddings([deckID]);
+    if (!vector) {
+      return {action: "NONE", duplicates: [], checked_at: FirebaseAdmin.getTimeStamp()};
+    }
+    return this.checkDuplicates(userID, vector, flashcards, deckID);
+  }
+
+  /**
+   * Builds the set of the normalized cards of a deck, so cards differing only in case, accents
+   * or punctuation are the same card.
+   *
+   * @param {Array<object>} flashcards - The flashcards.
+   * @return {Set<string>} The normalized cards.
+   */
+  private cardSet(flashcards: Array<{term?: unknown, definition?: unknown, [key: string]: unknown}>): Set<string> {
+    const cards = flashcards.map(({term, definition}) =>
+      `${Utils.searchWords(String(term ?? "")).join(" ")}\u0000${Utils.searchWords(String(definition ?? "")).join(" ")}`
+    );
+    return new Set(cards.filter((card) => card !== "\u0000"));
+  }
+
+  /**
+   * Computes the Jaccard index of two sets: the size of their intersection over the size of their union.
+   *
+   * @param {Set<string>} a - The first set, not empty.
+   * @param {Set<string>} b - The second set, not empty.
+   * @return {number} The Jaccard index, from 0 to 1.
+   */
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    const intersection = [...a].filter((card) => b.has(card)).length;
+    return intersection / (a.size + b.size - intersection);
+  }
+}
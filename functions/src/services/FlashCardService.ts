@@ -14,9 +14,12 @@
  * - getFlashcards: Retrieves a list of flashcards for a specific deck, supporting pagination.
  * - getRandomFlashcards: Retrieves a specified number of random flashcards from a deck.
  * - getSpecificFlashcard: Retrieves a specific flashcard by its ID from a deck.
+ * - getAllFlashcards: Retrieves every non-deleted flashcard of a deck.
+ * - getFlashcardPage: Retrieves a page of the non-deleted flashcards of a deck, ordered by creation date.
  * - createFlashcard: Creates a new flashcard in a specified deck.
  * - updateFlashcard: Updates an existing flashcard in a specified deck.
  * - deleteFlashcard: Deletes one or more flashcards from a specified deck.
+ * - searchFlashcards: Searches the flashcards of the user's decks, saved decks or public decks by keyword.
  *
  * @module service
  * @file FlashcardService.ts
@@ -24,11 +27,13 @@
  * @classdesc Provides business logic for flashcard operations, utilizing FlashcardRepository for data access.
  * @author Arthur M. Artugue
  * @created 2024-03-30
- * @updated 2025-04-03
+ * @updated 2026-10-19
  */
 
 import {FirebaseAdmin} from "../config/FirebaseAdmin";
 import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {FlashcardSearchFilter, FlashcardSearchResult} from "../interface/Search";
 import {Utils} from "../utils/utils";
 
 /**
@@ -36,6 +41,12 @@ import {Utils} from "../utils/utils";
  * This class provides methods to manage and manipulate flashcard data.
  */
 export class FlashcardService {
+  /**
+   * The number of flashcards read per query of a search before they are ranked. The token index cannot
+   * order the flashcards by relevance, so a search reads many more candidates than it returns.
+   */
+  private static readonly SEARCH_CANDIDATES = 500;
+
   /**
    * A repository instance for managing flashcard-related data operations.
    * Provides methods to interact with the data source for creating, reading,
@@ -43,13 +54,20 @@ export class FlashcardService {
    */
   private flashcardRepository: FlashcardRepository;
 
+  /**
+   * A repository instance used to resolve the owners of the decks of searched flashcards.
+   */
+  private deckRepository: DeckRepository;
+
   /**
    * Initializes the FlashcardRepository with a FlashcardRepository instance.
    *
    * @param {FlashcardRepository} flashcardRepository - The repository handling data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
    */
-  constructor(flashcardRepository: FlashcardRepository) {
+  constructor(flashcardRepository: FlashcardRepository, deckRepository: DeckRepository) {
     this.flashcardRepository = flashcardRepository;
+    this.deckRepository = deckRepository;
   }
 
   /**
@@ -131,6 +149,30 @@ export class FlashcardService {
     }
   }
 
+  /**
+   * Retrieves every non-deleted flashcard of a deck, ordered by creation date.
+   * @param {string} deckID - The deck's UID.
+   * @return {Promise<Array<object>>} A promise resolving to the flashcards of the deck.
+   */
+  public async getAllFlashcards(deckID: string): Promise<Array<{id: string, [key: string]: unknown}>> {
+    const {flashcards} = await this.flashcardRepository.getAllFlashcards(deckID) as {flashcards: Array<{id: string}>};
+    return flashcards;
+  }
+
+  /**
+   * Retrieves a page of the non-deleted flashcards of a deck, ordered by creation date.
+   * @param {string} deckID - The deck's UID.
+   * @param {number} limit - The maximum number of flashcards of the page.
+   * @param {string | null} startAfterID - The ID of the last flashcard of the previous page, or null for the first page.
+   * @return {Promise<object>} A promise resolving to the flashcards of the page and the ID to start the next page after.
+   */
+  public async getFlashcardPage(
+    deckID: string,
+    limit: number,
+    startAfterID: string | null
+  ): Promise<{flashcards: Array<{id: string, [key: string]: unknown}>, nextPageToken: string | null}> {
+    return this.flashcardRepository.getFlashcardPage(deckID, limit, startAfterID);
+  }
 
   /**
  * Creates a flashcard entity
@@ -142,14 +184,16 @@ export class FlashcardService {
   public async createFlashcards(
     userID: string,
     deckID: string,
-    flashcards: Array<{ term: string; definition: string }>
+    flashcards: Array<{ term: string; definition: string; tags?: string[]; is_starred?: boolean }>
   ): Promise<object | void> {
     try {
-      const flashcardsWithMetadata = flashcards.map((flashcard) => ({
+      // Offset the creation times by a millisecond so the flashcards keep their order
+      const now = Date.now();
+      const flashcardsWithMetadata = flashcards.map((flashcard, i) => ({
+        is_starred: false,
         ...flashcard,
         is_deleted: false,
-        is_starred: false,
-        created_at: FirebaseAdmin.getTimeStamp(),
+        created_at: FirebaseAdmin.convertToTimestamp(new Date(now + i)),
       }));
 
       const newFlashcard = await this.flashcardRepository.createFlashcards(userID, deckID, flashcardsWithMetadata);
@@ -190,4 +234,51 @@ export class FlashcardService {
       if (error instanceof Error) throw error;
     }
   }
+
+  /**
+   * Searches the flashcards of the user's decks, saved decks or public decks by keyword, matching the
+   * words of the query, or their beginning, against the term and definition of every card.
+   * A word found in the term counts twice as much as a word only found in the definition.
+   * The decks of the user include the decks the user collaborates on.
+   *
+   * @param {string} userID - The ID of the user who made the request.
+   * @param {string} query - The search query.
+   * @param {FlashcardSearchFilter} filter - The scope of the search: MY_DECKS, SAVED_DECKS or PUBLIC_DECKS.
+   * @param {number} limit - The maximum number of flashcards to return.
+   * @return {Promise<object>} A promise resolving to the flashcards, best match first, with their parent deck.
+   */
+  public async searchFlashcards(userID: string, query: string, filter: FlashcardSearchFilter, limit: number): Promise<object> {
+    const tokens = Utils.searchQueryTokens(query);
+    const hits = await this.flashcardRepository.searchFlashcards(
+      filter,
+      userID,
+      tokens,
+      FlashcardService.SEARCH_CANDIDATES
+    );
+
+    const ranked = hits
+      .map((hit) => ({hit, score: Utils.keywordScore(tokens, hit.term, hit.definition)}))
+      .filter(({score}) => score > 0)
+      .sort((a, b) => b.score - a.score || a.hit.id.localeCompare(b.hit.id))
+      .slice(0, limit);
+
+    const ownerNames = await this.deckRepository.getDeckOwnerNames(ranked.map(({hit}) => hit.deck.owner_id));
+
+    const flashcards: FlashcardSearchResult[] = ranked.map(({hit, score}) => ({
+      id: hit.id,
+      term: hit.term,
+      definition: hit.definition,
+      score,
+      deck: {
+        id: hit.deck_id,
+        title: hit.deck.title,
+        owner_id: hit.deck.owner_id,
+        owner_name: ownerNames[hit.deck.owner_id],
+        cover_photo: hit.deck.cover_photo,
+        is_private: hit.deck.is_private,
+      },
+    }));
+
+    return {flashcards};
+  }
 }
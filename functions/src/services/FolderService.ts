@@ -0,0 +1,526 @@
+/**
+ * Deck Manager API - Folder Service
+ *
+ * @file FolderService.ts
+ * This module defines the service layer for the folders users organize their decks in. Folders
+ * belong to one user, nest up to `MAX_FOLDER_DEPTH` levels and are ordered among their siblings.
+ * A folder holds decks the user owns or has saved; a deck is in at most one folder of a user, so
+ * adding it to a folder moves it out of its previous one.
+ *
+ * The structure of the folders is checked against the whole folder tree of the user, read at once:
+ * a user has at most `MAX_FOLDERS` folders.
+ *
+ * Methods:
+ * - getFolders: Lists every folder of a user.
+ * - getFolder: Retrieves a folder with its path, its subfolders and its deck count.
+ * - createFolder: Creates a folder at the root or in another folder.
+ * - updateFolder: Renames a folder and/or moves it to another parent.
+ * - reorderFolders: Orders the subfolders of a folder, or the root folders.
+ * - deleteFolder: Deletes a folder and its subfolders, leaving their decks untouched.
+ * - getFolderDecks: Retrieves a page of the decks of a folder, in folder order.
+ * - addDecksToFolder: Files owned or saved decks in a folder, moving them out of their previous folder.
+ * - removeDecksFromFolder: Removes decks from a folder.
+ * - reorderFolderDecks: Orders the decks of a folder.
+ *
+ * @module service
+ * @file FolderService.ts
+ * @class FolderService
+ * @classdesc Handles business logic for folders, coordinating the FolderRepository and the DeckRepository.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {Folder, MAX_FOLDER_DEPTH} from "../interface/Folder";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {FolderRepository} from "../repositories/FolderRepository";
+
+/**
+ * Service class responsible for the folders of decks.
+ */
+export class FolderService {
+  /**
+   * The most folders a user has.
+   */
+  public static readonly MAX_FOLDERS = 200;
+
+  /**
+   * The most decks a folder holds, which also bounds the size of a deck reorder.
+   */
+  public static readonly MAX_FOLDER_DECKS = 500;
+
+  /**
+   * A repository instance for managing folder data.
+   */
+  private folderRepository: FolderRepository;
+
+  /**
+   * A repository instance used to read the decks filed in folders.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * Initializes the FolderService.
+   *
+   * @param {FolderRepository} folderRepository - The repository handling folder data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   */
+  constructor(folderRepository: FolderRepository, deckRepository: DeckRepository) {
+    this.folderRepository = folderRepository;
+    this.deckRepository = deckRepository;
+  }
+
+  /**
+   * Lists every folder of a user, ordered by parent and position. Clients rebuild the tree from `parent_id`.
+   *
+   * @param {string} userID - The ID of the user.
+   * @return {Promise<object>} A promise resolving to the folders.
+   * @throws Will re-throw errors encountered during repository access.
+   */
+  public async getFolders(userID: string): Promise<{folders: Folder[]}> {
+    const folders = await this.folderRepository.getFolders(userID);
+
+    return {
+      folders: folders.sort((a, b) =>
+        (a.parent_id ?? "").localeCompare(b.parent_id ?? "") || a.position - b.position
+      ),
+    };
+  }
+
+  /**
+   * Retrieves a folder of the user with its path from the root, its subfolders and its deck count.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @return {Promise<object>} A promise resolving to the folder.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404).
+   */
+  public async getFolder(userID: string, folderID: string): Promise<object> {
+    const folders = await this.folderRepository.getFolders(userID);
+    const folder = this.findFolder(folders, folderID);
+    const deckCount = await this.folderRepository.countFolderItems(folderID);
+
+    return {
+      folder,
+      path: this.getAncestors(folders, folder).reverse().map(({id, name}) => ({id, name})),
+      subfolders: this.getChildren(folders, folderID),
+      deck_count: deckCount,
+    };
+  }
+
+  /**
+   * Creates a folder at the root or in another folder of the user, after its last sibling.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} name - The name of the folder.
+   * @param {string | null} parentID - The ID of the parent folder, or null for a root folder.
+   * @return {Promise<object>} A promise resolving to the created folder.
+   * @throws {ApiError} Throws PARENT_FOLDER_NOT_FOUND (404), FOLDER_DEPTH_EXCEEDED (400) or FOLDER_LIMIT_REACHED (409).
+   */
+  public async createFolder(userID: string, name: string, parentID: string | null): Promise<object> {
+    const folders = await this.folderRepository.getFolders(userID);
+
+    if (folders.length >= FolderService.MAX_FOLDERS) {
+      throw new ApiError(
+        `A user has at most ${FolderService.MAX_FOLDERS} folders`,
+        409,
+        {errorCode: "FOLDER_LIMIT_REACHED"}
+      );
+    }
+    if (parentID) {
+      this.assertDepth(folders, this.findParent(folders, parentID), 1);
+    }
+
+    const createdAt = FirebaseAdmin.getTimeStamp();
+    const folder = await this.folderRepository.createFolder({
+      owner_id: userID,
+      name,
+      parent_id: parentID,
+      position: this.nextPosition(folders, parentID),
+      created_at: createdAt,
+      updated_at: createdAt,
+    });
+
+    return {folder};
+  }
+
+  /**
+   * Renames a folder and/or moves it, with its subfolders, to another parent. A moved folder comes
+   * after the folders of its new parent; a folder cannot be moved into itself or its subfolders.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @param {object} data - The new name and/or the ID of the new parent folder, null for the root.
+   * @return {Promise<object>} A promise resolving to the updated folder.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND or PARENT_FOLDER_NOT_FOUND (404), INVALID_PARENT_FOLDER
+   * or FOLDER_DEPTH_EXCEEDED (400).
+   */
+  public async updateFolder(userID: string, folderID: string, data: {name?: string, parentID?: string | null}): Promise<object> {
+    const folders = await this.folderRepository.getFolders(userID);
+    const folder = this.findFolder(folders, folderID);
+    const update: Partial<Pick<Folder, "name" | "parent_id" | "position" | "updated_at">> = {
+      updated_at: FirebaseAdmin.getTimeStamp(),
+    };
+
+    if (data.name !== undefined) {
+      update.name = data.name;
+    }
+
+    if (data.parentID !== undefined && data.parentID !== folder.parent_id) {
+      if (data.parentID) {
+        const parent = this.findParent(folders, data.parentID);
+        if (parent.id === folderID || this.getAncestors(folders, parent).some(({id}) => id === folderID)) {
+          throw new ApiError(
+            "A folder cannot be moved into itself or one of its subfolders",
+            400,
+            {folderID, parentID: data.parentID, errorCode: "INVALID_PARENT_FOLDER"}
+          );
+        }
+        this.assertDepth(folders, parent, this.getHeight(folders, folderID));
+      }
+
+      update.parent_id = data.parentID;
+      update.position = this.nextPosition(folders, data.parentID);
+    }
+
+    await this.folderRepository.updateFolder(folderID, update);
+
+    return {folder: {...folder, ...update}};
+  }
+
+  /**
+   * Orders the subfolders of a folder, or the root folders, as listed. Every subfolder must be listed once.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string | null} parentID - The ID of the parent folder, or null for the root folders.
+   * @param {string[]} folderIDs - The IDs of the subfolders, in their new order.
+   * @return {Promise<object>} A promise resolving to the reordered folders.
+   * @throws {ApiError} Throws PARENT_FOLDER_NOT_FOUND (404) or INVALID_FOLDER_ORDER (400).
+   */
+  public async reorderFolders(userID: string, parentID: string | null, folderIDs: string[]): Promise<object> {
+    const folders = await this.folderRepository.getFolders(userID);
+    if (parentID) {
+      this.findParent(folders, parentID);
+    }
+
+    const siblings = this.getChildren(folders, parentID);
+    if (!this.isPermutation(siblings.map(({id}) => id), folderIDs)) {
+      throw new ApiError(
+        "The folder IDs must list every subfolder of the parent folder once",
+        400,
+        {parentID, errorCode: "INVALID_FOLDER_ORDER"}
+      );
+    }
+
+    await this.folderRepository.setFolderPositions(folderIDs);
+
+    const byID = new Map(siblings.map((folder) => [folder.id, folder]));
+    return {
+      folders: folderIDs.map((id, position) => ({...byID.get(id), position})),
+    };
+  }
+
+  /**
+   * Deletes a folder and all its subfolders. The decks they held are only unfiled.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @return {Promise<object>} A promise resolving to the IDs of the deleted folders and the number of decks unfiled.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404).
+   */
+  public async deleteFolder(userID: string, folderID: string): Promise<object> {
+    const folders = await this.folderRepository.getFolders(userID);
+    this.findFolder(folders, folderID);
+
+    const folderIDs = [folderID, ...this.getDescendantIDs(folders, folderID)];
+    const unfiledDecks = await this.folderRepository.deleteFolders(folderIDs);
+
+    return {
+      deleted_folders: folderIDs,
+      unfiled_decks: unfiledDecks,
+    };
+  }
+
+  /**
+   * Retrieves a page of the decks of a folder, in folder order. Decks that were deleted since they were
+   * filed are left out of the page.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @param {number} limit - The maximum number of decks per page.
+   * @param {string | null} nextPageToken - The token of the next page, or null for the first page.
+   * @return {Promise<object>} A promise resolving to the decks and the next page token.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404).
+   */
+  public async getFolderDecks(userID: string, folderID: string, limit: number, nextPageToken: string | null): Promise<object> {
+    await this.getOwnedFolder(userID, folderID);
+
+    const page = await this.folderRepository.getFolderItemsPage(folderID, limit, nextPageToken);
+    const decks = await this.deckRepository.getDecksByIDs(page.items.map(({deck_id: deckID}) => deckID));
+    const filed = page.items.filter(({deck_id: deckID}) => decks[deckID] && !decks[deckID].is_deleted);
+    const ownerNames = await this.deckRepository.getDeckOwnerNames(filed.map(({deck_id: deckID}) => decks[deckID].owner_id));
+
+    return {
+      decks: filed.map(({deck_id: deckID, position, added_at: addedAt}) => ({
+        id: deckID,
+        owner_name: ownerNames[decks[deckID].owner_id],
+        ...decks[deckID],
+        folder_position: position,
+        added_to_folder_at: addedAt,
+      })),
+      nextPageToken: page.nextPageToken,
+    };
+  }
+
+  /**
+   * Files decks in a folder, after its last deck. Every deck must be owned (and not deleted) or saved by
+   * the user. A deck filed in another folder of the user is moved; decks already in the folder keep their place.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @param {string[]} deckIDs - The IDs of the decks.
+   * @return {Promise<object>} A promise resolving to the IDs of the decks added.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404), DECK_NOT_OWNED_OR_SAVED (400) or FOLDER_FULL (409).
+   */
+  public async addDecksToFolder(userID: string, folderID: string, deckIDs: string[]): Promise<object> {
+    await this.getOwnedFolder(userID, folderID);
+
+    const [library, filedDeckIDs] = await Promise.all([
+      this.deckRepository.getStudyDeckIDs(userID),
+      this.folderRepository.getFolderDeckIDs(folderID),
+    ]);
+
+    const libraryIDs = new Set(library);
+    const unknownDeckIDs = deckIDs.filter((deckID) => !libraryIDs.has(deckID));
+    if (unknownDeckIDs.length > 0) {
+      throw new ApiError(
+        "Only decks the user owns or has saved can be added to a folder",
+        400,
+        {folderID, deckIDs: unknownDeckIDs, errorCode: "DECK_NOT_OWNED_OR_SAVED"}
+      );
+    }
+
+    const filed = new Set(filedDeckIDs);
+    const added = deckIDs.filter((deckID) => !filed.has(deckID));
+    if (filedDeckIDs.length + added.length > FolderService.MAX_FOLDER_DECKS) {
+      throw new ApiError(
+        `A folder holds at most ${FolderService.MAX_FOLDER_DECKS} decks`,
+        409,
+        {folderID, errorCode: "FOLDER_FULL"}
+      );
+    }
+
+    if (added.length > 0) {
+      const lastPosition = await this.folderRepository.getLastItemPosition(folderID);
+      await this.folderRepository.setFolderItems(userID, folderID, added, lastPosition + 1);
+    }
+
+    return {
+      folder_id: folderID,
+      added,
+    };
+  }
+
+  /**
+   * Removes decks from a folder. Decks that are not in the folder are ignored.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @param {string[]} deckIDs - The IDs of the decks.
+   * @return {Promise<object>} A promise resolving to the IDs of the decks removed.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404).
+   */
+  public async removeDecksFromFolder(userID: string, folderID: string, deckIDs: string[]): Promise<object> {
+    await this.getOwnedFolder(userID, folderID);
+
+    const removed = await this.folderRepository.deleteFolderItems(userID, folderID, deckIDs);
+
+    return {
+      folder_id: folderID,
+      removed,
+    };
+  }
+
+  /**
+   * Orders the decks of a folder as listed. Every deck of the folder must be listed once.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @param {string[]} deckIDs - The IDs of the decks of the folder, in their new order.
+   * @return {Promise<object>} A promise resolving to the deck IDs in their new order.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404) or INVALID_DECK_ORDER (400).
+   */
+  public async reorderFolderDecks(userID: string, folderID: string, deckIDs: string[]): Promise<object> {
+    await this.getOwnedFolder(userID, folderID);
+
+    const filedDeckIDs = await this.folderRepository.getFolderDeckIDs(folderID);
+    if (!this.isPermutation(filedDeckIDs, deckIDs)) {
+      throw new ApiError(
+        "The deck IDs must list every deck of the folder once",
+        400,
+        {folderID, errorCode: "INVALID_DECK_ORDER"}
+      );
+    }
+
+    await this.folderRepository.setFolderItemPositions(userID, deckIDs);
+
+    return {
+      folder_id: folderID,
+      deck_ids: deckIDs,
+    };
+  }
+
+  /**
+   * Retrieves a folder of the user. Folders of other users are reported as not found.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @return {Promise<Folder>} A promise resolving to the folder.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404).
+   */
+  private async getOwnedFolder(userID: string, folderID: string): Promise<Folder> {
+    const folder = await this.folderRepository.getFolder(folderID);
+
+    if (!folder || folder.owner_id !== userID) {
+      throw new ApiError(`Folder ${folderID} does not exist`, 404, {folderID, errorCode: "FOLDER_NOT_FOUND"});
+    }
+
+    return folder;
+  }
+
+  /**
+   * Finds a folder in the folders of the user.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @return {Folder} The folder.
+   * @throws {ApiError} Throws FOLDER_NOT_FOUND (404).
+   */
+  private findFolder(folders: Folder[], folderID: string): Folder {
+    const folder = folders.find(({id}) => id === folderID);
+
+    if (!folder) {
+      throw new ApiError(`Folder ${folderID} does not exist`, 404, {folderID, errorCode: "FOLDER_NOT_FOUND"});
+    }
+
+    return folder;
+  }
+
+  /**
+   * Finds the parent folder of a new or moved folder in the folders of the user.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {string} parentID - The ID of the parent folder.
+   * @return {Folder} The parent folder.
+   * @throws {ApiError} Throws PARENT_FOLDER_NOT_FOUND (404).
+   */
+  private findParent(folders: Folder[], parentID: string): Folder {
+    const parent = folders.find(({id}) => id === parentID);
+
+    if (!parent) {
+      throw new ApiError(`Folder ${parentID} does not exist`, 404, {parentID, errorCode: "PARENT_FOLDER_NOT_FOUND"});
+    }
+
+    return parent;
+  }
+
+  /**
+   * Checks that a subtree of the given height fits under a parent folder.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {Folder} parent - The parent folder.
+   * @param {number} height - The number of levels of the subtree, 1 for a single folder.
+   * @throws {ApiError} Throws FOLDER_DEPTH_EXCEEDED (400).
+   */
+  private assertDepth(folders: Folder[], parent: Folder, height: number): void {
+    const parentDepth = this.getAncestors(folders, parent).length + 1;
+
+    if (parentDepth + height > MAX_FOLDER_DEPTH) {
+      throw new ApiError(
+        `Folders nest at most ${MAX_FOLDER_DEPTH} levels deep`,
+        400,
+        {parentID: parent.id, errorCode: "FOLDER_DEPTH_EXCEEDED"}
+      );
+    }
+  }
+
+  /**
+   * Lists the ancestors of a folder, its parent first. A parent missing from the folders ends the list.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {Folder} folder - The folder.
+   * @return {Folder[]} The ancestors of the folder.
+   */
+  private getAncestors(folders: Folder[], folder: Folder): Folder[] {
+    const byID = new Map(folders.map((item) => [item.id, item]));
+    const ancestors: Folder[] = [];
+
+    let parent = folder.parent_id ? byID.get(folder.parent_id) : undefined;
+    while (parent && !ancestors.includes(parent)) {
+      ancestors.push(parent);
+      parent = parent.parent_id ? byID.get(parent.parent_id) : undefined;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Lists the subfolders of a folder, or the root folders, by position.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {string | null} parentID - The ID of the parent folder, or null for the root folders.
+   * @return {Folder[]} The subfolders.
+   */
+  private getChildren(folders: Folder[], parentID: string | null): Folder[] {
+    return folders
+      .filter((folder) => (folder.parent_id ?? null) === parentID)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  /**
+   * Lists the IDs of every folder nested in a folder, at any level.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @return {string[]} The IDs of the nested folders.
+   */
+  private getDescendantIDs(folders: Folder[], folderID: string): string[] {
+    return this.getChildren(folders, folderID).flatMap(({id}) => [id, ...this.getDescendantIDs(folders, id)]);
+  }
+
+  /**
+   * Computes the number of levels of the subtree of a folder, 1 for a folder without subfolders.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {string} folderID - The ID of the folder.
+   * @return {number} The height of the subtree.
+   */
+  private getHeight(folders: Folder[], folderID: string): number {
+    return 1 + Math.max(0, ...this.getChildren(folders, folderID).map(({id}) => this.getHeight(folders, id)));
+  }
+
+  /**
+   * Computes the position after the last subfolder of a folder, or after the last root folder.
+   *
+   * @param {Folder[]} folders - The folders of the user.
+   * @param {string | null} parentID - The ID of the parent folder, or null for the root folders.
+   * @return {number} The position.
+   */
+  private nextPosition(folders: Folder[], parentID: string | null): number {
+    return Math.max(-1, ...this.getChildren(folders, parentID).map(({position}) => position)) + 1;
+  }
+
+  /**
+   * Checks whether a list holds exactly the given IDs, each once.
+   *
+   * @param {string[]} expected - The IDs that must be listed.
+   * @param {string[]} listed - The listed IDs, without duplicates.
+   * @return {boolean} Whether the list is a permutation of the IDs.
+   */
+  private isPermutation(expected: string[], listed: string[]): boolean {
+    const expectedIDs = new Set(expected);
+    return listed.length === expectedIDs.size && listed.every((id) => expectedIDs.has(id));
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Deck Manager API - Moderation Service
+ *
+ * @file ModerationService.ts
+ * This module defines the local, rule-based moderation engine. It scans the title and description
+ * of a deck and the term and definition of every flashcard against the configured rules
+ * (blocklist, custom patterns, links, personal information and maximum lengths) and returns a
+ * structured reason for every flagged field. It needs no network, so decks can be moderated
+ * even when the external moderation service is unreachable.
+ *
+ * Each rule flags a field at most once, and a scan stops after `MAX_FLAGS` flags.
+ *
+ * Methods:
+ * - moderateDeck: Scans a deck and its flashcards.
+ * - isAutoApproveEnabled: Whether decks passing the rules are approved without the external service.
+ *
+ * @module service
+ * @file ModerationService.ts
+ * @class ModerationService
+ * @classdesc Applies the local moderation rules to decks and flashcards.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ModeratedField, ModerationFlag, ModerationResult, ModerationRules, ModerationRuleType} from "../interface/Moderation";
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/i;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\b\d{2,4})[\s.-]\d{3,4}[\s.-]\d{4}\b|(?:\+63|\b0)9\d{9}\b/;
+
+/**
+ * Service class responsible for the local moderation of decks.
+ */
+export class ModerationService {
+  /**
+   * The maximum number of flags returned by a scan.
+   */
+  public static readonly MAX_FLAGS = 100;
+
+  /**
+   * The rules applied to every field.
+   */
+  private rules: ModerationRules;
+
+  /**
+   * The blocklist compiled into a single whole-word, case-insensitive expression, or null when empty.
+   */
+  private blocklistPattern: RegExp | null;
+
+  /**
+   * Initializes the ModerationService.
+   *
+   * @param {ModerationRules} rules - The moderation rules (see `loadModerationRules`).
+   */
+  constructor(rules: ModerationRules) {
+    this.rules = rules;
+
+    const words = rules.blocklist.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    this.blocklistPattern = words.length > 0 ? new RegExp(`\\b(?:${words.join("|")})\\b`, "i") : null;
+  }
+
+  /**
+   * Scans a deck and its flashcards against the moderation rules.
+   *
+   * @param {object} deck - The title and description of the deck.
+   * @param {Array<object>} flashcards - The flashcards of the deck.
+   * @return {ModerationResult} The flags of the deck; the deck passes when there are none.
+   */
+  public moderateDeck(
+    deck: {title: string, description?: string},
+    flashcards: Array<{id: string, term?: unknown, definition?: unknown}>
+  ): ModerationResult {
+    const flags: ModerationFlag[] = [];
+
+    this.scanField(flags, "title", deck.title, null);
+    this.scanField(flags, "description", deck.description, null);
+    for (const flashcard of flashcards) {
+      if (flags.length >= ModerationService.MAX_FLAGS) break;
+
+      this.scanField(flags, "term", flashcard.term, flashcard.id);
+      this.scanField(flags, "definition", flashcard.definition, flashcard.id);
+    }
+
+    return {
+      engine: "local",
+      passed: flags.length === 0,
+      flags: flags.slice(0, ModerationService.MAX_FLAGS),
+      scanned_flashcards: flashcards.length,
+      checked_at: FirebaseAdmin.getTimeStamp(),
+    };
+  }
+
+  /**
+   * Checks whether decks passing the local rules are approved when the external moderation
+   * service is not configured or unreachable.
+   *
+   * @return {boolean} True if auto-approval is enabled.
+   */
+  public isAutoApproveEnabled(): boolean {
+    return this.rules.autoApprove;
+  }
+
+  /**
+   * Applies every rule to a field and appends its flags.
+   *
+   * @param {ModerationFlag[]} flags - The flags found so far.
+   * @param {ModeratedField} field - The name of the field.
+   * @param {unknown} value - The value of the field; anything but a string is skipped.
+   * @param {string | null} flashcardID - The ID of the flashcard, or null for deck fields.
+   */
+  private scanField(flags: ModerationFlag[], field: ModeratedField, value: unknown, flashcardID: string | null): void {
+    if (typeof value !== "string" || value.length === 0) return;
+
+    const flag = (rule: ModerationRuleType, match: string, message: string) =>
+      flags.push({rule, field, flashcard_id: flashcardID, match, message});
+
+    const max = this.rules.maxLength[field];
+    if (value.length > max) {
+      flag("MAX_LENGTH", String(value.length), `The ${field} is longer than ${max} characters`);
+    }
+
+    const blocked = this.blocklistPattern?.exec(value);
+    if (blocked) {
+      flag("BLOCKLIST", blocked[0], `The ${field} contains the blocked word "${blocked[0]}"`);
+    }
+
+    for (const {name, pattern} of this.rules.patterns) {
+      const matched = pattern.exec(value);
+      if (matched) {
+        flag("PATTERN", matched[0], `The ${field} matches the rule "${name}"`);
+      }
+    }
+
+    if (this.rules.detectUrls) {
+      const url = URL_PATTERN.exec(value);
+      if (url) flag("URL", url[0], `The ${field} contains a link`);
+    }
+
+    if (this.rules.detectPII) {
+      const email = EMAIL_PATTERN.exec(value);
+      if (email) flag("EMAIL", email[0], `The ${field} contains an email address`);
+
+      const phone = PHONE_PATTERN.exec(value);
+      if (phone) flag("PHONE", phone[0], `The ${field} contains a phone number`);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Deck Manager API - Permission Service
+ *
+ * @file PermissionService.ts
+ * This module defines the single place where deck and flashcard operations are authorized.
+ * The role of a user on a deck is `owner` when the user created the deck, otherwise the
+ * role stored in the `collaborators` subcollection of the deck (viewer, editor or admin).
+ * Every action requires a minimum role:
+ * - read: viewer (anyone when the deck is public).
+ * - edit: editor (deck details and flashcards).
+ * - manage: admin (visibility and collaborators).
+ * - delete: owner.
+ *
+ * Methods:
+ * - getRole: Resolves the role of a user on a deck.
+ * - getCollaboratorRoles: Resolves the roles of a user across every deck they collaborate on.
+ * - can: Checks whether a user can perform an action on a deck.
+ * - allows: Checks whether a role allows an action on a deck.
+ * - getUpdateAction: Resolves the action required by a deck update.
+ *
+ * @module service
+ * @file PermissionService.ts
+ * @class PermissionService
+ * @classdesc Authorizes deck and flashcard operations from the deck owner and its collaborator roles.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {CollaboratorRole, DeckAction, DeckRole} from "../interface/Collaborator";
+import {CollaboratorRepository} from "../repositories/CollaboratorRepository";
+
+/**
+ * The fields of a deck needed to authorize an action on it.
+ */
+export interface DeckAccessInfo {
+  owner_id: string;
+  is_private?: boolean;
+}
+
+/**
+ * Service class responsible for authorizing deck and flashcard operations.
+ */
+export class PermissionService {
+  /**
+   * A repository instance for reading the collaborators of a deck.
+   */
+  private collaboratorRepository: CollaboratorRepository;
+
+  /**
+   * The rank of every role; a higher rank includes every permission of the lower ones.
+   */
+  private static readonly ROLE_RANK: Record<DeckRole, number> = {viewer: 1, editor: 2, admin: 3, owner: 4};
+
+  /**
+   * The minimum role rank required by every action.
+   */
+  private static readonly ACTION_RANK: Record<DeckAction, number> = {read: 1, edit: 2, manage: 3, delete: 4};
+
+  /**
+   * Initializes the PermissionService.
+   *
+   * @param {CollaboratorRepository} collaboratorRepository - The repository handling collaborator data operations.
+   */
+  constructor(collaboratorRepository: CollaboratorRepository) {
+    this.collaboratorRepository = collaboratorRepository;
+  }
+
+  /**
+   * Resolves the role of a user on a deck.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @param {DeckAccessInfo} deck - The deck data.
+   * @return {Promise<DeckRole | null>} The role of the user, or null if the user has no role on the deck.
+   * @throws {ApiError} Throws COLLABORATOR_FETCH_ERROR on repository failure.
+   */
+  public async getRole(userID: string, deckID: string, deck: DeckAccessInfo): Promise<DeckRole | null> {
+    if (!userID) return null;
+    if (deck.owner_id === userID) return "owner";
+
+    const collaborator = await this.collaboratorRepository.getCollaborator(deckID, userID);
+    return collaborator?.role ?? null;
+  }
+
+  /**
+   * Resolves the roles of a user across every deck they collaborate on.
+   * Useful to authorize many decks at once with `allows`.
+   *
+   * @param {string} userID - The ID of the user.
+   * @return {Promise<Record<string, CollaboratorRole>>} A map of deck IDs to the role of the user.
+   * @throws {ApiError} Throws COLLABORATOR_FETCH_ERROR on repository failure.
+   */
+  public async getCollaboratorRoles(userID: string): Promise<Record<string, CollaboratorRole>> {
+    return this.collaboratorRepository.getCollaboratorRoles(userID);
+  }
+
+  /**
+   * Checks whether a user can perform an action on a deck.
+   * Reading a public deck never requires a role.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @param {DeckAccessInfo} deck - The deck data.
+   * @param {DeckAction} action - The action to perform.
+   * @return {Promise<boolean>} True if the user can perform the action.
+   * @throws {ApiError} Throws COLLABORATOR_FETCH_ERROR on repository failure.
+   */
+  public async can(userID: string, deckID: string, deck: DeckAccessInfo, action: DeckAction): Promise<boolean> {
+    if (PermissionService.allows(null, action, deck)) return true;
+
+    const role = await this.getRole(userID, deckID, deck);
+    return PermissionService.allows(role, action, deck);
+  }
+
+  /**
+   * Checks whether a role allows an action on a deck.
+   *
+   * @param {DeckRole | null} role - The role of the user, or null if the user has no role on the deck.
+   * @param {DeckAction} action - The action to perform.
+   * @param {DeckAccessInfo} deck - The deck data.
+   * @return {boolean} True if the role allows the action.
+   */
+  public static allows(role: DeckRole | null, action: DeckAction, deck: DeckAccessInfo): boolean {
+    if (action === "read" && deck.is_private === false) return true;
+    if (!role) return false;
+
+    return PermissionService.ROLE_RANK[role] >= PermissionService.ACTION_RANK[action];
+  }
+
+  /**
+   * Resolves the action required by a deck update: deleting or restoring the deck
+   * requires `delete`, changing its visibility requires `manage`, anything else `edit`.
+   *
+   * @param {object} data - The fields to update.
+   * @return {DeckAction} The required action.
+   */
+  public static getUpdateAction(data: object): DeckAction {
+    if (Object.prototype.hasOwnProperty.call(data, "is_deleted")) return "delete";
+    if (Object.prototype.hasOwnProperty.call(data, "is_private")) return "manage";
+    return "edit";
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Deck Manager API - Publish Request Service
+ *
+ * @file PublishRequestService.ts
+ * This module defines the service layer for the requests to publish decks. Users that can
+ * manage a private deck request to publish it, and moderators approve or reject pending
+ * requests. The deck only becomes public when its request is approved.
+ *
+ * Every new request is first scanned by the local moderation engine (see `ModerationService`):
+ * flagged decks are rejected right away with the flags as reasons. Decks passing the local rules
+ * are then compared with the public decks (see `DuplicateDeckService`): a deck as similar to a
+ * public deck as the block threshold is rejected, and one above the warn threshold is never approved
+ * automatically. The remaining decks are sent to the external moderation service, whose URL is read from the `DECK_MODERATION_URL`
+ * environment variable. When that service is not configured or unreachable, the local verdict
+ * stands: the deck is approved if auto-approval is enabled, otherwise it waits for a moderator.
+ *
+ * Methods:
+ * - createPublishRequest: Requests to publish a private deck.
+ * - getPublishRequests: Lists the publish requests of a user.
+ * - getModerationQueue: Lists the pending publish requests, oldest first.
+ * - getPublishRequest: Retrieves a publish request.
+ * - cancelPublishRequest: Cancels a pending publish request.
+ * - reviewPublishRequest: Approves or rejects a pending publish request.
+ *
+ * @module service
+ * @file PublishRequestService.ts
+ * @class PublishRequestService
+ * @classdesc Handles business logic for publish requests, coordinating the PermissionService and the PublishRequestRepository.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {callFirebaseAIAPI} from "../helpers/callDeckAiAPI";
+import {Deck} from "../interface/Deck";
+import {ExternalModerationStatus, PublishRequest, PublishVerdict} from "../interface/PublishRequest";
+import {AdminActor} from "../interface/UserRole";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {PublishRequestRepository} from "../repositories/PublishRequestRepository";
+import {FlashcardService} from "./FlashCardService";
+import {ModerationService} from "./ModerationService";
+import {DuplicateDeckService} from "./DuplicateDeckService";
+import {PermissionService} from "./PermissionService";
+
+/**
+ * Service class responsible for the requests to publish decks.
+ */
+export class PublishRequestService {
+  /**
+   * A repository instance for managing publish request data.
+   */
+  private publishRequestRepository: PublishRequestRepository;
+
+  /**
+   * A repository instance used to read the deck being published.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * The service authorizing deck operations.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * The service used to read the flashcards of the deck being published.
+   */
+  private flashcardService: FlashcardService;
+
+  /**
+   * The local moderation engine.
+   */
+  private moderationService: ModerationService;
+
+  /**
+   * The service comparing the deck with the public decks.
+   */
+  private duplicateDeckService: DuplicateDeckService;
+
+  /**
+   * Initializes the PublishRequestService.
+   *
+   * @param {PublishRequestRepository} publishRequestRepository - The repository handling publish request data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   * @param {FlashcardService} flashcardService - The service handling flashcard operations.
+   * @param {ModerationService} moderationService - The local moderation engine.
+   * @param {DuplicateDeckService} duplicateDeckService - The service detecting near-duplicate decks.
+   */
+  constructor(
+    publishRequestRepository: PublishRequestRepository,
+    deckRepository: DeckRepository,
+    permissionService: PermissionService,
+    flashcardService: FlashcardService,
+    moderationService: ModerationService,
+    duplicateDeckService: DuplicateDeckService
+  ) {
+    this.publishRequestRepository = publishRequestRepository;
+    this.deckRepository = deckRepository;
+    this.permissionService = permissionService;
+    this.flashcardService = flashcardService;
+    this.moderationService = moderationService;
+    this.duplicateDeckService = duplicateDeckService;
+  }
+
+  /**
+   * Requests to publish a private deck. Only users that can manage the deck (its owner and
+   * admins) can request it, and a deck has at most one pending request. The request is
+   * moderated right away, so it may already be rejected or approved when returned.
+   *
+   * @param {string} userID - The ID of the user requesting the publication.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} [accessToken] - The authorization header forwarded to the external moderation service.
+   * @return {Promise<PublishRequest>} A promise resolving to the request.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404), NOT_AUTHORIZED_TO_PUBLISH_DECK (403),
+   * DECK_ALREADY_PUBLIC, DECK_ON_MODERATION_HOLD or PUBLISH_REQUEST_ALREADY_PENDING (409).
+   */
+  public async createPublishRequest(userID: string, deckID: string, accessToken?: string): Promise<PublishRequest> {
+    const deck = await this.getDeck(deckID);
+
+    if (!(await this.permissionService.can(userID, deckID, deck, "manage"))) {
+      throw new ApiError(
+        `User ${userID} is not authorized to publish deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_PUBLISH_DECK"}
+      );
+    }
+    if (!deck.is_private) {
+      throw new ApiError(`Deck ${deckID} is already public`, 409, {deckID, errorCode: "DECK_ALREADY_PUBLIC"});
+    }
+    if (deck.moderation_hold) {
+      throw new ApiError(
+        `Deck ${deckID} is on hold until a moderator reviews its reports`,
+        409,
+        {deckID, errorCode: "DECK_ON_MODERATION_HOLD"}
+      );
+    }
+
+    const flashcards = await this.flashcardService.getAllFlashcards(deckID);
+    const moderation = this.moderationService.moderateDeck(deck, flashcards);
+
+    const now = FirebaseAdmin.getTimeStamp();
+    const request = await this.publishRequestRepository.createPublishRequest({
+      deck_id: deckID,
+      deck_title: deck.title,
+      owner_id: deck.owner_id,
+      requested_by: userID,
+      mod_verdict: "PENDING",
+      verdict_history: [{verdict: "PENDING", source: "owner", actor_id: userID, reason: null, decided_at: now}],
+      moderation,
+      created_at: now,
+      updated_at: now,
+    });
+
+    if (!moderation.passed) {
+      return this.publishRequestRepository.decidePublishRequest(request.id, {
+        verdict: "REJECTED",
+        source: "automated",
+        actor_id: null,
+        reason: "The deck was flagged by the automated moderation",
+        flags: moderation.flags,
+        decided_at: FirebaseAdmin.getTimeStamp(),
+      });
+    }
+
+    const duplicates = await this.duplicateDeckService.checkDeckDuplicates(deck.owner_id, deckID, flashcards);
+    await this.publishRequestRepository.updatePublishRequest(request.id, {duplicates});
+
+    if (duplicates.action === "BLOCK") {
+      const [original] = duplicates.duplicates;
+      return this.publishRequestRepository.decidePublishRequest(request.id, {
+        verdict: "REJECTED",
+        source: "automated",
+        actor_id: null,
+        reason: `The deck duplicates the public deck ${original.deck_id} (${original.title})`,
+        decided_at: FirebaseAdmin.getTimeStamp(),
+      });
+    }
+
+    const externalModeration = await this.notifyExternalModeration(userID, request, accessToken);
+    await this.publishRequestRepository.updatePublishRequest(request.id, {external_moderation: externalModeration});
+
+    // Likely duplicates always wait for a moderator
+    if (externalModeration !== "NOTIFIED" && duplicates.action === "NONE" && this.moderationService.isAutoApproveEnabled()) {
+      return this.publishRequestRepository.decidePublishRequest(request.id, {
+        verdict: "APPROVED",
+        source: "automated",
+        actor_id: null,
+        reason: "The deck passed the automated moderation",
+        decided_at: FirebaseAdmin.getTimeStamp(),
+      });
+    }
+
+    return {...request, duplicates, external_moderation: externalModeration};
+  }
+
+  /**
+   * Lists the publish requests of a user, newest first.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {PublishVerdict | undefined} verdict - Only return the requests with this verdict.
+   * @param {number} limit - The maximum number of requests to return.
+   * @param {string | null} nextPageToken - The ID of the last request of the previous page.
+   * @return {Promise<object>} A promise resolving to the requests and the next page token.
+   */
+  public async getPublishRequests(
+    userID: string,
+    verdict: PublishVerdict | undefined,
+    limit: number,
+    nextPageToken: string | null
+  ): Promise<object> {
+    return this.publishRequestRepository.getPublishRequests({requestedBy: userID, verdict}, "desc", limit, nextPageToken);
+  }
+
+  /**
+   * Lists the pending publish requests of every user, oldest first.
+   *
+   * @param {number} limit - The maximum number of requests to return.
+   * @param {string | null} nextPageToken - The ID of the last request of the previous page.
+   * @return {Promise<object>} A promise resolving to the requests and the next page token.
+   */
+  public async getModerationQueue(limit: number, nextPageToken: string | null): Promise<object> {
+    return this.publishRequestRepository.getPublishRequests({verdict: "PENDING"}, "asc", limit, nextPageToken);
+  }
+
+  /**
+   * Retrieves a publish request. Visible to its requester, the owner of the deck and moderators.
+   *
+   * @param {AdminActor} actor - The user requesting the publish request and their platform role.
+   * @param {string} requestID - The ID of the publish request.
+   * @return {Promise<PublishRequest>} A promise resolving to the publish request.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_NOT_FOUND (404) or NOT_AUTHORIZED_TO_VIEW_PUBLISH_REQUEST (403).
+   */
+  public async getPublishRequest(actor: AdminActor, requestID: string): Promise<PublishRequest> {
+    const request = await this.getRequest(requestID);
+
+    if (actor.role === "user" && !this.isRequesterOrOwner(actor.user_id, request)) {
+      throw new ApiError(
+        `User ${actor.user_id} is not authorized to view publish request ${requestID}`,
+        403,
+        {requestID, errorCode: "NOT_AUTHORIZED_TO_VIEW_PUBLISH_REQUEST"}
+      );
+    }
+    return request;
+  }
+
+  /**
+   * Cancels a pending publish request. Only its requester and the owner of the deck can cancel it.
+   *
+   * @param {string} userID - The ID of the user cancelling the request.
+   * @param {string} requestID - The ID of the publish request.
+   * @return {Promise<PublishRequest>} A promise resolving to the cancelled request.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_NOT_FOUND (404), NOT_AUTHORIZED_TO_CANCEL_PUBLISH_REQUEST (403)
+   * or PUBLISH_REQUEST_NOT_PENDING (409).
+   */
+  public async cancelPublishRequest(userID: string, requestID: string): Promise<PublishRequest> {
+    const request = await this.getRequest(requestID);
+
+    if (!this.isRequesterOrOwner(userID, request)) {
+      throw new ApiError(
+        `User ${userID} is not authorized to cancel publish request ${requestID}`,
+        403,
+        {requestID, errorCode: "NOT_AUTHORIZED_TO_CANCEL_PUBLISH_REQUEST"}
+      );
+    }
+
+    return this.publishRequestRepository.decidePublishRequest(requestID, {
+      verdict: "CANCELLED",
+      source: "owner",
+      actor_id: userID,
+      reason: null,
+      decided_at: FirebaseAdmin.getTimeStamp(),
+    });
+  }
+
+  /**
+   * Approves or rejects a pending publish request. Approving a request makes the deck public.
+   *
+   * @param {AdminActor} actor - The moderator reviewing the request.
+   * @param {string} requestID - The ID of the publish request.
+   * @param {"APPROVED" | "REJECTED"} verdict - The verdict.
+   * @param {string | null} reason - The reason of the verdict, shown to the requester.
+   * @return {Promise<PublishRequest>} A promise resolving to the reviewed request.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_NOT_FOUND (404), PUBLISH_REQUEST_NOT_PENDING (409) or DECK_NOT_FOUND (404).
+   */
+  public async reviewPublishRequest(
+    actor: AdminActor,
+    requestID: string,
+    verdict: "APPROVED" | "REJECTED",
+    reason: string | null
+  ): Promise<PublishRequest> {
+    return this.publishRequestRepository.decidePublishRequest(requestID, {
+      verdict,
+      source: "moderator",
+      actor_id: actor.user_id,
+      reason,
+      decided_at: FirebaseAdmin.getTimeStamp(),
+    });
+  }
+
+  /**
+   * Notifies the external moderation service of a new request, when it is configured.
+   *
+   * @param {string} userID - The ID of the user requesting the publication.
+   * @param {PublishRequest} request - The publish request.
+   * @param {string} [accessToken] - The authorization header forwarded to the service.
+   * @return {Promise<ExternalModerationStatus>} Whether the service was notified, unreachable or not configured.
+   */
+  private async notifyExternalModeration(
+    userID: string,
+    request: PublishRequest,
+    accessToken?: string
+  ): Promise<ExternalModerationStatus> {
+    const url = process.env.DECK_MODERATION_URL;
+    if (!url) return "DISABLED";
+
+    try {
+      await callFirebaseAIAPI(userID, accessToken ?? "", url, {deckId: request.deck_id, requestId: request.id});
+      return "NOTIFIED";
+    } catch (error) {
+      console.warn(`Moderation service unreachable for publish request ${request.id}, using the local verdict`);
+      return "UNREACHABLE";
+    }
+  }
+
+  /**
+   * Checks whether a user requested a publication or owns the deck it publishes.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {PublishRequest} request - The publish request.
+   * @return {boolean} True if the user is the requester or the owner of the deck.
+   */
+  private isRequesterOrOwner(userID: string, request: PublishRequest): boolean {
+    return request.requested_by === userID || request.owner_id === userID;
+  }
+
+  /**
+   * Retrieves a publish request that exists.
+   *
+   * @param {string} requestID - The ID of the publish request.
+   * @return {Promise<PublishRequest>} A promise resolving to the publish request.
+   * @throws {ApiError} Throws PUBLISH_REQUEST_NOT_FOUND (404).
+   */
+  private async getRequest(requestID: string): Promise<PublishRequest> {
+    const request = await this.publishRequestRepository.getPublishRequest(requestID);
+
+    if (!request) {
+      throw new ApiError(`Publish request ${requestID} does not exist`, 404, {requestID, errorCode: "PUBLISH_REQUEST_NOT_FOUND"});
+    }
+    return request;
+  }
+
+  /**
+   * Retrieves a deck that exists and is not deleted.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<Deck>} A promise resolving to the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404).
+   */
+  private async getDeck(deckID: string): Promise<Deck> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+    return deck;
+  }
+}
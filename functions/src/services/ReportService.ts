@@ -0,0 +1,179 @@
+/**
+ * Deck Manager API - Report Service
+ *
+ * @file ReportService.ts
+ * This module defines the service layer for the reports filed against public decks. Users report
+ * public decks they do not own; moderators work through a queue of the decks with open reports
+ * and resolve them. A deck whose open reports reach the hide threshold is made private and put
+ * on moderation hold until a moderator resolves its reports.
+ *
+ * The hide threshold is read from the `REPORT_HIDE_THRESHOLD` environment variable (defaults to 5).
+ *
+ * Methods:
+ * - reportDeck: Files a report against a public deck.
+ * - getReportQueue: Lists the decks with open reports, most reported first.
+ * - getDeckReports: Retrieves the report summary and the reports of a deck.
+ * - resolveReports: Dismisses the open reports of a deck or unpublishes it.
+ *
+ * @module service
+ * @file ReportService.ts
+ * @class ReportService
+ * @classdesc Handles business logic for deck reports, delegating persistence to the ReportRepository.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {Deck} from "../interface/Deck";
+import {ReportCategory, ReportResolution} from "../interface/Report";
+import {AdminActor} from "../interface/UserRole";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {ReportRepository} from "../repositories/ReportRepository";
+
+/**
+ * Service class responsible for the reports of decks.
+ */
+export class ReportService {
+  /**
+   * The number of open reports that hides a deck when the environment does not set one.
+   */
+  public static readonly DEFAULT_HIDE_THRESHOLD = 5;
+
+  /**
+   * A repository instance for managing report data.
+   */
+  private reportRepository: ReportRepository;
+
+  /**
+   * A repository instance used to read the reported deck.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * The number of open reports that hides a deck.
+   */
+  private hideThreshold: number;
+
+  /**
+   * Initializes the ReportService.
+   *
+   * @param {ReportRepository} reportRepository - The repository handling report data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   * @param {number} [hideThreshold] - The number of open reports that hides a deck (defaults to `REPORT_HIDE_THRESHOLD`).
+   */
+  constructor(reportRepository: ReportRepository, deckRepository: DeckRepository, hideThreshold?: number) {
+    this.reportRepository = reportRepository;
+    this.deckRepository = deckRepository;
+
+    const configured = Number(process.env.REPORT_HIDE_THRESHOLD);
+    this.hideThreshold = hideThreshold ??
+      (Number.isInteger(configured) && configured > 0 ? configured : ReportService.DEFAULT_HIDE_THRESHOLD);
+  }
+
+  /**
+   * Files a report against a public deck. Users cannot report their own decks,
+   * and have at most one open report per deck.
+   *
+   * @param {string} userID - The ID of the reporting user.
+   * @param {string} deckID - The ID of the deck.
+   * @param {ReportCategory} category - The reason category of the report.
+   * @param {string | null} comment - An optional comment.
+   * @return {Promise<object>} A promise resolving to the report.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404), CANNOT_REPORT_OWN_DECK (400) or REPORT_ALREADY_EXISTS (409).
+   */
+  public async reportDeck(userID: string, deckID: string, category: ReportCategory, comment: string | null): Promise<object> {
+    const deck = await this.getDeck(deckID);
+
+    if (deck.owner_id === userID) {
+      throw new ApiError("You cannot report your own deck", 400, {deckID, errorCode: "CANNOT_REPORT_OWN_DECK"});
+    }
+
+    const {report} = await this.reportRepository.createReport({
+      user_id: userID,
+      deck_id: deckID,
+      category,
+      comment,
+      status: "OPEN",
+      created_at: FirebaseAdmin.getTimeStamp(),
+    }, this.hideThreshold);
+
+    // Whether the report hid the deck is only shown to moderators
+    return {report};
+  }
+
+  /**
+   * Lists the decks with open reports, most reported first.
+   *
+   * @param {number} limit - The maximum number of decks to return.
+   * @param {string | null} nextPageToken - The deck ID of the last summary of the previous page.
+   * @return {Promise<object>} A promise resolving to the report summaries and the next page token.
+   */
+  public async getReportQueue(limit: number, nextPageToken: string | null): Promise<object> {
+    return this.reportRepository.getReportQueue(limit, nextPageToken);
+  }
+
+  /**
+   * Retrieves the report summary and the reports of a deck.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<object>} A promise resolving to the summary and the reports.
+   * @throws {ApiError} Throws REPORTS_NOT_FOUND (404).
+   */
+  public async getDeckReports(deckID: string): Promise<object> {
+    const reports = await this.reportRepository.getDeckReports(deckID);
+
+    if (!reports) {
+      throw new ApiError(`Deck ${deckID} has no reports`, 404, {deckID, errorCode: "REPORTS_NOT_FOUND"});
+    }
+    return reports;
+  }
+
+  /**
+   * Resolves the open reports of a deck: `dismiss` republishes a deck hidden by its reports,
+   * `unpublish` keeps the deck private. Either way the moderation hold is lifted.
+   *
+   * @param {AdminActor} actor - The moderator resolving the reports.
+   * @param {string} deckID - The ID of the deck.
+   * @param {ReportResolution} resolution - The resolution.
+   * @param {string | null} reason - The reason of the resolution.
+   * @return {Promise<object>} A promise resolving to the resolved summary.
+   * @throws {ApiError} Throws REPORTS_NOT_FOUND (404) or REPORTS_NOT_OPEN (409).
+   */
+  public async resolveReports(actor: AdminActor, deckID: string, resolution: ReportResolution, reason: string | null): Promise<object> {
+    return this.reportRepository.resolveReports(deckID, resolution, {
+      actor_id: actor.user_id,
+      actor_role: actor.role,
+      action: "RESOLVE_REPORTS",
+      target_type: "deck",
+      target_id: deckID,
+      reason,
+      created_at: FirebaseAdmin.getTimeStamp(),
+    });
+  }
+
+  /**
+   * Retrieves a public deck.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<Deck>} A promise resolving to the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) when the deck does not exist, is deleted or is private.
+   */
+  private async getDeck(deckID: string): Promise<Deck> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted || deck.is_private) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+    return deck;
+  }
+}
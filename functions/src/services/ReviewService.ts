@@ -0,0 +1,516 @@
+/**
+ * Deck Manager API - Service
+ *
+ * @file ReviewService.ts
+ * This module defines the service layer for the spaced-repetition review subsystem.
+ * It validates that the user can study the deck, loads the current review state of the
+ * flashcard, delegates the computation of the next due date to a pluggable
+ * `ReviewScheduler` (SM-2 by default, FSRS as an option) and persists the result.
+ *
+ * Methods:
+ * - reviewFlashcard: Records a graded review of a flashcard and schedules its next review.
+ * - getDueFlashcards: Builds the study queue (due and new cards) of a specific deck.
+ * - getStudyQueue: Builds the study queue (due and new cards) across every deck the user studies.
+ *
+ * @module service
+ * @file ReviewService.ts
+ * @class ReviewService
+ * @classdesc Handles business logic for reviewing flashcards, coordinating the schedulers and the ReviewRepository.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {Deck, DeckRaw} from "../interface/Deck";
+import {ReviewAlgorithm, ReviewLog, ReviewScheduler, ReviewState, SchedulingState} from "../interface/ReviewState";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {FlashcardRepository} from "../repositories/FlashcardRepository";
+import {ReviewRepository} from "../repositories/ReviewRepository";
+import {FSRSScheduler} from "./scheduler/FSRSScheduler";
+import {SM2Scheduler} from "./scheduler/SM2Scheduler";
+import {PermissionService} from "./PermissionService";
+import {CollaboratorRole} from "../interface/Collaborator";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The number of new and review cards that can still be studied today.
+ */
+interface StudyLimits {
+  newLimit: number;
+  reviewLimit: number;
+}
+
+/**
+ * A flashcard as returned by the repositories.
+ */
+type FlashcardData = {id: string, [key: string]: unknown};
+
+/**
+ * Service class responsible for handling the review of flashcards.
+ */
+export class ReviewService {
+  /**
+   * A repository instance for managing review states and logs.
+   */
+  private reviewRepository: ReviewRepository;
+
+  /**
+   * A repository instance used to verify that the reviewed flashcard exists.
+   */
+  private flashcardRepository: FlashcardRepository;
+
+  /**
+   * A repository instance used to verify that the user can study the deck.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * The service authorizing the study of decks shared with the user.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * The available schedulers, keyed by algorithm.
+   */
+  private schedulers: Record<ReviewAlgorithm, ReviewScheduler>;
+
+  /**
+   * The algorithm used for cards that have never been reviewed when none is requested.
+   */
+  static readonly DEFAULT_ALGORITHM: ReviewAlgorithm = "SM2";
+
+  /**
+   * The extra due review states read with each page of the cross-deck queue, to make up for the
+   * states skipped because their deck can no longer be studied or their flashcard was deleted.
+   */
+  static readonly DUE_OVERFETCH = 20;
+
+  /**
+   * The most reads of due review states for one page of the cross-deck queue. When too many states
+   * are skipped, the page is returned short, with a page token to carry on.
+   */
+  static readonly MAX_DUE_READS = 5;
+
+  /**
+   * Initializes the ReviewService.
+   *
+   * @param {ReviewRepository} reviewRepository - The repository handling review data operations.
+   * @param {FlashcardRepository} flashcardRepository - The repository handling flashcard data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   * @param {ReviewScheduler[]} schedulers - The schedulers to register. Defaults to SM-2 and FSRS.
+   */
+  constructor(
+    reviewRepository: ReviewRepository,
+    flashcardRepository: FlashcardRepository,
+    deckRepository: DeckRepository,
+    permissionService: PermissionService,
+    schedulers: ReviewScheduler[] = [new SM2Scheduler(), new FSRSScheduler()]
+  ) {
+    this.reviewRepository = reviewRepository;
+    this.flashcardRepository = flashcardRepository;
+    this.deckRepository = deckRepository;
+    this.permissionService = permissionService;
+    this.schedulers = {} as Record<ReviewAlgorithm, ReviewScheduler>;
+    schedulers.forEach((scheduler) => {
+      this.schedulers[scheduler.algorithm] = scheduler;
+    });
+  }
+
+  /**
+   * Records a graded review of a flashcard and schedules its next review.
+   *
+   * @param {string} userID - The ID of the user reviewing the flashcard.
+   * @param {string} deckID - The ID of the deck the flashcard belongs to.
+   * @param {string} flashcardID - The ID of the reviewed flashcard.
+   * @param {number} grade - The grade given by the user (0 to 5).
+   * @param {ReviewAlgorithm} [algorithm] - The algorithm to schedule with. Defaults to the algorithm of the stored state.
+   * @return {Promise<object>} A promise resolving to the new review state of the flashcard.
+   * @throws {ApiError} Throws when the deck or flashcard cannot be studied, or on repository failure.
+   */
+  public async reviewFlashcard(
+    userID: string,
+    deckID: string,
+    flashcardID: string,
+    grade: number,
+    algorithm?: ReviewAlgorithm
+  ): Promise<object> {
+    await this.assertCanStudy(userID, deckID, flashcardID);
+
+    const existing = await this.reviewRepository.getReviewState(userID, flashcardID);
+    const selectedAlgorithm = algorithm ?? existing?.algorithm ?? ReviewService.DEFAULT_ALGORITHM;
+    const scheduler = this.schedulers[selectedAlgorithm];
+
+    if (!scheduler) {
+      throw new ApiError(
+        `The ${selectedAlgorithm} scheduler is not available.`,
+        400,
+        {algorithm: selectedAlgorithm, errorCode: "SCHEDULER_NOT_AVAILABLE"}
+      );
+    }
+
+    const reviewedAt = new Date();
+    const result = scheduler.schedule(existing ? this.toSchedulingState(existing) : null, grade, reviewedAt);
+    const now = FirebaseAdmin.convertToTimestamp(reviewedAt);
+    const dueAt = FirebaseAdmin.convertToTimestamp(result.due_at);
+
+    const state: ReviewState = {
+      user_id: userID,
+      deck_id: deckID,
+      flashcard_id: flashcardID,
+      algorithm: selectedAlgorithm,
+      ease_factor: result.ease_factor,
+      interval: result.interval,
+      repetitions: result.repetitions,
+      lapses: result.lapses,
+      stability: result.stability,
+      difficulty: result.difficulty,
+      last_grade: grade,
+      due_at: dueAt,
+      last_reviewed_at: now,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+
+    const log: ReviewLog = {
+      user_id: userID,
+      deck_id: deckID,
+      flashcard_id: flashcardID,
+      algorithm: selectedAlgorithm,
+      grade,
+      was_new: existing === null,
+      previous_interval: existing?.interval ?? 0,
+      interval: result.interval,
+      due_at: dueAt,
+      reviewed_at: now,
+    };
+
+    await this.reviewRepository.saveReview(state, log);
+
+    return {review_state: state};
+  }
+
+  /**
+   * Builds the study queue of a specific deck.
+   * Due cards are ordered by overdueness (the time since they became due relative to their interval),
+   * new cards by creation date. Both lists are capped by what remains of the daily limits.
+   *
+   * @param {string} userID - The ID of the user studying.
+   * @param {string} deckID - The ID of the deck.
+   * @param {StudyLimits} limits - The maximum number of new and review cards per day.
+   * @return {Promise<object>} A promise resolving to the due cards, the new cards and a summary of the day.
+   * @throws {ApiError} Throws when the deck cannot be studied, or on repository failure.
+   */
+  public async getDueFlashcards(userID: string, deckID: string, limits: StudyLimits): Promise<object> {
+    await this.assertCanStudyDeck(userID, deckID);
+
+    const now = new Date();
+    const [flashcardsData, states, remaining] = await Promise.all([
+      this.flashcardRepository.getAllFlashcards(deckID) as Promise<{flashcards: FlashcardData[]}>,
+      this.reviewRepository.getDeckReviewStates(userID, deckID),
+      this.getRemainingLimits(userID, limits, now),
+    ]);
+
+    const flashcards = new Map(flashcardsData.flashcards.map((flashcard) => [flashcard.id, flashcard]));
+    const reviewedIDs = new Set(states.map((state) => state.flashcard_id));
+
+    const dueStates = this.sortByOverdueness(
+      states.filter((state) => state.due_at.toMillis() <= now.getTime() && flashcards.has(state.flashcard_id)),
+      now
+    );
+
+    const dueFlashcards = dueStates
+      .slice(0, remaining.reviewLimit)
+      .map((state) => this.toQueueItem(flashcards.get(state.flashcard_id) as FlashcardData, deckID, state, now));
+
+    // Review states of deleted flashcards are left behind, so new cards are counted from the active flashcards
+    const unseenFlashcards = flashcardsData.flashcards.filter((flashcard) => !reviewedIDs.has(flashcard.id));
+    const newFlashcards = unseenFlashcards
+      .slice(0, remaining.newLimit)
+      .map((flashcard) => this.toQueueItem(flashcard, deckID, null, now));
+
+    return {
+      due_flashcards: dueFlashcards,
+      new_flashcards: newFlashcards,
+      summary: {
+        due_count: dueStates.length,
+        new_count: unseenFlashcards.length,
+        ...remaining.summary,
+      },
+    };
+  }
+
+  /**
+   * Builds the study queue across every deck the user studies.
+   * Due cards come from every deck the user reviewed and can still access, and are paged by due date, oldest
+   * first, up to what remains of the daily review limit; each page is ordered by overdueness. New cards come
+   * from the decks the user owns, then the decks the user saved, then the decks shared with the user.
+   *
+   * @param {string} userID - The ID of the user studying.
+   * @param {StudyLimits} limits - The maximum number of new and review cards per day.
+   * @param {string | null} [pageToken=null] - The page token of the previous page of due cards, or null for the first page.
+   * @return {Promise<object>} A promise resolving to the due cards, the new cards, a summary of the day and the page token of the next due cards.
+   * @throws {ApiError} Throws on repository failure.
+   */
+  public async getStudyQueue(userID: string, limits: StudyLimits, pageToken: string | null = null): Promise<object> {
+    const now = new Date();
+    const dueBefore = FirebaseAdmin.convertToTimestamp(now);
+    const [dueCount, remaining, roles] = await Promise.all([
+      this.reviewRepository.countDueReviewStates(userID, dueBefore),
+      this.getRemainingLimits(userID, limits, now),
+      this.permissionService.getCollaboratorRoles(userID),
+    ]);
+
+    // Read the due states oldest first, skipping the cards of decks the user can no longer study and deleted cards
+    const due: Array<{state: ReviewState, flashcard: FlashcardData, deckTitle: string}> = [];
+    let lastState: ReviewState | null = null;
+    let hasMore = remaining.reviewLimit > 0;
+    for (let read = 0; hasMore && due.length < remaining.reviewLimit && read < ReviewService.MAX_DUE_READS; read++) {
+      const page = await this.reviewRepository.getDueReviewStates(
+        userID,
+        dueBefore,
+        remaining.reviewLimit - due.length + ReviewService.DUE_OVERFETCH,
+        lastState ? this.reviewRepository.getDuePageToken(lastState) : pageToken
+      );
+      const [decks, flashcards] = await Promise.all([
+        this.deckRepository.getDecksByIDs(page.states.map((state) => state.deck_id)),
+        this.getFlashcardsOfStates(page.states),
+      ]);
+
+      hasMore = page.hasMore;
+      for (const state of page.states) {
+        if (due.length >= remaining.reviewLimit) {
+          // The over-fetched states left over start the next page
+          hasMore = true;
+          break;
+        }
+        lastState = state;
+
+        const flashcard = flashcards.get(state.flashcard_id);
+        if (!flashcard || !this.canStudy(userID, decks[state.deck_id], roles[state.deck_id])) continue;
+        due.push({state, flashcard, deckTitle: decks[state.deck_id].title});
+      }
+    }
+
+    const dueStates = this.sortByOverdueness(due.map(({state}) => state), now);
+    const dueItems = new Map(due.map((item) => [item.state, item]));
+    const dueFlashcards = dueStates.map((state) => {
+      const {flashcard, deckTitle} = dueItems.get(state) as {flashcard: FlashcardData, deckTitle: string};
+      return {...this.toQueueItem(flashcard, state.deck_id, state, now), deck_title: deckTitle};
+    });
+
+    const newFlashcards: object[] = [];
+    if (remaining.newLimit > 0) {
+      const studyDeckIDs = [...new Set([...await this.deckRepository.getStudyDeckIDs(userID), ...Object.keys(roles)])];
+      const studyDecks = await this.deckRepository.getDecksByIDs(studyDeckIDs);
+
+      for (const deckID of studyDeckIDs) {
+        if (newFlashcards.length >= remaining.newLimit) break;
+        if (!this.canStudy(userID, studyDecks[deckID], roles[deckID])) continue;
+
+        const [flashcardsData, states] = await Promise.all([
+          this.flashcardRepository.getAllFlashcards(deckID) as Promise<{flashcards: FlashcardData[]}>,
+          this.reviewRepository.getDeckReviewStates(userID, deckID),
+        ]);
+        const reviewedIDs = new Set(states.map((state) => state.flashcard_id));
+
+        flashcardsData.flashcards
+          .filter((flashcard) => !reviewedIDs.has(flashcard.id))
+          .slice(0, remaining.newLimit - newFlashcards.length)
+          .forEach((flashcard) => newFlashcards.push({
+            ...this.toQueueItem(flashcard, deckID, null, now),
+            deck_title: studyDecks[deckID].title,
+          }));
+      }
+    }
+
+    return {
+      due_flashcards: dueFlashcards,
+      new_flashcards: newFlashcards,
+      summary: {
+        due_count: dueCount,
+        ...remaining.summary,
+      },
+      nextPageToken: hasMore && lastState ? this.reviewRepository.getDuePageToken(lastState) : null,
+    };
+  }
+
+  /**
+   * Computes what remains of the daily limits, based on the cards studied since the start of the day (UTC).
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {StudyLimits} limits - The maximum number of new and review cards per day.
+   * @param {Date} now - The current time.
+   * @return {Promise<object>} The remaining limits and a summary of the day.
+   */
+  private async getRemainingLimits(userID: string, limits: StudyLimits, now: Date) {
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const studied = await this.reviewRepository.countReviewsSince(userID, FirebaseAdmin.convertToTimestamp(startOfDay));
+
+    const newLimit = Math.max(0, limits.newLimit - studied.newCount);
+    const reviewLimit = Math.max(0, limits.reviewLimit - studied.reviewCount);
+
+    return {
+      newLimit,
+      reviewLimit,
+      summary: {
+        new_studied_today: studied.newCount,
+        reviewed_today: studied.reviewCount,
+        remaining_new: newLimit,
+        remaining_review: reviewLimit,
+      },
+    };
+  }
+
+  /**
+   * Sorts review states by overdueness, most overdue first.
+   * Overdueness is the time elapsed since the due date relative to the interval of the card,
+   * so a card one day late on a one-day interval comes before a card one day late on a month interval.
+   *
+   * @param {ReviewState[]} states - The due review states.
+   * @param {Date} now - The current time.
+   * @return {ReviewState[]} The sorted review states.
+   */
+  private sortByOverdueness(states: ReviewState[], now: Date): ReviewState[] {
+    const overdueness = (state: ReviewState) =>
+      (now.getTime() - state.due_at.toMillis()) / DAY_IN_MS / Math.max(state.interval, 1);
+
+    return [...states].sort((a, b) =>
+      overdueness(b) - overdueness(a) || a.due_at.toMillis() - b.due_at.toMillis()
+    );
+  }
+
+  /**
+   * Retrieves the flashcards referenced by the given review states, grouped by deck.
+   *
+   * @param {ReviewState[]} states - The review states.
+   * @return {Promise<Map<string, FlashcardData>>} The flashcards, keyed by their ID.
+   */
+  private async getFlashcardsOfStates(states: ReviewState[]): Promise<Map<string, FlashcardData>> {
+    const idsByDeck = new Map<string, string[]>();
+    states.forEach((state) => {
+      idsByDeck.set(state.deck_id, [...(idsByDeck.get(state.deck_id) ?? []), state.flashcard_id]);
+    });
+
+    const results = await Promise.all(
+      [...idsByDeck.entries()].map(([deckID, ids]) => this.flashcardRepository.getFlashcardsByIDs(deckID, ids))
+    );
+
+    return new Map(results.flat().map((flashcard) => [flashcard.id, flashcard]));
+  }
+
+  /**
+   * Builds an item of the study queue.
+   *
+   * @param {FlashcardData} flashcard - The flashcard.
+   * @param {string} deckID - The ID of the deck the flashcard belongs to.
+   * @param {ReviewState | null} state - The review state of the flashcard, or null for a new card.
+   * @param {Date} now - The current time.
+   * @return {object} The queue item.
+   */
+  private toQueueItem(flashcard: FlashcardData, deckID: string, state: ReviewState | null, now: Date): object {
+    return {
+      ...flashcard,
+      deck_id: deckID,
+      review_state: state,
+      overdue_days: state ? Number(((now.getTime() - state.due_at.toMillis()) / DAY_IN_MS).toFixed(2)) : 0,
+    };
+  }
+
+  /**
+   * Checks whether a user can study a deck: it must exist, not be deleted,
+   * and be either public, owned by the user or shared with the user.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {DeckRaw | undefined} deck - The deck data.
+   * @param {CollaboratorRole} [role] - The collaborator role of the user on the deck, if any.
+   * @return {boolean} True if the user can study the deck.
+   */
+  private canStudy(userID: string, deck: DeckRaw | undefined, role?: CollaboratorRole): boolean {
+    if (!deck || deck.is_deleted) return false;
+    return PermissionService.allows(deck.owner_id === userID ? "owner" : role ?? null, "read", deck);
+  }
+
+  /**
+   * Converts a stored review state into the state consumed by the schedulers.
+   *
+   * @param {ReviewState} state - The stored review state.
+   * @return {SchedulingState} The scheduling state.
+   */
+  private toSchedulingState(state: ReviewState): SchedulingState {
+    return {
+      ease_factor: state.ease_factor,
+      interval: state.interval,
+      repetitions: state.repetitions,
+      lapses: state.lapses,
+      stability: state.stability ?? null,
+      difficulty: state.difficulty ?? null,
+      last_reviewed_at: state.last_reviewed_at ? state.last_reviewed_at.toDate() : null,
+    };
+  }
+
+  /**
+   * Verifies that the user can study a deck: the deck must exist, not be deleted,
+   * and be either public, owned by the user or shared with the user.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<void>} Resolves when the user can study the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND or NOT_AUTHORIZED_TO_STUDY_DECK.
+   */
+  private async assertCanStudyDeck(userID: string, deckID: string): Promise<void> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+
+    if (!(await this.permissionService.can(userID, deckID, deck, "read"))) {
+      throw new ApiError(
+        `User ${userID} is not authorized to study deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_STUDY_DECK"}
+      );
+    }
+  }
+
+  /**
+   * Verifies that the user can study the flashcard: the deck must be studyable
+   * and the flashcard must exist and not be deleted.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} flashcardID - The ID of the flashcard.
+   * @return {Promise<void>} Resolves when the user can study the flashcard.
+   * @throws {ApiError} Throws DECK_NOT_FOUND, FLASHCARD_NOT_FOUND or NOT_AUTHORIZED_TO_STUDY_DECK.
+   */
+  private async assertCanStudy(userID: string, deckID: string, flashcardID: string): Promise<void> {
+    await this.assertCanStudyDeck(userID, deckID);
+
+    let flashcard: {is_deleted?: boolean} | null;
+    try {
+      const result = await this.flashcardRepository.getSpecificFlashcard(deckID, flashcardID) as {flashcard: {is_deleted?: boolean} | null};
+      flashcard = result.flashcard;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "SPECIFIC_FLASHCARD_NOT_FOUND" || error.name === "INVALID_FLASHCARD_ID")) {
+        throw new ApiError(error.message, 404, {flashcardID, errorCode: "FLASHCARD_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!flashcard || flashcard.is_deleted) {
+      throw new ApiError(`Flashcard ${flashcardID} does not exist`, 404, {flashcardID, errorCode: "FLASHCARD_NOT_FOUND"});
+    }
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Deck Manager API - Share Link Service
+ *
+ * @file ShareLinkService.ts
+ * This module defines the service layer for the share links that make a deck unlisted. The owner
+ * and the admins of a deck generate links with an optional expiry and an optional maximum number
+ * of uses; anyone holding the token of a working link can read the deck and its flashcards, while
+ * the deck itself stays private. Tokens are random, returned once, and only stored as a hash.
+ *
+ * Methods:
+ * - getShareLinks: Lists the share links of a deck with their status.
+ * - createShareLink: Generates a share link for a deck.
+ * - revokeShareLink: Revokes a share link of a deck.
+ * - openShareLink: Retrieves the deck and the flashcards behind a share token, counting the use.
+ *
+ * @module service
+ * @file ShareLinkService.ts
+ * @class ShareLinkService
+ * @classdesc Handles business logic for share links, coordinating the PermissionService, the ShareLinkRepository and the FlashcardService.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {createHash, randomBytes} from "crypto";
+import {FirebaseAdmin} from "../config/FirebaseAdmin";
+import {ApiError} from "../helpers/apiError";
+import {Deck} from "../interface/Deck";
+import {ShareLink, ShareLinkStatus} from "../interface/ShareLink";
+import {DeckRepository} from "../repositories/DeckRepository";
+import {ShareLinkRepository} from "../repositories/ShareLinkRepository";
+import {UserRepository} from "../repositories/UserRepository";
+import {FlashcardService} from "./FlashCardService";
+import {PermissionService} from "./PermissionService";
+
+/**
+ * Service class responsible for managing the share links of decks.
+ */
+export class ShareLinkService {
+  /**
+   * The number of working share links a deck can have at once.
+   */
+  private static readonly MAX_ACTIVE_LINKS = 20;
+
+  /**
+   * The number of random bytes of a share token.
+   */
+  private static readonly TOKEN_BYTES = 32;
+
+  /**
+   * A repository instance for managing share link data.
+   */
+  private shareLinkRepository: ShareLinkRepository;
+
+  /**
+   * A repository instance used to read the deck being shared.
+   */
+  private deckRepository: DeckRepository;
+
+  /**
+   * A repository instance used to resolve the name of the owner of a shared deck.
+   */
+  private userRepository: UserRepository;
+
+  /**
+   * A service instance used to load the flashcards of a shared deck.
+   */
+  private flashcardService: FlashcardService;
+
+  /**
+   * The service authorizing deck operations.
+   */
+  private permissionService: PermissionService;
+
+  /**
+   * Initializes the ShareLinkService.
+   *
+   * @param {ShareLinkRepository} shareLinkRepository - The repository handling share link data operations.
+   * @param {DeckRepository} deckRepository - The repository handling deck data operations.
+   * @param {UserRepository} userRepository - The repository handling user data operations.
+   * @param {FlashcardService} flashcardService - The service handling flashcard operations.
+   * @param {PermissionService} permissionService - The service authorizing deck operations.
+   */
+  constructor(
+    shareLinkRepository: ShareLinkRepository,
+    deckRepository: DeckRepository,
+    userRepository: UserRepository,
+    flashcardService: FlashcardService,
+    permissionService: PermissionService
+  ) {
+    this.shareLinkRepository = shareLinkRepository;
+    this.deckRepository = deckRepository;
+    this.userRepository = userRepository;
+    this.flashcardService = flashcardService;
+    this.permissionService = permissionService;
+  }
+
+  /**
+   * Lists the share links of a deck, newest first, with their status and remaining uses.
+   * Only the owner and the admins of the deck can see them.
+   *
+   * @param {string} userID - The ID of the user requesting the list.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<object>} A promise resolving to the share links of the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_SHARE_DECK (403).
+   */
+  public async getShareLinks(userID: string, deckID: string): Promise<object> {
+    await this.assertCanShare(userID, deckID);
+
+    const links = await this.shareLinkRepository.getShareLinks(deckID);
+    const now = Date.now();
+
+    return {
+      links: links.map((link) => this.toView(link, now)),
+    };
+  }
+
+  /**
+   * Generates a share link for a deck. The token is only returned here; the link is stored under its hash.
+   *
+   * @param {string} userID - The ID of the user generating the link.
+   * @param {string} deckID - The ID of the deck.
+   * @param {object} options - When the link expires and how many times it can be used; both are optional.
+   * @return {Promise<object>} A promise resolving to the share link, its token and the path that opens it.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404), NOT_AUTHORIZED_TO_SHARE_DECK (403) or SHARE_LINK_LIMIT_REACHED (409).
+   */
+  public async createShareLink(
+    userID: string,
+    deckID: string,
+    options: {expiresAt?: string, maxUses?: number}
+  ): Promise<object> {
+    await this.assertCanShare(userID, deckID);
+
+    const now = Date.now();
+    const links = await this.shareLinkRepository.getShareLinks(deckID);
+    const activeCount = links.filter((link) => this.getStatus(link, now) === "ACTIVE").length;
+
+    if (activeCount >= ShareLinkService.MAX_ACTIVE_LINKS) {
+      throw new ApiError(
+        `A deck can have at most ${ShareLinkService.MAX_ACTIVE_LINKS} working share links; revoke one first`,
+        409,
+        {deckID, errorCode: "SHARE_LINK_LIMIT_REACHED"}
+      );
+    }
+
+    const token = randomBytes(ShareLinkService.TOKEN_BYTES).toString("base64url");
+    const link: ShareLink = {
+      id: this.hashToken(token),
+      deck_id: deckID,
+      created_by: userID,
+      created_at: FirebaseAdmin.getTimeStamp(),
+      expires_at: options.expiresAt ? FirebaseAdmin.convertToTimestamp(new Date(options.expiresAt)) : null,
+      max_uses: options.maxUses ?? null,
+      use_count: 0,
+      last_used_at: null,
+      revoked_at: null,
+      revoked_by: null,
+    };
+    await this.shareLinkRepository.createShareLink(link);
+
+    return {
+      link: this.toView(link, now),
+      token,
+      path: `/v1/shared/${token}`,
+    };
+  }
+
+  /**
+   * Revokes a share link of a deck. Revoking a link that is already revoked changes nothing.
+   *
+   * @param {string} userID - The ID of the user revoking the link.
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} linkID - The ID of the share link.
+   * @return {Promise<object>} A promise resolving to the revoked share link.
+   * @throws {ApiError} Throws DECK_NOT_FOUND, SHARE_LINK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_SHARE_DECK (403).
+   */
+  public async revokeShareLink(userID: string, deckID: string, linkID: string): Promise<object> {
+    await this.assertCanShare(userID, deckID);
+
+    const link = await this.shareLinkRepository.getShareLink(linkID);
+    if (!link || link.deck_id !== deckID) {
+      throw new ApiError(
+        `Share link ${linkID} does not exist for deck ${deckID}`,
+        404,
+        {deckID, linkID, errorCode: "SHARE_LINK_NOT_FOUND"}
+      );
+    }
+
+    const revoked = link.revoked_at ? link : {...link, ...(await this.shareLinkRepository.revokeShareLink(linkID, userID))};
+
+    return {
+      link: this.toView(revoked, Date.now()),
+    };
+  }
+
+  /**
+   * Retrieves the deck and the flashcards behind a share token and counts the use of the link.
+   * The deck is returned whatever its visibility; it does not become public.
+   *
+   * @param {string} userID - The ID of the user opening the link.
+   * @param {string} token - The share token.
+   * @return {Promise<object>} A promise resolving to the deck, its flashcards, and the expiry and remaining uses of the link.
+   * @throws {ApiError} Throws SHARE_LINK_NOT_FOUND (404), SHARE_LINK_EXPIRED or SHARE_LINK_EXHAUSTED (410).
+   */
+  public async openShareLink(userID: string, token: string): Promise<object> {
+    const {link, deck} = await this.shareLinkRepository.redeemShareLink(this.hashToken(token), userID);
+
+    const [flashcards, names] = await Promise.all([
+      this.flashcardService.getAllFlashcards(deck.id),
+      this.userRepository.getOwnerNames([deck.owner_id]),
+    ]);
+
+    return {
+      deck: {...deck, owner_name: names[deck.owner_id]},
+      flashcards,
+      link: {
+        expires_at: link.expires_at,
+        remaining_uses: link.max_uses === null ? null : Math.max(link.max_uses - link.use_count, 0),
+      },
+    };
+  }
+
+  /**
+   * Verifies that the deck exists and that the user may share it: only the owner and the admins
+   * of a deck, who control its visibility, manage its share links.
+   *
+   * @param {string} userID - The ID of the user.
+   * @param {string} deckID - The ID of the deck.
+   * @return {Promise<void>} Resolves when the user can share the deck.
+   * @throws {ApiError} Throws DECK_NOT_FOUND (404) or NOT_AUTHORIZED_TO_SHARE_DECK (403).
+   */
+  private async assertCanShare(userID: string, deckID: string): Promise<void> {
+    let deck: Deck;
+    try {
+      deck = await this.deckRepository.getSpecificDeck(deckID) as Deck;
+    } catch (error) {
+      if (error instanceof Error && (error.name === "DECK_NOT_FOUND" || error.name === "INVALID_DECK_ID")) {
+        throw new ApiError(error.message, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+      }
+      throw error;
+    }
+
+    if (!deck || deck.is_deleted) {
+      throw new ApiError(`Deck ${deckID} does not exist`, 404, {deckID, errorCode: "DECK_NOT_FOUND"});
+    }
+
+    if (!(await this.permissionService.can(userID, deckID, deck, "manage"))) {
+      throw new ApiError(
+        `User ${userID} is not authorized to share deck ${deckID}`,
+        403,
+        {deckID, errorCode: "NOT_AUTHORIZED_TO_SHARE_DECK"}
+      );
+    }
+  }
+
+  /**
+   * Determines whether a share link still works, and why not when it does not.
+   *
+   * @param {ShareLink} link - The share link.
+   * @param {number} now - The current time, in milliseconds.
+   * @return {ShareLinkStatus} The status of the link.
+   */
+  private getStatus(link: ShareLink, now: number): ShareLinkStatus {
+    if (link.revoked_at) return "REVOKED";
+    if (link.expires_at && link.expires_at.toMillis() <= now) return "EXPIRED";
+    if (link.max_uses !== null && link.use_count >= link.max_uses) return "EXHAUSTED";
+    return "ACTIVE";
+  }
+
+  /**
+   * Adds the status and the remaining uses to a share link.
+   *
+   * @param {ShareLink} link - The share link.
+   * @param {number} now - The current time, in milliseconds.
+   * @return {object} The share link as returned to its owner.
+   */
+  private toView(link: ShareLink, now: number): object {
+    return {
+      ...link,
+      status: this.getStatus(link, now),
+      remaining_uses: link.max_uses === null ? null : Math.max(link.max_uses - link.use_count, 0),
+    };
+  }
+
+  /**
+   * Hashes a share token into the ID of its link.
+   *
+   * @param {string} token - The share token.
+   * @return {string} The hex SHA-256 hash of the token.
+   */
+  private hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Deck Manager API - Local Embedding Provider
+ *
+ * @file LocalEmbeddingProvider.ts
+ * This module implements a deterministic, offline embedding provider based on the hashing trick.
+ * Text is normalized (lowercased, accents stripped), split into words, and every word and
+ * word bigram is hashed (FNV-1a) into one of the dimensions of the vector, with a second hash
+ * choosing the sign so collisions tend to cancel out. The vector is then L2-normalized, so the
+ * cosine distance used by Firestore vector search measures vocabulary overlap.
+ *
+ * It needs no network or API key, which makes deck creation, search and recommendations
+ * usable against the Firebase emulator. It captures no semantics: "car" and "automobile" are unrelated.
+ *
+ * Methods:
+ * - embedDocument: Embeds a document.
+ * - embedQuery: Embeds a search query (identical to embedDocument).
+ *
+ * @module service
+ * @file LocalEmbeddingProvider.ts
+ * @class LocalEmbeddingProvider
+ * @classdesc Produces deterministic hashed bag-of-words embeddings without any external service.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {EmbeddingProvider} from "../../interface/EmbeddingProvider";
+
+/**
+ * Embedding provider computing hashed bag-of-words vectors locally.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+
+  readonly dimensions: number;
+
+  /**
+   * Initializes the provider.
+   *
+   * @param {number} dimensions - The number of dimensions of the vectors. Defaults to 768, like Gemini.
+   */
+  constructor(dimensions = 768) {
+    this.dimensions = dimensions;
+    this.modelId = `local-hashed-bow@${dimensions}`;
+  }
+
+  /**
+   * Embeds a document.
+   *
+   * @param {string} text - The text to embed.
+   * @return {Promise<number[]>} A promise resolving to the L2-normalized embedding.
+   */
+  public async embedDocument(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  /**
+   * Embeds a search query. Queries and documents share the same vector space.
+   *
+   * @param {string} text - The query to embed.
+   * @return {Promise<number[]>} A promise resolving to the L2-normalized embedding.
+   */
+  public async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  /**
+   * Computes the hashed bag-of-words embedding of a text.
+   *
+   * @param {string} text - The text to embed.
+   * @return {number[]} The L2-normalized embedding.
+   */
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = this.tokenize(text);
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    // Firestore cannot compute the cosine distance of a zero vector
+    if (features.length === 0) features.push("");
+
+    for (const feature of features) {
+      const hash = this.fnv1a(feature);
+      const sign = this.fnv1a(`#${feature}`) & 1 ? 1 : -1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector.map((_, i) => (i === 0 ? 1 : 0)) : vector.map((value) => value / norm);
+  }
+
+  /**
+   * Splits a text into lowercase words, stripping accents and punctuation.
+   *
+   * @param {string} text - The text to tokenize.
+   * @return {string[]} The words of the text.
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 0);
+  }
+
+  /**
+   * Computes the 32-bit FNV-1a hash of a string.
+   *
+   * @param {string} value - The string to hash.
+   * @return {number} The unsigned hash.
+   */
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
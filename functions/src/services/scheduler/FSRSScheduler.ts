@@ -0,0 +1,209 @@
+/**
+ * Deck Manager API - FSRS Scheduler
+ *
+ * @file FSRSScheduler.ts
+ * This module implements the Free Spaced Repetition Scheduler (FSRS v4.5).
+ * FSRS models each card by its memory stability (days until recall probability
+ * drops to the requested retention) and difficulty (1 to 10). The SM-2 grade
+ * scale used by the API is mapped to the four FSRS ratings:
+ * 0-2 => Again, 3 => Hard, 4 => Good, 5 => Easy.
+ *
+ * @module service
+ * @file FSRSScheduler.ts
+ * @class FSRSScheduler
+ * @classdesc Computes review intervals using the FSRS algorithm with its default parameters.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {ReviewAlgorithm, ReviewScheduler, SchedulingResult, SchedulingState} from "../../interface/ReviewState";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+/**
+ * Scheduler implementing the FSRS algorithm.
+ */
+export class FSRSScheduler implements ReviewScheduler {
+  readonly algorithm: ReviewAlgorithm = "FSRS";
+
+  /**
+   * Default FSRS v4.5 model weights.
+   */
+  private weights = [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+    0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+  ];
+
+  /**
+   * The probability of recall targeted when a card becomes due.
+   */
+  private requestRetention: number;
+
+  /**
+   * The longest interval (in days) a card can be scheduled for.
+   */
+  private maximumInterval: number;
+
+  /**
+   * Initializes the scheduler.
+   *
+   * @param {number} requestRetention - The probability of recall targeted when a card becomes due.
+   * @param {number} maximumInterval - The longest interval (in days) a card can be scheduled for.
+   */
+  constructor(requestRetention = 0.9, maximumInterval = 36500) {
+    this.requestRetention = requestRetention;
+    this.maximumInterval = maximumInterval;
+  }
+
+  /**
+   * Computes the next scheduling state of a card using FSRS.
+   *
+   * @param {SchedulingState | null} state - The current state, or null if the card was never reviewed.
+   * @param {number} grade - The grade given by the user (0 to 5).
+   * @param {Date} reviewedAt - The moment the review took place.
+   * @return {SchedulingResult} The next scheduling state and due date.
+   */
+  public schedule(state: SchedulingState | null, grade: number, reviewedAt: Date): SchedulingResult {
+    const rating = this.toRating(grade);
+    let repetitions = state?.repetitions ?? 0;
+    let lapses = state?.lapses ?? 0;
+    let stability: number;
+    let difficulty: number;
+
+    if (!state || (state.stability === null && repetitions === 0)) {
+      // First review of the card
+      stability = this.weights[rating - 1];
+      difficulty = this.initialDifficulty(rating);
+      repetitions = rating === 1 ? 0 : 1;
+    } else {
+      // Cards previously scheduled by another algorithm are seeded from their current interval
+      const currentStability = state.stability ?? Math.max(state.interval, 0.1);
+      const currentDifficulty = state.difficulty ?? this.initialDifficulty(3);
+      const elapsedDays = state.last_reviewed_at ?
+        Math.max(0, (reviewedAt.getTime() - state.last_reviewed_at.getTime()) / DAY_IN_MS) :
+        0;
+      const retrievability = Math.pow(1 + FACTOR * elapsedDays / currentStability, DECAY);
+
+      if (rating === 1) {
+        stability = this.forgetStability(currentDifficulty, currentStability, retrievability);
+        lapses++;
+        repetitions = 0;
+      } else {
+        stability = this.recallStability(currentDifficulty, currentStability, retrievability, rating);
+        repetitions++;
+      }
+      difficulty = this.nextDifficulty(currentDifficulty, rating);
+    }
+
+    const interval = rating === 1 ? 1 : this.nextInterval(stability);
+
+    return {
+      ease_factor: state?.ease_factor ?? 2.5,
+      interval,
+      repetitions,
+      lapses,
+      stability: Number(stability.toFixed(4)),
+      difficulty: Number(difficulty.toFixed(4)),
+      last_reviewed_at: reviewedAt,
+      due_at: new Date(reviewedAt.getTime() + interval * DAY_IN_MS),
+    };
+  }
+
+  /**
+   * Maps an SM-2 grade (0 to 5) to an FSRS rating (1 to 4).
+   *
+   * @param {number} grade - The SM-2 grade.
+   * @return {number} The FSRS rating.
+   */
+  private toRating(grade: number): number {
+    if (grade <= 2) return 1;
+    if (grade === 3) return 2;
+    if (grade === 4) return 3;
+    return 4;
+  }
+
+  /**
+   * Computes the initial difficulty of a card after its first rating.
+   *
+   * @param {number} rating - The FSRS rating.
+   * @return {number} The initial difficulty, clamped between 1 and 10.
+   */
+  private initialDifficulty(rating: number): number {
+    return this.clampDifficulty(this.weights[4] - (rating - 3) * this.weights[5]);
+  }
+
+  /**
+   * Computes the next difficulty, applying mean reversion towards the initial "Good" difficulty.
+   *
+   * @param {number} difficulty - The current difficulty.
+   * @param {number} rating - The FSRS rating.
+   * @return {number} The next difficulty, clamped between 1 and 10.
+   */
+  private nextDifficulty(difficulty: number, rating: number): number {
+    const next = difficulty - this.weights[6] * (rating - 3);
+    const reverted = this.weights[7] * this.initialDifficulty(3) + (1 - this.weights[7]) * next;
+    return this.clampDifficulty(reverted);
+  }
+
+  /**
+   * Computes the stability after a successful recall.
+   *
+   * @param {number} difficulty - The current difficulty.
+   * @param {number} stability - The current stability.
+   * @param {number} retrievability - The probability of recall at review time.
+   * @param {number} rating - The FSRS rating (2 to 4).
+   * @return {number} The next stability.
+   */
+  private recallStability(difficulty: number, stability: number, retrievability: number, rating: number): number {
+    const hardPenalty = rating === 2 ? this.weights[15] : 1;
+    const easyBonus = rating === 4 ? this.weights[16] : 1;
+    return stability * (
+      1 +
+      Math.exp(this.weights[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -this.weights[9]) *
+      (Math.exp((1 - retrievability) * this.weights[10]) - 1) *
+      hardPenalty *
+      easyBonus
+    );
+  }
+
+  /**
+   * Computes the stability after a lapse.
+   *
+   * @param {number} difficulty - The current difficulty.
+   * @param {number} stability - The current stability.
+   * @param {number} retrievability - The probability of recall at review time.
+   * @return {number} The next stability.
+   */
+  private forgetStability(difficulty: number, stability: number, retrievability: number): number {
+    return this.weights[11] *
+      Math.pow(difficulty, -this.weights[12]) *
+      (Math.pow(stability + 1, this.weights[13]) - 1) *
+      Math.exp((1 - retrievability) * this.weights[14]);
+  }
+
+  /**
+   * Converts a stability into the interval that reaches the requested retention.
+   *
+   * @param {number} stability - The memory stability in days.
+   * @return {number} The interval in whole days.
+   */
+  private nextInterval(stability: number): number {
+    const interval = stability / FACTOR * (Math.pow(this.requestRetention, 1 / DECAY) - 1);
+    return Math.min(Math.max(Math.round(interval), 1), this.maximumInterval);
+  }
+
+  /**
+   * Clamps a difficulty value between 1 and 10.
+   *
+   * @param {number} difficulty - The difficulty to clamp.
+   * @return {number} The clamped difficulty.
+   */
+  private clampDifficulty(difficulty: number): number {
+    return Math.min(Math.max(difficulty, 1), 10);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Deck Manager API - SM-2 Scheduler
+ *
+ * @file SM2Scheduler.ts
+ * This module implements the SuperMemo 2 (SM-2) spaced-repetition algorithm.
+ * The grade given by the user (0 to 5) determines the interval until the next review,
+ * and a successful recall (3 and above) updates the ease factor of the card. Grades
+ * below 3 reset the repetition count and the interval, keeping the ease factor, and
+ * count as a lapse if the card was already learned.
+ *
+ * @module service
+ * @file SM2Scheduler.ts
+ * @class SM2Scheduler
+ * @classdesc Computes review intervals using the SM-2 algorithm.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {ReviewAlgorithm, ReviewScheduler, SchedulingResult, SchedulingState} from "../../interface/ReviewState";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scheduler implementing the SM-2 algorithm.
+ */
+export class SM2Scheduler implements ReviewScheduler {
+  readonly algorithm: ReviewAlgorithm = "SM2";
+
+  /**
+   * The ease factor assigned to cards that have never been reviewed.
+   */
+  static readonly INITIAL_EASE_FACTOR = 2.5;
+
+  /**
+   * The lowest ease factor a card can reach.
+   */
+  static readonly MINIMUM_EASE_FACTOR = 1.3;
+
+  /**
+   * Computes the next scheduling state of a card using SM-2.
+   *
+   * @param {SchedulingState | null} state - The current state, or null if the card was never reviewed.
+   * @param {number} grade - The grade given by the user (0 to 5).
+   * @param {Date} reviewedAt - The moment the review took place.
+   * @return {SchedulingResult} The next scheduling state and due date.
+   */
+  public schedule(state: SchedulingState | null, grade: number, reviewedAt: Date): SchedulingResult {
+    const easeFactor = state?.ease_factor ?? SM2Scheduler.INITIAL_EASE_FACTOR;
+    let nextEaseFactor = easeFactor;
+    let repetitions = state?.repetitions ?? 0;
+    let lapses = state?.lapses ?? 0;
+    let interval: number;
+
+    if (grade < 3) {
+      // Failed recall, relearn the card from the start
+      if (repetitions > 0) lapses++;
+      repetitions = 0;
+      interval = 1;
+    } else {
+      if (repetitions === 0) {
+        interval = 1;
+      } else if (repetitions === 1) {
+        interval = 6;
+      } else {
+        interval = Math.round((state?.interval ?? 1) * easeFactor);
+      }
+      repetitions++;
+
+      nextEaseFactor = Math.max(
+        SM2Scheduler.MINIMUM_EASE_FACTOR,
+        easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+      );
+    }
+
+    return {
+      ease_factor: Number(nextEaseFactor.toFixed(2)),
+      interval,
+      repetitions,
+      lapses,
+      stability: state?.stability ?? null,
+      difficulty: state?.difficulty ?? null,
+      last_reviewed_at: reviewedAt,
+      due_at: new Date(reviewedAt.getTime() + interval * DAY_IN_MS),
+    };
+  }
+}
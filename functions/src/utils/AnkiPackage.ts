@@ -0,0 +1,433 @@
+/**
+ * Anki Package Utility
+ *
+ * @file AnkiPackage.ts
+ * This module reads and writes Anki packages (`.apkg`). A package is a zip archive holding
+ * an SQLite collection (`collection.anki21` or `collection.anki2`, schema version 11) and a
+ * `media` manifest. Notes are read with their fields, tags and deck; note fields are converted
+ * from HTML to plain text and cloze deletions are split into a question and an answer.
+ * Written packages contain a single deck and a basic Front/Back note type.
+ *
+ * Packages exported by recent Anki versions without "Support older Anki versions" only contain
+ * a `collection.anki21b` (zstd-compressed, newer schema), which is not supported.
+ *
+ * @module utils
+ * @file AnkiPackage.ts
+ * @class AnkiPackage
+ * @classdesc Helper methods to read and write Anki `.apkg` packages.
+ * @author agent
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import {createHash} from "crypto";
+import JSZip from "jszip";
+import initSqlJs, {Database, SqlJsStatic} from "sql.js";
+
+/**
+ * A note read from an Anki package.
+ */
+export interface AnkiNote {
+  term: string;
+  definition: string;
+  tags: string[];
+}
+
+/**
+ * A flashcard written to an Anki package.
+ */
+export interface AnkiCard {
+  id: string;
+  term: string;
+  definition: string;
+  tags?: string[];
+}
+
+const SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+    models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+    flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+    ivl integer not null, factor integer not null, reps integer not null, lapses integer not null,
+    left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+/**
+ * Helper class to read and write Anki packages.
+ */
+export class AnkiPackage {
+  /**
+   * The ID of the note type written to packages. It is kept constant so Anki recognizes
+   * the note type of decks exported several times.
+   */
+  static readonly MODEL_ID = 1729300000000;
+
+  /**
+   * The lazily initialized sql.js module.
+   */
+  private static sqlJs: Promise<SqlJsStatic> | null = null;
+
+  /**
+   * Reads the notes of an Anki package.
+   *
+   * @param {Buffer} buffer - The content of the `.apkg` file.
+   * @return {Promise<object>} A promise resolving to the name of the main deck and the notes, in creation order.
+   * @throws {Error} Throws INVALID_APKG if the file is not a readable package,
+   * or UNSUPPORTED_APKG_VERSION if it only contains the newer collection format.
+   */
+  static async read(buffer: Buffer): Promise<{deckName: string | null, notes: AnkiNote[]}> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch {
+      throw AnkiPackage.error("INVALID_APKG", "The file is not a valid Anki package");
+    }
+
+    const collection = zip.file("collection.anki21") ??
+      (zip.file("collection.anki21b") ? null : zip.file("collection.anki2"));
+
+    if (!collection) {
+      if (zip.file("collection.anki21b")) {
+        throw AnkiPackage.error(
+          "UNSUPPORTED_APKG_VERSION",
+          "This package uses the newest Anki format. Export it again with \"Support older Anki versions\" checked"
+        );
+      }
+      throw AnkiPackage.error("INVALID_APKG", "The Anki package does not contain a collection");
+    }
+
+    const SQL = await AnkiPackage.loadSqlJs();
+    let db: Database | null = null;
+    try {
+      db = new SQL.Database(await collection.async("uint8array"));
+
+      const col = db.exec("SELECT models, decks FROM col LIMIT 1");
+      const models = JSON.parse(col[0].values[0][0] as string);
+      const decks = JSON.parse(col[0].values[0][1] as string);
+
+      const rows = db.exec(`
+        SELECT n.mid, n.tags, n.flds, (SELECT c.did FROM cards c WHERE c.nid = n.id ORDER BY c.ord LIMIT 1)
+        FROM notes n ORDER BY n.id
+      `)[0]?.values ?? [];
+
+      const deckCounts = new Map<string, number>();
+      const notes = rows.map(([mid, tags, flds, did]) => {
+        deckCounts.set(String(did), (deckCounts.get(String(did)) ?? 0) + 1);
+        return AnkiPackage.toNote(models[String(mid)], String(flds), String(tags));
+      });
+
+      const mainDeckID = [...deckCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+      const deckName: string | null = mainDeckID && decks[mainDeckID] ?
+        String(decks[mainDeckID].name).split("::").join(" - ") :
+        null;
+
+      return {deckName, notes};
+    } catch (error) {
+      if (error instanceof Error && error.name === "INVALID_APKG") throw error;
+      throw AnkiPackage.error("INVALID_APKG", "The Anki collection could not be read");
+    } finally {
+      db?.close();
+    }
+  }
+
+  /**
+   * Writes a deck and its flashcards as an Anki package.
+   * Note GUIDs are derived from the deck and flashcard IDs, so importing a newer export
+   * of the same deck into Anki updates the existing notes instead of duplicating them.
+   *
+   * @param {string} deckID - The ID of the deck.
+   * @param {string} title - The title of the deck.
+   * @param {string} description - The description of the deck.
+   * @param {AnkiCard[]} flashcards - The flashcards of the deck.
+   * @return {Promise<Buffer>} A promise resolving to the content of the `.apkg` file.
+   */
+  static async write(deckID: string, title: string, description: string, flashcards: AnkiCard[]): Promise<Buffer> {
+    const SQL = await AnkiPackage.loadSqlJs();
+    const db = new SQL.Database();
+
+    try {
+      const now = Date.now();
+      const nowSeconds = Math.floor(now / 1000);
+      const ankiDeckID = 1000000000000 + parseInt(AnkiPackage.sha1(deckID).slice(0, 8), 16);
+
+      db.exec(SCHEMA);
+      db.run(
+        "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+        [
+          Math.floor(new Date(now).setUTCHours(0, 0, 0, 0) / 1000),
+          now,
+          now,
+          JSON.stringify(AnkiPackage.collectionConfig(flashcards.length)),
+          JSON.stringify({[AnkiPackage.MODEL_ID]: AnkiPackage.basicModel(ankiDeckID, nowSeconds)}),
+          JSON.stringify({
+            1: AnkiPackage.deck(1, "Default", "", nowSeconds),
+            [ankiDeckID]: AnkiPackage.deck(ankiDeckID, title, description, nowSeconds),
+          }),
+          JSON.stringify({1: AnkiPackage.deckConfig()}),
+        ]
+      );
+
+      const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+      const insertCard = db.prepare("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')");
+
+      flashcards.forEach((flashcard, i) => {
+        const id = now + i;
+        const tags = flashcard.tags?.length ? ` ${flashcard.tags.map((tag) => tag.replace(/\s+/g, "_")).join(" ")} ` : "";
+
+        insertNote.run([
+          id,
+          AnkiPackage.sha1(`${deckID}/${flashcard.id}`).slice(0, 10),
+          AnkiPackage.MODEL_ID,
+          nowSeconds,
+          tags,
+          `${AnkiPackage.toHtml(flashcard.term)}\x1f${AnkiPackage.toHtml(flashcard.definition)}`,
+          flashcard.term,
+          parseInt(AnkiPackage.sha1(flashcard.term).slice(0, 8), 16),
+        ]);
+        insertCard.run([id, id, ankiDeckID, nowSeconds, i + 1]);
+      });
+
+      insertNote.free();
+      insertCard.free();
+
+      const zip = new JSZip();
+      zip.file("collection.anki2", db.export());
+      zip.file("media", "{}");
+
+      return await zip.generateAsync({type: "nodebuffer", compression: "DEFLATE"});
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Converts the HTML of a note field to plain text.
+   *
+   * @param {string} html - The field content.
+   * @return {string} The plain text.
+   */
+  static stripHtml(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(div|p|li|h\d)>/gi, "\n")
+      .replace(/\[sound:[^\]]*\]/g, "")
+      .replace(/<[^>]*>/g, "")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, "\"")
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+      .replace(/&amp;/g, "&")
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  /**
+   * Maps an Anki note to a term and a definition.
+   * Cloze notes use the text with the deletions hidden as the term and revealed as the definition;
+   * other notes use their first two fields.
+   *
+   * @param {object | undefined} model - The note type of the note.
+   * @param {string} flds - The fields of the note, separated by the 0x1f character.
+   * @param {string} tags - The tags of the note, separated by spaces.
+   * @return {AnkiNote} The mapped note.
+   */
+  private static toNote(model: {type?: number} | undefined, flds: string, tags: string): AnkiNote {
+    const fields = flds.split("\x1f");
+    const noteTags = tags.trim().split(/\s+/).filter((tag) => tag.length > 0);
+
+    if (model?.type === 1) {
+      const cloze = /\{\{c\d+::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+      const extra = fields[1] ? `\n${AnkiPackage.stripHtml(fields[1])}` : "";
+      return {
+        term: AnkiPackage.stripHtml(fields[0].replace(cloze, (_, answer, hint) => (hint ? `[${hint}]` : "[...]"))),
+        definition: (AnkiPackage.stripHtml(fields[0].replace(cloze, "$1")) + extra).trim(),
+        tags: noteTags,
+      };
+    }
+
+    return {
+      term: AnkiPackage.stripHtml(fields[0] ?? ""),
+      definition: AnkiPackage.stripHtml(fields[1] ?? ""),
+      tags: noteTags,
+    };
+  }
+
+  /**
+   * Converts plain text to the HTML of a note field.
+   *
+   * @param {string} text - The plain text.
+   * @return {string} The escaped HTML, line breaks converted to `<br>`.
+   */
+  private static toHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/\r?\n/g, "<br>");
+  }
+
+  /**
+   * Builds the configuration of a collection.
+   *
+   * @param {number} cardCount - The number of cards in the collection.
+   * @return {object} The collection configuration.
+   */
+  private static collectionConfig(cardCount: number): object {
+    return {
+      nextPos: cardCount + 1,
+      estTimes: true,
+      activeDecks: [1],
+      sortType: "noteFld",
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: 1,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: AnkiPackage.MODEL_ID,
+      collapseTime: 1200,
+    };
+  }
+
+  /**
+   * Builds the basic Front/Back note type.
+   *
+   * @param {number} deckID - The Anki ID of the deck.
+   * @param {number} mod - The modification time, in seconds.
+   * @return {object} The note type.
+   */
+  private static basicModel(deckID: number, mod: number): object {
+    const field = (name: string, ord: number) => ({name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: []});
+    return {
+      id: AnkiPackage.MODEL_ID,
+      name: "Deck Manager Basic",
+      type: 0,
+      mod,
+      usn: -1,
+      sortf: 0,
+      did: deckID,
+      tmpls: [{
+        name: "Card 1",
+        ord: 0,
+        qfmt: "{{Front}}",
+        afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      }],
+      flds: [field("Front", 0), field("Back", 1)],
+      css: ".card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n",
+      latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n" +
+        "\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+      latexPost: "\\end{document}",
+      req: [[0, "all", [0]]],
+      tags: [],
+      vers: [],
+    };
+  }
+
+  /**
+   * Builds a deck of the collection.
+   *
+   * @param {number} id - The Anki ID of the deck.
+   * @param {string} name - The name of the deck.
+   * @param {string} desc - The description of the deck.
+   * @param {number} mod - The modification time, in seconds.
+   * @return {object} The deck.
+   */
+  private static deck(id: number, name: string, desc: string, mod: number): object {
+    return {
+      id,
+      name,
+      desc,
+      mod,
+      usn: -1,
+      collapsed: false,
+      browserCollapsed: false,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+      dyn: 0,
+      conf: 1,
+      extendNew: 0,
+      extendRev: 0,
+    };
+  }
+
+  /**
+   * Builds the default deck options.
+   *
+   * @return {object} The deck options.
+   */
+  private static deckConfig(): object {
+    return {
+      id: 1,
+      name: "Default",
+      mod: 0,
+      usn: 0,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      dyn: false,
+      new: {delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: false, separate: true},
+      rev: {perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: false, minSpace: 1},
+      lapse: {delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0},
+    };
+  }
+
+  /**
+   * Computes the hexadecimal SHA-1 digest of a string.
+   *
+   * @param {string} value - The string to hash.
+   * @return {string} The digest.
+   */
+  private static sha1(value: string): string {
+    return createHash("sha1").update(value).digest("hex");
+  }
+
+  /**
+   * Loads the sql.js module once.
+   *
+   * @return {Promise<SqlJsStatic>} The sql.js module.
+   */
+  private static loadSqlJs(): Promise<SqlJsStatic> {
+    if (!AnkiPackage.sqlJs) {
+      AnkiPackage.sqlJs = initSqlJs();
+    }
+    return AnkiPackage.sqlJs;
+  }
+
+  /**
+   * Creates a named error.
+   *
+   * @param {string} name - The error code.
+   * @param {string} message - The error message.
+   * @return {Error} The error.
+   */
+  private static error(name: string, message: string): Error {
+    const error = new Error(message);
+    error.name = name;
+    return error;
+  }
+}
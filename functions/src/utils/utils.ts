@@ -4,7 +4,8 @@
  *
  * @file Utils.ts
  * This module defines a utility class `Utils` that provides helper methods for common operations.
- * These include cleaning and formatting title strings, formatting date objects, and shuffling arrays.
+ * These include cleaning and formatting title strings, formatting date objects, shuffling arrays,
+ * parsing delimited text (CSV/TSV) and building the token index used by keyword search.
  *
  * @module utils
  * @file Utils.ts
@@ -12,9 +13,14 @@
  * @classdesc A utility class containing helper methods for common operations.
  * @author Arthur M. Artugue
  * @created 2025-03-30
- * @updated 2025-04-04
+ * @updated 2026-10-19
  */
 export class Utils {
+  /**
+   * The longest prefix stored in the search index; longer query words are truncated to it.
+   */
+  static readonly MAX_SEARCH_PREFIX_LENGTH = 15;
+
   /**
    * Cleans and formats a title string.
    * 1. Replaces consecutive spaces with a single space.
@@ -59,4 +65,160 @@ export class Utils {
     }
     return shuffledArray;
   }
+
+  /**
+   * Parses delimited text (CSV, TSV, ...) into rows of cells.
+   * Follows RFC 4180: fields may be wrapped in double quotes, in which case they can contain
+   * the delimiter, line breaks and escaped quotes (`""`). Both LF and CRLF line endings are accepted,
+   * a leading byte order mark is ignored, and blank lines are skipped.
+   *
+   * @param {string} content - The delimited text.
+   * @param {string} delimiter - The single character separating the fields.
+   * @return {Array<object>} The rows, each with the line number it starts on and its cells.
+   * @throws {Error} Throws UNTERMINATED_QUOTED_FIELD if a quoted field is never closed.
+   */
+  static parseDelimited(content: string, delimiter: string): Array<{line: number, cells: string[]}> {
+    const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+    const rows: Array<{line: number, cells: string[]}> = [];
+    let cells: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    let line = 1;
+    let rowStart = 1;
+
+    const endRow = () => {
+      cells.push(field);
+      if (cells.length > 1 || cells[0].trim() !== "") {
+        rows.push({line: rowStart, cells});
+      }
+      cells = [];
+      field = "";
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === "\"") {
+          if (text[i + 1] === "\"") {
+            field += "\"";
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else if (char === "\r" && text[i + 1] === "\n") {
+          continue;
+        } else {
+          if (char === "\n" || char === "\r") line++;
+          field += char === "\r" ? "\n" : char;
+        }
+        continue;
+      }
+
+      if (char === "\"" && field === "") {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        cells.push(field);
+        field = "";
+      } else if (char === "\r" && text[i + 1] === "\n") {
+        continue;
+      } else if (char === "\n" || char === "\r") {
+        endRow();
+        line++;
+        rowStart = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      const error = new Error(`The quoted field starting on line ${rowStart} is never closed`);
+      error.name = "UNTERMINATED_QUOTED_FIELD";
+      throw error;
+    }
+
+    if (field !== "" || cells.length > 0) endRow();
+
+    return rows;
+  }
+
+  /**
+   * Splits a text into lowercase words for search, in any script. Accents are removed and every
+   * character that is not a letter, a digit or a combining mark of the word (e.g. a Devanagari
+   * vowel sign) separates words. Indexed texts and queries both go through it, so they match.
+   *
+   * @param {string} text - The text to split.
+   * @return {string[]} The words of the text.
+   */
+  static searchWords(text: string): string[] {
+    return text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "") // Strip accents
+      .normalize("NFC")
+      .toLowerCase()
+      .split(/[^\p{L}\p{M}\p{N}]+/u)
+      .filter((word) => /[\p{L}\p{N}]/u.test(word));
+  }
+
+  /**
+   * Normalizes a deck tag: the words of the tag (see `searchWords`) joined with hyphens,
+   * so `Cell Biology` and `cell-biology` are the same tag.
+   *
+   * @param {string} tag - The tag as typed.
+   * @return {string} The normalized tag, empty when the tag has no letter or digit.
+   */
+  static normalizeTag(tag: string): string {
+    return Utils.searchWords(tag).join("-");
+  }
+
+  /**
+   * Builds the search tokens of a deck: every word of the given texts and its prefixes
+   * from 2 up to `MAX_SEARCH_PREFIX_LENGTH` characters, so partial words match.
+   *
+   * @param {string[]} texts - The texts to index (e.g. the title and the description).
+   * @return {string[]} The unique tokens.
+   */
+  static searchTokens(...texts: string[]): string[] {
+    const tokens = new Set<string>();
+    for (const word of texts.flatMap((text) => Utils.searchWords(text ?? ""))) {
+      const longest = Math.min(word.length, Utils.MAX_SEARCH_PREFIX_LENGTH);
+      for (let length = Math.min(2, word.length); length <= longest; length++) {
+        tokens.add(word.slice(0, length));
+      }
+    }
+    return [...tokens];
+  }
+
+  /**
+   * Builds the tokens of a search query, matched against the search tokens of the decks.
+   * Firestore accepts at most 30 values in an `array-contains-any` filter.
+   *
+   * @param {string} query - The search query.
+   * @return {string[]} Up to 30 unique tokens.
+   */
+  static searchQueryTokens(query: string): string[] {
+    const words = Utils.searchWords(query).map((word) => word.slice(0, Utils.MAX_SEARCH_PREFIX_LENGTH));
+    return [...new Set(words)].slice(0, 30);
+  }
+
+  /**
+   * Scores how well a text matches the query tokens, from 0 to 1. A token found in the
+   * primary text (e.g. a title or a term) counts twice as much as a token only found in
+   * the secondary text (e.g. a description or a definition).
+   *
+   * @param {string[]} tokens - The query tokens.
+   * @param {string} primary - The primary text.
+   * @param {string} secondary - The secondary text.
+   * @return {number} The keyword score.
+   */
+  static keywordScore(tokens: string[], primary: string, secondary: string): number {
+    if (tokens.length === 0) return 0;
+
+    const primaryTokens = new Set(Utils.searchTokens(primary ?? ""));
+    const secondaryTokens = new Set(Utils.searchTokens(secondary ?? ""));
+    const points = tokens.reduce((sum, token) =>
+      sum + (primaryTokens.has(token) ? 2 : secondaryTokens.has(token) ? 1 : 0), 0);
+
+    return points / (tokens.length * 2);
+  }
 }